@@ -15,7 +15,11 @@ import Signup from "@/pages/Signup";
 import Home from "@/pages/Home";
 import Dashboard from "@/pages/Dashboard";
 import Benchmarks from "@/pages/Benchmarks";
+import Schedules from "@/pages/Schedules";
 import Resources from "@/pages/Resources";
+import Inventory from "@/pages/Inventory";
+import Suppressions from "@/pages/Suppressions";
+import TagPolicies from "@/pages/TagPolicies";
 import SqlExplorer from "@/pages/SqlExplorer";
 import AwsAccounts from "@/pages/AwsAccounts";
 import Settings from "@/pages/Settings";
@@ -39,7 +43,11 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/benchmarks" component={Benchmarks} />
+      <Route path="/schedules" component={Schedules} />
       <Route path="/resources" component={Resources} />
+      <Route path="/inventory" component={Inventory} />
+      <Route path="/suppressions" component={Suppressions} />
+      <Route path="/tag-policies" component={TagPolicies} />
       <Route path="/sql-explorer" component={SqlExplorer} />
       <Route path="/aws-accounts" component={AwsAccounts} />
       <Route path="/settings" component={Settings} />
@@ -6,6 +6,10 @@ import {
   CheckSquare,
   Search,
   Cloud,
+  CalendarClock,
+  ShieldOff,
+  Boxes,
+  Tags,
 } from "lucide-react";
 import {
   Sidebar,
@@ -30,11 +34,31 @@ const menuItems = [
     url: "/benchmarks",
     icon: CheckSquare,
   },
+  {
+    title: "Schedules",
+    url: "/schedules",
+    icon: CalendarClock,
+  },
   {
     title: "Resources",
     url: "/resources",
     icon: Database,
   },
+  {
+    title: "Inventory",
+    url: "/inventory",
+    icon: Boxes,
+  },
+  {
+    title: "Suppressions",
+    url: "/suppressions",
+    icon: ShieldOff,
+  },
+  {
+    title: "Tag Policies",
+    url: "/tag-policies",
+    icon: Tags,
+  },
   {
     title: "SQL Explorer",
     url: "/sql-explorer",
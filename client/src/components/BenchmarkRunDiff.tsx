@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { FindingDiff, FindingDiffStatus } from "@shared/schema";
+
+interface BenchmarkRun {
+  id: string;
+  executedAt: string;
+}
+
+interface BenchmarkRunDiffProps {
+  benchmarkName: string;
+  runs: BenchmarkRun[]; // Newest first
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const statusLabels: Record<FindingDiffStatus, string> = {
+  new: "New",
+  resolved: "Resolved",
+  persisting: "Still open",
+};
+
+const statusVariants: Record<FindingDiffStatus, "destructive" | "default" | "secondary"> = {
+  new: "destructive",
+  resolved: "default",
+  persisting: "secondary",
+};
+
+const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDelta = (cents: number) =>
+  cents === 0 ? formatCurrency(0) : `${cents > 0 ? "+" : "-"}${formatCurrency(Math.abs(cents))}`;
+
+export default function BenchmarkRunDiff({ benchmarkName, runs, open, onOpenChange }: BenchmarkRunDiffProps) {
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  // Default to comparing the latest run with the one before it each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTargetId(runs[0]?.id ?? null);
+      setBaseId(runs[1]?.id ?? null);
+    }
+  }, [open]);
+
+  const { data: diff, isLoading, error } = useQuery<FindingDiff>({
+    queryKey: ["/api/benchmarks/diff", { targetId, baseId }],
+    queryFn: async () => {
+      const response = await fetch(`/api/benchmarks/diff?target=${targetId}&base=${baseId}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to compare benchmark runs');
+      }
+      return response.json();
+    },
+    enabled: open && !!targetId && !!baseId && targetId !== baseId,
+  });
+
+  const formatRun = (run: BenchmarkRun) => new Date(run.executedAt).toLocaleString();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{benchmarkName} - Compare Runs</DialogTitle>
+          <DialogDescription>
+            Findings matched by control and resource between two runs
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">From</p>
+            <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+              <SelectTrigger data-testid="select-diff-base">
+                <SelectValue placeholder="Select a run" />
+              </SelectTrigger>
+              <SelectContent>
+                {runs.map((run) => (
+                  <SelectItem key={run.id} value={run.id}>{formatRun(run)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">To</p>
+            <Select value={targetId ?? undefined} onValueChange={setTargetId}>
+              <SelectTrigger data-testid="select-diff-target">
+                <SelectValue placeholder="Select a run" />
+              </SelectTrigger>
+              <SelectContent>
+                {runs.map((run) => (
+                  <SelectItem key={run.id} value={run.id}>{formatRun(run)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {targetId && targetId === baseId ? (
+          <p className="text-sm text-muted-foreground">Select two different runs to compare.</p>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : diff ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">New</p>
+                <p className="text-2xl font-semibold text-destructive" data-testid="text-diff-new">{diff.summary.new}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">Resolved</p>
+                <p className="text-2xl font-semibold text-green-600" data-testid="text-diff-resolved">{diff.summary.resolved}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">Still open</p>
+                <p className="text-2xl font-semibold" data-testid="text-diff-persisting">{diff.summary.persisting}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">Savings delta/mo</p>
+                <p className="text-2xl font-semibold" data-testid="text-diff-savings-delta">{formatDelta(diff.summary.savingsDelta)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(diff.summary.baseSavings)} → {formatCurrency(diff.summary.targetSavings)}
+                </p>
+              </div>
+            </div>
+
+            {diff.findings.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">Neither run has findings.</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Resource ID</TableHead>
+                      <TableHead>Region</TableHead>
+                      <TableHead>Control</TableHead>
+                      <TableHead className="text-right">Savings/mo</TableHead>
+                      <TableHead className="text-right">Delta</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.findings.map((finding) => (
+                      <TableRow key={`${finding.controlId}:${finding.resourceId}`} data-testid={`row-diff-${finding.status}`}>
+                        <TableCell>
+                          <Badge variant={statusVariants[finding.status]}>{statusLabels[finding.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{finding.resourceId || "N/A"}</TableCell>
+                        <TableCell className="text-sm">{finding.region || "—"}</TableCell>
+                        <TableCell className="max-w-xs text-sm">{finding.controlName}</TableCell>
+                        <TableCell className="text-right text-sm">
+                          {formatCurrency(finding.status === "resolved" ? finding.baseSavings : finding.targetSavings)}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">{formatDelta(finding.savingsDelta)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
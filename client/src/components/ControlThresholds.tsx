@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import type { AwsAccount, ControlThresholdOverrides } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+interface ControlParameter {
+  key: string;
+  label: string;
+  description: string;
+  unit: "days" | "MB" | "GB" | "units" | "cents" | "percent";
+  default: number;
+  min: number;
+  max: number;
+}
+
+interface ControlMetadata {
+  id: string;
+  title: string;
+  parameters: ControlParameter[];
+}
+
+interface ControlSettingsResponse {
+  defaults: ControlThresholdOverrides;
+  accounts: Record<string, ControlThresholdOverrides>;
+}
+
+const ORG_DEFAULTS = "defaults";
+
+// Draft input values keyed by "controlId.parameterKey"; empty means inherit
+type Draft = Record<string, string>;
+
+// Minimum savings are stored in cents but edited in dollars
+const toInput = (parameter: ControlParameter, value: number) =>
+  parameter.unit === "cents" ? String(value / 100) : String(value);
+const fromInput = (parameter: ControlParameter, value: string) =>
+  parameter.unit === "cents" ? Math.round(parseFloat(value) * 100) : parseFloat(value);
+const unitLabel = (parameter: ControlParameter) =>
+  parameter.unit === "cents" ? "$/month" : parameter.unit === "percent" ? "%" : parameter.unit;
+
+export function ControlThresholds() {
+  const { toast } = useToast();
+  const [scope, setScope] = useState(ORG_DEFAULTS);
+  const [draft, setDraft] = useState<Draft>({});
+
+  const { data: controls, isLoading: controlsLoading } = useQuery<ControlMetadata[]>({
+    queryKey: ["/api/controls"],
+  });
+
+  const { data: accounts } = useQuery<AwsAccount[]>({
+    queryKey: ["/api/aws-accounts"],
+  });
+
+  const { data: settings, isLoading: settingsLoading } = useQuery<ControlSettingsResponse>({
+    queryKey: ["/api/control-settings"],
+  });
+
+  const tunableControls = (controls || []).filter((control) => control.parameters.length > 0);
+  const scopeThresholds = scope === ORG_DEFAULTS ? settings?.defaults : settings?.accounts[scope];
+
+  // Reload the draft whenever the scope or saved settings change
+  useEffect(() => {
+    if (!controls) return;
+    const next: Draft = {};
+    for (const control of controls) {
+      for (const parameter of control.parameters) {
+        const value = scopeThresholds?.[control.id]?.[parameter.key];
+        next[`${control.id}.${parameter.key}`] = value === undefined ? "" : toInput(parameter, value);
+      }
+    }
+    setDraft(next);
+  }, [scope, settings, controls]);
+
+  // The value used when this scope leaves a parameter empty
+  const inheritedValue = (controlId: string, parameter: ControlParameter) => {
+    const orgValue = scope === ORG_DEFAULTS ? undefined : settings?.defaults[controlId]?.[parameter.key];
+    return toInput(parameter, orgValue ?? parameter.default);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const thresholds: ControlThresholdOverrides = {};
+      for (const control of tunableControls) {
+        for (const parameter of control.parameters) {
+          const input = draft[`${control.id}.${parameter.key}`]?.trim();
+          if (!input) continue;
+          thresholds[control.id] = { ...thresholds[control.id], [parameter.key]: fromInput(parameter, input) };
+        }
+      }
+      await apiRequest("PUT", "/api/control-settings", {
+        awsAccountId: scope === ORG_DEFAULTS ? null : scope,
+        thresholds,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/control-settings"] });
+      toast({
+        title: "Success",
+        description: "Control thresholds saved. They apply to the next benchmark run.",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save control thresholds",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Control Thresholds</CardTitle>
+        <CardDescription>
+          Tune age limits, capacity cutoffs and minimum savings. Account settings override the
+          org-wide defaults; empty fields inherit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-xs space-y-2">
+          <Label>Apply to</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger data-testid="select-threshold-scope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ORG_DEFAULTS}>Org-wide defaults</SelectItem>
+              {(accounts || []).map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.nickname}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {controlsLoading || settingsLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {tunableControls.map((control) => (
+              <div key={control.id} className="space-y-3 border-b pb-4 last:border-b-0">
+                <div>
+                  <p className="font-medium">{control.title}</p>
+                  <p className="text-xs text-muted-foreground font-mono">{control.id}</p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {control.parameters.map((parameter) => {
+                    const key = `${control.id}.${parameter.key}`;
+                    return (
+                      <div key={key} className="space-y-1">
+                        <Label htmlFor={key}>
+                          {parameter.label} ({unitLabel(parameter)})
+                        </Label>
+                        <Input
+                          id={key}
+                          type="number"
+                          min={toInput(parameter, parameter.min)}
+                          max={toInput(parameter, parameter.max)}
+                          value={draft[key] ?? ""}
+                          placeholder={inheritedValue(control.id, parameter)}
+                          onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                          data-testid={`input-threshold-${control.id}-${parameter.key}`}
+                        />
+                        <p className="text-xs text-muted-foreground">{parameter.description}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || controlsLoading || settingsLoading}
+          data-testid="button-save-thresholds"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Thresholds"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { InventoryChangeType, InventoryDiff, InventoryFieldChange } from "@shared/schema";
+
+export interface InventoryScan {
+  benchmarkResultId: string;
+  capturedAt: string;
+}
+
+interface InventoryChangesProps {
+  awsAccountId: string;
+  scans: InventoryScan[]; // Newest first
+}
+
+// Collector kinds as shown to users
+const resourceTypeLabels: Record<string, string> = {
+  "ec2:instances": "EC2 instances",
+  "ec2:volumes": "EBS volumes",
+  "ec2:snapshots": "EBS snapshots",
+  "ec2:images": "AMIs",
+  "ec2:addresses": "Elastic IPs",
+  "rds:db-instances": "RDS instances",
+  "rds:db-snapshots": "RDS snapshots",
+  "s3:buckets": "S3 buckets",
+  "dynamodb:tables": "DynamoDB tables",
+  "elasticache:cache-clusters": "ElastiCache clusters",
+  "redshift:clusters": "Redshift clusters",
+  "lambda:functions": "Lambda functions",
+  "elb:load-balancers": "Load balancers",
+  "elb:classic-load-balancers": "Classic load balancers",
+  "ec2:nat-gateways": "NAT gateways",
+  "ec2:vpc-endpoints": "VPC endpoints",
+  "ec2:network-interfaces": "Network interfaces",
+};
+
+export const inventoryTypeLabel = (resourceType: string) => resourceTypeLabels[resourceType] || resourceType;
+
+const changeLabels: Record<InventoryChangeType, string> = {
+  created: "Created",
+  deleted: "Deleted",
+  modified: "Modified",
+};
+
+const changeVariants: Record<InventoryChangeType, "destructive" | "default" | "secondary"> = {
+  created: "default",
+  deleted: "destructive",
+  modified: "secondary",
+};
+
+const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDelta = (cents: number) =>
+  cents === 0 ? formatCurrency(0) : `${cents > 0 ? "+" : "-"}${formatCurrency(Math.abs(cents))}`;
+
+const formatValue = (value: InventoryFieldChange["before"]) => (value === null ? "—" : String(value));
+
+/**
+ * Resources created, deleted or modified between two inventory scans of an account
+ */
+export default function InventoryChanges({ awsAccountId, scans }: InventoryChangesProps) {
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  // Default to comparing the latest scan with the one before it whenever the account changes
+  useEffect(() => {
+    setTargetId(scans[0]?.benchmarkResultId ?? null);
+    setBaseId(scans[1]?.benchmarkResultId ?? null);
+  }, [awsAccountId, scans.length]);
+
+  const { data: diff, isLoading, error } = useQuery<InventoryDiff>({
+    queryKey: ["/api/inventory/changes", { awsAccountId, targetId, baseId }],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/inventory/changes?awsAccountId=${encodeURIComponent(awsAccountId)}&target=${targetId}&base=${baseId}`,
+        { credentials: 'include' }
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to compare inventory');
+      }
+      return response.json();
+    },
+    enabled: !!targetId && !!baseId && targetId !== baseId,
+  });
+
+  const formatScan = (scan: InventoryScan) => new Date(scan.capturedAt).toLocaleString();
+
+  if (scans.length < 2) {
+    return (
+      <p className="text-center py-12 text-muted-foreground">
+        Changes are shown once this account has been scanned at least twice.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <p className="text-sm text-muted-foreground">From</p>
+          <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+            <SelectTrigger data-testid="select-inventory-base">
+              <SelectValue placeholder="Select a scan" />
+            </SelectTrigger>
+            <SelectContent>
+              {scans.map((scan) => (
+                <SelectItem key={scan.benchmarkResultId} value={scan.benchmarkResultId}>{formatScan(scan)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-sm text-muted-foreground">To</p>
+          <Select value={targetId ?? undefined} onValueChange={setTargetId}>
+            <SelectTrigger data-testid="select-inventory-target">
+              <SelectValue placeholder="Select a scan" />
+            </SelectTrigger>
+            <SelectContent>
+              {scans.map((scan) => (
+                <SelectItem key={scan.benchmarkResultId} value={scan.benchmarkResultId}>{formatScan(scan)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {targetId && targetId === baseId ? (
+        <p className="text-sm text-muted-foreground">Select two different scans to compare.</p>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      ) : diff ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Created</p>
+              <p className="text-2xl font-semibold" data-testid="text-inventory-created">{diff.summary.created}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Deleted</p>
+              <p className="text-2xl font-semibold" data-testid="text-inventory-deleted">{diff.summary.deleted}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Modified</p>
+              <p className="text-2xl font-semibold" data-testid="text-inventory-modified">{diff.summary.modified}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Cost impact/mo</p>
+              <p className="text-2xl font-semibold" data-testid="text-inventory-cost-impact">
+                {formatDelta(diff.summary.costImpactCents)}
+              </p>
+              {diff.summary.unpricedChanges > 0 && (
+                <p className="text-xs text-muted-foreground">{diff.summary.unpricedChanges} changes without prices</p>
+              )}
+            </div>
+          </div>
+
+          {diff.changes.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No resources changed between these scans.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Resource ID</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Region</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Cost impact/mo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.changes.map((change) => (
+                    <TableRow
+                      key={`${change.resourceType}:${change.region}:${change.resourceId}`}
+                      data-testid={`row-inventory-change-${change.changeType}`}
+                    >
+                      <TableCell>
+                        <Badge variant={changeVariants[change.changeType]}>{changeLabels[change.changeType]}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {change.resourceId}
+                        {change.name && <div className="text-xs text-muted-foreground font-sans">{change.name}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{inventoryTypeLabel(change.resourceType)}</TableCell>
+                      <TableCell className="text-sm">{change.region}</TableCell>
+                      <TableCell className="text-xs">
+                        {change.changes.map((field) => (
+                          <div key={field.field}>
+                            {field.field}: {formatValue(field.before)} → {formatValue(field.after)}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {change.costImpactCents === null ? "—" : formatDelta(change.costImpactCents)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
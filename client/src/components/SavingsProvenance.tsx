@@ -0,0 +1,88 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { SavingsConfidence, SavingsInputs, SavingsSource } from "@shared/schema";
+
+interface SavingsProvenanceProps {
+  id: string;
+  source: SavingsSource | null;
+  confidence: SavingsConfidence | null;
+  inputs: SavingsInputs | null;
+}
+
+const sourceLabels: Record<SavingsSource, string> = {
+  "resource-cost": "Resource cost (Cost Explorer)",
+  "list-price": "List price (price catalog)",
+  "service-share": "Share of service cost",
+  "fallback": "Built-in estimate",
+  "no-data": "No cost data",
+  "unmapped": "No savings model",
+};
+
+const confidenceVariants: Record<SavingsConfidence, "default" | "secondary" | "outline"> = {
+  high: "default",
+  medium: "secondary",
+  low: "outline",
+};
+
+const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+/**
+ * The values an estimate was calculated from, one line each
+ */
+function describeInputs(inputs: SavingsInputs): string[] {
+  const lines: string[] = [];
+  if (inputs.savingsModel) lines.push(`Model: ${inputs.savingsModel}`);
+  if (inputs.dailyCostCents !== undefined) lines.push(`Daily cost: ${formatCurrency(inputs.dailyCostCents)}`);
+  if (inputs.serviceMonthlyCostCents !== undefined) {
+    lines.push(
+      `Service cost: ${formatCurrency(inputs.serviceMonthlyCostCents)}/mo, split ` +
+      (inputs.resourceCount ? `across ${inputs.resourceCount} resources` : "at a 3% default share")
+    );
+  }
+  if (inputs.monthlyCostCents !== undefined) lines.push(`Monthly cost: ${formatCurrency(inputs.monthlyCostCents)}`);
+  if (inputs.savingsPercentage !== undefined) lines.push(`Savings applied: ${inputs.savingsPercentage}%`);
+  if (inputs.duplicateOf) {
+    lines.push(
+      `Already counted by ${inputs.duplicateOf}` +
+      (inputs.uncappedSavingsCents !== undefined ? ` (was ${formatCurrency(inputs.uncappedSavingsCents)})` : "")
+    );
+  }
+  if (inputs.capFactor !== undefined) {
+    lines.push(
+      `Capped to service spend: ×${inputs.capFactor}` +
+      (inputs.uncappedSavingsCents !== undefined ? ` (from ${formatCurrency(inputs.uncappedSavingsCents)})` : "")
+    );
+  }
+  return lines;
+}
+
+/**
+ * Confidence badge for a finding's savings estimate, with its source and inputs on hover
+ */
+export function SavingsProvenance({ id, source, confidence, inputs }: SavingsProvenanceProps) {
+  // Results saved before estimates carried provenance
+  if (!source || !confidence) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  const lines = describeInputs(inputs || {});
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex flex-col items-start gap-1 cursor-help" data-testid={`savings-provenance-${id}`}>
+          <Badge variant={confidenceVariants[confidence]} className="capitalize">
+            {confidence}
+          </Badge>
+          <span className="text-xs text-muted-foreground">{sourceLabels[source]}</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="font-medium">{sourceLabels[source]}</p>
+        {lines.map((line) => (
+          <p key={line} className="text-xs text-muted-foreground">{line}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
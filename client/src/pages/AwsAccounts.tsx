@@ -8,6 +8,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -42,6 +45,8 @@ export default function AwsAccounts() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<AwsAccount | null>(null);
   const [showSecrets, setShowSecrets] = useState<Record<string, boolean>>({});
+  const [scanRegionsDraft, setScanRegionsDraft] = useState<string[]>([]);
+  const [scanAllRegionsDraft, setScanAllRegionsDraft] = useState(false);
 
   const { data: accounts, isLoading } = useQuery<AwsAccount[]>({
     queryKey: ["/api/aws-accounts"],
@@ -121,6 +126,65 @@ export default function AwsAccounts() {
     },
   });
 
+  const updateRegionsMutation = useMutation({
+    mutationFn: async ({ id, scanRegions, scanAllRegions }: { id: string; scanRegions: string[] | null; scanAllRegions: boolean }) => {
+      await apiRequest("PATCH", `/api/aws-accounts/${id}/regions`, { scanRegions, scanAllRegions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/aws-accounts"] });
+      toast({
+        title: "Success",
+        description: "Scan regions updated successfully",
+      });
+      setEditingAccount(null);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update scan regions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditRegions = (account: AwsAccount) => {
+    setEditingAccount(account);
+    setScanRegionsDraft(account.scanRegions || []);
+    setScanAllRegionsDraft(account.scanAllRegions);
+  };
+
+  const toggleScanRegion = (region: string, checked: boolean) => {
+    setScanRegionsDraft((prev) =>
+      checked ? [...prev, region] : prev.filter((r) => r !== region)
+    );
+  };
+
+  const handleSaveRegions = () => {
+    if (!editingAccount) return;
+    updateRegionsMutation.mutate({
+      id: editingAccount.id,
+      scanRegions: scanRegionsDraft.length > 0 ? scanRegionsDraft : null,
+      scanAllRegions: scanAllRegionsDraft,
+    });
+  };
+
+  const formatScanRegions = (account: AwsAccount) => {
+    if (account.scanAllRegions) return "All enabled regions";
+    const regions = [account.region, ...(account.scanRegions || []).filter((r) => r !== account.region)];
+    return regions.join(", ");
+  };
+
   const handleSubmit = (data: AccountFormValues) => {
     createMutation.mutate(data);
   };
@@ -191,6 +255,14 @@ export default function AwsAccounts() {
                   <Badge variant={account.isActive ? "default" : "secondary"} data-testid={`badge-status-${account.id}`}>
                     {account.isActive ? "Active" : "Inactive"}
                   </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEditRegions(account)}
+                    data-testid={`button-edit-regions-${account.id}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -229,6 +301,12 @@ export default function AwsAccounts() {
                   <span className="text-sm text-muted-foreground">Region:</span>
                   <span className="text-sm" data-testid={`text-region-${account.id}`}>{account.region}</span>
                 </div>
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-muted-foreground">Scan Regions:</span>
+                  <span className="text-sm text-right" data-testid={`text-scan-regions-${account.id}`}>
+                    {formatScanRegions(account)}
+                  </span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Added:</span>
                   <span className="text-sm">
@@ -241,6 +319,63 @@ export default function AwsAccounts() {
         </div>
       )}
 
+      <Dialog open={!!editingAccount} onOpenChange={(open) => !open && setEditingAccount(null)}>
+        <DialogContent data-testid="dialog-edit-regions">
+          <DialogHeader>
+            <DialogTitle>Scan Regions</DialogTitle>
+            <DialogDescription>
+              Benchmarks always scan the default region ({editingAccount?.region}) and fan out to the regions selected here
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="scan-all-regions"
+                checked={scanAllRegionsDraft}
+                onCheckedChange={setScanAllRegionsDraft}
+                data-testid="switch-scan-all-regions"
+              />
+              <Label htmlFor="scan-all-regions" className="cursor-pointer">
+                Scan all enabled regions
+              </Label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {awsRegions.map((region) => (
+                <div key={region} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scan-region-${region}`}
+                    checked={scanAllRegionsDraft || region === editingAccount?.region || scanRegionsDraft.includes(region)}
+                    disabled={scanAllRegionsDraft || region === editingAccount?.region}
+                    onCheckedChange={(checked) => toggleScanRegion(region, checked === true)}
+                    data-testid={`checkbox-scan-region-${region}`}
+                  />
+                  <Label htmlFor={`scan-region-${region}`} className="text-sm font-normal cursor-pointer">
+                    {region}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setEditingAccount(null)}
+              data-testid="button-cancel-regions"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveRegions}
+              disabled={updateRegionsMutation.isPending}
+              data-testid="button-save-regions"
+            >
+              {updateRegionsMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent data-testid="dialog-add-account">
           <DialogHeader>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -20,10 +20,19 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Play, CheckCircle2, XCircle, ChevronRight, AlertTriangle } from "lucide-react";
+import { Play, CheckCircle2, XCircle, ChevronRight, AlertTriangle, Square, Loader2, GitCompare } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import type {
+  BenchmarkJob,
+  BenchmarkFindingEvent,
+  SavingsConfidence,
+  SavingsInputs,
+  SavingsSource,
+} from "@shared/schema";
+import BenchmarkRunDiff from "@/components/BenchmarkRunDiff";
+import { SavingsProvenance } from "@/components/SavingsProvenance";
 
 interface Benchmark {
   id: string;
@@ -39,14 +48,14 @@ interface Benchmark {
 const benchmarkMetadata: Record<string, { name: string; description: string; totalControls: number; service: string }> = {
   "ec2": {
     name: "EC2 Cost Optimization",
-    description: "Identify underutilized and idle EC2 instances",
-    totalControls: 8,
+    description: "Identify underutilized, idle and older generation EC2 instances",
+    totalControls: 9,
     service: "EC2",
   },
   "ebs": {
     name: "EBS Volume Optimization",
-    description: "Find unused and unattached EBS volumes",
-    totalControls: 5,
+    description: "Find unattached, gp2 and over-provisioned volumes, orphaned snapshots and unused AMIs",
+    totalControls: 6,
     service: "EBS",
   },
   "rds": {
@@ -57,19 +66,25 @@ const benchmarkMetadata: Record<string, { name: string; description: string; tot
   },
   "s3": {
     name: "S3 Storage Optimization",
-    description: "Identify opportunities for S3 storage class optimization",
-    totalControls: 4,
+    description: "Find storage class savings, incomplete multipart uploads and noncurrent version bloat per bucket",
+    totalControls: 6,
     service: "S3",
   },
   "elb": {
     name: "Load Balancer Optimization",
-    description: "Find unused and idle load balancers",
-    totalControls: 3,
+    description: "Find load balancers without targets or traffic, and Classic load balancers to migrate",
+    totalControls: 5,
     service: "ELB",
   },
+  "networking": {
+    name: "Networking Optimization",
+    description: "Find idle and duplicate NAT gateways, unused endpoints and costly data transfer",
+    totalControls: 5,
+    service: "VPC",
+  },
   "lambda": {
     name: "Lambda Function Optimization",
-    description: "Optimize Lambda memory and execution time",
+    description: "Right-size Lambda memory, move functions to arm64 and clean up unused ones",
     totalControls: 4,
     service: "Lambda",
   },
@@ -91,19 +106,37 @@ const benchmarkMetadata: Record<string, { name: string; description: string; tot
     totalControls: 2,
     service: "Redshift",
   },
+  "tagging": {
+    name: "Tagging Compliance",
+    description: "Find resources missing the tags your tag policies require",
+    totalControls: 16,
+    service: "Tagging",
+  },
 };
 
 // Normalize benchmark IDs to lowercase for consistent comparison
 const normalizeId = (id: string) => id.toLowerCase();
 
+const isActiveJob = (job: BenchmarkJob) => job.status === "queued" || job.status === "running";
+
+// Live updates arrive over Server-Sent Events; polling is a fallback if the stream drops
+const JOB_POLL_INTERVAL_MS = 10000;
+const RECENT_FINDINGS_LIMIT = 3;
+
 interface ResourceDetail {
   id: string;
   resourceId: string;
   resourceType: string;
+  region: string | null;
   controlName: string;
   passed: boolean;
   reason: string;
+  reviewNote: string | null; // Set when the recommended fix may not apply as-is
   estimatedSavings: number;
+  savingsSource: SavingsSource | null;
+  savingsConfidence: SavingsConfidence | null;
+  savingsInputs: SavingsInputs | null;
+  resourceMonthlyCost: number | null; // Cost of the resource itself, for findings without savings
   executedAt: string;
 }
 
@@ -111,6 +144,7 @@ export default function Benchmarks() {
   const { toast } = useToast();
   const [selectedBenchmarkId, setSelectedBenchmarkId] = useState<string | null>(null);
   const [showResourcesDialog, setShowResourcesDialog] = useState(false);
+  const [compareBenchmarkId, setCompareBenchmarkId] = useState<string | null>(null);
 
   const { data: apiResults, isLoading } = useQuery<Array<{
     id: string;
@@ -150,35 +184,134 @@ export default function Benchmarks() {
     };
   });
 
-  const runBenchmarkMutation = useMutation({
-    mutationFn: async (benchmarkId: string) => {
-      await apiRequest("POST", "/api/benchmarks/run", { benchmarkId, useSteampipe: false });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/benchmarks/results"] });
-      toast({
-        title: "Success",
-        description: "Benchmark executed successfully",
+  const { data: jobs } = useQuery<BenchmarkJob[]>({
+    queryKey: ["/api/benchmarks/jobs"],
+    refetchInterval: (query) => query.state.data?.some(isActiveJob) ? JOB_POLL_INTERVAL_MS : false,
+  });
+
+  // Latest job per benchmark (jobs are returned newest first)
+  const latestJobs: Record<string, BenchmarkJob> = {};
+  for (const job of jobs || []) {
+    const key = normalizeId(job.benchmarkId);
+    if (!latestJobs[key]) {
+      latestJobs[key] = job;
+    }
+  }
+
+  // Stream events for every queued or running job
+  const [recentFindings, setRecentFindings] = useState<Record<string, BenchmarkFindingEvent[]>>({});
+  const streamedJobIds = (jobs || []).filter(isActiveJob).map(job => job.id).sort().join(",");
+  useEffect(() => {
+    if (!streamedJobIds) return;
+
+    const sources = streamedJobIds.split(",").map((jobId) => {
+      const source = new EventSource(`/api/benchmarks/jobs/${jobId}/events`, { withCredentials: true });
+
+      source.addEventListener("job", (message) => {
+        const { job } = JSON.parse((message as MessageEvent).data) as { job: BenchmarkJob };
+        queryClient.setQueryData<BenchmarkJob[]>(["/api/benchmarks/jobs"], (current) =>
+          current?.map(existing => existing.id === job.id ? job : existing)
+        );
+        if (!isActiveJob(job)) {
+          source.close();
+        }
       });
-    },
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
+
+      source.addEventListener("finding", (message) => {
+        const finding = JSON.parse((message as MessageEvent).data) as BenchmarkFindingEvent;
+        setRecentFindings(current => ({
+          ...current,
+          [jobId]: [finding, ...(current[jobId] || [])].slice(0, RECENT_FINDINGS_LIMIT),
+        }));
+      });
+
+      // Fall back to polling if the stream fails
+      source.onerror = () => source.close();
+      return source;
+    });
+
+    return () => sources.forEach(source => source.close());
+  }, [streamedJobIds]);
+
+  // Announce jobs that finished since the last poll and refresh results
+  const activeJobIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!jobs) return;
+
+    let anyFinished = false;
+    for (const job of jobs) {
+      if (!activeJobIds.current.has(job.id) || isActiveJob(job)) continue;
+      anyFinished = true;
+
+      if (job.status === "succeeded") {
         toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
+          title: "Success",
+          description: job.controlErrors.length > 0
+            ? `Benchmark completed; ${job.controlErrors.length} control(s) could not be evaluated`
+            : "Benchmark executed successfully",
+        });
+      } else if (job.status === "failed") {
+        toast({
+          title: "Error",
+          description: job.error || "Failed to run benchmark",
           variant: "destructive",
         });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
       }
+    }
+
+    activeJobIds.current = new Set(jobs.filter(isActiveJob).map(job => job.id));
+    if (anyFinished) {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmarks/results"] });
+    }
+  }, [jobs, toast]);
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
       toast({
-        title: "Error",
-        description: "Failed to run benchmark",
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
         variant: "destructive",
       });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const runBenchmarkMutation = useMutation({
+    mutationFn: async (benchmarkId: string) => {
+      const res = await apiRequest("POST", "/api/benchmarks/run", { benchmarkId, useSteampipe: false });
+      return (await res.json()) as { jobId: string; job: BenchmarkJob };
+    },
+    onSuccess: ({ job }) => {
+      activeJobIds.current.add(job.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmarks/jobs"] });
+      toast({
+        title: "Benchmark started",
+        description: "The benchmark is running in the background",
+      });
     },
+    onError: (error: Error) => handleMutationError(error, "Failed to run benchmark"),
+  });
+
+  const cancelJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      await apiRequest("POST", `/api/benchmarks/jobs/${jobId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmarks/jobs"] });
+      toast({
+        title: "Cancelling",
+        description: "The benchmark will stop before its next control",
+      });
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to cancel benchmark"),
   });
 
   const formatCurrency = (cents: number) => {
@@ -195,6 +328,14 @@ export default function Benchmarks() {
     setShowResourcesDialog(true);
   };
 
+  // Runs of a benchmark on the account it last ran against, newest first
+  const getBenchmarkRuns = (benchmarkId: string) => {
+    const runs = (apiResults || [])
+      .filter(r => normalizeId(r.benchmarkId) === normalizeId(benchmarkId))
+      .sort((a, b) => new Date(b.executedAt).getTime() - new Date(a.executedAt).getTime());
+    return runs.filter(r => r.awsAccountId === runs[0]?.awsAccountId);
+  };
+
   const selectedBenchmarkName = selectedBenchmarkId
     ? apiResults?.find(r => r.id === selectedBenchmarkId)?.benchmarkName
     : null;
@@ -230,6 +371,8 @@ export default function Benchmarks() {
               benchmark.passedControls,
               benchmark.totalControls
             );
+            const job = latestJobs[normalizeId(benchmark.id)];
+            const activeJob = job && isActiveJob(job) ? job : null;
 
             return (
               <Card key={benchmark.id} className="hover-elevate">
@@ -247,13 +390,61 @@ export default function Benchmarks() {
                   </p>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-sm">
-                      <span className="text-muted-foreground">Progress</span>
-                      <span className="font-medium">{progress}%</span>
+                  {activeJob ? (
+                    <div className="space-y-2" data-testid={`job-progress-${benchmark.id}`}>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          {activeJob.status === "queued" ? "Queued" : activeJob.progress.message || "Running"}
+                        </span>
+                        <span className="font-medium">
+                          {activeJob.progress.totalControls > 0
+                            ? `${activeJob.progress.completedControls}/${activeJob.progress.totalControls}`
+                            : "—"}
+                        </span>
+                      </div>
+                      <Progress
+                        value={getProgressPercentage(
+                          activeJob.progress.completedControls,
+                          activeJob.progress.totalControls
+                        )}
+                      />
+                      {activeJob.progress.currentControl && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {activeJob.progress.currentControl}
+                          {activeJob.progress.currentRegion && ` (${activeJob.progress.currentRegion})`}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-3 gap-2 text-xs" data-testid={`job-stats-${benchmark.id}`}>
+                        <div>
+                          <p className="text-muted-foreground">Scanned</p>
+                          <p className="font-medium">{activeJob.progress.resourcesScanned}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Findings</p>
+                          <p className="font-medium text-destructive">{activeJob.progress.findings}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Savings so far</p>
+                          <p className="font-medium">{formatCurrency(activeJob.progress.estimatedSavings)}</p>
+                        </div>
+                      </div>
+                      {(recentFindings[activeJob.id] || []).map((finding, index) => (
+                        <p key={index} className="flex items-start gap-1 text-xs text-muted-foreground">
+                          <AlertTriangle className="h-3 w-3 text-yellow-600 dark:text-yellow-500 mt-0.5 flex-shrink-0" />
+                          <span className="truncate">{finding.reason || finding.resourceId}</span>
+                        </p>
+                      ))}
                     </div>
-                    <Progress value={progress} />
-                  </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Progress</span>
+                        <span className="font-medium">{progress}%</span>
+                      </div>
+                      <Progress value={progress} />
+                    </div>
+                  )}
 
                   <div className="flex items-center justify-between text-sm">
                     <span className="flex items-center gap-1 text-muted-foreground">
@@ -282,17 +473,48 @@ export default function Benchmarks() {
                     </span>
                   </div>
 
-                  <div className="flex gap-2">
-                    <Button
-                      className="flex-1"
-                      variant="outline"
-                      onClick={() => runBenchmarkMutation.mutate(benchmark.id)}
-                      disabled={runBenchmarkMutation.isPending}
-                      data-testid={`button-run-${benchmark.id}`}
+                  {job && !activeJob && job.controlErrors.length > 0 && (
+                    <div className="flex items-center gap-1 text-xs text-yellow-600 dark:text-yellow-500" data-testid={`text-control-errors-${benchmark.id}`}>
+                      <AlertTriangle className="h-3 w-3" />
+                      {job.controlErrors.length} control(s) could not be evaluated in the last run
+                    </div>
+                  )}
+
+                  {job && !activeJob && job.unmappedControls.length > 0 && (
+                    <div
+                      className="flex items-center gap-1 text-xs text-yellow-600 dark:text-yellow-500"
+                      title={job.unmappedControls.join(", ")}
+                      data-testid={`text-unmapped-controls-${benchmark.id}`}
                     >
-                      <Play className="h-4 w-4 mr-2" />
-                      {runBenchmarkMutation.isPending ? "Running..." : "Run"}
-                    </Button>
+                      <AlertTriangle className="h-3 w-3" />
+                      {job.unmappedControls.length} control(s) have no savings model, so their findings show no savings
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    {activeJob ? (
+                      <Button
+                        className="flex-1"
+                        variant="outline"
+                        onClick={() => cancelJobMutation.mutate(activeJob.id)}
+                        disabled={cancelJobMutation.isPending}
+                        data-testid={`button-cancel-${benchmark.id}`}
+                      >
+                        <Square className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        className="flex-1"
+                        variant="outline"
+                        onClick={() => runBenchmarkMutation.mutate(benchmark.id)}
+                        disabled={runBenchmarkMutation.isPending && runBenchmarkMutation.variables === benchmark.id}
+                        data-testid={`button-run-${benchmark.id}`}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Run
+                      </Button>
+                    )}
                     {benchmark.resultId && (
                       <Button
                         className="flex-1"
@@ -304,6 +526,17 @@ export default function Benchmarks() {
                         <ChevronRight className="h-4 w-4 ml-2" />
                       </Button>
                     )}
+                    {getBenchmarkRuns(benchmark.id).length >= 2 && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setCompareBenchmarkId(benchmark.id)}
+                        title="Compare runs"
+                        data-testid={`button-compare-${benchmark.id}`}
+                      >
+                        <GitCompare className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -312,6 +545,13 @@ export default function Benchmarks() {
         </div>
       )}
 
+      <BenchmarkRunDiff
+        benchmarkName={compareBenchmarkId ? benchmarkMetadata[compareBenchmarkId]?.name ?? compareBenchmarkId : ""}
+        runs={compareBenchmarkId ? getBenchmarkRuns(compareBenchmarkId) : []}
+        open={!!compareBenchmarkId}
+        onOpenChange={(open) => !open && setCompareBenchmarkId(null)}
+      />
+
       {/* Resource Details Dialog */}
       <Dialog open={showResourcesDialog} onOpenChange={(open) => {
         setShowResourcesDialog(open);
@@ -350,8 +590,10 @@ export default function Benchmarks() {
                     <TableRow>
                       <TableHead>Resource ID</TableHead>
                       <TableHead>Type</TableHead>
+                      <TableHead>Region</TableHead>
                       <TableHead>Issue</TableHead>
                       <TableHead className="text-right">Est. Savings/mo</TableHead>
+                      <TableHead>Confidence</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -363,14 +605,36 @@ export default function Benchmarks() {
                         <TableCell>
                           <Badge variant="secondary">{resource.resourceType}</Badge>
                         </TableCell>
+                        <TableCell className="text-sm">{resource.region || "—"}</TableCell>
                         <TableCell className="max-w-md">
                           <div className="flex items-start gap-2">
                             <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-500 mt-0.5 flex-shrink-0" />
-                            <span className="text-sm">{resource.reason}</span>
+                            <div>
+                              <span className="text-sm">{resource.reason}</span>
+                              {resource.reviewNote && (
+                                <div className="mt-1 flex items-center gap-2" data-testid={`text-review-note-${resource.id}`}>
+                                  <Badge variant="outline">Needs review</Badge>
+                                  <span className="text-xs text-muted-foreground">{resource.reviewNote}</span>
+                                </div>
+                              )}
+                            </div>
                           </div>
                         </TableCell>
                         <TableCell className="text-right text-sm text-muted-foreground italic">
                           {resource.estimatedSavings === 0 ? "TBD" : formatCurrency(resource.estimatedSavings)}
+                          {resource.resourceMonthlyCost !== null && (
+                            <div className="text-xs not-italic" data-testid={`text-resource-cost-${resource.id}`}>
+                              Costs {formatCurrency(resource.resourceMonthlyCost)}/mo
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <SavingsProvenance
+                            id={resource.id}
+                            source={resource.savingsSource}
+                            confidence={resource.savingsConfidence}
+                            inputs={resource.savingsInputs}
+                          />
                         </TableCell>
                       </TableRow>
                     ))}
@@ -29,6 +29,7 @@ interface DashboardStats {
   failedControls: number;
   passedControls: number;
   savingsByService: { service: string; savings: number }[];
+  savingsByRegion: { region: string; savings: number }[];
   controlsByBenchmark: { benchmark: string; passed: number; failed: number }[];
 }
 
@@ -215,6 +216,25 @@ export default function Dashboard() {
         </div>
       )}
 
+      {stats?.savingsByRegion && stats.savingsByRegion.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Savings by Region</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={stats.savingsByRegion}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="region" />
+                <YAxis tickFormatter={(value: number) => formatCurrency(value)} />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Bar dataKey="savings" fill="hsl(var(--chart-2))" name="Savings" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {(!stats?.savingsByService || stats.savingsByService.length === 0) && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
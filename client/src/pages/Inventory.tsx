@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Search } from "lucide-react";
+import InventoryChanges, { inventoryTypeLabel, type InventoryScan } from "@/components/InventoryChanges";
+import type { AwsAccount, InventoryResource, InventorySnapshot } from "@shared/schema";
+
+const ALL_TYPES = "all";
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: "include" });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || "Failed to fetch inventory");
+  }
+  return response.json();
+}
+
+export default function Inventory() {
+  const [awsAccountId, setAwsAccountId] = useState("");
+  const [resourceType, setResourceType] = useState(ALL_TYPES);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const { data: accounts } = useQuery<AwsAccount[]>({
+    queryKey: ["/api/aws-accounts"],
+  });
+
+  // Start with the first account once accounts have loaded
+  useEffect(() => {
+    if (!awsAccountId && accounts && accounts.length > 0) {
+      setAwsAccountId(accounts[0].id);
+    }
+  }, [accounts, awsAccountId]);
+
+  const { data: resources, isLoading } = useQuery<InventoryResource[]>({
+    queryKey: ["/api/inventory", { awsAccountId }],
+    queryFn: () => fetchJson(`/api/inventory?awsAccountId=${encodeURIComponent(awsAccountId)}`),
+    enabled: !!awsAccountId,
+  });
+
+  const { data: snapshots } = useQuery<InventorySnapshot[]>({
+    queryKey: ["/api/inventory/snapshots", { awsAccountId }],
+    queryFn: () => fetchJson(`/api/inventory/snapshots?awsAccountId=${encodeURIComponent(awsAccountId)}`),
+    enabled: !!awsAccountId,
+  });
+
+  const lastCapturedAt = snapshots?.[0]?.capturedAt;
+
+  // A scan stores one snapshot per region; the change feed compares whole scans
+  const scans: InventoryScan[] = [];
+  for (const snapshot of snapshots || []) {
+    if (snapshot.benchmarkResultId && snapshot.capturedAt && !scans.some((scan) => scan.benchmarkResultId === snapshot.benchmarkResultId)) {
+      scans.push({ benchmarkResultId: snapshot.benchmarkResultId, capturedAt: String(snapshot.capturedAt) });
+    }
+  }
+  const resourceTypes = Array.from(new Set((resources || []).map((resource) => resource.resourceType)));
+
+  const filteredResources = resources?.filter((resource) => {
+    if (resourceType !== ALL_TYPES && resource.resourceType !== resourceType) return false;
+    const term = searchTerm.toLowerCase();
+    return [
+      resource.resourceId,
+      resource.name,
+      resource.state,
+      resource.region,
+      ...Object.values(resource.attributes),
+      ...Object.entries(resource.tags || {}).map(([key, value]) => `${key}=${value}`),
+    ].some((value) => value !== null && value !== undefined && String(value).toLowerCase().includes(term));
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">Inventory</h1>
+        <p className="text-sm text-muted-foreground mt-2">
+          Resources captured by the most recent benchmark scans
+          {lastCapturedAt && ` (last captured ${new Date(lastCapturedAt).toLocaleString()})`}
+        </p>
+      </div>
+
+      <Select value={awsAccountId} onValueChange={setAwsAccountId}>
+        <SelectTrigger className="w-56" data-testid="select-inventory-account">
+          <SelectValue placeholder="Select an account" />
+        </SelectTrigger>
+        <SelectContent>
+          {(accounts || []).map((account) => (
+            <SelectItem key={account.id} value={account.id}>
+              {account.nickname}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Tabs defaultValue="resources">
+        <TabsList>
+          <TabsTrigger value="resources" data-testid="tab-inventory-resources">Resources</TabsTrigger>
+          <TabsTrigger value="changes" data-testid="tab-inventory-changes">Changes</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="resources" className="space-y-6">
+          <div className="flex items-center gap-4 flex-wrap">
+            <Select value={resourceType} onValueChange={setResourceType}>
+              <SelectTrigger className="w-56" data-testid="select-inventory-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All resource types</SelectItem>
+                {resourceTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {inventoryTypeLabel(type)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by ID, name, attribute or tag..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+                data-testid="input-inventory-search"
+              />
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Resources{filteredResources ? ` (${filteredResources.length})` : ""}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[1, 2, 3, 4, 5].map((i) => (
+                    <Skeleton key={i} className="h-16 w-full" />
+                  ))}
+                </div>
+              ) : !filteredResources || filteredResources.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground">
+                    {searchTerm || resourceType !== ALL_TYPES
+                      ? "No resources found matching your filters."
+                      : "No inventory captured yet. Run a benchmark on this account to capture one."}
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Resource ID</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Region</TableHead>
+                        <TableHead>State</TableHead>
+                        <TableHead>Attributes</TableHead>
+                        <TableHead>Tags</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredResources.map((resource) => (
+                        <TableRow key={resource.id} data-testid={`row-inventory-${resource.id}`}>
+                          <TableCell className="font-mono text-sm">{resource.resourceId}</TableCell>
+                          <TableCell>{resource.name || "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{inventoryTypeLabel(resource.resourceType)}</Badge>
+                          </TableCell>
+                          <TableCell>{resource.region}</TableCell>
+                          <TableCell>
+                            {resource.state ? <Badge variant="outline">{resource.state}</Badge> : "—"}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {Object.entries(resource.attributes)
+                              .filter(([, value]) => value !== null && value !== "")
+                              .map(([key, value]) => (
+                                <div key={key}>
+                                  {key}: <span className="text-foreground">{String(value)}</span>
+                                </div>
+                              ))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1 max-w-xs">
+                              {Object.entries(resource.tags || {}).map(([key, value]) => (
+                                <Badge key={key} variant="outline" className="font-normal">
+                                  {key}={value}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="changes">
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes Between Scans</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {awsAccountId && <InventoryChanges awsAccountId={awsAccountId} scans={scans} />}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
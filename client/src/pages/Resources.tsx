@@ -1,9 +1,20 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Table,
   TableBody,
@@ -12,28 +23,128 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Search, ExternalLink } from "lucide-react";
+import { Search, ExternalLink, MoreHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { FindingStateValue } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
 
 interface Resource {
   id: string;
+  awsAccountId: string;
+  controlId: string;
   resourceId: string;
   resourceType: string;
   service: string;
   region: string;
   status: string;
   reason: string;
+  reviewNote: string | null; // Set when the recommended fix may not apply as-is
   savingsPotential: number;
+  findingState: FindingStateValue;
+  suppressedByRuleId: string | null;
+  stateReason: string | null;
+  snoozedUntil: string | null;
   awsConsoleUrl: string;
 }
 
+// The state dialog is only needed for states that take extra input
+type StateDialog = { resource: Resource; state: "suppressed" | "snoozed" } | null;
+
+const stateLabels: Record<FindingStateValue, string> = {
+  open: "Open",
+  acknowledged: "Acknowledged",
+  suppressed: "Suppressed",
+  snoozed: "Snoozed",
+  fixed: "Fixed",
+};
+
 export default function Resources() {
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
+  const [includeSuppressed, setIncludeSuppressed] = useState(false);
+  const [stateDialog, setStateDialog] = useState<StateDialog>(null);
+  const [reason, setReason] = useState("");
+  const [snoozedUntil, setSnoozedUntil] = useState("");
 
   const { data: resources, isLoading } = useQuery<Resource[]>({
-    queryKey: ["/api/resources"],
+    queryKey: ["/api/resources", { includeSuppressed }],
+    queryFn: async () => {
+      const response = await fetch(`/api/resources?includeSuppressed=${includeSuppressed}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to fetch resources');
+      }
+      return response.json();
+    },
+  });
+
+  const stateMutation = useMutation({
+    mutationFn: async ({ resource, state, reason, snoozedUntil }: {
+      resource: Resource;
+      state: FindingStateValue;
+      reason?: string;
+      snoozedUntil?: string;
+    }) => {
+      await apiRequest("PUT", "/api/findings/state", {
+        awsAccountId: resource.awsAccountId,
+        controlId: resource.controlId,
+        resourceId: resource.resourceId === "N/A" ? null : resource.resourceId,
+        state,
+        reason: reason || undefined,
+        snoozedUntil: snoozedUntil || undefined,
+      });
+    },
+    onSuccess: (_data, { state }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: `Finding marked ${stateLabels[state].toLowerCase()}`,
+      });
+      setStateDialog(null);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update finding",
+        variant: "destructive",
+      });
+    },
   });
 
+  const openStateDialog = (resource: Resource, state: "suppressed" | "snoozed") => {
+    setReason(resource.stateReason || "");
+    setSnoozedUntil("");
+    setStateDialog({ resource, state });
+  };
+
+  const submitStateDialog = () => {
+    if (!stateDialog) return;
+    stateMutation.mutate({
+      resource: stateDialog.resource,
+      state: stateDialog.state,
+      reason,
+      snoozedUntil: stateDialog.state === "snoozed" && snoozedUntil
+        ? new Date(`${snoozedUntil}T00:00:00`).toISOString()
+        : undefined,
+    });
+  };
+
   const filteredResources = resources?.filter((resource) =>
     Object.values(resource).some((value) =>
       String(value).toLowerCase().includes(searchTerm.toLowerCase())
@@ -66,7 +177,7 @@ export default function Resources() {
         </p>
       </div>
 
-      <div className="flex items-center gap-4">
+      <div className="flex items-center gap-4 flex-wrap">
         <div className="relative flex-1 max-w-md">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -77,6 +188,15 @@ export default function Resources() {
             data-testid="input-search"
           />
         </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="include-suppressed"
+            checked={includeSuppressed}
+            onCheckedChange={setIncludeSuppressed}
+            data-testid="switch-include-suppressed"
+          />
+          <Label htmlFor="include-suppressed">Show suppressed, snoozed and fixed</Label>
+        </div>
       </div>
 
       <Card>
@@ -108,6 +228,7 @@ export default function Resources() {
                     <TableHead>Service</TableHead>
                     <TableHead>Region</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>State</TableHead>
                     <TableHead>Reason</TableHead>
                     <TableHead className="text-right">Savings</TableHead>
                     <TableHead></TableHead>
@@ -129,6 +250,32 @@ export default function Resources() {
                           {resource.status}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={resource.findingState === "open" ? "outline" : "secondary"}
+                          title={resource.stateReason || undefined}
+                          data-testid={`badge-state-${resource.id}`}
+                        >
+                          {stateLabels[resource.findingState]}
+                          {resource.findingState === "snoozed" && resource.snoozedUntil &&
+                            ` until ${new Date(resource.snoozedUntil).toLocaleDateString()}`}
+                        </Badge>
+                        {resource.suppressedByRuleId && (
+                          <Badge variant="secondary" className="ml-1" data-testid={`badge-rule-${resource.id}`}>
+                            Suppressed by rule
+                          </Badge>
+                        )}
+                        {resource.reviewNote && (
+                          <Badge
+                            variant="outline"
+                            className="ml-1"
+                            title={resource.reviewNote}
+                            data-testid={`badge-review-${resource.id}`}
+                          >
+                            Needs review
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell className="max-w-xs truncate">
                         {resource.reason}
                       </TableCell>
@@ -136,14 +283,65 @@ export default function Resources() {
                         {formatCurrency(resource.savingsPotential)}/mo
                       </TableCell>
                       <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => window.open(resource.awsConsoleUrl, "_blank")}
-                          data-testid={`button-console-${resource.id}`}
-                        >
-                          <ExternalLink className="h-4 w-4" />
-                        </Button>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => window.open(resource.awsConsoleUrl, "_blank")}
+                            data-testid={`button-console-${resource.id}`}
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={stateMutation.isPending}
+                                data-testid={`button-state-${resource.id}`}
+                              >
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => stateMutation.mutate({ resource, state: "acknowledged" })}
+                                data-testid={`menu-acknowledge-${resource.id}`}
+                              >
+                                Acknowledge
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => openStateDialog(resource, "suppressed")}
+                                data-testid={`menu-suppress-${resource.id}`}
+                              >
+                                Suppress...
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => openStateDialog(resource, "snoozed")}
+                                data-testid={`menu-snooze-${resource.id}`}
+                              >
+                                Snooze...
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => stateMutation.mutate({ resource, state: "fixed" })}
+                                data-testid={`menu-fixed-${resource.id}`}
+                              >
+                                Mark as fixed
+                              </DropdownMenuItem>
+                              {resource.findingState !== "open" && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    onClick={() => stateMutation.mutate({ resource, state: "open" })}
+                                    data-testid={`menu-reopen-${resource.id}`}
+                                  >
+                                    Reopen
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -153,6 +351,63 @@ export default function Resources() {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!stateDialog} onOpenChange={(open) => !open && setStateDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {stateDialog?.state === "suppressed" ? "Suppress finding" : "Snooze finding"}
+            </DialogTitle>
+            <DialogDescription>
+              {stateDialog?.state === "suppressed"
+                ? "Suppressed findings are hidden and left out of savings totals in every future run."
+                : "Snoozed findings are hidden until the chosen date, then reopen automatically."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {stateDialog?.state === "snoozed" && (
+              <div className="space-y-2">
+                <Label htmlFor="snoozed-until">Snooze until</Label>
+                <Input
+                  id="snoozed-until"
+                  type="date"
+                  value={snoozedUntil}
+                  onChange={(e) => setSnoozedUntil(e.target.value)}
+                  data-testid="input-snoozed-until"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="state-reason">
+                Reason{stateDialog?.state === "snoozed" ? " (optional)" : ""}
+              </Label>
+              <Textarea
+                id="state-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Reserved for disaster recovery"
+                data-testid="input-state-reason"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStateDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitStateDialog}
+              disabled={
+                stateMutation.isPending ||
+                (stateDialog?.state === "suppressed" && !reason.trim()) ||
+                (stateDialog?.state === "snoozed" && !snoozedUntil)
+              }
+              data-testid="button-submit-state"
+            >
+              {stateDialog?.state === "suppressed" ? "Suppress" : "Snooze"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
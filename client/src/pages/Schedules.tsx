@@ -0,0 +1,441 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { AwsAccount, BenchmarkSchedule } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const ALL_BENCHMARKS = "all";
+
+const daysOfWeek = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const scheduleFormSchema = z.object({
+  awsAccountId: z.string().min(1, "AWS account is required"),
+  benchmarkId: z.string().min(1, "Benchmark is required"),
+  frequency: z.enum(["hourly", "daily", "weekly"]),
+  hourUtc: z.coerce.number().int().min(0).max(23),
+  minuteUtc: z.coerce.number().int().min(0, "Minute must be 0-59").max(59, "Minute must be 0-59"),
+  dayOfWeekUtc: z.coerce.number().int().min(0).max(6),
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export default function Schedules() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: schedules, isLoading } = useQuery<BenchmarkSchedule[]>({
+    queryKey: ["/api/benchmark-schedules"],
+  });
+
+  const { data: accounts } = useQuery<AwsAccount[]>({
+    queryKey: ["/api/aws-accounts"],
+  });
+
+  const { data: benchmarks } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["/api/benchmarks"],
+  });
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: {
+      awsAccountId: "",
+      benchmarkId: ALL_BENCHMARKS,
+      frequency: "daily",
+      hourUtc: 2,
+      minuteUtc: 0,
+      dayOfWeekUtc: 1,
+    },
+  });
+  const frequency = form.watch("frequency");
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ScheduleFormValues) => {
+      await apiRequest("POST", "/api/benchmark-schedules", {
+        awsAccountId: data.awsAccountId,
+        benchmarkIds: data.benchmarkId === ALL_BENCHMARKS ? null : [data.benchmarkId],
+        frequency: data.frequency,
+        minuteUtc: data.minuteUtc,
+        hourUtc: data.frequency === "hourly" ? 0 : data.hourUtc,
+        dayOfWeekUtc: data.frequency === "weekly" ? data.dayOfWeekUtc : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmark-schedules"] });
+      toast({
+        title: "Success",
+        description: "Schedule created successfully",
+      });
+      setIsDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to create schedule"),
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async ({ id, paused }: { id: string; paused: boolean }) => {
+      await apiRequest("PATCH", `/api/benchmark-schedules/${id}`, { paused });
+    },
+    onSuccess: (_data, { paused }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmark-schedules"] });
+      toast({
+        title: "Success",
+        description: paused ? "Schedule paused" : "Schedule resumed",
+      });
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to update schedule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/benchmark-schedules/${id}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmark-schedules"] });
+      toast({
+        title: "Success",
+        description: "Schedule deleted successfully",
+      });
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to delete schedule"),
+  });
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this schedule?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const describeBenchmarks = (schedule: BenchmarkSchedule) => {
+    if (!schedule.benchmarkIds || schedule.benchmarkIds.length === 0) return "All benchmarks";
+    return schedule.benchmarkIds
+      .map((id) => benchmarks?.find((b) => b.id === id)?.name || id)
+      .join(", ");
+  };
+
+  const describeTiming = (schedule: BenchmarkSchedule) => {
+    switch (schedule.frequency) {
+      case "hourly":
+        return `Hourly at :${pad(schedule.minuteUtc)} UTC`;
+      case "weekly":
+        return `Weekly on ${daysOfWeek[schedule.dayOfWeekUtc ?? 0]} at ${pad(schedule.hourUtc)}:${pad(schedule.minuteUtc)} UTC`;
+      default:
+        return `Daily at ${pad(schedule.hourUtc)}:${pad(schedule.minuteUtc)} UTC`;
+    }
+  };
+
+  const formatDateTime = (value: string | Date | null) =>
+    value ? new Date(value).toLocaleString() : "Never";
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Benchmark Schedules</h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Run benchmarks automatically on a recurring schedule
+          </p>
+        </div>
+        <Button
+          onClick={() => setIsDialogOpen(true)}
+          disabled={!accounts || accounts.length === 0}
+          data-testid="button-add-schedule"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Schedule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[1, 2].map((i) => (
+            <Card key={i}>
+              <CardHeader className="space-y-2">
+                <Skeleton className="h-6 w-40" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : !schedules || schedules.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-muted-foreground text-center">
+              No schedules yet. Add one to run benchmarks automatically.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {schedules.map((schedule) => (
+            <Card key={schedule.id} className="hover-elevate">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+                <CardTitle className="text-lg">{describeBenchmarks(schedule)}</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Badge variant={schedule.paused ? "secondary" : "default"} data-testid={`badge-schedule-status-${schedule.id}`}>
+                    {schedule.paused ? "Paused" : "Active"}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => pauseMutation.mutate({ id: schedule.id, paused: !schedule.paused })}
+                    disabled={pauseMutation.isPending}
+                    data-testid={`button-toggle-schedule-${schedule.id}`}
+                  >
+                    {schedule.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(schedule.id)}
+                    data-testid={`button-delete-schedule-${schedule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Account:</span>
+                  <span className="text-sm">
+                    {accounts?.find((a) => a.id === schedule.awsAccountId)?.nickname || schedule.awsAccountId}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Runs:</span>
+                  <span className="text-sm" data-testid={`text-schedule-timing-${schedule.id}`}>{describeTiming(schedule)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Last run:</span>
+                  <span className="text-sm" data-testid={`text-schedule-last-run-${schedule.id}`}>
+                    {formatDateTime(schedule.lastRunAt)}
+                    {schedule.lastRunStatus === "started" && (
+                      <Badge variant="secondary" className="ml-2">Running</Badge>
+                    )}
+                    {schedule.lastRunStatus === "cancelled" && (
+                      <Badge variant="outline" className="ml-2">Cancelled</Badge>
+                    )}
+                    {schedule.lastRunStatus === "failed" && (
+                      <Badge variant="destructive" className="ml-2">Failed</Badge>
+                    )}
+                  </span>
+                </div>
+                {schedule.lastRunStatus === "failed" && schedule.lastRunError && (
+                  <p className="text-xs text-destructive">{schedule.lastRunError}</p>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Next run:</span>
+                  <span className="text-sm" data-testid={`text-schedule-next-run-${schedule.id}`}>
+                    {schedule.paused ? "—" : formatDateTime(schedule.nextRunAt)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent data-testid="dialog-add-schedule">
+          <DialogHeader>
+            <DialogTitle>Add Schedule</DialogTitle>
+            <DialogDescription>
+              Scheduled runs are saved like manual runs; times are in UTC
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="awsAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>AWS Account</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-schedule-account">
+                          <SelectValue placeholder="Select an account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(accounts || []).map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.nickname}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="benchmarkId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Benchmark</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-schedule-benchmark">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_BENCHMARKS}>All benchmarks</SelectItem>
+                        {(benchmarks || []).map((benchmark) => (
+                          <SelectItem key={benchmark.id} value={benchmark.id}>
+                            {benchmark.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Frequency</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-schedule-frequency">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="hourly">Hourly</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {frequency === "weekly" && (
+                <FormField
+                  control={form.control}
+                  name="dayOfWeekUtc"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day of Week</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={String(field.value)}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-schedule-day">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {daysOfWeek.map((day, index) => (
+                            <SelectItem key={day} value={String(index)}>
+                              {day}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                {frequency !== "hourly" && (
+                  <FormField
+                    control={form.control}
+                    name="hourUtc"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hour (UTC)</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={String(field.value)}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-schedule-hour">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Array.from({ length: 24 }, (_, hour) => (
+                              <SelectItem key={hour} value={String(hour)}>
+                                {pad(hour)}:00
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="minuteUtc"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minute</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={59} {...field} data-testid="input-schedule-minute" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  data-testid="button-cancel-schedule"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-schedule">
+                  {createMutation.isPending ? "Adding..." : "Add Schedule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { LogOut } from "lucide-react";
+import { ControlThresholds } from "@/components/ControlThresholds";
 
 export default function Settings() {
   const { user } = useAuth();
@@ -62,6 +63,8 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      <ControlThresholds />
+
       <Card>
         <CardHeader>
           <CardTitle>About CostlyAgent</CardTitle>
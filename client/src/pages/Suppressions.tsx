@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { AwsAccount, SuppressionRuleWithCount } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const ALL_ACCOUNTS = "all";
+const MAX_RULE_DAYS = 365; // Matches the server's limit on rule lifetime
+
+const ruleFormSchema = z.object({
+  awsAccountId: z.string(),
+  controlPattern: z.string().trim(),
+  resourcePattern: z.string().trim(),
+  tagKey: z.string().trim(),
+  tagValue: z.string(),
+  reason: z.string().trim().min(1, "Reason is required"),
+  expiresAt: z.string().min(1, "Expiry date is required"),
+}).refine(rule => rule.awsAccountId !== ALL_ACCOUNTS || !!(rule.controlPattern || rule.resourcePattern || rule.tagKey), {
+  message: "Match on at least an account, control, resource pattern or tag",
+  path: ["controlPattern"],
+}).refine(rule => !rule.tagValue || !!rule.tagKey, {
+  message: "A tag value needs a tag key",
+  path: ["tagKey"],
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+export default function Suppressions() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: rules, isLoading } = useQuery<SuppressionRuleWithCount[]>({
+    queryKey: ["/api/suppression-rules"],
+  });
+
+  const { data: accounts } = useQuery<AwsAccount[]>({
+    queryKey: ["/api/aws-accounts"],
+  });
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: {
+      awsAccountId: ALL_ACCOUNTS,
+      controlPattern: "",
+      resourcePattern: "",
+      tagKey: "",
+      tagValue: "",
+      reason: "",
+      expiresAt: toDateInput(new Date(Date.now() + 90 * 24 * 60 * 60 * 1000)),
+    },
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RuleFormValues) => {
+      await apiRequest("POST", "/api/suppression-rules", {
+        awsAccountId: data.awsAccountId === ALL_ACCOUNTS ? null : data.awsAccountId,
+        controlPattern: data.controlPattern || null,
+        resourcePattern: data.resourcePattern || null,
+        tagKey: data.tagKey || null,
+        tagValue: data.tagValue || null,
+        reason: data.reason,
+        expiresAt: new Date(`${data.expiresAt}T23:59:59`).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppression-rules"] });
+      toast({
+        title: "Success",
+        description: "Suppression rule created. It applies to benchmark runs from now on.",
+      });
+      setIsDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to create suppression rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/suppression-rules/${id}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppression-rules"] });
+      toast({
+        title: "Success",
+        description: "Suppression rule deleted successfully",
+      });
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to delete suppression rule"),
+  });
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this suppression rule?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const describeMatch = (rule: SuppressionRuleWithCount) => {
+    const parts: string[] = [];
+    if (rule.controlPattern) parts.push(`control ${rule.controlPattern}`);
+    if (rule.resourcePattern) parts.push(`resource ${rule.resourcePattern}`);
+    if (rule.tagKey) parts.push(`tag ${rule.tagKey}=${rule.tagValue ?? "*"}`);
+    return parts.length > 0 ? parts.join(", ") : "Every finding";
+  };
+
+  const isExpired = (rule: SuppressionRuleWithCount) => new Date(rule.expiresAt) <= new Date();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Suppression Rules</h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Hide findings by control, resource pattern or tag until a rule expires
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-suppression-rule">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[1, 2].map((i) => (
+            <Card key={i}>
+              <CardHeader className="space-y-2">
+                <Skeleton className="h-6 w-40" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : !rules || rules.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-muted-foreground text-center">
+              No suppression rules yet. Add one to hide findings you've accepted.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {rules.map((rule) => (
+            <Card key={rule.id} className="hover-elevate">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+                <CardTitle className="text-lg font-mono" data-testid={`text-rule-match-${rule.id}`}>
+                  {describeMatch(rule)}
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Badge variant={isExpired(rule) ? "secondary" : "default"} data-testid={`badge-rule-status-${rule.id}`}>
+                    {isExpired(rule) ? "Expired" : "Active"}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(rule.id)}
+                    data-testid={`button-delete-rule-${rule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm">{rule.reason}</p>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Account:</span>
+                  <span className="text-sm">
+                    {rule.awsAccountId
+                      ? accounts?.find((a) => a.id === rule.awsAccountId)?.nickname || rule.awsAccountId
+                      : "All accounts"}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Findings hidden:</span>
+                  <span className="text-sm font-semibold" data-testid={`text-rule-hidden-${rule.id}`}>
+                    {rule.hiddenFindings}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Expires:</span>
+                  <span className="text-sm">{new Date(rule.expiresAt).toLocaleDateString()}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent data-testid="dialog-add-suppression-rule">
+          <DialogHeader>
+            <DialogTitle>Add Suppression Rule</DialogTitle>
+            <DialogDescription>
+              Findings matching every field you fill in are hidden from results saved from now on.
+              Patterns accept * and ? wildcards.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="awsAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>AWS Account</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-rule-account">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                        {(accounts || []).map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.nickname}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="controlPattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Control</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. *snapshot*" {...field} data-testid="input-rule-control" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="resourcePattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Resource</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. backup-*" {...field} data-testid="input-rule-resource" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="tagKey"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tag Key</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. cost-exempt" {...field} data-testid="input-rule-tag-key" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tagValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tag Value</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Any value" {...field} data-testid="input-rule-tag-value" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Why these findings can be ignored" {...field} data-testid="input-rule-reason" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        min={toDateInput(new Date())}
+                        max={toDateInput(new Date(Date.now() + (MAX_RULE_DAYS - 1) * 24 * 60 * 60 * 1000))}
+                        {...field}
+                        data-testid="input-rule-expires"
+                      />
+                    </FormControl>
+                    <FormDescription>Rules last at most {MAX_RULE_DAYS} days</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-suppression-rule">
+                  {createMutation.isPending ? "Creating..." : "Create Rule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { AwsAccount, TagPolicyRule } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const ALL_ACCOUNTS = "all";
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const policyFormSchema = z.object({
+  awsAccountId: z.string(),
+  tagKey: z.string().trim().min(1, "Tag key is required").max(128),
+  allowedValues: z.string(),
+  valuePattern: z.string().trim().refine(isValidRegex, "Not a valid regular expression"),
+});
+
+type PolicyFormValues = z.infer<typeof policyFormSchema>;
+
+const splitValues = (values: string) =>
+  values.split(",").map((value) => value.trim()).filter(Boolean);
+
+export default function TagPolicies() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: policies, isLoading } = useQuery<TagPolicyRule[]>({
+    queryKey: ["/api/tag-policies"],
+  });
+
+  const { data: accounts } = useQuery<AwsAccount[]>({
+    queryKey: ["/api/aws-accounts"],
+  });
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues: {
+      awsAccountId: ALL_ACCOUNTS,
+      tagKey: "",
+      allowedValues: "",
+      valuePattern: "",
+    },
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PolicyFormValues) => {
+      const allowedValues = splitValues(data.allowedValues);
+      await apiRequest("POST", "/api/tag-policies", {
+        awsAccountId: data.awsAccountId === ALL_ACCOUNTS ? null : data.awsAccountId,
+        tagKey: data.tagKey,
+        allowedValues: allowedValues.length > 0 ? allowedValues : null,
+        valuePattern: data.valuePattern || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tag-policies"] });
+      toast({
+        title: "Success",
+        description: "Required tag saved. The next Tagging benchmark run checks it.",
+      });
+      setIsDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to save required tag"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tag-policies/${id}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tag-policies"] });
+      toast({
+        title: "Success",
+        description: "Required tag deleted successfully",
+      });
+    },
+    onError: (error: Error) => handleMutationError(error, "Failed to delete required tag"),
+  });
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to stop requiring this tag?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const accountName = (policy: TagPolicyRule) =>
+    policy.awsAccountId
+      ? accounts?.find((a) => a.id === policy.awsAccountId)?.nickname || policy.awsAccountId
+      : "All accounts";
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Tag Policies</h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Tags every resource must carry, checked by the Tagging benchmark. Account rules replace org-wide rules for the same tag.
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-tag-policy">
+          <Plus className="h-4 w-4 mr-2" />
+          Require Tag
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[1, 2].map((i) => (
+            <Card key={i}>
+              <CardHeader className="space-y-2">
+                <Skeleton className="h-6 w-40" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : !policies || policies.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-muted-foreground text-center">
+              No required tags yet. Until you add some, every resource passes the Tagging benchmark.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {policies.map((policy) => (
+            <Card key={policy.id} className="hover-elevate">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+                <CardTitle className="text-lg font-mono" data-testid={`text-tag-policy-key-${policy.id}`}>
+                  {policy.tagKey}
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(policy.id)}
+                  data-testid={`button-delete-tag-policy-${policy.id}`}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Account:</span>
+                  <span className="text-sm">{accountName(policy)}</span>
+                </div>
+                <div className="flex items-start justify-between gap-4">
+                  <span className="text-sm text-muted-foreground">Allowed values:</span>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {policy.allowedValues ? (
+                      policy.allowedValues.map((value) => (
+                        <Badge key={value} variant="outline" className="font-normal">
+                          {value}
+                        </Badge>
+                      ))
+                    ) : (
+                      <span className="text-sm">Any value</span>
+                    )}
+                  </div>
+                </div>
+                {policy.valuePattern && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Pattern:</span>
+                    <span className="text-sm font-mono">{policy.valuePattern}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent data-testid="dialog-add-tag-policy">
+          <DialogHeader>
+            <DialogTitle>Require Tag</DialogTitle>
+            <DialogDescription>
+              Resources without this tag, or with a value that isn't allowed, are reported by the Tagging benchmark.
+              Saving a tag already required for the same account replaces its rule.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="awsAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>AWS Account</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-tag-policy-account">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                        {(accounts || []).map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.nickname}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tagKey"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tag Key</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. cost-center" {...field} data-testid="input-tag-policy-key" />
+                    </FormControl>
+                    <FormDescription>Tag keys are case-sensitive</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="allowedValues"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Allowed Values</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. prod, staging, dev" {...field} data-testid="input-tag-policy-values" />
+                    </FormControl>
+                    <FormDescription>Comma-separated; leave empty to allow any value</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="valuePattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Value Pattern</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. CC-[0-9]{4}" {...field} data-testid="input-tag-policy-pattern" />
+                    </FormControl>
+                    <FormDescription>Regular expression the whole value must match; optional</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-tag-policy">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import { collectPages, isThrottlingError, withThrottlingRetry } from "./aws-pagination";
+
+interface Page {
+  Items?: string[];
+  NextToken?: string;
+}
+
+/**
+ * Fake paginated API serving fixture pages keyed by the token that requests them ("" for the first page)
+ */
+function fakeApi(pages: Record<string, Page>) {
+  return vi.fn(async (token: string | undefined, _pageSize: number | undefined) => {
+    const page = pages[token ?? ''];
+    if (!page) throw new Error(`Unexpected token ${token}`);
+    return page;
+  });
+}
+
+const noSleep = async () => {};
+
+describe("collectPages", () => {
+  it("collects every page of a NextToken response", async () => {
+    const fetchPage = fakeApi({
+      '': { Items: ['a', 'b'], NextToken: 't1' },
+      t1: { Items: ['c'], NextToken: 't2' },
+      t2: { Items: ['d', 'e'] },
+    });
+
+    const items = await collectPages(fetchPage, page => page.Items, page => page.NextToken);
+
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(fetchPage.mock.calls.map(([token]) => token)).toEqual([undefined, 't1', 't2']);
+  });
+
+  it("collects every page of a Marker response", async () => {
+    const pages: Record<string, { Volumes: string[]; Marker?: string }> = {
+      '': { Volumes: ['vol-1'], Marker: 'm1' },
+      m1: { Volumes: ['vol-2'], Marker: 'm2' },
+      m2: { Volumes: ['vol-3'] },
+    };
+
+    const items = await collectPages(
+      async (token: string | undefined) => pages[token ?? ''],
+      page => page.Volumes,
+      page => page.Marker
+    );
+
+    expect(items).toEqual(['vol-1', 'vol-2', 'vol-3']);
+  });
+
+  it("treats pages without items as empty", async () => {
+    const fetchPage = fakeApi({ '': { NextToken: 't1' }, t1: { Items: ['a'] } });
+
+    expect(await collectPages(fetchPage, page => page.Items, page => page.NextToken)).toEqual(['a']);
+  });
+
+  it("requests the configured page size on every page", async () => {
+    const fetchPage = fakeApi({ '': { Items: ['a'], NextToken: 't1' }, t1: { Items: ['b'] } });
+
+    await collectPages(fetchPage, page => page.Items, page => page.NextToken, { pageSize: 50 });
+
+    expect(fetchPage.mock.calls.map(([, pageSize]) => pageSize)).toEqual([50, 50]);
+  });
+
+  it("stops at the page limit", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchPage = fakeApi({
+      '': { Items: ['a'], NextToken: 't1' },
+      t1: { Items: ['b'], NextToken: 't2' },
+      t2: { Items: ['c'], NextToken: 't3' },
+    });
+
+    const items = await collectPages(fetchPage, page => page.Items, page => page.NextToken, { maxPages: 2 });
+
+    expect(items).toEqual(['a', 'b']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('2 page limit'));
+    warn.mockRestore();
+  });
+
+  it("stops when the API repeats a token", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchPage = fakeApi({
+      '': { Items: ['a'], NextToken: 't1' },
+      t1: { Items: ['b'], NextToken: 't1' },
+    });
+
+    const items = await collectPages(fetchPage, page => page.Items, page => page.NextToken);
+
+    expect(items).toEqual(['a', 'b']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('repeated'));
+    warn.mockRestore();
+  });
+
+  it("retries a throttled page and keeps the pages already collected", async () => {
+    const throttled = Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' });
+    let calls = 0;
+    const items = await collectPages(
+      async (token: string | undefined): Promise<Page> => {
+        calls++;
+        if (token === 't1' && calls === 2) throw throttled;
+        return token ? { Items: ['b'] } : { Items: ['a'], NextToken: 't1' };
+      },
+      page => page.Items,
+      page => page.NextToken,
+      { sleep: noSleep }
+    );
+
+    expect(items).toEqual(['a', 'b']);
+    expect(calls).toBe(3);
+  });
+});
+
+describe("withThrottlingRetry", () => {
+  const throttlingError = (name: string) => Object.assign(new Error(name), { name });
+
+  it("retries throttling errors with growing delays until the call succeeds", async () => {
+    const sleep = vi.fn(noSleep);
+    const call = vi.fn()
+      .mockRejectedValueOnce(throttlingError('Throttling'))
+      .mockRejectedValueOnce(throttlingError('RequestLimitExceeded'))
+      .mockResolvedValue('ok');
+
+    await expect(withThrottlingRetry(call, { sleep, retryBaseDelayMs: 100 })).resolves.toBe('ok');
+
+    expect(call).toHaveBeenCalledTimes(3);
+    const [[first], [second]] = sleep.mock.calls;
+    // Half the backoff is fixed and half is jitter
+    expect(first).toBeGreaterThanOrEqual(50);
+    expect(first).toBeLessThanOrEqual(100);
+    expect(second).toBeGreaterThanOrEqual(100);
+    expect(second).toBeLessThanOrEqual(200);
+  });
+
+  it("gives up after the maximum number of retries", async () => {
+    const sleep = vi.fn(noSleep);
+    const error = throttlingError('SlowDown');
+    const call = vi.fn().mockRejectedValue(error);
+
+    await expect(withThrottlingRetry(call, { sleep, maxRetries: 2 })).rejects.toBe(error);
+
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry other errors", async () => {
+    const sleep = vi.fn(noSleep);
+    const error = Object.assign(new Error('Access denied'), { name: 'AccessDeniedException' });
+    const call = vi.fn().mockRejectedValue(error);
+
+    await expect(withThrottlingRetry(call, { sleep })).rejects.toBe(error);
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
+
+describe("isThrottlingError", () => {
+  it("recognizes throttling by name, HTTP status or SDK retry hint", () => {
+    expect(isThrottlingError({ name: 'TooManyRequestsException' })).toBe(true);
+    expect(isThrottlingError({ name: 'Unknown', $metadata: { httpStatusCode: 429 } })).toBe(true);
+    expect(isThrottlingError({ name: 'Unknown', $retryable: { throttling: true } })).toBe(true);
+    expect(isThrottlingError({ name: 'ValidationException', $metadata: { httpStatusCode: 400 } })).toBe(false);
+    expect(isThrottlingError(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Paginated collection of AWS describe/list calls.
+ * Every call that can return more than one page goes through collectPages so
+ * large accounts don't silently lose resources past the first page.
+ */
+
+export interface PaginationOptions {
+  pageSize?: number; // Requested page size, capped to the API's maximum by the caller
+  maxPages?: number; // Safety cap on pages fetched per call
+  maxRetries?: number; // Retries per page when AWS throttles the request
+  retryBaseDelayMs?: number; // Base delay for exponential backoff between retries
+  sleep?: (ms: number) => Promise<void>; // Injectable for tests
+}
+
+const DEFAULT_MAX_PAGES = 1000;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_RETRY_BASE_DELAY_MS = 250;
+const MAX_RETRY_DELAY_MS = 20000;
+
+const THROTTLING_ERROR_NAMES = new Set([
+  'Throttling',
+  'ThrottlingException',
+  'ThrottledException',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'RequestLimitExceeded',
+  'TooManyRequestsException',
+  'ProvisionedThroughputExceededException',
+  'SlowDown',
+]);
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether an AWS SDK error means the request was throttled and can be retried
+ */
+export function isThrottlingError(error: any): boolean {
+  return THROTTLING_ERROR_NAMES.has(error?.name) ||
+    error?.$metadata?.httpStatusCode === 429 ||
+    error?.$retryable?.throttling === true;
+}
+
+/**
+ * Run an AWS call, retrying with exponential backoff and jitter while it is throttled
+ */
+export async function withThrottlingRetry<T>(
+  call: () => Promise<T>,
+  options: PaginationOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelay = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!isThrottlingError(error) || attempt >= maxRetries) {
+        throw error;
+      }
+      const delay = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
+
+/**
+ * Fetch every page of a paginated AWS call and return the combined items
+ * @param fetchPage - Sends the request for one page, given the previous page's token and the page size
+ * @param getItems - Extracts the items from a page
+ * @param getNextToken - Extracts the token for the next page (NextToken, Marker, NextMarker, ...)
+ */
+export async function collectPages<TPage, TItem>(
+  fetchPage: (token: string | undefined, pageSize: number | undefined) => Promise<TPage>,
+  getItems: (page: TPage) => TItem[] | undefined,
+  getNextToken: (page: TPage) => string | undefined,
+  options: PaginationOptions = {}
+): Promise<TItem[]> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const items: TItem[] = [];
+  const seenTokens = new Set<string>();
+  let token: string | undefined;
+
+  for (let pageCount = 0; pageCount < maxPages; pageCount++) {
+    const page = await withThrottlingRetry(() => fetchPage(token, options.pageSize), options);
+    items.push(...(getItems(page) || []));
+
+    token = getNextToken(page);
+    if (!token) {
+      return items;
+    }
+
+    // Guard against APIs echoing the same token back, which would loop forever
+    if (seenTokens.has(token)) {
+      console.warn(`Pagination token repeated after ${pageCount + 1} pages; stopping`);
+      return items;
+    }
+    seenTokens.add(token);
+  }
+
+  console.warn(`Pagination stopped after reaching the ${maxPages} page limit; results may be incomplete`);
+  return items;
+}
@@ -1,42 +1,16 @@
-import { 
-  EC2Client, 
-  DescribeInstancesCommand, 
-  DescribeVolumesCommand,
-  DescribeSnapshotsCommand,
-  DescribeAddressesCommand 
-} from "@aws-sdk/client-ec2";
-import { 
-  RDSClient, 
-  DescribeDBInstancesCommand, 
-  DescribeDBSnapshotsCommand 
-} from "@aws-sdk/client-rds";
-import { 
-  S3Client, 
-  ListBucketsCommand,
-  GetBucketVersioningCommand,
-  GetBucketLifecycleConfigurationCommand 
-} from "@aws-sdk/client-s3";
-import { 
-  DynamoDBClient, 
-  ListTablesCommand,
-  DescribeTableCommand 
-} from "@aws-sdk/client-dynamodb";
-import { 
-  ElastiCacheClient, 
-  DescribeCacheClustersCommand 
-} from "@aws-sdk/client-elasticache";
-import { 
-  RedshiftClient, 
-  DescribeClustersCommand 
-} from "@aws-sdk/client-redshift";
-import { 
-  LambdaClient, 
-  ListFunctionsCommand 
-} from "@aws-sdk/client-lambda";
+import { EC2Client, DescribeInstancesCommand, DescribeRegionsCommand } from "@aws-sdk/client-ec2";
+import { RDSClient, DescribeDBInstancesCommand } from "@aws-sdk/client-rds";
+import { S3Client, ListBucketsCommand } from "@aws-sdk/client-s3";
+import { DynamoDBClient, ListTablesCommand } from "@aws-sdk/client-dynamodb";
+import { ElastiCacheClient, DescribeCacheClustersCommand } from "@aws-sdk/client-elasticache";
+import { RedshiftClient, DescribeClustersCommand } from "@aws-sdk/client-redshift";
+import { LambdaClient, ListFunctionsCommand } from "@aws-sdk/client-lambda";
+import { CloudWatchClient } from "@aws-sdk/client-cloudwatch";
+import { ElasticLoadBalancingClient } from "@aws-sdk/client-elastic-load-balancing";
+import { ElasticLoadBalancingV2Client } from "@aws-sdk/client-elastic-load-balancing-v2";
 import {
   CostExplorerClient,
   GetCostAndUsageCommand,
-  GetCostAndUsageWithResourcesCommand,
   GetReservationPurchaseRecommendationCommand,
   GetSavingsPlansPurchaseRecommendationCommand,
   GetRightsizingRecommendationCommand,
@@ -48,12 +22,31 @@ import type {
   ServiceBreakdown,
   ServiceResources,
   CostRecommendations,
+  ControlError,
+  SavingsEstimate,
 } from "@shared/schema";
+import {
+  controlRegistry,
+  type AwsClients,
+  type ControlDefinition,
+  type ControlParams,
+  type ControlThresholds,
+  type RegionInventory,
+  type ScanContext,
+} from "./control-registry";
+import "./controls";
+import { withThrottlingRetry } from "./aws-pagination";
+import { ResourceCostIndex } from "./resource-cost-index";
+import { savingsEstimate, savingsFraction, savingsModelInputs } from "./savings-models";
+import type { PriceCatalog } from "./price-catalog";
+import type { TagPolicy } from "./tag-policies";
 
 export interface AwsCredentials {
   accessKeyId: string;
   secretAccessKey: string;
-  region: string;
+  region: string; // Default region; global resources and Cost Explorer lookups are anchored here
+  scanRegions?: string[] | null; // Regions benchmarks fan out to (defaults to the default region)
+  scanAllRegions?: boolean; // Fan out to every region enabled for the account
 }
 
 export interface BenchmarkCheck {
@@ -61,17 +54,64 @@ export interface BenchmarkCheck {
   name: string;
   passed: boolean;
   resourceId?: string;
+  region?: string;
   estimatedSavings: number; // in cents
+  savingsEstimate?: SavingsEstimate; // How estimatedSavings was derived
   reason?: string;
+  reviewNote?: string; // Why the recommended fix needs checking before it's applied
+  tags?: Record<string, string>; // Resource tags, used by suppression rules
+  resourceMonthlyCost?: number; // in cents; cost of the resource itself, for controls without savings
+  serviceCode?: string; // Cost Explorer service the savings come out of
+  removesResource?: boolean; // Fixing the finding deletes or stops the resource, saving its whole cost
+  relatedResourceIds?: string[]; // Other resources whose cost fixing this finding also removes
 }
 
 export interface BenchmarkResult {
   benchmarkId: string;
   benchmarkName: string;
+  regions: string[];
   checks: BenchmarkCheck[];
   controlsPassed: number;
   controlsFailed: number;
   estimatedSavings: number;
+  costExplorerCalls: number; // Cost Explorer API calls made during the scan (each is billed by AWS)
+  controlErrors: ControlError[]; // Controls that could not be evaluated in a region
+  thresholds: ControlThresholds; // Parameter values each control ran with
+  inventory: RegionInventory[]; // Resources collected in each region, for the inventory snapshot
+}
+
+/**
+ * Progress of a benchmark run, reported as each control starts and finishes
+ */
+export interface BenchmarkProgress {
+  completedControls: number;
+  totalControls: number;
+  findings: number;
+  resourcesScanned: number;
+  estimatedSavings: number; // Running total in cents
+  controlId: string;
+  region: string;
+  controlResourcesScanned?: number; // Set when the control completes
+  controlFindings?: number; // Set when the control completes
+  error?: ControlError;
+}
+
+export interface RunBenchmarkOptions {
+  signal?: AbortSignal; // Aborting stops the run before the next control
+  onControlStart?: (progress: BenchmarkProgress) => void;
+  onControlComplete?: (progress: BenchmarkProgress) => void;
+  onFinding?: (check: BenchmarkCheck) => void; // Called as each failing resource is found
+  thresholds?: ControlThresholds; // Overrides of control parameter defaults
+  prices?: PriceCatalog; // List prices for findings Cost Explorer has no data for
+  tagPolicy?: TagPolicy; // Required tags checked by the Tagging benchmark
+}
+
+/**
+ * AWS SDK errors that mean the credentials themselves are unusable
+ */
+function isCredentialError(error: any): boolean {
+  return error?.name === 'CredentialsError' || error?.name === 'InvalidClientTokenId' ||
+    error?.name === 'UnauthorizedException' || error?.name === 'AccessDeniedException';
 }
 
 /**
@@ -79,31 +119,15 @@ export interface BenchmarkResult {
  * Based on AWS Thrifty mod benchmarks
  */
 export class AwsService {
-  private ec2Client: EC2Client;
-  private rdsClient: RDSClient;
-  private s3Client: S3Client;
-  private dynamodbClient: DynamoDBClient;
-  private elasticacheClient: ElastiCacheClient;
-  private redshiftClient: RedshiftClient;
-  private lambdaClient: LambdaClient;
+  private credentials: AwsCredentials;
+  private clients: AwsClients;
+  private regionalClients = new Map<string, AwsClients>();
   private costExplorerClient: CostExplorerClient;
+  private costExplorerCalls = 0;
+  private resourceCostIndex: ResourceCostIndex;
 
   constructor(credentials: AwsCredentials) {
-    const config = {
-      region: credentials.region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-      },
-    };
-
-    this.ec2Client = new EC2Client(config);
-    this.rdsClient = new RDSClient(config);
-    this.s3Client = new S3Client(config);
-    this.dynamodbClient = new DynamoDBClient(config);
-    this.elasticacheClient = new ElastiCacheClient(config);
-    this.redshiftClient = new RedshiftClient(config);
-    this.lambdaClient = new LambdaClient(config);
+    this.credentials = credentials;
     // Cost Explorer must use us-east-1 region
     this.costExplorerClient = new CostExplorerClient({
       region: 'us-east-1',
@@ -112,700 +136,385 @@ export class AwsService {
         secretAccessKey: credentials.secretAccessKey,
       },
     });
+    this.costExplorerClient.middlewareStack.add(
+      (next) => async (args) => {
+        this.costExplorerCalls++;
+        return next(args);
+      },
+      { step: 'initialize', name: 'countCostExplorerCalls' }
+    );
+    this.resourceCostIndex = new ResourceCostIndex(this.costExplorerClient);
+    this.clients = this.getRegionalClients(credentials.region);
   }
 
   /**
-   * Calculate estimated monthly savings for a resource based on actual Cost Explorer data
-   * @param resourceId - The AWS resource ID
-   * @param serviceCode - The Cost Explorer service code (e.g., "Amazon Elastic Compute Cloud - Compute")
-   * @param savingsPercentage - Percentage of cost that would be saved (0-100)
-   * @param fallbackCentsPerMonth - Fallback monthly cost in cents if Cost Explorer has no data
-   * @returns Estimated monthly savings in cents
+   * Get (or lazily create) the SDK clients bound to a region
    */
-  private async calculateSavings(
-    resourceId: string | undefined,
-    serviceCode: string,
-    savingsPercentage: number,
-    fallbackCentsPerMonth: number = 0
-  ): Promise<number> {
-    if (!resourceId) return fallbackCentsPerMonth;
+  private getRegionalClients(region: string): AwsClients {
+    let clients = this.regionalClients.get(region);
+    if (!clients) {
+      const config = {
+        region,
+        credentials: {
+          accessKeyId: this.credentials.accessKeyId,
+          secretAccessKey: this.credentials.secretAccessKey,
+        },
+      };
 
-    try {
-      // Get actual daily cost from Cost Explorer (last 7 days)
-      const dailyCostCents = await this.getResourceCost(resourceId, serviceCode, 7);
-      
-      if (dailyCostCents !== null && dailyCostCents > 0) {
-        // Convert daily cost to monthly (30 days) and apply savings percentage
-        const monthlyCostCents = dailyCostCents * 30;
-        return Math.round(monthlyCostCents * (savingsPercentage / 100));
-      }
-      
-      // Fall back to estimate if no Cost Explorer data
-      return fallbackCentsPerMonth;
-    } catch (error) {
-      console.error(`Error calculating savings for ${resourceId}:`, error);
-      return fallbackCentsPerMonth;
+      clients = {
+        ec2: new EC2Client(config),
+        rds: new RDSClient(config),
+        // Buckets live in many regions but are listed globally; follow redirects to each bucket's region
+        s3: new S3Client({ ...config, followRegionRedirects: true }),
+        dynamodb: new DynamoDBClient(config),
+        elasticache: new ElastiCacheClient(config),
+        redshift: new RedshiftClient(config),
+        lambda: new LambdaClient(config),
+        cloudwatch: new CloudWatchClient(config),
+        elb: new ElasticLoadBalancingClient(config),
+        elbv2: new ElasticLoadBalancingV2Client(config),
+        costExplorer: this.costExplorerClient,
+      };
+      this.regionalClients.set(region, clients);
     }
+    return clients;
   }
 
   /**
-   * Run EC2 benchmark checks with accurate cost calculations
+   * List regions enabled for the account (opt-in regions that are not enabled are excluded)
    */
-  async runEC2Benchmark(): Promise<BenchmarkResult> {
-    const checks: BenchmarkCheck[] = [];
-
-    try {
-      // Check for stopped instances
-      const instancesResponse = await this.ec2Client.send(new DescribeInstancesCommand({}));
-      const instances = instancesResponse.Reservations?.flatMap(r => r.Instances || []) || [];
-      
-      for (const instance of instances) {
-        if (instance.State?.Name === 'stopped') {
-          // Stopped instances incur EBS volume costs - save 100% by terminating
-          const estimatedSavings = await this.calculateSavings(
-            instance.InstanceId,
-            'Amazon Elastic Compute Cloud - Compute',
-            100,
-            500 // Fallback: Save $5/month by terminating stopped instance
-          );
-          
-          checks.push({
-            id: `ec2-stopped-${instance.InstanceId}`,
-            name: 'EC2 instance should not be stopped for more than 30 days',
-            passed: false,
-            resourceId: instance.InstanceId,
-            estimatedSavings,
-            reason: `Instance ${instance.InstanceId} is stopped but still incurring charges for EBS volumes`,
-          });
-        }
-      }
-
-      // Check for unattached volumes
-      const volumesResponse = await this.ec2Client.send(new DescribeVolumesCommand({}));
-      const volumes = volumesResponse.Volumes || [];
-      
-      for (const volume of volumes) {
-        if (volume.State === 'available') {
-          // Unattached volumes can be deleted - save 100%
-          // Fallback estimate: $0.10/GB-month for gp3 volumes
-          const fallbackCost = (volume.Size || 0) * 10; // cents
-          const estimatedSavings = await this.calculateSavings(
-            volume.VolumeId,
-            'EC2 - Other',
-            100,
-            fallbackCost
-          );
-          
-          checks.push({
-            id: `ec2-volume-${volume.VolumeId}`,
-            name: 'EBS volumes should be attached to instances',
-            passed: false,
-            resourceId: volume.VolumeId,
-            estimatedSavings,
-            reason: `Volume ${volume.VolumeId} (${volume.Size}GB) is unattached and incurring costs`,
-          });
-        }
-      }
-
-      // Check for old snapshots
-      const snapshotsResponse = await this.ec2Client.send(new DescribeSnapshotsCommand({ OwnerIds: ['self'] }));
-      const snapshots = snapshotsResponse.Snapshots || [];
-      const oldSnapshotDate = new Date();
-      oldSnapshotDate.setDate(oldSnapshotDate.getDate() - 90); // 90 days ago
-      
-      for (const snapshot of snapshots) {
-        if (snapshot.StartTime && snapshot.StartTime < oldSnapshotDate) {
-          // Old snapshots can be deleted - save 100%
-          // Fallback estimate: $0.05/GB-month for snapshots
-          const fallbackCost = (snapshot.VolumeSize || 0) * 5; // cents
-          const estimatedSavings = await this.calculateSavings(
-            snapshot.SnapshotId,
-            'EC2 - Other',
-            100,
-            fallbackCost
-          );
-          
-          checks.push({
-            id: `ec2-snapshot-${snapshot.SnapshotId}`,
-            name: 'EBS snapshots should not be older than 90 days',
-            passed: false,
-            resourceId: snapshot.SnapshotId,
-            estimatedSavings,
-            reason: `Snapshot ${snapshot.SnapshotId} is older than 90 days`,
-          });
-        }
-      }
-
-      // Check for unattached elastic IPs
-      const addressesResponse = await this.ec2Client.send(new DescribeAddressesCommand({}));
-      const addresses = addressesResponse.Addresses || [];
-      
-      for (const address of addresses) {
-        if (!address.AssociationId) {
-          // Unattached EIPs cost $0.005/hour = $3.60/month
-          const estimatedSavings = await this.calculateSavings(
-            address.AllocationId,
-            'EC2 - Other',
-            100,
-            360 // $3.60/month in cents
-          );
-          
-          checks.push({
-            id: `ec2-eip-${address.AllocationId}`,
-            name: 'Elastic IPs should be attached to instances',
-            passed: false,
-            resourceId: address.AllocationId,
-            estimatedSavings,
-            reason: `Elastic IP ${address.PublicIp} is unattached and incurring charges`,
-          });
-        }
-      }
-
-    } catch (error: any) {
-      console.error('Error running EC2 benchmark:', error);
-      // Re-throw AWS SDK errors so routes can handle them appropriately
-      if (error.name === 'CredentialsError' || error.name === 'InvalidClientTokenId' || 
-          error.name === 'UnauthorizedException' || error.name === 'AccessDeniedException') {
-        throw error;
-      }
-      // For other errors, log but continue with empty results (service may not be in use)
-    }
-
-    const controlsPassed = checks.filter(c => c.passed).length;
-    const controlsFailed = checks.filter(c => !c.passed).length;
-    const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
-
-    return {
-      benchmarkId: 'ec2',
-      benchmarkName: 'EC2',
-      checks,
-      controlsPassed,
-      controlsFailed,
-      estimatedSavings,
-    };
+  async getEnabledRegions(): Promise<string[]> {
+    const response = await this.clients.ec2.send(new DescribeRegionsCommand({}));
+    return (response.Regions || [])
+      .map(r => r.RegionName)
+      .filter((name): name is string => !!name)
+      .sort();
   }
 
   /**
-   * Run RDS benchmark checks with accurate cost calculations
+   * Resolve the regions a benchmark should scan from the account's region settings.
+   * The default region is always scanned first since global resources are collected there.
    */
-  async runRDSBenchmark(): Promise<BenchmarkResult> {
-    const checks: BenchmarkCheck[] = [];
+  async getScanRegions(): Promise<string[]> {
+    const homeRegion = this.credentials.region;
+    let regions: string[];
 
-    try {
-      const response = await this.rdsClient.send(new DescribeDBInstancesCommand({}));
-      const instances = response.DBInstances || [];
-
-      for (const instance of instances) {
-        // Check for stopped instances
-        if (instance.DBInstanceStatus === 'stopped') {
-          // Stopped RDS instances still incur storage costs - save 100% by deleting snapshots and terminating
-          const estimatedSavings = await this.calculateSavings(
-            instance.DBInstanceIdentifier,
-            'Amazon Relational Database Service',
-            100,
-            2000 // Fallback: Save $20/month by terminating stopped RDS instance
-          );
-          
-          checks.push({
-            id: `rds-stopped-${instance.DBInstanceIdentifier}`,
-            name: 'RDS instances should not be stopped for extended periods',
-            passed: false,
-            resourceId: instance.DBInstanceIdentifier,
-            estimatedSavings,
-            reason: `RDS instance ${instance.DBInstanceIdentifier} is stopped`,
-          });
-        }
-
-        // Check for old generation instance types
-        if (instance.DBInstanceClass?.includes('.t2.') || instance.DBInstanceClass?.includes('.m3.')) {
-          // Upgrading to new generation can save ~30-40% on compute costs
-          const estimatedSavings = await this.calculateSavings(
-            instance.DBInstanceIdentifier,
-            'Amazon Relational Database Service',
-            35, // 35% savings by upgrading to newer generation
-            1050 // Fallback: Save $10.50/month by upgrading ($30/month instance * 35%)
-          );
-          
-          checks.push({
-            id: `rds-old-gen-${instance.DBInstanceIdentifier}`,
-            name: 'RDS instances should use current generation instance types',
-            passed: false,
-            resourceId: instance.DBInstanceIdentifier,
-            estimatedSavings,
-            reason: `RDS instance ${instance.DBInstanceIdentifier} uses old generation instance type ${instance.DBInstanceClass}`,
-          });
-        }
-      }
-
-      // Check for old snapshots
-      const snapshotsResponse = await this.rdsClient.send(new DescribeDBSnapshotsCommand({ SnapshotType: 'manual' }));
-      const snapshots = snapshotsResponse.DBSnapshots || [];
-      const oldSnapshotDate = new Date();
-      oldSnapshotDate.setDate(oldSnapshotDate.getDate() - 90);
-      
-      for (const snapshot of snapshots) {
-        if (snapshot.SnapshotCreateTime && snapshot.SnapshotCreateTime < oldSnapshotDate) {
-          // Old snapshots can be deleted - save 100%
-          // Fallback estimate: $0.095/GB-month for RDS snapshots
-          const fallbackCost = (snapshot.AllocatedStorage || 0) * 10; // cents (roughly $0.10/GB)
-          const estimatedSavings = await this.calculateSavings(
-            snapshot.DBSnapshotIdentifier,
-            'Amazon Relational Database Service',
-            100,
-            fallbackCost
-          );
-          
-          checks.push({
-            id: `rds-snapshot-${snapshot.DBSnapshotIdentifier}`,
-            name: 'RDS snapshots should not be older than 90 days',
-            passed: false,
-            resourceId: snapshot.DBSnapshotIdentifier,
-            estimatedSavings,
-            reason: `RDS snapshot ${snapshot.DBSnapshotIdentifier} is older than 90 days`,
-          });
+    if (this.credentials.scanAllRegions) {
+      try {
+        regions = await this.getEnabledRegions();
+      } catch (error: any) {
+        if (isCredentialError(error)) {
+          throw error;
         }
+        console.error('Error listing enabled regions, scanning default region only:', error);
+        regions = [];
       }
-
-    } catch (error) {
-      console.error('Error running RDS benchmark:', error);
+    } else {
+      regions = this.credentials.scanRegions || [];
     }
 
-    const controlsPassed = checks.filter(c => c.passed).length;
-    const controlsFailed = checks.filter(c => !c.passed).length;
-    const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
-
-    return {
-      benchmarkId: 'rds',
-      benchmarkName: 'RDS',
-      checks,
-      controlsPassed,
-      controlsFailed,
-      estimatedSavings,
-    };
+    return [homeRegion, ...regions.filter(r => r !== homeRegion)];
   }
 
   /**
-   * Run S3 benchmark checks
+   * Calculate estimated monthly savings for a failing resource.
+   * Uses the resource's Cost Explorer cost when available, then its list price from the
+   * price catalog, and finally the control's fallback estimate.
+   * @returns Estimated monthly savings in cents, with where the estimate came from
    */
-  async runS3Benchmark(): Promise<BenchmarkResult> {
-    const checks: BenchmarkCheck[] = [];
-
-    try {
-      const response = await this.s3Client.send(new ListBucketsCommand({}));
-      const buckets = response.Buckets || [];
-
-      for (const bucket of buckets) {
-        if (!bucket.Name) continue;
-
-        try {
-          // Check for versioning
-          const versioningResponse = await this.s3Client.send(
-            new GetBucketVersioningCommand({ Bucket: bucket.Name })
-          );
-          
-          if (versioningResponse.Status === 'Enabled' && !versioningResponse.MFADelete) {
-            // S3 versioning without lifecycle can waste storage - estimate 30% savings
-            const estimatedSavings = await this.calculateSavings(
-              bucket.Name,
-              'Amazon Simple Storage Service', // S3 doesn't support resource-level cost queries, uses fallback
-              30,
-              300 // Fallback: Save $3/month with lifecycle policies ($10/month bucket * 30%)
-            );
-            
-            checks.push({
-              id: `s3-versioning-${bucket.Name}`,
-              name: 'S3 buckets with versioning should have lifecycle policies',
-              passed: false,
-              resourceId: bucket.Name,
-              estimatedSavings,
-              reason: `Bucket ${bucket.Name} has versioning enabled without lifecycle management`,
-            });
-          }
+  private async calculateSavings(
+    control: ControlDefinition,
+    resource: any,
+    ctx: ScanContext,
+    params: ControlParams
+  ): Promise<{ estimatedSavings: number; savingsEstimate: SavingsEstimate; removesResource: boolean }> {
+    const savings = control.savings!;
+    const resourceId = control.resourceId(resource);
+    const method = (await savings.resourceMethod?.(resource, ctx, params)) ?? savings.method;
+    const fraction = savingsFraction(method, ctx.prices);
+    const modelInputs = savingsModelInputs(method, ctx.prices);
+    const removesResource = method.kind === 'deletion';
+
+    if (resourceId) {
+      try {
+        // Get actual daily cost from Cost Explorer (last 7 days)
+        const dailyCostCents = await this.getResourceCost(resourceId, savings.costExplorerService, 7);
 
-          // Check for lifecycle policies
-          try {
-            await this.s3Client.send(
-              new GetBucketLifecycleConfigurationCommand({ Bucket: bucket.Name })
-            );
-          } catch (error: any) {
-            if (error.name === 'NoSuchLifecycleConfiguration') {
-              // Lifecycle policies can save 20-40% by moving to cheaper storage classes
-              const estimatedSavings = await this.calculateSavings(
-                bucket.Name,
-                'Amazon Simple Storage Service',
-                25,
-                200 // Fallback: Save $2/month with lifecycle policies ($8/month bucket * 25%)
-              );
-              
-              checks.push({
-                id: `s3-lifecycle-${bucket.Name}`,
-                name: 'S3 buckets should have lifecycle policies to optimize costs',
-                passed: false,
-                resourceId: bucket.Name,
-                estimatedSavings,
-                reason: `Bucket ${bucket.Name} does not have lifecycle policies configured`,
-              });
-            }
-          }
-        } catch (error) {
-          // Skip buckets we can't access
-          console.error(`Error checking bucket ${bucket.Name}:`, error);
+        if (dailyCostCents !== null && dailyCostCents > 0) {
+          // Convert daily cost to monthly (30 days) and apply the savings model
+          const monthlyCostCents = dailyCostCents * 30;
+          return {
+            estimatedSavings: Math.round(monthlyCostCents * fraction),
+            savingsEstimate: savingsEstimate('resource-cost', { ...modelInputs, dailyCostCents, monthlyCostCents }),
+            removesResource,
+          };
         }
+      } catch (error) {
+        console.error(`Error calculating savings for ${resourceId}:`, error);
       }
-
-    } catch (error) {
-      console.error('Error running S3 benchmark:', error);
     }
 
-    const controlsPassed = checks.filter(c => c.passed).length;
-    const controlsFailed = checks.filter(c => !c.passed).length;
-    const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
-
-    return {
-      benchmarkId: 's3',
-      benchmarkName: 'S3',
-      checks,
-      controlsPassed,
-      controlsFailed,
-      estimatedSavings,
-    };
-  }
-
-  /**
-   * Run DynamoDB benchmark checks
-   */
-  async runDynamoDBBenchmark(): Promise<BenchmarkResult> {
-    const checks: BenchmarkCheck[] = [];
-
     try {
-      const response = await this.dynamodbClient.send(new ListTablesCommand({}));
-      const tableNames = response.TableNames || [];
-
-      for (const tableName of tableNames) {
-        const tableResponse = await this.dynamodbClient.send(
-          new DescribeTableCommand({ TableName: tableName })
-        );
-        const table = tableResponse.Table;
-
-        if (table?.BillingModeSummary?.BillingMode === 'PROVISIONED') {
-          const readCapacity = table.ProvisionedThroughput?.ReadCapacityUnits || 0;
-          const writeCapacity = table.ProvisionedThroughput?.WriteCapacityUnits || 0;
-          
-          if (readCapacity > 10 || writeCapacity > 10) {
-            // Switching to on-demand can save 20-40% for variable workloads
-            // Estimate: $0.00065 per WCU-hour, $0.00013 per RCU-hour for provisioned
-            const monthlyCost = ((writeCapacity * 0.00065 + readCapacity * 0.00013) * 730 * 100);
-            const estimatedSavings = await this.calculateSavings(
-              tableName,
-              'Amazon DynamoDB', // DynamoDB doesn't support resource-level cost queries, uses fallback
-              30,
-              Math.round(monthlyCost * 0.3) // Save 30%
-            );
-            
-            checks.push({
-              id: `dynamodb-capacity-${tableName}`,
-              name: 'DynamoDB tables should use on-demand billing for variable workloads',
-              passed: false,
-              resourceId: tableName,
-              estimatedSavings,
-              reason: `Table ${tableName} uses provisioned capacity (${readCapacity} RCU, ${writeCapacity} WCU)`,
-            });
-          }
-        }
+      const listPriceCents = await savings.listPriceCents?.(resource, ctx, params);
+      if (listPriceCents !== undefined) {
+        return {
+          estimatedSavings: Math.round(listPriceCents * fraction),
+          savingsEstimate: savingsEstimate('list-price', { ...modelInputs, monthlyCostCents: listPriceCents }),
+          removesResource,
+        };
       }
-
     } catch (error) {
-      console.error('Error running DynamoDB benchmark:', error);
+      console.error(`Error pricing ${resourceId ?? control.id} from the price catalog:`, error);
     }
 
-    const controlsPassed = checks.filter(c => c.passed).length;
-    const controlsFailed = checks.filter(c => !c.passed).length;
-    const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
-
+    // Built-in fallbacks are already savings, so no percentage is applied to them
     return {
-      benchmarkId: 'dynamodb',
-      benchmarkName: 'DynamoDB',
-      checks,
-      controlsPassed,
-      controlsFailed,
-      estimatedSavings,
+      estimatedSavings: savings.fallbackCents(resource, ctx, params),
+      savingsEstimate: savingsEstimate('fallback', { savingsModel: modelInputs.savingsModel }),
+      removesResource,
     };
   }
 
   /**
-   * Run ElastiCache benchmark checks
+   * Monthly cost of a failing resource for controls that report it instead of savings.
+   * Uses the resource's Cost Explorer cost when available, then its list price.
+   * @returns Monthly cost in cents, or undefined when the resource can't be priced
    */
-  async runElastiCacheBenchmark(): Promise<BenchmarkResult> {
-    const checks: BenchmarkCheck[] = [];
-
-    try {
-      const response = await this.elasticacheClient.send(new DescribeCacheClustersCommand({}));
-      const clusters = response.CacheClusters || [];
-
-      for (const cluster of clusters) {
-        // Check for old generation node types
-        if (cluster.CacheNodeType?.includes('.t2.') || cluster.CacheNodeType?.includes('.m3.')) {
-          // Upgrading to new generation can save ~30-40%
-          const estimatedSavings = await this.calculateSavings(
-            cluster.CacheClusterId,
-            'Amazon ElastiCache',
-            35,
-            1750 // Fallback: Save $17.50/month by upgrading ($50/month cluster * 35%)
-          );
-          
-          checks.push({
-            id: `elasticache-old-gen-${cluster.CacheClusterId}`,
-            name: 'ElastiCache clusters should use current generation node types',
-            passed: false,
-            resourceId: cluster.CacheClusterId,
-            estimatedSavings,
-            reason: `Cluster ${cluster.CacheClusterId} uses old generation node type ${cluster.CacheNodeType}`,
-          });
+  private async calculateResourceCost(
+    control: ControlDefinition,
+    resource: any,
+    ctx: ScanContext,
+    params: ControlParams
+  ): Promise<number | undefined> {
+    const resourceCost = control.resourceCost!;
+    const resourceId = control.resourceId(resource);
+
+    if (resourceId) {
+      try {
+        const dailyCostCents = await this.getResourceCost(resourceId, resourceCost.costExplorerService, 7);
+        if (dailyCostCents !== null && dailyCostCents > 0) {
+          return Math.round(dailyCostCents * 30);
         }
+      } catch (error) {
+        console.error(`Error fetching the cost of ${resourceId}:`, error);
       }
+    }
 
+    try {
+      return await resourceCost.listPriceCents?.(resource, ctx, params);
     } catch (error) {
-      console.error('Error running ElastiCache benchmark:', error);
+      console.error(`Error pricing ${resourceId ?? control.id} from the price catalog:`, error);
+      return undefined;
     }
-
-    const controlsPassed = checks.filter(c => c.passed).length;
-    const controlsFailed = checks.filter(c => !c.passed).length;
-    const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
-
-    return {
-      benchmarkId: 'elasticache',
-      benchmarkName: 'ElastiCache',
-      checks,
-      controlsPassed,
-      controlsFailed,
-      estimatedSavings,
-    };
   }
 
   /**
-   * Run Redshift benchmark checks
+   * Run a registered benchmark by ID across every scan region.
+   * Within a region, controls collect resources through a shared scan context,
+   * so resources used by several controls are only fetched once.
    */
-  async runRedshiftBenchmark(): Promise<BenchmarkResult> {
-    const checks: BenchmarkCheck[] = [];
+  async runBenchmark(benchmarkId: string, options: RunBenchmarkOptions = {}): Promise<BenchmarkResult> {
+    const benchmark = controlRegistry.getBenchmark(benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Unknown benchmark: ${benchmarkId}`);
+    }
 
-    try {
-      const response = await this.redshiftClient.send(new DescribeClustersCommand({}));
-      const clusters = response.Clusters || [];
-
-      for (const cluster of clusters) {
-        // Check for paused clusters
-        if (cluster.ClusterStatus === 'paused') {
-          // Paused Redshift clusters save compute costs but still incur storage - save 100% if deleted
-          const estimatedSavings = await this.calculateSavings(
-            cluster.ClusterIdentifier,
-            'Amazon Redshift',
-            100,
-            15000 // Fallback: Save $150/month by deleting paused Redshift cluster
-          );
-          
-          checks.push({
-            id: `redshift-paused-${cluster.ClusterIdentifier}`,
-            name: 'Redshift clusters should not be paused for extended periods',
-            passed: false,
-            resourceId: cluster.ClusterIdentifier,
-            estimatedSavings,
-            reason: `Cluster ${cluster.ClusterIdentifier} is paused`,
-          });
-        }
+    const regions = await this.getScanRegions();
+    const controls = controlRegistry.getBenchmarkControls(benchmarkId);
 
-        // Check for old generation node types
-        if (cluster.NodeType?.includes('dc1.') || cluster.NodeType?.includes('ds1.')) {
-          // Upgrading to new generation can save ~30-50%
-          const estimatedSavings = await this.calculateSavings(
-            cluster.ClusterIdentifier,
-            'Amazon Redshift',
-            40,
-            20000 // Fallback: Save $200/month by upgrading ($500/month cluster * 40%)
-          );
-          
-          checks.push({
-            id: `redshift-old-gen-${cluster.ClusterIdentifier}`,
-            name: 'Redshift clusters should use current generation node types',
-            passed: false,
-            resourceId: cluster.ClusterIdentifier,
-            estimatedSavings,
-            reason: `Cluster ${cluster.ClusterIdentifier} uses old generation node type ${cluster.NodeType}`,
-          });
-        }
-      }
+    // Global resources are only collected once, from the default region
+    const plan = regions.flatMap(region => controls
+      .filter(control => region === this.credentials.region || !controlRegistry.getCollector(control.resource)?.global)
+      .map(control => ({ region, control }))
+    );
 
-    } catch (error) {
-      console.error('Error running Redshift benchmark:', error);
+    const thresholds: ControlThresholds = {};
+    for (const control of controls) {
+      thresholds[control.id] = controlRegistry.resolveParameters(control, options.thresholds);
     }
 
-    const controlsPassed = checks.filter(c => c.passed).length;
-    const controlsFailed = checks.filter(c => !c.passed).length;
-    const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
-
-    return {
-      benchmarkId: 'redshift',
-      benchmarkName: 'Redshift',
-      checks,
-      controlsPassed,
-      controlsFailed,
-      estimatedSavings,
-    };
-  }
-
-  /**
-   * Run Lambda benchmark checks
-   */
-  async runLambdaBenchmark(): Promise<BenchmarkResult> {
     const checks: BenchmarkCheck[] = [];
+    const controlErrors: ControlError[] = [];
+    let completedControls = 0;
+    let resourcesScanned = 0;
+    let runningSavings = 0;
+    let ctx: ScanContext | null = null;
+    const inventory: RegionInventory[] = [];
+
+    for (const { region, control } of plan) {
+      options.signal?.throwIfAborted();
+
+      if (ctx?.region !== region) {
+        if (ctx) inventory.push(await controlRegistry.collectInventory(ctx));
+        const prices = await options.prices?.getRegionPrices(region);
+        ctx = controlRegistry.createScanContext(
+          this.getRegionalClients(region),
+          region,
+          new Date(),
+          prices,
+          options.tagPolicy
+        );
+      }
 
-    try {
-      const response = await this.lambdaClient.send(new ListFunctionsCommand({}));
-      const functions = response.Functions || [];
-
-      for (const func of functions) {
-        // Check for over-provisioned memory
-        if (func.MemorySize && func.MemorySize > 3008) {
-          // Over-provisioned Lambda can waste 20-30% of costs
-          const estimatedSavings = await this.calculateSavings(
-            func.FunctionName,
-            'AWS Lambda',
-            25,
-            125 // Fallback: Save $1.25/month by rightsizing ($5/month function * 25%)
-          );
-          
-          checks.push({
-            id: `lambda-memory-${func.FunctionName}`,
-            name: 'Lambda functions should not be over-provisioned',
-            passed: false,
-            resourceId: func.FunctionName,
-            estimatedSavings,
-            reason: `Function ${func.FunctionName} has ${func.MemorySize}MB memory which may be over-provisioned`,
-          });
-        }
-
-        // Check for old runtime versions
-        if (func.Runtime?.includes('nodejs12') || func.Runtime?.includes('python3.6') || func.Runtime?.includes('python3.7')) {
-          // Old runtimes are security/compatibility issues, not direct cost issues
-          checks.push({
-            id: `lambda-runtime-${func.FunctionName}`,
-            name: 'Lambda functions should use supported runtime versions',
-            passed: false,
-            resourceId: func.FunctionName,
-            estimatedSavings: 0, // Security/compatibility issue, not cost
-            reason: `Function ${func.FunctionName} uses deprecated runtime ${func.Runtime}`,
-          });
+      const progress = () => ({
+        completedControls,
+        totalControls: plan.length,
+        findings: checks.length,
+        resourcesScanned,
+        estimatedSavings: runningSavings,
+        controlId: control.id,
+        region,
+      });
+      options.onControlStart?.(progress());
+
+      let controlError: ControlError | undefined;
+      let controlResourcesScanned = 0;
+      let controlFindings = 0;
+      try {
+        const outcome = await this.runControl(control, ctx, thresholds[control.id], check => {
+          checks.push(check);
+          runningSavings += check.estimatedSavings;
+          controlFindings++;
+          options.onFinding?.(check);
+        });
+        controlResourcesScanned = outcome.resourcesScanned;
+        resourcesScanned += controlResourcesScanned;
+      } catch (error: any) {
+        console.error(`Error running control ${control.id} in ${benchmark.name} benchmark (${region}):`, error);
+        // Re-throw AWS SDK credential errors so routes can handle them appropriately
+        if (isCredentialError(error)) {
+          throw error;
         }
+        // For other errors, record and continue with remaining controls (service may not be in use)
+        controlError = { controlId: control.id, region, message: error.message || String(error) };
+        controlErrors.push(controlError);
       }
 
-    } catch (error) {
-      console.error('Error running Lambda benchmark:', error);
+      completedControls++;
+      options.onControlComplete?.({
+        ...progress(),
+        controlResourcesScanned,
+        controlFindings,
+        error: controlError,
+      });
     }
 
+    if (ctx) inventory.push(await controlRegistry.collectInventory(ctx));
+
     const controlsPassed = checks.filter(c => c.passed).length;
     const controlsFailed = checks.filter(c => !c.passed).length;
     const estimatedSavings = checks.reduce((sum, c) => sum + c.estimatedSavings, 0);
 
     return {
-      benchmarkId: 'lambda',
-      benchmarkName: 'Lambda',
+      benchmarkId: benchmark.id,
+      benchmarkName: benchmark.name,
+      regions,
       checks,
       controlsPassed,
       controlsFailed,
       estimatedSavings,
+      costExplorerCalls: this.costExplorerCalls,
+      controlErrors,
+      thresholds,
+      inventory,
     };
   }
 
   /**
-   * Run a specific benchmark by ID
+   * Evaluate a single control against its collected resources.
+   * Only failing resources are reported as checks, each passed to onFinding as soon as it is priced.
+   * Findings below the control's minimum monthly savings are dropped.
    */
-  async runBenchmark(benchmarkId: string): Promise<BenchmarkResult> {
-    switch (benchmarkId) {
-      case 'ec2':
-        return this.runEC2Benchmark();
-      case 'rds':
-        return this.runRDSBenchmark();
-      case 's3':
-        return this.runS3Benchmark();
-      case 'dynamodb':
-        return this.runDynamoDBBenchmark();
-      case 'elasticache':
-        return this.runElastiCacheBenchmark();
-      case 'redshift':
-        return this.runRedshiftBenchmark();
-      case 'lambda':
-        return this.runLambdaBenchmark();
-      default:
-        throw new Error(`Unknown benchmark: ${benchmarkId}`);
+  private async runControl(
+    control: ControlDefinition,
+    ctx: ScanContext,
+    params: ControlParams,
+    onFinding: (check: BenchmarkCheck) => void
+  ): Promise<{ resourcesScanned: number }> {
+    const resources = await ctx.collect(control.resource);
+
+    for (const resource of resources) {
+      if (await control.passes(resource, ctx, params)) continue;
+
+      const resourceId = control.resourceId(resource);
+      const { estimatedSavings, savingsEstimate: estimate, removesResource } = control.savings
+        ? await this.calculateSavings(control, resource, ctx, params)
+        : { estimatedSavings: 0, savingsEstimate: savingsEstimate('unmapped'), removesResource: false };
+      if (control.savings && estimatedSavings < (params.minMonthlySavingsCents ?? 0)) continue;
+      const resourceMonthlyCost = control.resourceCost
+        ? await this.calculateResourceCost(control, resource, ctx, params)
+        : undefined;
+
+      onFinding({
+        id: control.id,
+        name: control.title,
+        passed: false,
+        resourceId,
+        region: control.resourceRegion?.(resource) || ctx.region,
+        estimatedSavings,
+        savingsEstimate: estimate,
+        serviceCode: control.savings?.costExplorerService,
+        removesResource,
+        relatedResourceIds: control.relatedResourceIds?.(resource),
+        reason: await control.reason(resource, params, ctx),
+        reviewNote: await control.reviewNote?.(resource, params, ctx),
+        tags: control.resourceTags
+          ? control.resourceTags(resource)
+          : controlRegistry.resourceTags(control.resource, resource) ?? undefined,
+        resourceMonthlyCost,
+      });
     }
+
+    return { resourcesScanned: resources.length };
   }
 
   /**
-   * Check which services are actually in use
+   * Check which services are actually in use.
+   * A service is active if its first page of resources is non-empty, so each
+   * probe requests the smallest page the API allows.
    */
   async getActiveServices(): Promise<string[]> {
-    const activeServices: string[] = [];
-
-    try {
-      const instances = await this.ec2Client.send(new DescribeInstancesCommand({}));
-      if (instances.Reservations && instances.Reservations.length > 0) {
-        activeServices.push('ec2');
-      }
-    } catch (error) {
-      // Service not available or no permissions
-    }
-
-    try {
-      const dbInstances = await this.rdsClient.send(new DescribeDBInstancesCommand({}));
-      if (dbInstances.DBInstances && dbInstances.DBInstances.length > 0) {
-        activeServices.push('rds');
-      }
-    } catch (error) {
-      // Service not available or no permissions
-    }
-
-    try {
-      const buckets = await this.s3Client.send(new ListBucketsCommand({}));
-      if (buckets.Buckets && buckets.Buckets.length > 0) {
-        activeServices.push('s3');
-      }
-    } catch (error) {
-      // Service not available or no permissions
-    }
-
-    try {
-      const tables = await this.dynamodbClient.send(new ListTablesCommand({}));
-      if (tables.TableNames && tables.TableNames.length > 0) {
-        activeServices.push('dynamodb');
-      }
-    } catch (error) {
-      // Service not available or no permissions
-    }
-
-    try {
-      const clusters = await this.elasticacheClient.send(new DescribeCacheClustersCommand({}));
-      if (clusters.CacheClusters && clusters.CacheClusters.length > 0) {
-        activeServices.push('elasticache');
-      }
-    } catch (error) {
-      // Service not available or no permissions
-    }
+    const probes: Record<string, () => Promise<boolean>> = {
+      ec2: async () => {
+        const page = await this.clients.ec2.send(new DescribeInstancesCommand({ MaxResults: 5 }));
+        return (page.Reservations?.length || 0) > 0;
+      },
+      rds: async () => {
+        const page = await this.clients.rds.send(new DescribeDBInstancesCommand({ MaxRecords: 20 }));
+        return (page.DBInstances?.length || 0) > 0;
+      },
+      s3: async () => {
+        const page = await this.clients.s3.send(new ListBucketsCommand({ MaxBuckets: 1 }));
+        return (page.Buckets?.length || 0) > 0;
+      },
+      dynamodb: async () => {
+        const page = await this.clients.dynamodb.send(new ListTablesCommand({ Limit: 1 }));
+        return (page.TableNames?.length || 0) > 0;
+      },
+      elasticache: async () => {
+        const page = await this.clients.elasticache.send(new DescribeCacheClustersCommand({ MaxRecords: 20 }));
+        return (page.CacheClusters?.length || 0) > 0;
+      },
+      redshift: async () => {
+        const page = await this.clients.redshift.send(new DescribeClustersCommand({ MaxRecords: 20 }));
+        return (page.Clusters?.length || 0) > 0;
+      },
+      lambda: async () => {
+        const page = await this.clients.lambda.send(new ListFunctionsCommand({ MaxItems: 1 }));
+        return (page.Functions?.length || 0) > 0;
+      },
+    };
 
-    try {
-      const redshiftClusters = await this.redshiftClient.send(new DescribeClustersCommand({}));
-      if (redshiftClusters.Clusters && redshiftClusters.Clusters.length > 0) {
-        activeServices.push('redshift');
-      }
-    } catch (error) {
-      // Service not available or no permissions
-    }
+    const activeServices: string[] = [];
 
-    try {
-      const functions = await this.lambdaClient.send(new ListFunctionsCommand({}));
-      if (functions.Functions && functions.Functions.length > 0) {
-        activeServices.push('lambda');
+    for (const [service, probe] of Object.entries(probes)) {
+      try {
+        if (await withThrottlingRetry(probe)) {
+          activeServices.push(service);
+        }
+      } catch (error) {
+        // Service not available or no permissions
       }
-    } catch (error) {
-      // Service not available or no permissions
     }
 
     return activeServices;
@@ -1293,8 +1002,9 @@ export class AwsService {
   }
 
   /**
-   * Get actual cost for a specific resource over the last N days
-   * Uses Cost Explorer GetCostAndUsageWithResources API (limited to last 14 days)
+   * Get actual cost for a specific resource over the last N days.
+   * Costs come from the per-scan resource cost index, which fetches every
+   * resource of the service in one batched GetCostAndUsageWithResources query.
    * 
    * @param resourceId - AWS resource ID (e.g., i-1234567890abcdef0, vol-abc123, bucket-name)
    * @param serviceCode - AWS service (e.g., AmazonEC2, AmazonRDS, AmazonS3)
@@ -1306,62 +1016,16 @@ export class AwsService {
     serviceCode: string = 'AmazonEC2',
     days: number = 7
   ): Promise<number | null> {
-    try {
-      // Calculate date range (must be within last 14 days)
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - Math.min(days, 14));
-
-      const response = await this.costExplorerClient.send(
-        new GetCostAndUsageWithResourcesCommand({
-          TimePeriod: {
-            Start: startDate.toISOString().split('T')[0],
-            End: endDate.toISOString().split('T')[0],
-          },
-          Granularity: 'DAILY',
-          Filter: {
-            And: [
-              {
-                Dimensions: {
-                  Key: 'RESOURCE_ID',
-                  Values: [resourceId],
-                }
-              },
-              {
-                Dimensions: {
-                  Key: 'SERVICE',
-                  Values: [serviceCode],
-                }
-              }
-            ]
-          },
-          Metrics: ['UnblendedCost'],
-        })
-      );
-
-      // Sum up the costs across all days
-      let totalCost = 0;
-      let daysWithData = 0;
-
-      for (const result of response.ResultsByTime || []) {
-        const amount = parseFloat(result.Total?.UnblendedCost?.Amount || '0');
-        if (amount > 0) {
-          totalCost += amount;
-          daysWithData++;
-        }
-      }
-
-      // Return average daily cost in cents, or null if no data
-      if (daysWithData === 0) return null;
-      return Math.round((totalCost / daysWithData) * 100);
-
-    } catch (error: any) {
-      console.error(`Error fetching resource cost for ${resourceId}:`, error);
-      // Return null instead of throwing to allow graceful fallback
-      return null;
-    }
+    return this.resourceCostIndex.getDailyCost(resourceId, serviceCode, days);
   }
 
+  /**
+   * Number of Cost Explorer API calls made by this service instance.
+   * Each Cost Explorer request is billed by AWS, so this is recorded per scan.
+   */
+  getCostExplorerCallCount(): number {
+    return this.costExplorerCalls;
+  }
   /**
    * Get cost optimization recommendations from AWS Cost Explorer
    */
@@ -0,0 +1,256 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import type { AwsAccount, BenchmarkJob, BenchmarkJobEvent, BenchmarkJobProgress } from "@shared/schema";
+import {
+  runBenchmarkForAccount,
+  describeBenchmarkError,
+  type BenchmarkRunOptions,
+  type BenchmarkRunOutcome,
+} from "./benchmark-runner";
+
+const MAX_CONCURRENT_JOBS = 2;
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000; // Keep finished jobs queryable for an hour
+const JOB_FINISHED_EVENT = 'job-finished'; // Per-job events are keyed by job ID, so this can't collide
+
+export type BenchmarkRunner = (
+  account: AwsAccount,
+  benchmarkId: string,
+  options: BenchmarkRunOptions
+) => Promise<BenchmarkRunOutcome>;
+
+interface JobEntry {
+  job: BenchmarkJob;
+  userId: string;
+  account: AwsAccount;
+  controller: AbortController;
+}
+
+export const isFinished = (job: BenchmarkJob) =>
+  job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * In-memory queue of benchmark runs.
+ * Starting a run returns immediately with a job; the run executes in the background
+ * (at most MAX_CONCURRENT_JOBS at a time) and reports progress on the job.
+ * Jobs do not survive a server restart; saved benchmark results do.
+ * Subscribers receive a job event whenever the job changes, plus control and finding events as they happen.
+ */
+export class BenchmarkJobManager {
+  private jobs = new Map<string, JobEntry>();
+  private events = new EventEmitter();
+  private queue: string[] = [];
+  private running = 0;
+  private runner: BenchmarkRunner;
+  private maxConcurrent: number;
+
+  constructor(runner: BenchmarkRunner = runBenchmarkForAccount, maxConcurrent: number = MAX_CONCURRENT_JOBS) {
+    this.runner = runner;
+    this.maxConcurrent = maxConcurrent;
+    this.events.setMaxListeners(0); // One listener per open event stream
+  }
+
+  /**
+   * Queue a benchmark run. If the same benchmark is already queued or running
+   * for the account, that job is returned instead of starting a duplicate.
+   */
+  enqueue(userId: string, account: AwsAccount, benchmarkId: string, useSteampipe: boolean): BenchmarkJob {
+    this.pruneFinishedJobs();
+
+    const existing = Array.from(this.jobs.values()).find(entry =>
+      entry.userId === userId &&
+      entry.job.awsAccountId === account.id &&
+      entry.job.benchmarkId === benchmarkId &&
+      !isFinished(entry.job)
+    );
+    if (existing) {
+      return this.snapshot(existing.job);
+    }
+
+    const job: BenchmarkJob = {
+      id: randomUUID(),
+      awsAccountId: account.id,
+      benchmarkId,
+      useSteampipe,
+      status: 'queued',
+      progress: {
+        completedControls: 0,
+        totalControls: 0,
+        findings: 0,
+        resourcesScanned: 0,
+        estimatedSavings: 0,
+        currentControl: null,
+        currentRegion: null,
+        message: 'Waiting to start',
+      },
+      controlErrors: [],
+      unmappedControls: [],
+      error: null,
+      benchmarkResultId: null,
+      estimatedSavings: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.jobs.set(job.id, { job, userId, account, controller: new AbortController() });
+    this.queue.push(job.id);
+    this.drain();
+
+    return this.snapshot(job);
+  }
+
+  getJob(jobId: string, userId: string): BenchmarkJob | undefined {
+    const entry = this.jobs.get(jobId);
+    return entry && entry.userId === userId ? this.snapshot(entry.job) : undefined;
+  }
+
+  /**
+   * List a user's jobs, newest first
+   */
+  listJobs(userId: string): BenchmarkJob[] {
+    return Array.from(this.jobs.values())
+      .filter(entry => entry.userId === userId)
+      .map(entry => this.snapshot(entry.job))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Subscribe to a job's events. Returns an unsubscribe function, or undefined if the job isn't the user's.
+   */
+  subscribe(jobId: string, userId: string, listener: (event: BenchmarkJobEvent) => void): (() => void) | undefined {
+    const entry = this.jobs.get(jobId);
+    if (!entry || entry.userId !== userId) {
+      return undefined;
+    }
+
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  /**
+   * Listen for every job finishing (succeeded, failed or cancelled), whoever started it.
+   * Returns an unsubscribe function.
+   */
+  onJobFinished(listener: (job: BenchmarkJob) => void): () => void {
+    this.events.on(JOB_FINISHED_EVENT, listener);
+    return () => {
+      this.events.off(JOB_FINISHED_EVENT, listener);
+    };
+  }
+
+  /**
+   * Cancel a queued or running job.
+   * Queued jobs are cancelled immediately; running jobs stop before their next control
+   * and never save partial results.
+   */
+  cancel(jobId: string, userId: string): BenchmarkJob | undefined {
+    const entry = this.jobs.get(jobId);
+    if (!entry || entry.userId !== userId) {
+      return undefined;
+    }
+
+    const { job } = entry;
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter(id => id !== jobId);
+      this.finish(job, 'cancelled');
+    } else if (job.status === 'running') {
+      entry.controller.abort();
+      job.progress.message = 'Cancelling';
+      this.publish(job);
+    }
+
+    return this.snapshot(job);
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      const entry = this.jobs.get(this.queue.shift()!);
+      if (entry) {
+        this.running++;
+        this.run(entry).finally(() => {
+          this.running--;
+          this.drain();
+        });
+      }
+    }
+  }
+
+  private async run(entry: JobEntry): Promise<void> {
+    const { job, account, controller } = entry;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.progress.message = 'Starting';
+    this.publish(job);
+
+    try {
+      const outcome = await this.runner(account, job.benchmarkId, {
+        useSteampipe: job.useSteampipe,
+        signal: controller.signal,
+        onProgress: (progress: Partial<BenchmarkJobProgress>) => {
+          Object.assign(job.progress, progress);
+          this.publish(job);
+        },
+        onControlError: error => {
+          job.controlErrors.push(error);
+        },
+        onEvent: event => {
+          this.events.emit(job.id, event);
+        },
+      });
+
+      job.benchmarkResultId = outcome.benchmarkResultId;
+      job.estimatedSavings = outcome.estimatedSavings;
+      job.controlErrors = outcome.controlErrors;
+      job.unmappedControls = outcome.unmappedControls;
+      this.finish(job, 'succeeded');
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled');
+        return;
+      }
+      console.error(`Benchmark job ${job.id} (${job.benchmarkId}) failed:`, error);
+      job.error = describeBenchmarkError(error);
+      this.finish(job, 'failed');
+    }
+  }
+
+  private finish(job: BenchmarkJob, status: 'succeeded' | 'failed' | 'cancelled'): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.progress.currentControl = null;
+    job.progress.currentRegion = null;
+    job.progress.message = null;
+    this.publish(job);
+    this.events.emit(JOB_FINISHED_EVENT, this.snapshot(job));
+  }
+
+  private publish(job: BenchmarkJob): void {
+    this.events.emit(job.id, { type: 'job', job: this.snapshot(job) });
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    this.jobs.forEach((entry, id) => {
+      if (isFinished(entry.job) && entry.job.finishedAt && Date.parse(entry.job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+        this.events.removeAllListeners(id);
+      }
+    });
+  }
+
+  /**
+   * Copy a job so callers can't mutate the live record
+   */
+  private snapshot(job: BenchmarkJob): BenchmarkJob {
+    return {
+      ...job,
+      progress: { ...job.progress },
+      controlErrors: [...job.controlErrors],
+      unmappedControls: [...job.unmappedControls],
+    };
+  }
+}
+
+export const benchmarkJobs = new BenchmarkJobManager();
@@ -0,0 +1,553 @@
+import type {
+  AwsAccount,
+  BenchmarkJobProgress,
+  BenchmarkControlEvent,
+  BenchmarkFindingEvent,
+  ControlError,
+  SavingsEstimate,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { AwsService } from "./aws-service";
+import { steampipeService, type SteampipeControl } from "./steampipe-service";
+import { PricingService } from "./pricing-service";
+import { PriceCatalog } from "./price-catalog";
+import { hasCustomThresholds, loadAccountThresholds } from "./control-settings";
+import { loadAccountTagPolicy } from "./tag-policies";
+import { getThriftySavingsMethod, savingsEstimate, savingsModelInputs } from "./savings-models";
+import { reconcileSavings } from "./savings-reconciliation";
+import { controlRegistry, type ControlThresholds } from "./control-registry";
+
+// List prices are loaded per region and shared by every run (and by inventory cost estimates)
+export const priceCatalog = new PriceCatalog(storage);
+
+/**
+ * Parse AWS ARN to extract resource ID for Cost Explorer queries
+ * Cost Explorer expects just the resource ID (not the full ARN or namespace prefix)
+ * 
+ * Examples:
+ * Slash-delimited (EC2, ELB, etc.):
+ *   - arn:aws:ec2:region:account:instance/i-123 → i-123
+ *   - arn:aws:ec2:region:account:snapshot/snap-123 → snap-123
+ *   - arn:aws:elasticloadbalancing:region:account:loadbalancer/app/my-lb/123 → app/my-lb/123
+ * 
+ * Colon-delimited (RDS, Lambda, etc.):
+ *   - arn:aws:rds:region:account:db:mydb → mydb
+ *   - arn:aws:lambda:region:account:function:myfunc → myfunc
+ *   - arn:aws:rds:region:account:snapshot:rds:mydb-snap → rds:mydb-snap
+ */
+function parseResourceIdFromArn(arn: string): string {
+  // If not an ARN, return as-is (might already be a resource ID)
+  if (!arn.startsWith('arn:')) {
+    return arn;
+  }
+
+  // Parse ARN: arn:aws:service:region:account:resource
+  const parts = arn.split(':');
+  if (parts.length < 6) {
+    return arn; // Invalid ARN, return as-is
+  }
+
+  // The resource part is everything after the 5th colon
+  const resourcePart = parts.slice(5).join(':');
+
+  // For slash-delimited resources (EC2, EBS, ELB, DynamoDB, etc.)
+  // Format: resource-type/resource-id or resource-type/segment1/segment2/...
+  // Examples:
+  //   - instance/i-123 → i-123
+  //   - snapshot/snap-123 → snap-123  
+  //   - loadbalancer/app/my-lb/123 → app/my-lb/123 (multi-segment)
+  if (resourcePart.includes('/')) {
+    const firstSlashIndex = resourcePart.indexOf('/');
+    // Return everything after the first slash (preserves multi-segment IDs)
+    return resourcePart.substring(firstSlashIndex + 1);
+  }
+  
+  // For colon-delimited resources (RDS, Lambda, etc.)
+  // Format: resource-type:resource-id
+  // Examples:
+  //   - db:mydb → mydb
+  //   - function:myfunc → myfunc
+  //   - snapshot:rds:mydb-snapshot → rds:mydb-snapshot (multi-colon, keep rest)
+  if (resourcePart.includes(':')) {
+    const firstColonIndex = resourcePart.indexOf(':');
+    // Return everything after the first colon (preserves multi-colon IDs)
+    return resourcePart.substring(firstColonIndex + 1);
+  }
+  
+  // For resources without delimiters, return as-is
+  return resourcePart;
+}
+
+/**
+ * Determine Cost Explorer service name from ARN
+ * Maps AWS resource ARNs to official Cost Explorer SERVICE dimension values
+ */
+function getCostExplorerServiceFromArn(arn: string): string | null {
+  if (!arn.startsWith('arn:')) {
+    return null; // Not an ARN, can't determine service
+  }
+
+  // Parse ARN: arn:aws:service:region:account:resource-type/resource-id
+  const parts = arn.split(':');
+  if (parts.length < 6) {
+    return null;
+  }
+
+  const service = parts[2]; // e.g., "ec2", "rds", "s3"
+  const resourcePart = parts.slice(5).join(':'); // Everything after account ID
+
+  // For EC2 service, determine if it's compute or other based on resource type
+  if (service === 'ec2') {
+    if (resourcePart.startsWith('instance/')) {
+      return 'Amazon Elastic Compute Cloud - Compute';
+    } else if (resourcePart.startsWith('volume/') || resourcePart.startsWith('snapshot/')) {
+      return 'EC2 - Other'; // EBS volumes and snapshots
+    } else if (resourcePart.startsWith('elastic-ip/') || resourcePart.startsWith('address/')) {
+      return 'EC2 - Other'; // Elastic IPs
+    } else {
+      return 'Amazon Elastic Compute Cloud - Compute'; // Default to compute
+    }
+  }
+
+  // Service name mappings
+  const serviceMap: Record<string, string | null> = {
+    'rds': 'Amazon Relational Database Service',
+    'elasticache': 'Amazon ElastiCache',
+    'redshift': 'Amazon Redshift',
+    'lambda': 'AWS Lambda',
+    'elasticloadbalancing': 'Amazon Elastic Load Balancing',
+    's3': null, // Not supported for resource-level queries
+    'dynamodb': null, // Not supported for resource-level queries
+  };
+
+  return serviceMap[service] || null;
+}
+
+/**
+ * Extract the region from an AWS ARN (empty for global resources such as S3 buckets)
+ */
+function getRegionFromArn(arn: string): string | null {
+  if (!arn.startsWith('arn:')) {
+    return null;
+  }
+
+  const parts = arn.split(':');
+  return parts.length >= 6 && parts[3] ? parts[3] : null;
+}
+
+/**
+ * Region of a Powerpipe result: the resource's own region, else the region the benchmark ran in
+ */
+function controlRegion(control: SteampipeControl, account: AwsAccount): string {
+  return getRegionFromArn(control.resource) || control.region || account.region;
+}
+
+export interface BenchmarkRunOptions {
+  useSteampipe?: boolean; // Run the Powerpipe benchmark first, falling back to the AWS SDK scan
+  signal?: AbortSignal; // Aborting cancels the run before its results are saved
+  onProgress?: (progress: Partial<BenchmarkJobProgress>) => void;
+  onControlError?: (error: ControlError) => void;
+  onEvent?: (event: BenchmarkControlEvent | BenchmarkFindingEvent) => void; // Per-control and per-finding updates
+}
+
+/**
+ * Summary of a saved benchmark run
+ */
+export interface BenchmarkRunOutcome {
+  benchmarkResultId: string;
+  benchmarkId: string;
+  benchmarkName: string;
+  controlsPassed: number;
+  controlsFailed: number;
+  estimatedSavings: number; // in cents
+  costExplorerCalls: number;
+  controlErrors: ControlError[];
+  unmappedControls: string[]; // Failed controls with no savings model
+}
+
+/**
+ * Run a benchmark for an AWS account and save its results.
+ * Used by the benchmark job queue; the HTTP request that starts a run only enqueues it.
+ */
+export async function runBenchmarkForAccount(
+  account: AwsAccount,
+  benchmarkId: string,
+  options: BenchmarkRunOptions = {}
+): Promise<BenchmarkRunOutcome> {
+  const thresholds = await loadAccountThresholds(account, storage);
+
+  // Powerpipe runs the mod's own controls with the mod's thresholds, so custom thresholds need the SDK scan
+  const steampipeHonoursSettings = !hasCustomThresholds(benchmarkId, thresholds);
+  if (options.useSteampipe && !steampipeHonoursSettings) {
+    console.log(`Custom control thresholds set for ${benchmarkId}; using the AWS SDK scan instead of Steampipe`);
+  }
+  const steampipeHasBenchmark = !controlRegistry.getBenchmark(benchmarkId)?.sdkOnly;
+
+  // Use Steampipe if requested (for accurate savings calculation)
+  if (options.useSteampipe && steampipeHonoursSettings && steampipeHasBenchmark) {
+    try {
+      return await runSteampipeBenchmark(account, benchmarkId, options);
+    } catch (steampipeError: any) {
+      // A cancelled run must not fall back to a second scan
+      options.signal?.throwIfAborted();
+      console.error('Steampipe benchmark failed, falling back to AWS SDK:', steampipeError);
+      // Fall through to use AWS SDK if Steampipe fails
+    }
+  }
+
+  return runAwsSdkBenchmark(account, benchmarkId, thresholds, options);
+}
+
+/**
+ * User-facing message for a failed benchmark run
+ */
+export function describeBenchmarkError(error: any): string {
+  // Provide more specific error messages for AWS credential issues
+  if (error?.name === 'CredentialsError' || error?.name === 'InvalidClientTokenId') {
+    return "AWS credentials are invalid or expired. Please update your credentials.";
+  }
+
+  if (error?.name === 'UnauthorizedException' || error?.name === 'AccessDeniedException') {
+    return "AWS credentials do not have sufficient permissions to run this benchmark.";
+  }
+
+  if (error?.message?.includes('Unknown benchmark')) {
+    return error.message;
+  }
+
+  return "Failed to run benchmark. Please check your AWS credentials and try again.";
+}
+
+async function runSteampipeBenchmark(
+  account: AwsAccount,
+  benchmarkId: string,
+  options: BenchmarkRunOptions
+): Promise<BenchmarkRunOutcome> {
+  options.onProgress?.({ message: 'Running Powerpipe benchmark' });
+
+  // Fan out to the same regions as the AWS SDK scan, including every enabled region when the account asks for it
+  const regions = await new AwsService({
+    accessKeyId: account.accessKeyId,
+    secretAccessKey: account.secretAccessKey,
+    region: account.region,
+    scanRegions: account.scanRegions,
+    scanAllRegions: account.scanAllRegions,
+  }).getScanRegions();
+
+  let resourcesScanned = 0;
+  let findings = 0;
+  const steampipeResult = await steampipeService.runBenchmarkInRegions(
+    `aws_thrifty.benchmark.${benchmarkId}`,
+    account.accessKeyId,
+    account.secretAccessKey,
+    regions,
+    {
+      signal: options.signal,
+      onProgress: ({ completed, total, region }) => options.onProgress?.({
+        completedControls: completed,
+        totalControls: total,
+        currentRegion: region ?? null,
+      }),
+      onControl: ({ name, region, results }) => {
+        const failed = results.filter(control => control.status !== 'ok');
+        resourcesScanned += results.length;
+        findings += failed.length;
+        options.onProgress?.({ resourcesScanned, findings, currentControl: name, currentRegion: region ?? null });
+        options.onEvent?.({
+          type: 'control',
+          controlId: name,
+          region: region ?? null,
+          resourcesScanned: results.length,
+          findings: failed.length,
+          error: results.find(control => control.status === 'error')?.reason || null,
+        });
+      },
+    }
+  );
+
+  // Controls Powerpipe could not evaluate are reported as control errors
+  const controlErrors: ControlError[] = steampipeResult.controls
+    .filter(control => control.status === 'error')
+    .map(control => ({
+      controlId: control.controlId || control.name,
+      region: controlRegion(control, account),
+      message: control.reason,
+    }));
+  controlErrors.forEach(error => options.onControlError?.(error));
+
+  options.onProgress?.({
+    message: 'Calculating savings',
+    resourcesScanned: steampipeResult.controls.length,
+    findings: steampipeResult.controls.filter(control => control.status !== 'ok').length,
+    currentControl: null,
+    currentRegion: null,
+  });
+  let runningSavings = 0;
+
+  // Create pricing service to calculate savings
+  const pricingService = new PricingService({
+    accessKeyId: account.accessKeyId,
+    secretAccessKey: account.secretAccessKey,
+    region: account.region,
+  }, await priceCatalog.getRegionPrices(account.region));
+
+  // Count resources by service for better cost distribution
+  const resourceCountByService: Record<string, number> = {};
+  for (const control of steampipeResult.controls) {
+    if (control.status !== 'ok') {
+      const serviceCode = getCostExplorerServiceFromArn(control.resource);
+      if (serviceCode) {
+        resourceCountByService[serviceCode] = (resourceCountByService[serviceCode] || 0) + 1;
+      }
+    }
+  }
+
+  // Failed controls with no savings model are reported instead of being given a guessed percentage
+  const unmappedControls = new Set<string>();
+
+  // Calculate savings for each control
+  const checksWithSavings = await Promise.all(
+    steampipeResult.controls.map(async (control) => {
+      let estimatedSavings = 0;
+      let estimate: SavingsEstimate | undefined;
+      const controlId = control.controlId || control.name;
+
+      if (control.status !== 'ok') {
+        estimate = savingsEstimate('no-data');
+        try {
+          // Extract resource ID from ARN
+          const resourceId = parseResourceIdFromArn(control.resource);
+          
+          // Determine Cost Explorer service name from ARN
+          const serviceCode = getCostExplorerServiceFromArn(control.resource);
+          const savingsMethod = getThriftySavingsMethod(controlId);
+          
+          if (!savingsMethod) {
+            unmappedControls.add(controlId);
+            estimate = savingsEstimate('unmapped');
+          } else if (!serviceCode) {
+            // Skip if service not supported for resource-level queries
+            console.warn(`Cost Explorer resource-level data not available for ${control.resource}`);
+            estimatedSavings = 0;
+            estimate = savingsEstimate('no-data', savingsModelInputs(savingsMethod));
+          } else {
+            // Pass resource count for this service to enable accurate cost distribution
+            const resourceCount = resourceCountByService[serviceCode];
+            ({ estimatedSavings, savingsEstimate: estimate } = await pricingService.calculateSavings(
+              savingsMethod,
+              resourceId,
+              serviceCode,
+              resourceCount
+            ));
+          }
+        } catch (error) {
+          console.error(`Error calculating savings for ${control.name}:`, error);
+        }
+
+        runningSavings += estimatedSavings;
+        options.onProgress?.({ estimatedSavings: runningSavings });
+        options.onEvent?.({
+          type: 'finding',
+          controlId,
+          resourceId: control.resource || null,
+          region: controlRegion(control, account),
+          estimatedSavings,
+          reason: control.reason || null,
+        });
+      }
+
+      return {
+        id: controlId,
+        name: control.name,
+        passed: control.status === 'ok',
+        resourceId: control.resource,
+        region: controlRegion(control, account),
+        estimatedSavings,
+        savingsEstimate: estimate,
+        reason: control.reason,
+        serviceCode: getCostExplorerServiceFromArn(control.resource), // Add service code for capping
+        removesResource: getThriftySavingsMethod(controlId)?.kind === 'deletion',
+      };
+    })
+  );
+
+  // Remove double-counted savings and cap each service's savings at its actual cost
+  const savingsReconciliation = reconcileSavings(
+    checksWithSavings,
+    await pricingService.getAllServicesCosts(),
+    benchmarkId
+  );
+
+  const controlsPassed = steampipeResult.summary.status.ok;
+  const controlsFailed = 
+    steampipeResult.summary.status.alarm + 
+    steampipeResult.summary.status.error;
+
+  // Calculate total savings (after capping)
+  const totalSavings = checksWithSavings.reduce(
+    (sum, check) => sum + check.estimatedSavings,
+    0
+  );
+
+  const costExplorerCalls = pricingService.getCostExplorerCallCount();
+  console.log(`Steampipe ${benchmarkId} benchmark made ${costExplorerCalls} Cost Explorer API calls`);
+  if (unmappedControls.size > 0) {
+    console.warn(`No savings model for ${unmappedControls.size} control(s); their findings have no savings estimate: ${Array.from(unmappedControls).join(', ')}`);
+  }
+
+  options.signal?.throwIfAborted();
+
+  // Save the benchmark result
+  const saved = await storage.saveBenchmarkResult({
+    awsAccountId: account.id,
+    benchmarkId: benchmarkId,
+    benchmarkName: steampipeResult.title,
+    controlsPassed,
+    controlsFailed,
+    estimatedSavings: totalSavings,
+    resultJson: { 
+      steampipe: true,
+      regions,
+      costExplorerCalls,
+      controlErrors,
+      thresholds: null, // Powerpipe controls run with the aws_thrifty mod's defaults
+      unmappedControls: Array.from(unmappedControls),
+      savingsReconciliation,
+      checks: checksWithSavings,
+      rawResult: steampipeResult 
+    },
+  }, checksWithSavings);
+
+  // Totals come from the saved row, which leaves out findings hidden by suppression rules
+  return {
+    benchmarkResultId: saved.id,
+    benchmarkId,
+    benchmarkName: steampipeResult.title,
+    controlsPassed,
+    controlsFailed: saved.controlsFailed,
+    estimatedSavings: saved.estimatedSavings,
+    costExplorerCalls,
+    controlErrors,
+    unmappedControls: Array.from(unmappedControls),
+  };
+}
+
+async function runAwsSdkBenchmark(
+  account: AwsAccount,
+  benchmarkId: string,
+  thresholds: ControlThresholds,
+  options: BenchmarkRunOptions
+): Promise<BenchmarkRunOutcome> {
+  options.onProgress?.({ message: 'Scanning AWS resources' });
+
+  // Use real AWS scanning with decrypted credentials, fanning out to the account's scan regions
+  const awsService = new AwsService({
+    accessKeyId: account.accessKeyId,
+    secretAccessKey: account.secretAccessKey,
+    region: account.region,
+    scanRegions: account.scanRegions,
+    scanAllRegions: account.scanAllRegions,
+  });
+
+  // Run the actual benchmark against real AWS resources
+  let findings = 0;
+  let runningSavings = 0;
+  const result = await awsService.runBenchmark(benchmarkId, {
+    signal: options.signal,
+    thresholds,
+    prices: priceCatalog,
+    tagPolicy: await loadAccountTagPolicy(account, storage),
+    onControlStart: progress => options.onProgress?.({
+      completedControls: progress.completedControls,
+      totalControls: progress.totalControls,
+      findings: progress.findings,
+      currentControl: progress.controlId,
+      currentRegion: progress.region,
+    }),
+    onControlComplete: progress => {
+      if (progress.error) {
+        options.onControlError?.(progress.error);
+      }
+      options.onProgress?.({
+        completedControls: progress.completedControls,
+        totalControls: progress.totalControls,
+        findings: progress.findings,
+        resourcesScanned: progress.resourcesScanned,
+        estimatedSavings: progress.estimatedSavings,
+      });
+      options.onEvent?.({
+        type: 'control',
+        controlId: progress.controlId,
+        region: progress.region,
+        resourcesScanned: progress.controlResourcesScanned ?? 0,
+        findings: progress.controlFindings ?? 0,
+        error: progress.error?.message || null,
+      });
+    },
+    onFinding: check => {
+      findings++;
+      runningSavings += check.estimatedSavings;
+      options.onProgress?.({ findings, estimatedSavings: runningSavings });
+      options.onEvent?.({
+        type: 'finding',
+        controlId: check.id,
+        resourceId: check.resourceId || null,
+        region: check.region || null,
+        estimatedSavings: check.estimatedSavings,
+        reason: check.reason || null,
+      });
+    },
+  });
+
+  options.signal?.throwIfAborted();
+  options.onProgress?.({ message: 'Reconciling savings', currentControl: null, currentRegion: null });
+
+  // Remove double-counted savings and cap each service's savings at its actual cost
+  const serviceCosts = await awsService.getAllServicesCosts(false).catch(error => {
+    console.error('Error fetching service costs for savings capping:', error);
+    return null;
+  });
+  const savingsReconciliation = reconcileSavings(result.checks, serviceCosts, result.benchmarkId);
+  const estimatedSavings = result.checks.reduce((sum, check) => sum + check.estimatedSavings, 0);
+  const costExplorerCalls = awsService.getCostExplorerCallCount();
+
+  options.signal?.throwIfAborted();
+  options.onProgress?.({ message: 'Saving results', estimatedSavings });
+
+  // Save the benchmark result to database (including individual resource checks)
+  const saved = await storage.saveBenchmarkResult({
+    awsAccountId: account.id,
+    benchmarkId: result.benchmarkId,
+    benchmarkName: result.benchmarkName,
+    controlsPassed: result.controlsPassed,
+    controlsFailed: result.controlsFailed,
+    estimatedSavings,
+    resultJson: {
+      regions: result.regions,
+      costExplorerCalls,
+      controlErrors: result.controlErrors,
+      thresholds: result.thresholds, // Parameter values each control ran with
+      savingsReconciliation,
+      checks: result.checks,
+    },
+  }, result.checks);
+
+  // The inventory is a by-product of the scan; failing to store it doesn't fail the run
+  try {
+    await storage.saveInventorySnapshots(account.id, saved.id, result.inventory);
+  } catch (error) {
+    console.error('Error saving inventory snapshot:', error);
+  }
+
+  return {
+    benchmarkResultId: saved.id,
+    benchmarkId: result.benchmarkId,
+    benchmarkName: result.benchmarkName,
+    controlsPassed: result.controlsPassed,
+    controlsFailed: saved.controlsFailed,
+    estimatedSavings: saved.estimatedSavings,
+    costExplorerCalls,
+    controlErrors: result.controlErrors,
+    unmappedControls: [], // Registered controls always declare their savings model
+  };
+}
@@ -0,0 +1,291 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AwsAccount, BenchmarkJob, BenchmarkSchedule } from "@shared/schema";
+import { BenchmarkScheduler, computeNextRun, type Clock, type SchedulerRegistry, type SchedulerStore } from "./benchmark-scheduler";
+import type { BenchmarkDefinition } from "./control-registry";
+
+const at = (iso: string) => new Date(iso);
+
+/**
+ * Fake clock whose time only moves when a test sets it; intervals never fire on their own
+ */
+function fakeClock(iso: string): Clock & { set(iso: string): void } {
+  let current = at(iso);
+  return {
+    now: () => new Date(current.getTime()),
+    set: (next: string) => { current = at(next); },
+    setInterval: vi.fn(() => 1),
+    clearInterval: vi.fn(),
+  };
+}
+
+function schedule(overrides: Partial<BenchmarkSchedule> = {}): BenchmarkSchedule {
+  return {
+    id: 'schedule-1',
+    awsAccountId: 'account-1',
+    benchmarkIds: null,
+    frequency: 'daily',
+    minuteUtc: 0,
+    hourUtc: 6,
+    dayOfWeekUtc: null,
+    useSteampipe: false,
+    paused: false,
+    nextRunAt: at('2024-01-31T06:00:00Z'),
+    lastRunAt: null,
+    lastRunStatus: null,
+    lastRunError: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+const account = { id: 'account-1', userId: 'user-1', name: 'Production' } as AwsAccount;
+
+function fakeRegistry(ids: string[]): SchedulerRegistry {
+  const benchmarks = ids.map((id): BenchmarkDefinition => ({ id, name: id, description: '', controlIds: [] }));
+  return {
+    hasBenchmark: id => ids.includes(id),
+    listBenchmarks: () => benchmarks,
+  };
+}
+
+/**
+ * In-memory store returning every schedule whose next run has passed. Unlike the database query it
+ * doesn't filter out paused schedules, so the scheduler's own check is exercised.
+ */
+function fakeStore(schedules: BenchmarkSchedule[], accounts: AwsAccount[] = [account]) {
+  const store = {
+    getDueBenchmarkSchedules: vi.fn(async (now: Date) => schedules.filter(s => s.nextRunAt <= now)),
+    recordBenchmarkScheduleRun: vi.fn(async (id: string, run: Pick<BenchmarkSchedule, 'lastRunAt' | 'nextRunAt' | 'lastRunStatus' | 'lastRunError'>) => {
+      const recorded = schedules.find(s => s.id === id);
+      if (recorded) Object.assign(recorded, run);
+    }),
+    recordBenchmarkScheduleOutcome: vi.fn(async (id: string, lastRunAt: Date, outcome: Pick<BenchmarkSchedule, 'lastRunStatus' | 'lastRunError'>) => {
+      const recorded = schedules.find(s => s.id === id && s.lastRunAt?.getTime() === lastRunAt.getTime());
+      if (recorded) Object.assign(recorded, outcome);
+    }),
+    getAwsAccount: vi.fn(async (id: string) => accounts.find(a => a.id === id)),
+  };
+  return store satisfies SchedulerStore;
+}
+
+describe("computeNextRun", () => {
+  it("runs hourly schedules at the next matching minute", () => {
+    const hourly = { frequency: 'hourly', minuteUtc: 15, hourUtc: 0, dayOfWeekUtc: null };
+
+    expect(computeNextRun(hourly, at('2024-01-31T10:05:00Z'))).toEqual(at('2024-01-31T10:15:00Z'));
+    expect(computeNextRun(hourly, at('2024-01-31T10:15:00Z'))).toEqual(at('2024-01-31T11:15:00Z'));
+    expect(computeNextRun(hourly, at('2024-12-31T23:20:00Z'))).toEqual(at('2025-01-01T00:15:00Z'));
+  });
+
+  it("runs daily schedules at the next matching time, rolling over the month", () => {
+    const daily = { frequency: 'daily', minuteUtc: 30, hourUtc: 23, dayOfWeekUtc: null };
+
+    expect(computeNextRun(daily, at('2024-01-31T12:00:00Z'))).toEqual(at('2024-01-31T23:30:00Z'));
+    expect(computeNextRun(daily, at('2024-01-31T23:45:00Z'))).toEqual(at('2024-02-01T23:30:00Z'));
+    expect(computeNextRun(daily, at('2024-02-29T23:30:00Z'))).toEqual(at('2024-03-01T23:30:00Z'));
+  });
+
+  it("runs weekly schedules on the next matching day, rolling over the week and month", () => {
+    // 2024-01-31 is a Wednesday
+    const monday = { frequency: 'weekly', minuteUtc: 0, hourUtc: 9, dayOfWeekUtc: 1 };
+    const wednesday = { frequency: 'weekly', minuteUtc: 0, hourUtc: 12, dayOfWeekUtc: 3 };
+    const sunday = { frequency: 'weekly', minuteUtc: 0, hourUtc: 0, dayOfWeekUtc: 0 };
+
+    expect(computeNextRun(monday, at('2024-01-31T10:00:00Z'))).toEqual(at('2024-02-05T09:00:00Z'));
+    expect(computeNextRun(wednesday, at('2024-01-31T10:00:00Z'))).toEqual(at('2024-01-31T12:00:00Z'));
+    expect(computeNextRun(wednesday, at('2024-01-31T12:00:00Z'))).toEqual(at('2024-02-07T12:00:00Z'));
+    expect(computeNextRun(sunday, at('2024-02-03T12:00:00Z'))).toEqual(at('2024-02-04T00:00:00Z'));
+  });
+
+  it("treats weekly schedules without a day as Sunday", () => {
+    const weekly = { frequency: 'weekly', minuteUtc: 0, hourUtc: 0, dayOfWeekUtc: null };
+
+    expect(computeNextRun(weekly, at('2024-01-31T10:00:00Z'))).toEqual(at('2024-02-04T00:00:00Z'));
+  });
+
+  it("rejects unknown frequencies", () => {
+    expect(() => computeNextRun({ frequency: 'monthly', minuteUtc: 0, hourUtc: 0, dayOfWeekUtc: null }, new Date()))
+      .toThrow('Unknown schedule frequency: monthly');
+  });
+});
+
+describe("BenchmarkScheduler.tick", () => {
+  it("starts every registered benchmark of a due schedule and advances it", async () => {
+    const clock = fakeClock('2024-01-31T06:00:30Z');
+    const store = fakeStore([schedule()]);
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost', 'tags']), clock);
+
+    expect(await scheduler.tick()).toBe(2);
+
+    expect(startRun.mock.calls.map(([, , benchmarkId]) => benchmarkId)).toEqual(['cost', 'tags']);
+    expect(store.recordBenchmarkScheduleRun).toHaveBeenCalledWith('schedule-1', {
+      lastRunAt: at('2024-01-31T06:00:30Z'),
+      nextRunAt: at('2024-02-01T06:00:00Z'),
+      lastRunStatus: 'started',
+      lastRunError: null,
+    });
+  });
+
+  it("runs only the schedule's benchmarks that are still registered", async () => {
+    const store = fakeStore([schedule({ benchmarkIds: ['cost', 'retired'] })]);
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost', 'tags']), fakeClock('2024-01-31T06:00:00Z'));
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(startRun).toHaveBeenCalledWith(expect.objectContaining({ id: 'schedule-1' }), account, 'cost');
+  });
+
+  it("runs a schedule missed while the server was down once, not once per missed run", async () => {
+    const clock = fakeClock('2024-02-03T08:00:00Z');
+    const store = fakeStore([schedule({ nextRunAt: at('2024-01-31T06:00:00Z') })]);
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost']), clock);
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(await scheduler.tick()).toBe(0);
+
+    expect(startRun).toHaveBeenCalledTimes(1);
+    expect(store.recordBenchmarkScheduleRun).toHaveBeenCalledWith('schedule-1', expect.objectContaining({
+      nextRunAt: at('2024-02-04T06:00:00Z'),
+    }));
+
+    clock.set('2024-02-04T06:00:00Z');
+    expect(await scheduler.tick()).toBe(1);
+  });
+
+  it("skips a tick while the previous one is still running", async () => {
+    let releaseFirstTick!: () => void;
+    const store = fakeStore([schedule()]);
+    const getDue = store.getDueBenchmarkSchedules.getMockImplementation()!;
+    store.getDueBenchmarkSchedules.mockImplementationOnce(async now => {
+      await new Promise<void>(resolve => { releaseFirstTick = resolve; });
+      return getDue(now);
+    });
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost']), fakeClock('2024-01-31T06:00:00Z'));
+
+    const first = scheduler.tick();
+    expect(await scheduler.tick()).toBe(0);
+    releaseFirstTick();
+
+    expect(await first).toBe(1);
+    expect(startRun).toHaveBeenCalledTimes(1);
+    expect(store.getDueBenchmarkSchedules).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not run paused schedules", async () => {
+    const store = fakeStore([schedule({ paused: true })]);
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost']), fakeClock('2024-01-31T06:00:00Z'));
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(startRun).not.toHaveBeenCalled();
+    expect(store.recordBenchmarkScheduleRun).not.toHaveBeenCalled();
+  });
+
+  it("records a failed run when the account no longer exists", async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = fakeStore([schedule({ awsAccountId: 'deleted' })]);
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost']), fakeClock('2024-01-31T06:00:00Z'));
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(startRun).not.toHaveBeenCalled();
+    expect(store.recordBenchmarkScheduleRun).toHaveBeenCalledWith('schedule-1', {
+      lastRunAt: at('2024-01-31T06:00:00Z'),
+      nextRunAt: at('2024-02-01T06:00:00Z'),
+      lastRunStatus: 'failed',
+      lastRunError: 'AWS account not found',
+    });
+    error.mockRestore();
+  });
+
+  it("records a failed run when none of the schedule's benchmarks are registered", async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = fakeStore([schedule({ benchmarkIds: ['retired'] })]);
+    const startRun = vi.fn();
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost']), fakeClock('2024-01-31T06:00:00Z'));
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(startRun).not.toHaveBeenCalled();
+    expect(store.recordBenchmarkScheduleRun).toHaveBeenCalledWith('schedule-1', expect.objectContaining({
+      lastRunStatus: 'failed',
+      lastRunError: 'Schedule has no valid benchmarks',
+    }));
+    error.mockRestore();
+  });
+});
+
+describe("BenchmarkScheduler.jobFinished", () => {
+  const startRun = vi.fn((_schedule: BenchmarkSchedule, _account: AwsAccount, benchmarkId: string) => `job-${benchmarkId}`);
+  const job = (benchmarkId: string, status: BenchmarkJob['status'], error: string | null = null) =>
+    ({ id: `job-${benchmarkId}`, benchmarkId, status, error });
+
+  async function startedSchedule() {
+    const due = schedule();
+    const store = fakeStore([due]);
+    const scheduler = new BenchmarkScheduler(store, startRun, fakeRegistry(['cost', 'tags']), fakeClock('2024-01-31T06:00:00Z'));
+    await scheduler.tick();
+    return { due, store, scheduler };
+  }
+
+  it("records the run as completed once all of its jobs have succeeded", async () => {
+    const { due, store, scheduler } = await startedSchedule();
+
+    await scheduler.jobFinished(job('cost', 'succeeded'));
+    expect(store.recordBenchmarkScheduleOutcome).not.toHaveBeenCalled();
+    expect(due.lastRunStatus).toBe('started');
+
+    await scheduler.jobFinished(job('tags', 'succeeded'));
+    expect(store.recordBenchmarkScheduleOutcome).toHaveBeenCalledWith('schedule-1', at('2024-01-31T06:00:00Z'), {
+      lastRunStatus: 'completed',
+      lastRunError: null,
+    });
+    expect(due.lastRunStatus).toBe('completed');
+  });
+
+  it("records the run as failed with the failed jobs' errors", async () => {
+    const { due, scheduler } = await startedSchedule();
+
+    await scheduler.jobFinished(job('cost', 'failed', 'AWS credentials are invalid or expired.'));
+    await scheduler.jobFinished(job('tags', 'cancelled'));
+
+    expect(due).toMatchObject({ lastRunStatus: 'failed', lastRunError: 'cost: AWS credentials are invalid or expired.' });
+  });
+
+  it("records the run as cancelled when a job was cancelled and none failed", async () => {
+    const { due, scheduler } = await startedSchedule();
+
+    await scheduler.jobFinished(job('cost', 'succeeded'));
+    await scheduler.jobFinished(job('tags', 'cancelled'));
+
+    expect(due).toMatchObject({ lastRunStatus: 'cancelled', lastRunError: null });
+  });
+
+  it("ignores jobs it didn't start and jobs reported twice", async () => {
+    const { store, scheduler } = await startedSchedule();
+
+    await scheduler.jobFinished({ id: 'manual-job', benchmarkId: 'cost', status: 'failed', error: 'Failed' });
+    await scheduler.jobFinished(job('cost', 'succeeded'));
+    await scheduler.jobFinished(job('cost', 'succeeded'));
+
+    expect(store.recordBenchmarkScheduleOutcome).not.toHaveBeenCalled();
+  });
+});
+
+describe("BenchmarkScheduler.start", () => {
+  it("ticks on the clock's interval and stops cleanly", () => {
+    const clock = fakeClock('2024-01-31T06:00:00Z');
+    const scheduler = new BenchmarkScheduler(fakeStore([]), vi.fn(), fakeRegistry([]), clock, 5000);
+
+    scheduler.start();
+    scheduler.start();
+    scheduler.stop();
+
+    expect(clock.setInterval).toHaveBeenCalledTimes(1);
+    expect(clock.setInterval).toHaveBeenCalledWith(expect.any(Function), 5000);
+    expect(clock.clearInterval).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,230 @@
+import type { AwsAccount, BenchmarkJob, BenchmarkSchedule } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { controlRegistry, type ControlRegistry } from "./control-registry";
+
+const DEFAULT_TICK_INTERVAL_MS = 60 * 1000; // Schedules have minute resolution
+
+/**
+ * Source of time for the scheduler, injectable so tests can use a fake clock
+ */
+export interface Clock {
+  now(): Date;
+  setInterval(callback: () => void, ms: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout),
+};
+
+export type ScheduleTiming = Pick<BenchmarkSchedule, 'frequency' | 'minuteUtc' | 'hourUtc' | 'dayOfWeekUtc'>;
+
+export type SchedulerStore = Pick<
+  IStorage,
+  'getDueBenchmarkSchedules' | 'recordBenchmarkScheduleRun' | 'recordBenchmarkScheduleOutcome' | 'getAwsAccount'
+>;
+
+export type SchedulerRegistry = Pick<ControlRegistry, 'hasBenchmark' | 'listBenchmarks'>;
+
+/**
+ * Starts one benchmark run for a schedule (normally by queueing a benchmark job)
+ * @returns ID of the job running the benchmark, whose outcome is passed to jobFinished
+ */
+export type ScheduledRunStarter = (schedule: BenchmarkSchedule, account: AwsAccount, benchmarkId: string) => string;
+
+/**
+ * A schedule run whose jobs haven't all finished
+ */
+interface PendingRun {
+  scheduleId: string;
+  runAt: Date;
+  started: Promise<void>; // Recording the run as started; its outcome is written after it
+  jobIds: Set<string>;
+  errors: string[];
+  cancelled: boolean;
+}
+
+/**
+ * First run time strictly after `after`, in UTC
+ */
+export function computeNextRun(schedule: ScheduleTiming, after: Date): Date {
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+
+  switch (schedule.frequency) {
+    case 'hourly':
+      next.setUTCMinutes(schedule.minuteUtc);
+      if (next <= after) {
+        next.setUTCHours(next.getUTCHours() + 1);
+      }
+      return next;
+
+    case 'daily':
+      next.setUTCHours(schedule.hourUtc, schedule.minuteUtc);
+      if (next <= after) {
+        next.setUTCDate(next.getUTCDate() + 1);
+      }
+      return next;
+
+    case 'weekly': {
+      const dayOfWeek = schedule.dayOfWeekUtc ?? 0;
+      next.setUTCHours(schedule.hourUtc, schedule.minuteUtc);
+      next.setUTCDate(next.getUTCDate() + ((dayOfWeek - next.getUTCDay() + 7) % 7));
+      if (next <= after) {
+        next.setUTCDate(next.getUTCDate() + 7);
+      }
+      return next;
+    }
+
+    default:
+      throw new Error(`Unknown schedule frequency: ${schedule.frequency}`);
+  }
+}
+
+/**
+ * Runs benchmark schedules when they come due.
+ * Every tick starts the schedules whose next run time has passed and advances them
+ * to their next run after the current time, so runs missed while the server was down
+ * are run once rather than replayed.
+ */
+export class BenchmarkScheduler {
+  private store: SchedulerStore;
+  private startRun: ScheduledRunStarter;
+  private registry: SchedulerRegistry;
+  private clock: Clock;
+  private tickIntervalMs: number;
+  private timer: unknown = null;
+  private ticking = false;
+  private pendingRuns = new Map<string, PendingRun>(); // Keyed by job ID
+
+  constructor(
+    store: SchedulerStore,
+    startRun: ScheduledRunStarter,
+    registry: SchedulerRegistry = controlRegistry,
+    clock: Clock = systemClock,
+    tickIntervalMs: number = DEFAULT_TICK_INTERVAL_MS
+  ) {
+    this.store = store;
+    this.startRun = startRun;
+    this.registry = registry;
+    this.clock = clock;
+    this.tickIntervalMs = tickIntervalMs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = this.clock.setInterval(() => {
+      this.tick().catch(error => console.error('Benchmark scheduler tick failed:', error));
+    }, this.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    this.clock.clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Start every due schedule
+   * @returns Number of benchmark runs started
+   */
+  async tick(): Promise<number> {
+    // A slow tick must not overlap the next one and start schedules twice
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      const now = this.clock.now();
+      const dueSchedules = await this.store.getDueBenchmarkSchedules(now);
+      let started = 0;
+
+      for (const schedule of dueSchedules) {
+        if (schedule.paused) continue;
+        const nextRunAt = computeNextRun(schedule, now);
+        let run: PendingRun | undefined;
+        try {
+          const account = await this.store.getAwsAccount(schedule.awsAccountId);
+          if (!account) {
+            throw new Error('AWS account not found');
+          }
+
+          const benchmarkIds = schedule.benchmarkIds?.length
+            ? schedule.benchmarkIds.filter(id => this.registry.hasBenchmark(id))
+            : this.registry.listBenchmarks().map(b => b.id);
+          if (benchmarkIds.length === 0) {
+            throw new Error('Schedule has no valid benchmarks');
+          }
+
+          run = {
+            scheduleId: schedule.id,
+            runAt: now,
+            started: Promise.resolve(),
+            jobIds: new Set(),
+            errors: [],
+            cancelled: false,
+          };
+          for (const benchmarkId of benchmarkIds) {
+            const jobId = this.startRun(schedule, account, benchmarkId);
+            run.jobIds.add(jobId);
+            this.pendingRuns.set(jobId, run);
+            started++;
+          }
+
+          run.started = this.store.recordBenchmarkScheduleRun(schedule.id, {
+            lastRunAt: now,
+            nextRunAt,
+            lastRunStatus: 'started',
+            lastRunError: null,
+          });
+          await run.started;
+        } catch (error: any) {
+          console.error(`Error running benchmark schedule ${schedule.id}:`, error);
+          // The run is recorded as failed now, so jobs it did start don't set its outcome
+          run?.jobIds.forEach(jobId => this.pendingRuns.delete(jobId));
+          await this.store.recordBenchmarkScheduleRun(schedule.id, {
+            lastRunAt: now,
+            nextRunAt,
+            lastRunStatus: 'failed',
+            lastRunError: error.message || String(error),
+          });
+        }
+      }
+
+      return started;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Record a finished job against the schedule run that started it.
+   * Once all of a run's jobs have finished the schedule's last run becomes completed,
+   * failed (if any job failed) or cancelled (if any was cancelled and none failed).
+   */
+  async jobFinished(job: Pick<BenchmarkJob, 'id' | 'benchmarkId' | 'status' | 'error'>): Promise<void> {
+    const run = this.pendingRuns.get(job.id);
+    if (!run) return;
+    this.pendingRuns.delete(job.id);
+    run.jobIds.delete(job.id);
+
+    if (job.status === 'failed') {
+      run.errors.push(`${job.benchmarkId}: ${job.error || 'Benchmark run failed'}`);
+    } else if (job.status === 'cancelled') {
+      run.cancelled = true;
+    }
+    if (run.jobIds.size > 0) return;
+
+    const lastRunStatus = run.errors.length > 0 ? 'failed' : run.cancelled ? 'cancelled' : 'completed';
+    try {
+      await run.started.catch(() => {}); // A failure to record the start was already reported by tick
+      await this.store.recordBenchmarkScheduleOutcome(run.scheduleId, run.runAt, {
+        lastRunStatus,
+        lastRunError: run.errors.length > 0 ? run.errors.join('; ') : null,
+      });
+    } catch (error) {
+      console.error(`Error recording the outcome of benchmark schedule ${run.scheduleId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,451 @@
+import type { EC2Client } from "@aws-sdk/client-ec2";
+import type { RDSClient } from "@aws-sdk/client-rds";
+import type { S3Client } from "@aws-sdk/client-s3";
+import type { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import type { ElastiCacheClient } from "@aws-sdk/client-elasticache";
+import type { RedshiftClient } from "@aws-sdk/client-redshift";
+import type { LambdaClient } from "@aws-sdk/client-lambda";
+import type { CloudWatchClient } from "@aws-sdk/client-cloudwatch";
+import type { ElasticLoadBalancingClient } from "@aws-sdk/client-elastic-load-balancing";
+import type { ElasticLoadBalancingV2Client } from "@aws-sdk/client-elastic-load-balancing-v2";
+import type { CostExplorerClient } from "@aws-sdk/client-cost-explorer";
+import { describeSavingsMethod, savingsFraction, type SavingsMethod } from "./savings-models";
+import { RegionPrices } from "./price-catalog";
+import { TagPolicy } from "./tag-policies";
+import { CloudWatchMetricsSource, type MetricsSource } from "./metrics-source";
+import type { InventoryAttributes, InventoryResource, InventoryResourceInput } from "@shared/schema";
+
+/**
+ * AWS SDK clients available to resource collectors during a scan
+ */
+export interface AwsClients {
+  ec2: EC2Client;
+  rds: RDSClient;
+  s3: S3Client;
+  dynamodb: DynamoDBClient;
+  elasticache: ElastiCacheClient;
+  redshift: RedshiftClient;
+  lambda: LambdaClient;
+  cloudwatch: CloudWatchClient;
+  elb: ElasticLoadBalancingClient; // Classic load balancers
+  elbv2: ElasticLoadBalancingV2Client; // Application, Network and Gateway load balancers
+  costExplorer: CostExplorerClient; // Always us-east-1; for account-wide cost data such as usage types
+}
+
+/**
+ * Per-scan state shared by collectors and controls.
+ * Collected resources are memoized so controls that read the same
+ * resource kind (e.g. "rds:db-instances") only hit AWS once.
+ */
+export interface ScanContext {
+  clients: AwsClients;
+  region: string; // Region the clients are bound to
+  now: Date;
+  prices: RegionPrices; // Price catalog entries for the region (empty when none were imported)
+  tagPolicy: TagPolicy; // Tags the account's resources are required to carry
+  metrics: MetricsSource; // Utilization metrics for the region's resources
+  collect<T>(kind: string): Promise<T[]>;
+  collectedKinds(): string[]; // Resource kinds collect() has been called for so far
+}
+
+/**
+ * A resource normalized for the inventory: the ID findings use plus its key attributes
+ */
+export interface InventoryRecord {
+  resourceId: string | undefined; // Resources without an ID are left out of the inventory
+  name?: string;
+  state?: string;
+  region?: string; // Defaults to the region being scanned
+  attributes: InventoryAttributes;
+}
+
+/**
+ * Resources collected in one region of a scan, ready to be stored as an inventory snapshot
+ */
+export interface RegionInventory {
+  region: string;
+  resourceKinds: string[];
+  resources: InventoryResourceInput[];
+}
+
+/**
+ * Fetches one kind of AWS resource (e.g. all EBS volumes) for a scan
+ */
+export interface ResourceCollector<TResource = any> {
+  kind: string; // e.g. "ec2:volumes"
+  service: string; // benchmark service family, e.g. "ec2"
+  description: string;
+  global?: boolean; // Global resources (e.g. S3 buckets) are collected once, from the account's default region
+  collect(ctx: ScanContext): Promise<TResource[]>;
+  // Defaults to the resource's Tags/TagList; null when the resource's tags could not be read
+  tags?(resource: TResource): Record<string, string> | undefined | null;
+  inventory?(resource: TResource): InventoryRecord; // Kinds without it are not stored in the inventory
+  // Monthly on-demand cost of a stored inventory record, from its normalized attributes; omitted for usage-billed kinds
+  inventoryMonthlyCents?(record: InventoryCostInput, prices: RegionPrices): number | undefined;
+  untrackedAttributes?: string[]; // Attributes that change without anyone changing the resource (e.g. item counts)
+}
+
+/**
+ * The parts of a stored inventory record its monthly cost is estimated from
+ */
+export type InventoryCostInput = Pick<InventoryResource, 'state' | 'attributes'>;
+
+/**
+ * How a failed control translates into monthly savings.
+ * Cost Explorer data for the resource is preferred, then the resource's list
+ * price from the price catalog; the fallback is used when neither has data.
+ */
+export interface SavingsModel<TResource = any> {
+  costExplorerService: string; // Cost Explorer SERVICE dimension value
+  method: SavingsMethod; // How fixing the finding reduces the resource's cost
+  // The method for one resource, when it depends on the resource (e.g. the memory size recommended for it)
+  resourceMethod?(resource: TResource, ctx: ScanContext, params: ControlParams): SavingsMethod | undefined | Promise<SavingsMethod | undefined>;
+  // Monthly on-demand cost of the resource from the price catalog; the savings method is applied to it
+  listPriceCents?(resource: TResource, ctx: ScanContext, params: ControlParams): number | undefined | Promise<number | undefined>;
+  fallbackCents(resource: TResource, ctx: ScanContext, params: ControlParams): number; // Savings estimate when no price data is available
+}
+
+/**
+ * A tunable threshold of a control, e.g. the age after which a snapshot is "old".
+ * Values can be overridden per user (org-wide) and per AWS account.
+ */
+export interface ControlParameter {
+  key: string; // e.g. "maxAgeDays"
+  label: string;
+  description: string;
+  unit: 'days' | 'MB' | 'GB' | 'units' | 'cents' | 'percent';
+  default: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Resolved parameter values for one control, keyed by parameter key
+ */
+export type ControlParams = Record<string, number>;
+
+/**
+ * Parameter overrides for a set of controls, keyed by control ID then parameter key
+ */
+export type ControlThresholds = Record<string, ControlParams>;
+
+// Every control with a savings model can hide findings worth less than this per month
+export const MIN_MONTHLY_SAVINGS_PARAMETER: ControlParameter = {
+  key: 'minMonthlySavingsCents',
+  label: 'Minimum monthly savings',
+  description: 'Findings with lower estimated monthly savings are not reported',
+  unit: 'cents',
+  default: 0,
+  min: 0,
+  max: 10000000,
+};
+
+/**
+ * A single cost optimization check evaluated against every collected resource
+ */
+export interface ControlDefinition<TResource = any> {
+  id: string; // e.g. "ebs_volume_unattached"
+  title: string; // Phrased as the compliant state, e.g. "EBS volumes should be attached to instances"
+  description: string;
+  service: string; // benchmark service family, e.g. "ec2"
+  resource: string; // collector kind, e.g. "ec2:volumes"
+  resourceId(resource: TResource): string | undefined;
+  resourceRegion?(resource: TResource): string | undefined; // Defaults to the region being scanned
+  resourceTags?(resource: TResource): Record<string, string> | undefined; // Defaults to the resource's Tags/TagList
+  relatedResourceIds?(resource: TResource): string[]; // Resources whose cost is included in this finding's savings
+  parameters?: ControlParameter[]; // Tunable thresholds read by passes() and reason()
+  // Async for controls that read metrics; metric lookups are cached per scan, so reason() can repeat them
+  passes(resource: TResource, ctx: ScanContext, params: ControlParams): boolean | Promise<boolean>;
+  reason(resource: TResource, params: ControlParams, ctx: ScanContext): string | Promise<string>;
+  // Why the recommended fix may not apply as-is (e.g. an incompatible AMI); findings with a note are marked as needing review
+  reviewNote?(resource: TResource, params: ControlParams, ctx: ScanContext): string | undefined | Promise<string | undefined>;
+  savings: SavingsModel<TResource> | null; // null for controls with no direct cost impact
+  // For controls without savings, how to price the failing resource itself (reported alongside the finding)
+  resourceCost?: Pick<SavingsModel<TResource>, 'costExplorerService' | 'listPriceCents'>;
+}
+
+/**
+ * A named group of controls that can be run together
+ */
+export interface BenchmarkDefinition {
+  id: string;
+  name: string;
+  description: string;
+  controlIds: string[];
+  sdkOnly?: boolean; // No Powerpipe equivalent; always run with the AWS SDK scan
+}
+
+/**
+ * Control metadata safe to return from the API
+ */
+export interface ControlMetadata {
+  id: string;
+  title: string;
+  description: string;
+  service: string;
+  resource: string;
+  costExplorerService: string | null;
+  savingsPercentage: number | null;
+  savingsMethod: string | null; // Human-readable savings model, e.g. "gp2 → gp3 storage (20%)"
+  parameters: ControlParameter[];
+  benchmarkIds: string[];
+}
+
+/**
+ * Read the tags AWS returns inline on most describe calls (Tags or TagList of Key/Value pairs)
+ */
+export function inlineResourceTags(resource: any): Record<string, string> | undefined {
+  const tagList = resource?.Tags ?? resource?.TagList;
+  if (!Array.isArray(tagList) || tagList.length === 0) {
+    return undefined;
+  }
+
+  const tags: Record<string, string> = {};
+  for (const tag of tagList) {
+    if (tag?.Key) {
+      tags[tag.Key] = tag.Value ?? '';
+    }
+  }
+  return tags;
+}
+
+/**
+ * Registry of resource collectors, controls, and the benchmarks that group them.
+ * New checks are added by registering a control and listing it in a benchmark;
+ * routes and AwsService look everything up here.
+ */
+export class ControlRegistry {
+  private collectors = new Map<string, ResourceCollector>();
+  private controls = new Map<string, ControlDefinition>();
+  private benchmarks = new Map<string, BenchmarkDefinition>();
+
+  registerCollector<T>(collector: ResourceCollector<T>): void {
+    if (this.collectors.has(collector.kind)) {
+      throw new Error(`Resource collector already registered: ${collector.kind}`);
+    }
+    this.collectors.set(collector.kind, collector);
+  }
+
+  registerControl<T>(control: ControlDefinition<T>): void {
+    if (this.controls.has(control.id)) {
+      throw new Error(`Control already registered: ${control.id}`);
+    }
+    if (!this.collectors.has(control.resource)) {
+      throw new Error(`Control ${control.id} uses unknown resource kind: ${control.resource}`);
+    }
+    this.controls.set(control.id, control);
+  }
+
+  registerBenchmark(benchmark: BenchmarkDefinition): void {
+    if (this.benchmarks.has(benchmark.id)) {
+      throw new Error(`Benchmark already registered: ${benchmark.id}`);
+    }
+    for (const controlId of benchmark.controlIds) {
+      if (!this.controls.has(controlId)) {
+        throw new Error(`Benchmark ${benchmark.id} references unknown control: ${controlId}`);
+      }
+    }
+    this.benchmarks.set(benchmark.id, benchmark);
+  }
+
+  getCollector(kind: string): ResourceCollector | undefined {
+    return this.collectors.get(kind);
+  }
+
+  getControl(id: string): ControlDefinition | undefined {
+    return this.controls.get(id);
+  }
+
+  getBenchmark(id: string): BenchmarkDefinition | undefined {
+    return this.benchmarks.get(id);
+  }
+
+  hasBenchmark(id: string): boolean {
+    return this.benchmarks.has(id);
+  }
+
+  listBenchmarks(): BenchmarkDefinition[] {
+    return Array.from(this.benchmarks.values());
+  }
+
+  getBenchmarkControls(benchmarkId: string): ControlDefinition[] {
+    const benchmark = this.benchmarks.get(benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Unknown benchmark: ${benchmarkId}`);
+    }
+    return benchmark.controlIds.map(id => this.controls.get(id)!);
+  }
+
+  /**
+   * Tunable parameters of a control, including the minimum savings for controls that estimate savings
+   */
+  getControlParameters(control: ControlDefinition): ControlParameter[] {
+    const parameters = control.parameters || [];
+    return control.savings ? [...parameters, MIN_MONTHLY_SAVINGS_PARAMETER] : parameters;
+  }
+
+  /**
+   * Resolve a control's parameter values, applying overrides in order (later wins) over the defaults
+   */
+  resolveParameters(control: ControlDefinition, ...overrides: Array<ControlThresholds | undefined>): ControlParams {
+    const params: ControlParams = {};
+    for (const parameter of this.getControlParameters(control)) {
+      params[parameter.key] = parameter.default;
+      for (const thresholds of overrides) {
+        const value = thresholds?.[control.id]?.[parameter.key];
+        if (typeof value === 'number') {
+          params[parameter.key] = value;
+        }
+      }
+    }
+    return params;
+  }
+
+  /**
+   * Check threshold overrides against the registered parameters
+   * @returns Problems found, empty when the thresholds are valid
+   */
+  validateThresholds(thresholds: ControlThresholds): string[] {
+    const errors: string[] = [];
+    for (const [controlId, params] of Object.entries(thresholds)) {
+      const control = this.controls.get(controlId);
+      if (!control) {
+        errors.push(`Unknown control: ${controlId}`);
+        continue;
+      }
+      const parameters = this.getControlParameters(control);
+      for (const [key, value] of Object.entries(params)) {
+        const parameter = parameters.find(p => p.key === key);
+        if (!parameter) {
+          errors.push(`Control ${controlId} has no parameter ${key}`);
+        } else if (value < parameter.min || value > parameter.max) {
+          errors.push(`${controlId}.${key} must be between ${parameter.min} and ${parameter.max}`);
+        }
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * List every registered control with the benchmarks it belongs to
+   */
+  listControlMetadata(): ControlMetadata[] {
+    return Array.from(this.controls.values()).map(control => ({
+      id: control.id,
+      title: control.title,
+      description: control.description,
+      service: control.service,
+      resource: control.resource,
+      costExplorerService: control.savings?.costExplorerService ?? null,
+      savingsPercentage: control.savings ? Math.round(savingsFraction(control.savings.method) * 100) : null,
+      savingsMethod: control.savings ? describeSavingsMethod(control.savings.method) : null,
+      parameters: this.getControlParameters(control),
+      benchmarkIds: this.listBenchmarks()
+        .filter(b => b.controlIds.includes(control.id))
+        .map(b => b.id),
+    }));
+  }
+
+  /**
+   * Tags of a collected resource, or null when they could not be read
+   */
+  resourceTags(kind: string, resource: any): Record<string, string> | undefined | null {
+    const collector = this.collectors.get(kind);
+    return collector?.tags ? collector.tags(resource) : inlineResourceTags(resource);
+  }
+
+  /**
+   * Normalize the resources a scan context has collected for the inventory.
+   * Kinds that failed to collect are left out, so the previous snapshot of them stays current.
+   */
+  async collectInventory(ctx: ScanContext): Promise<RegionInventory> {
+    const inventory: RegionInventory = { region: ctx.region, resourceKinds: [], resources: [] };
+
+    for (const kind of ctx.collectedKinds()) {
+      const collector = this.collectors.get(kind);
+      if (!collector?.inventory) continue;
+
+      let resources: any[];
+      try {
+        resources = await ctx.collect(kind);
+      } catch {
+        continue;
+      }
+
+      inventory.resourceKinds.push(kind);
+      for (const resource of resources) {
+        const record = collector.inventory(resource);
+        if (!record.resourceId) continue;
+        inventory.resources.push({
+          region: record.region || ctx.region,
+          resourceType: kind,
+          resourceId: record.resourceId,
+          name: record.name ?? null,
+          state: record.state ?? null,
+          attributes: record.attributes,
+          tags: this.resourceTags(kind, resource) ?? null,
+        });
+      }
+    }
+
+    return inventory;
+  }
+
+  /**
+   * Monthly on-demand cost in cents of a stored inventory record, or undefined when it can't be priced
+   */
+  inventoryMonthlyCents(
+    record: Pick<InventoryResource, 'resourceType' | 'state' | 'attributes'>,
+    prices: RegionPrices
+  ): number | undefined {
+    return this.collectors.get(record.resourceType)?.inventoryMonthlyCents?.(record, prices);
+  }
+
+  /**
+   * Monthly on-demand cost in cents of a collected resource, priced from its inventory record
+   */
+  resourceMonthlyCents(kind: string, resource: any, prices: RegionPrices): number | undefined {
+    const collector = this.collectors.get(kind);
+    if (!collector?.inventory) return undefined;
+    const record = collector.inventory(resource);
+    return collector.inventoryMonthlyCents?.({ state: record.state ?? null, attributes: record.attributes }, prices);
+  }
+
+  /**
+   * Create a scan context whose collect() memoizes results per resource kind
+   */
+  createScanContext(
+    clients: AwsClients,
+    region: string,
+    now: Date = new Date(),
+    prices: RegionPrices = new RegionPrices(region),
+    tagPolicy: TagPolicy = new TagPolicy(),
+    metrics: MetricsSource = new CloudWatchMetricsSource(clients.cloudwatch)
+  ): ScanContext {
+    const cache = new Map<string, Promise<any[]>>();
+    const ctx: ScanContext = {
+      clients,
+      region,
+      now,
+      prices,
+      tagPolicy,
+      metrics,
+      collect: <T>(kind: string): Promise<T[]> => {
+        let pending = cache.get(kind);
+        if (!pending) {
+          const collector = this.collectors.get(kind);
+          if (!collector) {
+            return Promise.reject(new Error(`Unknown resource kind: ${kind}`));
+          }
+          pending = collector.collect(ctx);
+          cache.set(kind, pending);
+        }
+        return pending as Promise<T[]>;
+      },
+      collectedKinds: () => Array.from(cache.keys()),
+    };
+    return ctx;
+  }
+}
+
+export const controlRegistry = new ControlRegistry();
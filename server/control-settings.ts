@@ -0,0 +1,44 @@
+import type { AwsAccount } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { controlRegistry, type ControlThresholds } from "./control-registry";
+
+export type ControlSettingsStore = Pick<IStorage, 'getControlSettings'>;
+
+/**
+ * Merge threshold overrides, later sets winning per control parameter
+ */
+export function mergeThresholds(...sets: Array<ControlThresholds | null | undefined>): ControlThresholds {
+  const merged: ControlThresholds = {};
+  for (const thresholds of sets) {
+    for (const [controlId, params] of Object.entries(thresholds || {})) {
+      merged[controlId] = { ...merged[controlId], ...params };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Threshold overrides that apply to an account: the owner's org-wide defaults, then the account's own settings
+ */
+export async function loadAccountThresholds(
+  account: Pick<AwsAccount, 'id' | 'userId'>,
+  store: ControlSettingsStore
+): Promise<ControlThresholds> {
+  const settings = await store.getControlSettings(account.userId);
+  const orgDefaults = settings.find(row => row.awsAccountId === null);
+  const accountSettings = settings.find(row => row.awsAccountId === account.id);
+  return mergeThresholds(orgDefaults?.thresholds, accountSettings?.thresholds);
+}
+
+/**
+ * Whether any control of a benchmark runs with a non-default parameter value
+ */
+export function hasCustomThresholds(benchmarkId: string, thresholds: ControlThresholds): boolean {
+  if (!controlRegistry.hasBenchmark(benchmarkId)) return false;
+
+  return controlRegistry.getBenchmarkControls(benchmarkId).some(control => {
+    const defaults = controlRegistry.resolveParameters(control);
+    const resolved = controlRegistry.resolveParameters(control, thresholds);
+    return Object.keys(defaults).some(key => defaults[key] !== resolved[key]);
+  });
+}
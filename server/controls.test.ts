@@ -0,0 +1,402 @@
+import { describe, expect, it } from "vitest";
+import type { Instance } from "@aws-sdk/client-ec2";
+import type { DBInstance } from "@aws-sdk/client-rds";
+import type { CacheCluster } from "@aws-sdk/client-elasticache";
+import type { Cluster } from "@aws-sdk/client-redshift";
+import type { CatalogPrice } from "@shared/schema";
+import { controlRegistry, type AwsClients, type ControlParams, type ScanContext } from "./control-registry";
+import { FixtureMetricsSource, metricKey, type MetricStatistic } from "./metrics-source";
+import { RegionPrices } from "./price-catalog";
+import type { S3BucketDetails, S3MultipartUploads } from "./controls";
+import "./controls";
+
+const NOW = new Date('2024-03-01T00:00:00Z');
+const LAUNCHED = new Date('2024-01-01T00:00:00Z'); // Older than every lookback window used here
+const MB = 1024 * 1024;
+
+const days = (count: number, value: number) => Array<number>(count).fill(value);
+
+function metric(namespace: string, metricName: string, statistic: MetricStatistic, dimensions: Record<string, string>): string {
+  return metricKey({ namespace, metricName, statistic, dimensions });
+}
+
+/**
+ * Catalog prices and resources of other kinds a control reads while evaluating a resource
+ */
+interface ScanFixtures {
+  prices?: RegionPrices;
+  collected?: Record<string, unknown[]>;
+}
+
+function scanContext(metrics: Record<string, number[]>, { prices, collected = {} }: ScanFixtures = {}): ScanContext {
+  const ctx = controlRegistry.createScanContext({} as AwsClients, 'us-east-1', NOW, prices, undefined, new FixtureMetricsSource(metrics));
+  ctx.collect = async <R>(kind: string) => (collected[kind] || []) as R[];
+  return ctx;
+}
+
+/**
+ * Evaluate a control against one resource with fixture metrics, with parameter overrides over the defaults
+ * @returns Whether the resource passed, and the finding's reason and review note when it didn't
+ */
+async function evaluate<T>(
+  controlId: string,
+  resource: T,
+  metrics: Record<string, number[]>,
+  overrides: ControlParams = {},
+  scan: ScanFixtures = {}
+): Promise<{ passed: boolean; reason?: string; reviewNote?: string }> {
+  const control = controlRegistry.getControl(controlId)!;
+  const params = controlRegistry.resolveParameters(control, { [controlId]: overrides });
+  const ctx = scanContext(metrics, scan);
+
+  const passed = await control.passes(resource, ctx, params);
+  if (passed) return { passed };
+  const reviewNote = await control.reviewNote?.(resource, params, ctx);
+  return { passed, reason: await control.reason(resource, params, ctx), ...(reviewNote ? { reviewNote } : {}) };
+}
+
+describe("EC2 utilization controls", () => {
+  const instance: Instance = { InstanceId: 'i-1', InstanceType: 'm5.large', State: { Name: 'running' }, LaunchTime: LAUNCHED };
+  const ec2 = (metricName: string, statistic: MetricStatistic) => metric('AWS/EC2', metricName, statistic, { InstanceId: 'i-1' });
+
+  // Daily average and peak CPU, and bytes in and out per day
+  function usage(count: number, cpu: number, peakCpu: number, networkBytes: number): Record<string, number[]> {
+    return {
+      [ec2('CPUUtilization', 'Average')]: days(count, cpu),
+      [ec2('CPUUtilization', 'Maximum')]: days(count, peakCpu),
+      [ec2('NetworkIn', 'Sum')]: days(count, networkBytes / 2),
+      [ec2('NetworkOut', 'Sum')]: days(count, networkBytes / 2),
+    };
+  }
+
+  describe("ec2_instance_idle", () => {
+    it("fails instances with almost no CPU or network traffic", async () => {
+      const result = await evaluate('ec2_instance_idle', instance, usage(14, 1, 3, 1 * MB));
+
+      expect(result).toEqual({
+        passed: false,
+        reason: 'Instance i-1 averaged 1.0% CPU and 1.0 MB/day of network traffic over 14 days',
+      });
+    });
+
+    it("passes instances above the CPU threshold", async () => {
+      const fixtures = usage(14, 3, 10, 1 * MB);
+
+      expect((await evaluate('ec2_instance_idle', instance, fixtures)).passed).toBe(true);
+      expect((await evaluate('ec2_instance_idle', instance, fixtures, { maxCpuPercent: 5 })).passed).toBe(false);
+    });
+
+    it("passes instances above the network threshold", async () => {
+      const fixtures = usage(14, 1, 3, 10 * MB);
+
+      expect((await evaluate('ec2_instance_idle', instance, fixtures)).passed).toBe(true);
+      expect((await evaluate('ec2_instance_idle', instance, fixtures, { maxNetworkMB: 20 })).passed).toBe(false);
+    });
+
+    it("only looks at the lookback window", async () => {
+      // Busy 28 to 14 days ago, idle since
+      const busy = usage(14, 50, 90, 500 * MB);
+      const idle = usage(14, 1, 3, 1 * MB);
+      const fixtures = Object.fromEntries(Object.keys(idle).map(key => [key, [...busy[key], ...idle[key]]]));
+
+      expect((await evaluate('ec2_instance_idle', instance, fixtures)).passed).toBe(false);
+      expect((await evaluate('ec2_instance_idle', instance, fixtures, { lookbackDays: 28 })).passed).toBe(true);
+    });
+
+    it("skips instances younger than the lookback window", async () => {
+      const young = { ...instance, LaunchTime: new Date('2024-02-20T00:00:00Z') };
+      const fixtures = usage(10, 1, 3, 1 * MB);
+
+      expect((await evaluate('ec2_instance_idle', young, fixtures)).passed).toBe(true);
+      expect((await evaluate('ec2_instance_idle', young, fixtures, { lookbackDays: 7 })).passed).toBe(false);
+    });
+
+    it("passes instances without metrics or that aren't running", async () => {
+      expect((await evaluate('ec2_instance_idle', instance, {})).passed).toBe(true);
+      expect((await evaluate('ec2_instance_idle', { ...instance, State: { Name: 'stopped' } }, usage(14, 0, 0, 0))).passed).toBe(true);
+    });
+  });
+
+  describe("ec2_instance_underutilized", () => {
+    it("fails instances with low average and peak CPU", async () => {
+      const result = await evaluate('ec2_instance_underutilized', instance, usage(14, 5, 30, 100 * MB));
+
+      expect(result).toEqual({
+        passed: false,
+        reason: 'Instance i-1 (m5.large) averaged 5.0% CPU, peaking at 30.0%, over 14 days',
+      });
+    });
+
+    it("passes instances above the average CPU threshold", async () => {
+      const fixtures = usage(14, 15, 30, 100 * MB);
+
+      expect((await evaluate('ec2_instance_underutilized', instance, fixtures)).passed).toBe(true);
+      expect((await evaluate('ec2_instance_underutilized', instance, fixtures, { maxCpuPercent: 20 })).passed).toBe(false);
+    });
+
+    it("passes instances whose CPU peaks above the threshold on any day", async () => {
+      const fixtures = usage(14, 5, 30, 100 * MB);
+      fixtures[ec2('CPUUtilization', 'Maximum')][3] = 55;
+
+      expect((await evaluate('ec2_instance_underutilized', instance, fixtures)).passed).toBe(true);
+      expect((await evaluate('ec2_instance_underutilized', instance, fixtures, { maxPeakCpuPercent: 60 })).passed).toBe(false);
+    });
+
+    it("only looks at the lookback window", async () => {
+      const fixtures = usage(21, 5, 30, 100 * MB);
+      fixtures[ec2('CPUUtilization', 'Maximum')][0] = 95; // 21 days ago
+
+      expect((await evaluate('ec2_instance_underutilized', instance, fixtures)).passed).toBe(false);
+      expect((await evaluate('ec2_instance_underutilized', instance, fixtures, { lookbackDays: 21 })).passed).toBe(true);
+    });
+
+    it("passes instances without metrics", async () => {
+      expect((await evaluate('ec2_instance_underutilized', instance, {})).passed).toBe(true);
+    });
+  });
+});
+
+describe("rds_db_instance_idle", () => {
+  const instance: DBInstance = { DBInstanceIdentifier: 'orders', DBInstanceStatus: 'available', InstanceCreateTime: LAUNCHED };
+  const connections = metric('AWS/RDS', 'DatabaseConnections', 'Maximum', { DBInstanceIdentifier: 'orders' });
+
+  it("fails instances without connections", async () => {
+    expect(await evaluate('rds_db_instance_idle', instance, { [connections]: days(14, 0) })).toEqual({
+      passed: false,
+      reason: 'RDS instance orders had at most 0 connections over 14 days',
+    });
+  });
+
+  it("passes instances above the connection threshold", async () => {
+    const fixtures = { [connections]: [...days(13, 0), 3] };
+
+    expect((await evaluate('rds_db_instance_idle', instance, fixtures)).passed).toBe(true);
+    expect((await evaluate('rds_db_instance_idle', instance, fixtures, { maxConnections: 5 })).passed).toBe(false);
+  });
+
+  it("only looks at the lookback window", async () => {
+    const fixtures = { [connections]: [2, ...days(14, 0)] };
+
+    expect((await evaluate('rds_db_instance_idle', instance, fixtures)).passed).toBe(false);
+    expect((await evaluate('rds_db_instance_idle', instance, fixtures, { lookbackDays: 15 })).passed).toBe(true);
+  });
+
+  it("skips instances younger than the lookback window", async () => {
+    const young = { ...instance, InstanceCreateTime: new Date('2024-02-25T00:00:00Z') };
+
+    expect((await evaluate('rds_db_instance_idle', young, { [connections]: days(5, 0) })).passed).toBe(true);
+  });
+
+  it("passes instances without metrics", async () => {
+    expect((await evaluate('rds_db_instance_idle', instance, {})).passed).toBe(true);
+  });
+});
+
+describe("elasticache_cluster_idle", () => {
+  const cluster: CacheCluster = {
+    CacheClusterId: 'sessions',
+    CacheClusterStatus: 'available',
+    CacheClusterCreateTime: LAUNCHED,
+    CacheNodes: [{ CacheNodeId: '0001' }, { CacheNodeId: '0002' }],
+  };
+  const node = (id: string) => metric('AWS/ElastiCache', 'CurrConnections', 'Maximum', { CacheClusterId: 'sessions', CacheNodeId: id });
+
+  it("fails clusters whose nodes only have the connections ElastiCache keeps open", async () => {
+    expect(await evaluate('elasticache_cluster_idle', cluster, { [node('0001')]: days(14, 4), [node('0002')]: days(14, 3) })).toEqual({
+      passed: false,
+      reason: 'ElastiCache cluster sessions had at most 4 connections per node over 14 days',
+    });
+  });
+
+  it("passes clusters with any node above the connection threshold", async () => {
+    const fixtures = { [node('0001')]: days(14, 4), [node('0002')]: [...days(13, 3), 8] };
+
+    expect((await evaluate('elasticache_cluster_idle', cluster, fixtures)).passed).toBe(true);
+    expect((await evaluate('elasticache_cluster_idle', cluster, fixtures, { maxConnections: 10 })).passed).toBe(false);
+  });
+
+  it("only looks at the lookback window", async () => {
+    const fixtures = { [node('0001')]: [40, ...days(14, 2)], [node('0002')]: days(15, 2) };
+
+    expect((await evaluate('elasticache_cluster_idle', cluster, fixtures)).passed).toBe(false);
+    expect((await evaluate('elasticache_cluster_idle', cluster, fixtures, { lookbackDays: 15 })).passed).toBe(true);
+  });
+
+  it("passes clusters without metrics", async () => {
+    expect((await evaluate('elasticache_cluster_idle', cluster, {})).passed).toBe(true);
+    expect((await evaluate('elasticache_cluster_idle', { ...cluster, CacheNodes: [] }, { [node('0001')]: days(14, 0) })).passed).toBe(true);
+  });
+});
+
+describe("redshift_cluster_idle", () => {
+  const cluster: Cluster = { ClusterIdentifier: 'warehouse', ClusterStatus: 'available', ClusterCreateTime: LAUNCHED };
+  const dimensions = { ClusterIdentifier: 'warehouse' };
+  const connections = metric('AWS/Redshift', 'DatabaseConnections', 'Maximum', dimensions);
+  const queries = (latency: string) => metric('AWS/Redshift', 'QueriesCompletedPerSecond', 'Sum', { ...dimensions, latency });
+
+  function activity(count: number, completed: Partial<Record<'short' | 'medium' | 'long', number[]>> = {}): Record<string, number[]> {
+    return {
+      [connections]: days(count, 1),
+      [queries('short')]: completed.short ?? days(count, 0),
+      [queries('medium')]: completed.medium ?? days(count, 0),
+      [queries('long')]: completed.long ?? days(count, 0),
+    };
+  }
+
+  it("fails clusters that completed no queries", async () => {
+    expect(await evaluate('redshift_cluster_idle', cluster, activity(14))).toEqual({
+      passed: false,
+      reason: 'Redshift cluster warehouse completed no queries in 14 days',
+    });
+  });
+
+  it("passes clusters that completed queries of any latency", async () => {
+    expect((await evaluate('redshift_cluster_idle', cluster, activity(14, { long: [...days(13, 0), 0.01] }))).passed).toBe(true);
+    expect((await evaluate('redshift_cluster_idle', cluster, activity(14, { short: [0.2, ...days(13, 0)] }))).passed).toBe(true);
+  });
+
+  it("only looks at the lookback window", async () => {
+    const fixtures = activity(20, { medium: [0.5, ...days(19, 0)] });
+
+    expect((await evaluate('redshift_cluster_idle', cluster, fixtures)).passed).toBe(false);
+    expect((await evaluate('redshift_cluster_idle', cluster, fixtures, { lookbackDays: 20 })).passed).toBe(true);
+  });
+
+  it("passes clusters without metrics or that aren't available", async () => {
+    expect((await evaluate('redshift_cluster_idle', cluster, {})).passed).toBe(true);
+    expect((await evaluate('redshift_cluster_idle', { ...cluster, ClusterStatus: 'paused' }, activity(14))).passed).toBe(true);
+  });
+});
+
+describe("ec2_instance_generation_migration", () => {
+  const instance: Instance = { InstanceId: 'i-1', InstanceType: 'm4.large', State: { Name: 'running' }, LaunchTime: LAUNCHED };
+
+  function catalog(hourlyUsdByType: Record<string, number>): RegionPrices {
+    return new RegionPrices('us-east-1', Object.entries(hourlyUsdByType).map(([type, pricePerUnit]) => ({
+      serviceCode: 'AmazonEC2',
+      usageType: `BoxUsage:${type}`,
+      operation: 'RunInstances',
+      unit: 'Hrs',
+      pricePerUnit,
+    } as CatalogPrice)));
+  }
+
+  it("recommends the cheapest successor the catalog prices", async () => {
+    // The catalog has no Graviton price, as in regions without Graviton instances
+    const prices = catalog({ 'm4.large': 0.12, 'm6i.large': 0.11 });
+
+    expect(await evaluate('ec2_instance_generation_migration', instance, {}, {}, { prices })).toEqual({
+      passed: false,
+      reason: 'Instance i-1 runs m4.large at $0.1200/hr; m6i.large costs $0.1100/hr, $7.30 less over 730 running hours a month',
+    });
+  });
+
+  it("passes instances whose successors the catalog prices no lower", async () => {
+    const prices = catalog({ 'm4.large': 0.10, 'm6i.large': 0.11, 'm7g.large': 0.10 });
+
+    expect((await evaluate('ec2_instance_generation_migration', instance, {}, {}, { prices })).passed).toBe(true);
+  });
+
+  it("prices the move from reference prices without a catalog", async () => {
+    expect(await evaluate('ec2_instance_generation_migration', instance, {})).toEqual({
+      passed: false,
+      reason: 'Instance i-1 runs m4.large at $0.1000/hr; m7g.large costs $0.0816/hr, $13.43 less over 730 running hours a month' +
+        ' (us-east-1 reference prices; the price catalog has none for this region)',
+    });
+  });
+
+  it("prefers a successor the instance can run on as-is", async () => {
+    const windows = { ...instance, PlatformDetails: 'Windows' };
+
+    expect(await evaluate('ec2_instance_generation_migration', windows, {})).toMatchObject({
+      passed: false,
+      reason: expect.stringContaining('m6i.large costs $0.0960/hr'),
+    });
+  });
+
+  it("notes why the instance may not move to its only cheaper successor", async () => {
+    const custom = { ...instance, InstanceType: 'm5.xlarge', ImageId: 'ami-1' };
+    const collected = { 'ec2:images': [{ ImageId: 'ami-1', Architecture: 'x86_64' }] };
+
+    expect(await evaluate('ec2_instance_generation_migration', custom, {}, {}, { collected })).toMatchObject({
+      passed: false,
+      reviewNote: 'AMI ami-1 is an x86_64 build, and m7g.xlarge needs an arm64 one',
+    });
+  });
+
+  it("passes current generation instances and instances that aren't running", async () => {
+    expect((await evaluate('ec2_instance_generation_migration', { ...instance, InstanceType: 'm7g.large' }, {})).passed).toBe(true);
+    expect((await evaluate('ec2_instance_generation_migration', { ...instance, State: { Name: 'stopped' } }, {})).passed).toBe(true);
+  });
+
+  it("falls back to the smaller reference-priced saving of the successors", () => {
+    const { savings } = controlRegistry.getControl('ec2_instance_generation_migration')!;
+    const ctx = scanContext({});
+
+    // m4.large is $73.00/month; m6i.large $70.08 and m7g.large $59.57
+    expect(savings!.fallbackCents(instance, ctx, {})).toBe(292);
+    expect(savings!.fallbackCents({ ...instance, InstanceType: 'm7g.large' }, ctx, {})).toBe(0);
+  });
+});
+
+describe("S3 storage controls", () => {
+  const GB = 1024 * MB;
+  const bucket: S3BucketDetails = {
+    name: 'logs',
+    region: 'us-east-1',
+    hasLifecycle: false,
+    transitionsObjects: false,
+    expiresNoncurrentVersions: false,
+    abortsIncompleteUploads: false,
+  };
+
+  function defaults(controlId: string): ControlParams {
+    return controlRegistry.resolveParameters(controlRegistry.getControl(controlId)!);
+  }
+
+  it("falls back to the saving of the smallest bucket each storage class control reports", () => {
+    const ctx = scanContext({});
+    const tiering = controlRegistry.getControl('s3_bucket_intelligent_tiering')!;
+    const glacier = controlRegistry.getControl('s3_bucket_glacier_transition')!;
+
+    // 100GB * 40% cold * ($0.023 - $0.0125), and 100GB * ($0.0125 - $0.004)
+    expect(tiering.savings!.fallbackCents(bucket, ctx, defaults(tiering.id))).toBe(42);
+    expect(glacier.savings!.fallbackCents(bucket, ctx, defaults(glacier.id))).toBe(85);
+    expect(tiering.savings!.fallbackCents(bucket, ctx, { ...defaults(tiering.id), minStandardGb: 1000 })).toBe(420);
+  });
+
+  describe("s3_bucket_incomplete_multipart_uploads", () => {
+    const control = controlRegistry.getControl('s3_bucket_incomplete_multipart_uploads')!;
+    const uploads: S3MultipartUploads = {
+      bucket: 'logs',
+      region: 'us-east-1',
+      abortsIncompleteUploads: false,
+      uploads: [
+        { key: 'a', uploadId: '1', initiated: new Date('2024-01-15T00:00:00Z'), sizeBytes: 100 * GB },
+        { key: 'b', uploadId: '2', initiated: new Date('2024-02-29T00:00:00Z'), sizeBytes: 900 * GB }, // Still in progress
+      ],
+    };
+    const standardBytes = metric('AWS/S3', 'BucketSizeBytes', 'Average', { BucketName: 'logs', StorageType: 'StandardStorage' });
+
+    it("reports only uploads older than the minimum age", async () => {
+      expect(await evaluate(control.id, uploads, {})).toMatchObject({
+        passed: false,
+        reason: 'Bucket logs has 1 multipart uploads started more than 7 days ago, holding about 100.0GB of parts, and no lifecycle rule aborts them',
+      });
+      expect((await evaluate(control.id, uploads, {}, { minAgeDays: 60 })).passed).toBe(true);
+    });
+
+    it("prices buckets with storage metrics at their storage cost", async () => {
+      const ctx = scanContext({ [`${standardBytes}@us-east-1`]: [2000 * GB] });
+
+      expect(await control.savings!.listPriceCents!(uploads, ctx, defaults(control.id))).toBe(4600);
+    });
+
+    it("falls back to the stale uploads' parts for buckets without storage metrics", async () => {
+      const ctx = scanContext({});
+
+      expect(await control.savings!.listPriceCents!(uploads, ctx, defaults(control.id))).toBeUndefined();
+      expect(control.savings!.fallbackCents(uploads, ctx, defaults(control.id))).toBe(230);
+    });
+  });
+});
@@ -0,0 +1,2829 @@
+import {
+  DescribeInstancesCommand,
+  DescribeVolumesCommand,
+  DescribeSnapshotsCommand,
+  DescribeAddressesCommand,
+  DescribeNatGatewaysCommand,
+  DescribeSubnetsCommand,
+  DescribeVpcEndpointsCommand,
+  DescribeNetworkInterfacesCommand,
+  DescribeImagesCommand,
+  type Instance,
+  type Volume,
+  type Snapshot,
+  type Address,
+  type NatGateway,
+  type VpcEndpoint,
+  type NetworkInterface,
+  type Image,
+} from "@aws-sdk/client-ec2";
+import {
+  DescribeDBInstancesCommand,
+  DescribeDBSnapshotsCommand,
+  type DBInstance,
+  type DBSnapshot,
+} from "@aws-sdk/client-rds";
+import {
+  ListBucketsCommand,
+  GetBucketLocationCommand,
+  GetBucketVersioningCommand,
+  GetBucketLifecycleConfigurationCommand,
+  GetBucketTaggingCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  ListObjectVersionsCommand,
+  type LifecycleRule,
+} from "@aws-sdk/client-s3";
+import {
+  ListTablesCommand,
+  DescribeTableCommand,
+  ListTagsOfResourceCommand,
+  type TableDescription,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DescribeCacheClustersCommand,
+  ListTagsForResourceCommand,
+  type CacheCluster,
+} from "@aws-sdk/client-elasticache";
+import {
+  DescribeClustersCommand,
+  type Cluster,
+} from "@aws-sdk/client-redshift";
+import {
+  ListFunctionsCommand,
+  ListTagsCommand,
+  type FunctionConfiguration,
+} from "@aws-sdk/client-lambda";
+import {
+  DescribeLoadBalancersCommand as DescribeClassicLoadBalancersCommand,
+  DescribeInstanceHealthCommand,
+  DescribeTagsCommand as DescribeClassicLoadBalancerTagsCommand,
+  type LoadBalancerDescription,
+} from "@aws-sdk/client-elastic-load-balancing";
+import {
+  DescribeLoadBalancersCommand,
+  DescribeTargetGroupsCommand,
+  DescribeTargetHealthCommand,
+  DescribeTagsCommand as DescribeLoadBalancerTagsCommand,
+  type LoadBalancer,
+  type TargetHealthDescription,
+} from "@aws-sdk/client-elastic-load-balancing-v2";
+import {
+  controlRegistry,
+  inlineResourceTags,
+  type ControlParameter,
+  type ControlParams,
+  type ControlRegistry,
+  type InventoryCostInput,
+  type ScanContext,
+} from "./control-registry";
+import { collectPages, withThrottlingRetry } from "./aws-pagination";
+import { HOURS_PER_MONTH, type RegionPrices } from "./price-catalog";
+import type { SavingsMethod } from "./savings-models";
+import type { MetricQuery } from "./metrics-source";
+import { functionArchitecture, lambdaMonthlyCents, lambdaUsage, recommendedMemoryMb, type LambdaUsage } from "./lambda-rightsizing";
+import {
+  LOAD_BALANCER_OPERATIONS,
+  loadBalancerActivity,
+  loadBalancerMonthlyCents,
+  type LoadBalancerType,
+} from "./load-balancers";
+import {
+  endpointBytesProcessed,
+  getDataTransferUsage,
+  idlePublicIpv4MonthlyCents,
+  interfaceEndpointMonthlyCents,
+  natGatewayGbPerDay,
+  natGatewayMonthlyCents,
+  type DataTransferUsage,
+} from "./networking";
+import {
+  gp3MigrationMonthlyCents,
+  provisionedIopsVolumeMonthlyCents,
+  recommendedIops,
+  volumeIops,
+} from "./ebs";
+import { instanceTypeSuccessors, referenceInstanceHourlyUsd } from "./instance-generations";
+import {
+  bucketStorage,
+  bucketStorageMonthlyCents,
+  intelligentTieringMonthlyCents,
+  storageClassGbMonthUsd,
+  type BucketStorage,
+} from "./s3-storage";
+
+/**
+ * S3 bucket with the configuration the S3 controls need
+ */
+export interface S3BucketDetails {
+  name: string;
+  region?: string;
+  versioningStatus?: string;
+  mfaDelete?: string;
+  hasLifecycle: boolean | null; // null when the lifecycle configuration could not be read
+  // What the bucket's enabled lifecycle rules do; null when the lifecycle configuration could not be read
+  transitionsObjects: boolean | null;
+  expiresNoncurrentVersions: boolean | null;
+  abortsIncompleteUploads: boolean | null;
+  tags?: Record<string, string> | null; // null when the tag set could not be read
+}
+
+/**
+ * Incomplete multipart uploads of a bucket, oldest first, with the size of their uploaded parts
+ */
+export interface S3MultipartUploads {
+  bucket: string;
+  region?: string;
+  abortsIncompleteUploads: boolean | null; // Whether a lifecycle rule of the bucket aborts them
+  uploads: Array<{
+    key: string;
+    uploadId: string;
+    initiated?: Date;
+    sizeBytes: number | null; // null for uploads past the sizing cap
+  }>;
+}
+
+/**
+ * Object versions of a versioned bucket, counted over the first pages of ListObjectVersions
+ */
+export interface S3VersionSample {
+  bucket: string;
+  region?: string;
+  expiresNoncurrentVersions: boolean | null; // Whether a lifecycle rule of the bucket expires them
+  versions: number;
+  noncurrentVersions: number;
+  deleteMarkers: number;
+  bytes: number;
+  noncurrentBytes: number;
+  complete: boolean; // Whether every version of the bucket was counted
+}
+
+/**
+ * A resource whose describe call doesn't return its tags, with the tags read separately
+ */
+export type TaggedResource<T> = T & {
+  tags?: Record<string, string> | null; // Undefined when untagged, null when the tags could not be read
+};
+
+/**
+ * Application, Network or Gateway load balancer with the targets registered in its target groups.
+ * Target counts are null when the target groups could not be read.
+ */
+export type LoadBalancerDetails = TaggedResource<LoadBalancer> & {
+  registeredTargets: number | null;
+  healthyTargets: number | null;
+};
+
+/**
+ * NAT gateway with the Availability Zone of its subnet (undefined when the subnet could not be read)
+ */
+export type NatGatewayDetails = NatGateway & {
+  availabilityZone?: string;
+};
+
+/**
+ * Classic load balancer with how many of its registered instances are in service (null when unknown)
+ */
+export type ClassicLoadBalancerDetails = TaggedResource<LoadBalancerDescription> & {
+  healthyInstances: number | null;
+};
+
+const SNAPSHOT_MAX_AGE: ControlParameter = {
+  key: 'maxAgeDays',
+  label: 'Maximum snapshot age',
+  description: 'Snapshots older than this are reported',
+  unit: 'days',
+  default: 90,
+  min: 1,
+  max: 3650,
+};
+
+// Utilization controls only judge resources that have existed for the whole window
+const LOOKBACK_DAYS: ControlParameter = {
+  key: 'lookbackDays',
+  label: 'Lookback window',
+  description: 'Days of CloudWatch metrics the check looks at; younger resources are skipped',
+  unit: 'days',
+  default: 14,
+  min: 1,
+  max: 90,
+};
+
+const BYTES_PER_MB = 1024 * 1024;
+const BYTES_PER_GB = 1024 * BYTES_PER_MB;
+
+// Page sizes requested from each API (capped to the documented maximum)
+const PAGE_SIZE = {
+  ec2Instances: 1000,
+  ec2Volumes: 500,
+  ec2Snapshots: 1000,
+  ec2NatGateways: 1000,
+  ec2Subnets: 1000,
+  ec2VpcEndpoints: 1000,
+  ec2NetworkInterfaces: 1000,
+  ec2Images: 1000,
+  rds: 100,
+  s3Buckets: 1000,
+  s3MultipartUploads: 1000,
+  s3ObjectVersions: 1000,
+  dynamodbTables: 100,
+  elasticache: 100,
+  redshift: 100,
+  lambdaFunctions: 50,
+  loadBalancers: 400,
+  targetGroups: 400,
+};
+
+// Incomplete multipart uploads per bucket whose parts are listed; the size of the rest is extrapolated
+const MAX_SIZED_MULTIPART_UPLOADS = 50;
+
+// Pages of ListObjectVersions read per versioned bucket; larger buckets are extrapolated from this sample
+const VERSION_SAMPLE_PAGES = 10;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Average CPU and daily network traffic of an instance over the lookback window, or null without CloudWatch data
+ */
+async function instanceUtilization(
+  instance: Instance,
+  ctx: ScanContext,
+  days: number
+): Promise<{ cpuPercent: number; peakCpuPercent: number; networkMBPerDay: number } | null> {
+  const metric = (metricName: string, statistic: MetricQuery['statistic']): MetricQuery =>
+    ({ namespace: 'AWS/EC2', metricName, dimensions: { InstanceId: instance.InstanceId || '' }, statistic });
+  const [cpu, peakCpu, networkIn, networkOut] = await ctx.metrics.getDailyValues([
+    metric('CPUUtilization', 'Average'),
+    metric('CPUUtilization', 'Maximum'),
+    metric('NetworkIn', 'Sum'),
+    metric('NetworkOut', 'Sum'),
+  ], days, ctx.now);
+  if (cpu.length === 0) return null;
+
+  return {
+    cpuPercent: mean(cpu),
+    peakCpuPercent: Math.max(0, ...peakCpu),
+    networkMBPerDay: ([...networkIn, ...networkOut].reduce((sum, bytes) => sum + bytes, 0) / cpu.length) / BYTES_PER_MB,
+  };
+}
+
+/**
+ * Highest daily maximum of a metric across one or more dimension sets (e.g. every node of a cluster), or null without data
+ */
+async function peakMetric(
+  ctx: ScanContext,
+  days: number,
+  namespace: string,
+  metricName: string,
+  dimensionSets: Array<Record<string, string>>
+): Promise<number | null> {
+  const series = await ctx.metrics.getDailyValues(
+    dimensionSets.map(dimensions => ({ namespace, metricName, dimensions, statistic: 'Maximum' })),
+    days,
+    ctx.now
+  );
+  const values = series.flat();
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+/**
+ * Queries a Redshift cluster completed over the lookback window (as summed per-second rates; 0 means none),
+ * or null when CloudWatch has no data for the cluster
+ */
+async function redshiftQueryActivity(cluster: Cluster, ctx: ScanContext, days: number): Promise<number | null> {
+  const dimensions = { ClusterIdentifier: cluster.ClusterIdentifier || '' };
+  const [connections, ...queries] = await ctx.metrics.getDailyValues([
+    { namespace: 'AWS/Redshift', metricName: 'DatabaseConnections', dimensions, statistic: 'Maximum' },
+    ...['short', 'medium', 'long'].map((latency): MetricQuery => ({
+      namespace: 'AWS/Redshift',
+      metricName: 'QueriesCompletedPerSecond',
+      dimensions: { ...dimensions, latency },
+      statistic: 'Sum',
+    })),
+  ], days, ctx.now);
+  if (connections.length === 0) return null;
+  return queries.flat().reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * CloudWatch dimensions of each node of a cache cluster (metrics are only published per node)
+ */
+function cacheNodeDimensions(cluster: CacheCluster): Array<Record<string, string>> {
+  return (cluster.CacheNodes || []).map(node => ({
+    CacheClusterId: cluster.CacheClusterId || '',
+    CacheNodeId: node.CacheNodeId || '',
+  }));
+}
+
+/**
+ * Smaller memory size a function could run with and what it would cost, or null when the function has no
+ * Lambda Insights data, wasn't invoked over the lookback window, or already has no more memory than it needs
+ */
+async function memoryRightsizing(
+  func: FunctionConfiguration,
+  ctx: ScanContext,
+  params: ControlParams
+): Promise<{ usage: LambdaUsage; recommendedMb: number; currentCents: number; recommendedCents: number } | null> {
+  if (!func.MemorySize) return null;
+  const usage = await lambdaUsage(func, ctx, params.lookbackDays);
+  const recommendedMb = recommendedMemoryMb(usage, params.memoryHeadroomPercent);
+  if (usage.invocations === 0 || recommendedMb === null || recommendedMb >= func.MemorySize) return null;
+
+  const architecture = functionArchitecture(func);
+  return {
+    usage,
+    recommendedMb,
+    currentCents: lambdaMonthlyCents(usage, func.MemorySize, architecture, ctx.prices),
+    recommendedCents: lambdaMonthlyCents(usage, recommendedMb, architecture, ctx.prices),
+  };
+}
+
+/**
+ * Whether a target can receive traffic. Lambda targets have health checks disabled by default and report "unavailable".
+ */
+function isHealthyTarget(target: TargetHealthDescription): boolean {
+  const health = target.TargetHealth;
+  return health?.State === 'healthy' || (health?.State === 'unavailable' && health.Reason === 'Target.HealthCheckDisabled');
+}
+
+function loadBalancerType(lb: LoadBalancer): LoadBalancerType {
+  return lb.Type === 'network' || lb.Type === 'gateway' ? lb.Type : 'application';
+}
+
+/**
+ * Load balancer type a Classic load balancer migrates to: Network for TCP/SSL listeners, Application otherwise
+ */
+function classicMigrationType(lb: LoadBalancerDescription): LoadBalancerType {
+  const protocols = (lb.ListenerDescriptions || []).map(listener => listener.Listener?.Protocol?.toUpperCase());
+  return protocols.some(protocol => protocol === 'TCP' || protocol === 'SSL') ? 'network' : 'application';
+}
+
+// Runtimes with no arm64 build (Amazon Linux 1 based, or retired before Graviton support)
+const X86_ONLY_RUNTIMES = ['go1.x', 'java8', 'nodejs10.x', 'nodejs12.x', 'python2.7', 'python3.6', 'python3.7', 'dotnetcore3.1', 'ruby2.5'];
+
+function imageSnapshotIds(image: Image): string[] {
+  return (image.BlockDeviceMappings || []).flatMap(mapping => mapping.Ebs?.SnapshotId ? [mapping.Ebs.SnapshotId] : []);
+}
+
+function imageSnapshotSizeGb(image: Image): number {
+  return (image.BlockDeviceMappings || []).reduce((sum, mapping) => sum + (mapping.Ebs?.VolumeSize || 0), 0);
+}
+
+function isOlderThanDays(date: Date | undefined, days: number, ctx: ScanContext): boolean {
+  if (!date) return false;
+  const cutoff = new Date(ctx.now);
+  cutoff.setDate(cutoff.getDate() - days);
+  return date < cutoff;
+}
+
+/**
+ * Monthly list price of an EBS volume: storage plus provisioned IOPS for io1/io2.
+ * gp3 IOPS and throughput above the baseline are not included.
+ */
+function ebsVolumeMonthlyCents(volume: Volume, prices: RegionPrices): number | undefined {
+  const storage = prices.storageMonthlyCents(volume.VolumeType || 'standard', volume.Size || 0);
+  if (storage === undefined) return undefined;
+
+  const iopsUsageType = volume.VolumeType === 'io1' ? 'EBS:VolumeP-IOPS.piops'
+    : volume.VolumeType === 'io2' ? 'EBS:VolumeP-IOPS.io2'
+    : undefined;
+  const iops = iopsUsageType && volume.Iops ? prices.monthlyCents('AmazonEC2', iopsUsageType, volume.Iops) ?? 0 : 0;
+  return storage + iops;
+}
+
+/**
+ * GetBucketLocation returns no constraint for us-east-1 and the legacy "EU" alias for eu-west-1
+ */
+function s3LocationToRegion(locationConstraint: string | undefined): string {
+  if (!locationConstraint) return 'us-east-1';
+  if (locationConstraint === 'EU') return 'eu-west-1';
+  return locationConstraint;
+}
+
+/**
+ * Value of a resource's Name tag, which the console shows as its name
+ */
+function nameTag(tags: Array<{ Key?: string; Value?: string }> | undefined): string | undefined {
+  return tags?.find(tag => tag.Key === 'Name')?.Value || undefined;
+}
+
+function isoDate(date: Date | undefined): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * Read the tags of a resource its describe call returned without them.
+ * A failure only loses the tags (null), not the resource.
+ */
+async function readTags(
+  resourceName: string,
+  read: () => Promise<Record<string, string> | undefined>
+): Promise<Record<string, string> | undefined | null> {
+  try {
+    return await withThrottlingRetry(read);
+  } catch (error) {
+    console.error(`Error reading tags of ${resourceName}:`, error);
+    return null;
+  }
+}
+
+function numberAttribute(record: InventoryCostInput, key: string): number | undefined {
+  const value = record.attributes[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function stringAttribute(record: InventoryCostInput, key: string): string | undefined {
+  const value = record.attributes[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function registerCollectors(registry: ControlRegistry): void {
+  registry.registerCollector<Instance>({
+    kind: 'ec2:instances',
+    service: 'ec2',
+    description: 'EC2 instances',
+    async collect(ctx) {
+      return collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeInstancesCommand({ NextToken, MaxResults })),
+        page => page.Reservations?.flatMap(r => r.Instances || []),
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2Instances }
+      );
+    },
+    // Stopped instances are billed only for their volumes, which are inventoried separately
+    inventoryMonthlyCents: (record, prices) => {
+      const instanceType = stringAttribute(record, 'instanceType');
+      if (record.state !== 'running' && record.state !== 'pending') return 0;
+      return instanceType ? prices.instanceMonthlyCents(instanceType) : undefined;
+    },
+    inventory: instance => ({
+      resourceId: instance.InstanceId,
+      name: nameTag(instance.Tags),
+      state: instance.State?.Name,
+      attributes: {
+        instanceType: instance.InstanceType ?? null,
+        platform: instance.PlatformDetails ?? null,
+        architecture: instance.Architecture ?? null,
+        availabilityZone: instance.Placement?.AvailabilityZone ?? null,
+        vpcId: instance.VpcId ?? null,
+        privateIpAddress: instance.PrivateIpAddress ?? null,
+        publicIpAddress: instance.PublicIpAddress ?? null,
+        launchTime: isoDate(instance.LaunchTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<Volume>({
+    kind: 'ec2:volumes',
+    service: 'ec2',
+    description: 'EBS volumes',
+    async collect(ctx) {
+      return collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeVolumesCommand({ NextToken, MaxResults })),
+        page => page.Volumes,
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2Volumes }
+      );
+    },
+    inventoryMonthlyCents: (record, prices) => ebsVolumeMonthlyCents({
+      VolumeType: stringAttribute(record, 'volumeType') as Volume['VolumeType'],
+      Size: numberAttribute(record, 'sizeGb'),
+      Iops: numberAttribute(record, 'iops'),
+    }, prices),
+    inventory: volume => ({
+      resourceId: volume.VolumeId,
+      name: nameTag(volume.Tags),
+      state: volume.State,
+      attributes: {
+        volumeType: volume.VolumeType ?? null,
+        sizeGb: volume.Size ?? null,
+        iops: volume.Iops ?? null,
+        throughput: volume.Throughput ?? null,
+        encrypted: volume.Encrypted ?? null,
+        availabilityZone: volume.AvailabilityZone ?? null,
+        attachedInstanceId: volume.Attachments?.[0]?.InstanceId ?? null,
+        createTime: isoDate(volume.CreateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<Snapshot>({
+    kind: 'ec2:snapshots',
+    service: 'ec2',
+    description: 'EBS snapshots owned by the account',
+    async collect(ctx) {
+      return collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(
+          new DescribeSnapshotsCommand({ OwnerIds: ['self'], NextToken, MaxResults })
+        ),
+        page => page.Snapshots,
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2Snapshots }
+      );
+    },
+    // Priced at the full volume size; incremental snapshots store less
+    inventoryMonthlyCents: (record, prices) => prices.storageMonthlyCents(
+      stringAttribute(record, 'storageTier') === 'archive' ? 'snapshot-archive' : 'snapshot-standard',
+      numberAttribute(record, 'sizeGb') || 0
+    ),
+    inventory: snapshot => ({
+      resourceId: snapshot.SnapshotId,
+      name: nameTag(snapshot.Tags),
+      state: snapshot.State,
+      attributes: {
+        volumeId: snapshot.VolumeId ?? null,
+        sizeGb: snapshot.VolumeSize ?? null,
+        storageTier: snapshot.StorageTier ?? null,
+        encrypted: snapshot.Encrypted ?? null,
+        description: snapshot.Description || null,
+        startTime: isoDate(snapshot.StartTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<Image>({
+    kind: 'ec2:images',
+    service: 'ec2',
+    description: 'AMIs owned by the account',
+    async collect(ctx) {
+      return collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeImagesCommand({ Owners: ['self'], NextToken, MaxResults })),
+        page => page.Images,
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2Images }
+      );
+    },
+    // An AMI is billed for the snapshots behind it, priced at their full size
+    inventoryMonthlyCents: (record, prices) =>
+      prices.storageMonthlyCents('snapshot-standard', numberAttribute(record, 'snapshotSizeGb') || 0),
+    inventory: image => ({
+      resourceId: image.ImageId,
+      name: image.Name,
+      state: image.State,
+      attributes: {
+        architecture: image.Architecture ?? null,
+        platform: image.PlatformDetails ?? null,
+        snapshotIds: imageSnapshotIds(image).join(', ') || null,
+        snapshotSizeGb: imageSnapshotSizeGb(image),
+        creationDate: image.CreationDate ?? null,
+        lastLaunchedTime: image.LastLaunchedTime ?? null,
+      },
+    }),
+  });
+
+  registry.registerCollector<Address>({
+    kind: 'ec2:addresses',
+    service: 'ec2',
+    description: 'Elastic IP addresses',
+    async collect(ctx) {
+      // DescribeAddresses is not paginated; all addresses are returned in one response
+      const response = await ctx.clients.ec2.send(new DescribeAddressesCommand({}));
+      return response.Addresses || [];
+    },
+    inventoryMonthlyCents: (record, prices) =>
+      record.state === 'unassociated' ? prices.monthlyCents('AmazonEC2', 'ElasticIP:IdleAddress') : 0,
+    inventory: address => ({
+      resourceId: address.AllocationId,
+      name: nameTag(address.Tags),
+      state: address.AssociationId ? 'associated' : 'unassociated',
+      attributes: {
+        publicIp: address.PublicIp ?? null,
+        domain: address.Domain ?? null,
+        instanceId: address.InstanceId ?? null,
+        networkInterfaceId: address.NetworkInterfaceId ?? null,
+      },
+    }),
+  });
+
+  registry.registerCollector<NatGatewayDetails>({
+    kind: 'ec2:nat-gateways',
+    service: 'networking',
+    description: 'NAT gateways',
+    async collect(ctx) {
+      const natGateways = await collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeNatGatewaysCommand({ NextToken, MaxResults })),
+        page => page.NatGateways,
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2NatGateways }
+      );
+
+      // NAT gateways only name their subnet; the subnet tells which Availability Zone they serve
+      const subnetIds = Array.from(new Set(natGateways.map(natGateway => natGateway.SubnetId).filter((id): id is string => !!id)));
+      const zones = new Map<string, string>();
+      if (subnetIds.length > 0) {
+        try {
+          const subnets = await collectPages(
+            (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeSubnetsCommand({
+              Filters: [{ Name: 'subnet-id', Values: subnetIds }],
+              NextToken,
+              MaxResults,
+            })),
+            page => page.Subnets,
+            page => page.NextToken,
+            { pageSize: PAGE_SIZE.ec2Subnets }
+          );
+          for (const subnet of subnets) {
+            if (subnet.SubnetId && subnet.AvailabilityZone) zones.set(subnet.SubnetId, subnet.AvailabilityZone);
+          }
+        } catch (error) {
+          console.error('Error reading the subnets of NAT gateways:', error);
+        }
+      }
+
+      return natGateways.map(natGateway => ({
+        ...natGateway,
+        availabilityZone: natGateway.SubnetId ? zones.get(natGateway.SubnetId) : undefined,
+      }));
+    },
+    // Processed data isn't inventoried, only the hourly charge
+    inventoryMonthlyCents: (record, prices) =>
+      record.state === 'available' ? prices.monthlyCents('AmazonEC2', 'NatGateway-Hours') : 0,
+    inventory: natGateway => ({
+      resourceId: natGateway.NatGatewayId,
+      name: nameTag(natGateway.Tags),
+      state: natGateway.State,
+      attributes: {
+        connectivityType: natGateway.ConnectivityType ?? null,
+        vpcId: natGateway.VpcId ?? null,
+        subnetId: natGateway.SubnetId ?? null,
+        availabilityZone: natGateway.availabilityZone ?? null,
+        createTime: isoDate(natGateway.CreateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<VpcEndpoint>({
+    kind: 'ec2:vpc-endpoints',
+    service: 'networking',
+    description: 'VPC endpoints',
+    async collect(ctx) {
+      return collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeVpcEndpointsCommand({ NextToken, MaxResults })),
+        page => page.VpcEndpoints,
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2VpcEndpoints }
+      );
+    },
+    // Gateway endpoints (S3, DynamoDB) are free; interface endpoints are billed per Availability Zone
+    inventoryMonthlyCents: (record, prices) => {
+      if (stringAttribute(record, 'endpointType') !== 'Interface' || record.state !== 'available') return 0;
+      return prices.monthlyCents('AmazonVPC', 'VpcEndpoint-Hours', numberAttribute(record, 'networkInterfaces') || 1);
+    },
+    inventory: endpoint => ({
+      resourceId: endpoint.VpcEndpointId,
+      name: nameTag(endpoint.Tags),
+      state: endpoint.State,
+      attributes: {
+        endpointType: endpoint.VpcEndpointType ?? null,
+        serviceName: endpoint.ServiceName ?? null,
+        vpcId: endpoint.VpcId ?? null,
+        networkInterfaces: endpoint.NetworkInterfaceIds?.length ?? 0,
+        createTime: isoDate(endpoint.CreationTimestamp),
+      },
+    }),
+  });
+
+  registry.registerCollector<NetworkInterface>({
+    kind: 'ec2:network-interfaces',
+    service: 'networking',
+    description: 'Elastic network interfaces',
+    async collect(ctx) {
+      return collectPages(
+        (NextToken, MaxResults) => ctx.clients.ec2.send(new DescribeNetworkInterfacesCommand({ NextToken, MaxResults })),
+        page => page.NetworkInterfaces,
+        page => page.NextToken,
+        { pageSize: PAGE_SIZE.ec2NetworkInterfaces }
+      );
+    },
+    // Network interfaces return their tags as TagSet
+    tags: eni => inlineResourceTags({ Tags: eni.TagSet }),
+    inventory: eni => ({
+      resourceId: eni.NetworkInterfaceId,
+      name: nameTag(eni.TagSet),
+      state: eni.Status,
+      attributes: {
+        interfaceType: eni.InterfaceType ?? null,
+        vpcId: eni.VpcId ?? null,
+        subnetId: eni.SubnetId ?? null,
+        availabilityZone: eni.AvailabilityZone ?? null,
+        privateIp: eni.PrivateIpAddress ?? null,
+        publicIp: eni.Association?.PublicIp ?? null,
+        instanceId: eni.Attachment?.InstanceId ?? null,
+        requesterManaged: eni.RequesterManaged ?? null,
+      },
+    }),
+  });
+
+  // Cost Explorer data is account-wide, so it is read once from the default region
+  registry.registerCollector<DataTransferUsage>({
+    kind: 'ce:data-transfer-usage',
+    service: 'networking',
+    description: 'Data transfer usage types from Cost Explorer',
+    global: true,
+    collect: ctx => getDataTransferUsage(ctx.clients.costExplorer, ctx.now),
+  });
+
+  registry.registerCollector<DBInstance>({
+    kind: 'rds:db-instances',
+    service: 'rds',
+    description: 'RDS DB instances',
+    async collect(ctx) {
+      return collectPages(
+        (Marker, MaxRecords) => ctx.clients.rds.send(new DescribeDBInstancesCommand({ Marker, MaxRecords })),
+        page => page.DBInstances,
+        page => page.Marker,
+        { pageSize: PAGE_SIZE.rds }
+      );
+    },
+    // Multi-AZ doubles both the instance and its storage; stopped instances are billed for storage only
+    inventoryMonthlyCents: (record, prices) => {
+      const instanceClass = stringAttribute(record, 'instanceClass');
+      const storage = prices.storageMonthlyCents(
+        `rds-${stringAttribute(record, 'storageType')}`,
+        numberAttribute(record, 'allocatedStorageGb') || 0
+      );
+      const instance = record.state === 'stopped' ? 0
+        : instanceClass ? prices.instanceMonthlyCents(instanceClass)
+        : undefined;
+      if (storage === undefined || instance === undefined) return undefined;
+      return (instance + storage) * (record.attributes.multiAz ? 2 : 1);
+    },
+    inventory: instance => ({
+      resourceId: instance.DBInstanceIdentifier,
+      name: instance.DBInstanceIdentifier,
+      state: instance.DBInstanceStatus,
+      attributes: {
+        instanceClass: instance.DBInstanceClass ?? null,
+        engine: instance.Engine ?? null,
+        engineVersion: instance.EngineVersion ?? null,
+        storageType: instance.StorageType ?? null,
+        allocatedStorageGb: instance.AllocatedStorage ?? null,
+        multiAz: instance.MultiAZ ?? null,
+        availabilityZone: instance.AvailabilityZone ?? null,
+        createTime: isoDate(instance.InstanceCreateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<DBSnapshot>({
+    kind: 'rds:db-snapshots',
+    service: 'rds',
+    description: 'Manual RDS DB snapshots',
+    async collect(ctx) {
+      return collectPages(
+        (Marker, MaxRecords) => ctx.clients.rds.send(
+          new DescribeDBSnapshotsCommand({ SnapshotType: 'manual', Marker, MaxRecords })
+        ),
+        page => page.DBSnapshots,
+        page => page.Marker,
+        { pageSize: PAGE_SIZE.rds }
+      );
+    },
+    inventoryMonthlyCents: (record, prices) =>
+      prices.storageMonthlyCents('rds-snapshot', numberAttribute(record, 'allocatedStorageGb') || 0),
+    inventory: snapshot => ({
+      resourceId: snapshot.DBSnapshotIdentifier,
+      name: snapshot.DBSnapshotIdentifier,
+      state: snapshot.Status,
+      attributes: {
+        dbInstanceIdentifier: snapshot.DBInstanceIdentifier ?? null,
+        engine: snapshot.Engine ?? null,
+        storageType: snapshot.StorageType ?? null,
+        allocatedStorageGb: snapshot.AllocatedStorage ?? null,
+        encrypted: snapshot.Encrypted ?? null,
+        snapshotCreateTime: isoDate(snapshot.SnapshotCreateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<S3BucketDetails>({
+    kind: 's3:buckets',
+    service: 's3',
+    description: 'S3 buckets with versioning and lifecycle configuration',
+    global: true,
+    async collect(ctx) {
+      const bucketList = await collectPages(
+        (ContinuationToken, MaxBuckets) => ctx.clients.s3.send(new ListBucketsCommand({ ContinuationToken, MaxBuckets })),
+        page => page.Buckets,
+        page => page.ContinuationToken,
+        { pageSize: PAGE_SIZE.s3Buckets }
+      );
+      const buckets: S3BucketDetails[] = [];
+
+      for (const bucket of bucketList) {
+        if (!bucket.Name) continue;
+
+        try {
+          const location = await ctx.clients.s3.send(
+            new GetBucketLocationCommand({ Bucket: bucket.Name })
+          );
+          const versioning = await ctx.clients.s3.send(
+            new GetBucketVersioningCommand({ Bucket: bucket.Name })
+          );
+
+          let hasLifecycle: boolean | null = true;
+          let lifecycleRules: LifecycleRule[] | null = [];
+          try {
+            const lifecycle = await ctx.clients.s3.send(
+              new GetBucketLifecycleConfigurationCommand({ Bucket: bucket.Name })
+            );
+            lifecycleRules = (lifecycle.Rules || []).filter(rule => rule.Status === 'Enabled');
+          } catch (error: any) {
+            hasLifecycle = error.name === 'NoSuchLifecycleConfiguration' ? false : null;
+            lifecycleRules = hasLifecycle === false ? [] : null;
+          }
+          const hasRule = (applies: (rule: LifecycleRule) => boolean) => lifecycleRules ? lifecycleRules.some(applies) : null;
+
+          const tags = await readTags(bucket.Name, async () => {
+            try {
+              const tagging = await ctx.clients.s3.send(new GetBucketTaggingCommand({ Bucket: bucket.Name }));
+              return inlineResourceTags({ Tags: tagging.TagSet });
+            } catch (error: any) {
+              if (error.name === 'NoSuchTagSet') return undefined;
+              throw error;
+            }
+          });
+
+          buckets.push({
+            name: bucket.Name,
+            region: s3LocationToRegion(location.LocationConstraint),
+            versioningStatus: versioning.Status,
+            mfaDelete: versioning.MFADelete,
+            hasLifecycle,
+            transitionsObjects: hasRule(rule => (rule.Transitions?.length ?? 0) > 0),
+            expiresNoncurrentVersions: hasRule(rule => !!rule.NoncurrentVersionExpiration),
+            abortsIncompleteUploads: hasRule(rule => !!rule.AbortIncompleteMultipartUpload),
+            tags,
+          });
+        } catch (error) {
+          // Skip buckets we can't access
+          console.error(`Error checking bucket ${bucket.Name}:`, error);
+        }
+      }
+
+      return buckets;
+    },
+    tags: bucket => bucket.tags,
+    inventory: bucket => ({
+      resourceId: bucket.name,
+      name: bucket.name,
+      region: bucket.region,
+      attributes: {
+        versioningStatus: bucket.versioningStatus ?? null,
+        mfaDelete: bucket.mfaDelete ?? null,
+        hasLifecycle: bucket.hasLifecycle,
+      },
+    }),
+  });
+
+  registry.registerCollector<S3MultipartUploads>({
+    kind: 's3:multipart-uploads',
+    service: 's3',
+    description: 'Incomplete multipart uploads of S3 buckets',
+    global: true,
+    async collect(ctx) {
+      const buckets = await ctx.collect<S3BucketDetails>('s3:buckets');
+      const results: S3MultipartUploads[] = [];
+
+      for (const bucket of buckets) {
+        try {
+          // Uploads are paged by key and upload ID together
+          const uploads = await collectPages(
+            (token, MaxUploads) => {
+              const [KeyMarker, UploadIdMarker] = token ? JSON.parse(token) : [];
+              return ctx.clients.s3.send(new ListMultipartUploadsCommand({ Bucket: bucket.name, KeyMarker, UploadIdMarker, MaxUploads }));
+            },
+            page => page.Uploads,
+            page => page.IsTruncated ? JSON.stringify([page.NextKeyMarker, page.NextUploadIdMarker]) : undefined,
+            { pageSize: PAGE_SIZE.s3MultipartUploads }
+          );
+          if (uploads.length === 0) continue;
+
+          // Parts are listed per upload, so only the oldest uploads, the likeliest to be abandoned, are sized
+          uploads.sort((a, b) => (a.Initiated?.getTime() ?? 0) - (b.Initiated?.getTime() ?? 0));
+          const bucketUploads: S3MultipartUploads['uploads'] = [];
+          for (const upload of uploads) {
+            let sizeBytes: number | null = null;
+            if (bucketUploads.length < MAX_SIZED_MULTIPART_UPLOADS) {
+              const parts = await collectPages(
+                (PartNumberMarker, MaxParts) => ctx.clients.s3.send(new ListPartsCommand({
+                  Bucket: bucket.name,
+                  Key: upload.Key,
+                  UploadId: upload.UploadId,
+                  PartNumberMarker,
+                  MaxParts,
+                })),
+                page => page.Parts,
+                page => page.IsTruncated ? page.NextPartNumberMarker : undefined
+              );
+              sizeBytes = parts.reduce((sum, part) => sum + (part.Size || 0), 0);
+            }
+            bucketUploads.push({ key: upload.Key || '', uploadId: upload.UploadId || '', initiated: upload.Initiated, sizeBytes });
+          }
+
+          results.push({ bucket: bucket.name, region: bucket.region, abortsIncompleteUploads: bucket.abortsIncompleteUploads, uploads: bucketUploads });
+        } catch (error) {
+          console.error(`Error listing multipart uploads of bucket ${bucket.name}:`, error);
+        }
+      }
+
+      return results;
+    },
+  });
+
+  registry.registerCollector<S3VersionSample>({
+    kind: 's3:object-versions',
+    service: 's3',
+    description: 'Object versions of versioned S3 buckets, sampled from the first pages',
+    global: true,
+    async collect(ctx) {
+      const buckets = await ctx.collect<S3BucketDetails>('s3:buckets');
+      const samples: S3VersionSample[] = [];
+
+      for (const bucket of buckets) {
+        if (bucket.versioningStatus !== 'Enabled' && bucket.versioningStatus !== 'Suspended') continue;
+
+        const sample: S3VersionSample = {
+          bucket: bucket.name,
+          region: bucket.region,
+          expiresNoncurrentVersions: bucket.expiresNoncurrentVersions,
+          versions: 0,
+          noncurrentVersions: 0,
+          deleteMarkers: 0,
+          bytes: 0,
+          noncurrentBytes: 0,
+          complete: false,
+        };
+        try {
+          // Versions are paged by key and version ID together; large buckets are sampled, not listed in full
+          let KeyMarker: string | undefined;
+          let VersionIdMarker: string | undefined;
+          for (let page = 0; page < VERSION_SAMPLE_PAGES; page++) {
+            const response = await withThrottlingRetry(() => ctx.clients.s3.send(new ListObjectVersionsCommand({
+              Bucket: bucket.name,
+              KeyMarker,
+              VersionIdMarker,
+              MaxKeys: PAGE_SIZE.s3ObjectVersions,
+            })));
+            for (const version of response.Versions || []) {
+              sample.versions++;
+              sample.bytes += version.Size || 0;
+              if (!version.IsLatest) {
+                sample.noncurrentVersions++;
+                sample.noncurrentBytes += version.Size || 0;
+              }
+            }
+            sample.deleteMarkers += response.DeleteMarkers?.length ?? 0;
+
+            if (!response.IsTruncated) {
+              sample.complete = true;
+              break;
+            }
+            KeyMarker = response.NextKeyMarker;
+            VersionIdMarker = response.NextVersionIdMarker;
+          }
+          samples.push(sample);
+        } catch (error) {
+          console.error(`Error listing object versions of bucket ${bucket.name}:`, error);
+        }
+      }
+
+      return samples;
+    },
+  });
+
+  registry.registerCollector<TaggedResource<TableDescription>>({
+    kind: 'dynamodb:tables',
+    service: 'dynamodb',
+    description: 'DynamoDB tables',
+    async collect(ctx) {
+      const tableNames = await collectPages(
+        (ExclusiveStartTableName, Limit) => ctx.clients.dynamodb.send(new ListTablesCommand({ ExclusiveStartTableName, Limit })),
+        page => page.TableNames,
+        page => page.LastEvaluatedTableName,
+        { pageSize: PAGE_SIZE.dynamodbTables }
+      );
+      const tables: TaggedResource<TableDescription>[] = [];
+
+      for (const tableName of tableNames) {
+        const tableResponse = await withThrottlingRetry(() =>
+          ctx.clients.dynamodb.send(new DescribeTableCommand({ TableName: tableName }))
+        );
+        const table = tableResponse.Table;
+        if (table) {
+          const tags = table.TableArn
+            ? await readTags(tableName, async () => inlineResourceTags({
+              Tags: await collectPages(
+                NextToken => ctx.clients.dynamodb.send(new ListTagsOfResourceCommand({ ResourceArn: table.TableArn, NextToken })),
+                page => page.Tags,
+                page => page.NextToken
+              ),
+            }))
+            : null;
+          tables.push({ ...table, tags });
+        }
+      }
+
+      return tables;
+    },
+    tags: table => table.tags,
+    untrackedAttributes: ['itemCount', 'sizeBytes'], // Refreshed by DynamoDB about every six hours
+    inventory: table => ({
+      resourceId: table.TableName,
+      name: table.TableName,
+      state: table.TableStatus,
+      attributes: {
+        billingMode: table.BillingModeSummary?.BillingMode ?? 'PROVISIONED',
+        tableClass: table.TableClassSummary?.TableClass ?? null,
+        readCapacityUnits: table.ProvisionedThroughput?.ReadCapacityUnits ?? null,
+        writeCapacityUnits: table.ProvisionedThroughput?.WriteCapacityUnits ?? null,
+        itemCount: table.ItemCount ?? null,
+        sizeBytes: table.TableSizeBytes ?? null,
+        creationDateTime: isoDate(table.CreationDateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<TaggedResource<CacheCluster>>({
+    kind: 'elasticache:cache-clusters',
+    service: 'elasticache',
+    description: 'ElastiCache cache clusters',
+    async collect(ctx) {
+      const clusters = await collectPages(
+        // Node IDs are needed for the per-node CloudWatch metrics
+        (Marker, MaxRecords) => ctx.clients.elasticache.send(
+          new DescribeCacheClustersCommand({ Marker, MaxRecords, ShowCacheNodeInfo: true })
+        ),
+        page => page.CacheClusters,
+        page => page.Marker,
+        { pageSize: PAGE_SIZE.elasticache }
+      );
+
+      const tagged: TaggedResource<CacheCluster>[] = [];
+      for (const cluster of clusters) {
+        const tags = cluster.ARN
+          ? await readTags(cluster.CacheClusterId || cluster.ARN, async () => {
+            const response = await ctx.clients.elasticache.send(new ListTagsForResourceCommand({ ResourceName: cluster.ARN }));
+            return inlineResourceTags(response);
+          })
+          : null;
+        tagged.push({ ...cluster, tags });
+      }
+      return tagged;
+    },
+    tags: cluster => cluster.tags,
+    inventoryMonthlyCents: (record, prices) => {
+      const nodeType = stringAttribute(record, 'nodeType');
+      return nodeType ? prices.instanceMonthlyCents(nodeType, numberAttribute(record, 'numCacheNodes') || 1) : undefined;
+    },
+    inventory: cluster => ({
+      resourceId: cluster.CacheClusterId,
+      name: cluster.CacheClusterId,
+      state: cluster.CacheClusterStatus,
+      attributes: {
+        nodeType: cluster.CacheNodeType ?? null,
+        engine: cluster.Engine ?? null,
+        engineVersion: cluster.EngineVersion ?? null,
+        numCacheNodes: cluster.NumCacheNodes ?? null,
+        replicationGroupId: cluster.ReplicationGroupId ?? null,
+        availabilityZone: cluster.PreferredAvailabilityZone ?? null,
+        createTime: isoDate(cluster.CacheClusterCreateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<Cluster>({
+    kind: 'redshift:clusters',
+    service: 'redshift',
+    description: 'Redshift clusters',
+    async collect(ctx) {
+      return collectPages(
+        (Marker, MaxRecords) => ctx.clients.redshift.send(new DescribeClustersCommand({ Marker, MaxRecords })),
+        page => page.Clusters,
+        page => page.Marker,
+        { pageSize: PAGE_SIZE.redshift }
+      );
+    },
+    // Paused clusters are billed for storage only, which isn't inventoried
+    inventoryMonthlyCents: (record, prices) => {
+      const nodeType = stringAttribute(record, 'nodeType');
+      if (record.state === 'paused') return 0;
+      return nodeType ? prices.instanceMonthlyCents(nodeType, numberAttribute(record, 'numberOfNodes') || 1) : undefined;
+    },
+    inventory: cluster => ({
+      resourceId: cluster.ClusterIdentifier,
+      name: cluster.ClusterIdentifier,
+      state: cluster.ClusterStatus,
+      attributes: {
+        nodeType: cluster.NodeType ?? null,
+        numberOfNodes: cluster.NumberOfNodes ?? null,
+        dbName: cluster.DBName ?? null,
+        availabilityZone: cluster.AvailabilityZone ?? null,
+        createTime: isoDate(cluster.ClusterCreateTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<TaggedResource<FunctionConfiguration>>({
+    kind: 'lambda:functions',
+    service: 'lambda',
+    description: 'Lambda functions',
+    async collect(ctx) {
+      const functions = await collectPages(
+        (Marker, MaxItems) => ctx.clients.lambda.send(new ListFunctionsCommand({ Marker, MaxItems })),
+        page => page.Functions,
+        page => page.NextMarker,
+        { pageSize: PAGE_SIZE.lambdaFunctions }
+      );
+
+      const tagged: TaggedResource<FunctionConfiguration>[] = [];
+      for (const func of functions) {
+        const tags = func.FunctionArn
+          ? await readTags(func.FunctionName || func.FunctionArn, async () => {
+            const response = await ctx.clients.lambda.send(new ListTagsCommand({ Resource: func.FunctionArn }));
+            // Lambda returns tags as a map rather than a Key/Value list
+            return response.Tags && Object.keys(response.Tags).length > 0 ? response.Tags : undefined;
+          })
+          : null;
+        tagged.push({ ...func, tags });
+      }
+      return tagged;
+    },
+    tags: func => func.tags,
+    inventory: func => ({
+      resourceId: func.FunctionName,
+      name: func.FunctionName,
+      state: func.State,
+      attributes: {
+        runtime: func.Runtime ?? null,
+        packageType: func.PackageType ?? null,
+        architectures: func.Architectures?.join(', ') ?? null,
+        memorySizeMb: func.MemorySize ?? null,
+        timeoutSeconds: func.Timeout ?? null,
+        codeSizeBytes: func.CodeSize ?? null,
+        lastModified: func.LastModified ?? null,
+      },
+    }),
+  });
+
+  registry.registerCollector<LoadBalancerDetails>({
+    kind: 'elb:load-balancers',
+    service: 'elb',
+    description: 'Application, Network and Gateway load balancers',
+    async collect(ctx) {
+      const loadBalancers = await collectPages(
+        (Marker, PageSize) => ctx.clients.elbv2.send(new DescribeLoadBalancersCommand({ Marker, PageSize })),
+        page => page.LoadBalancers,
+        page => page.NextMarker,
+        { pageSize: PAGE_SIZE.loadBalancers }
+      );
+
+      const details: LoadBalancerDetails[] = [];
+      for (const lb of loadBalancers) {
+        const name = lb.LoadBalancerName || lb.LoadBalancerArn || 'load balancer';
+        let targets: TargetHealthDescription[] | null = null;
+        try {
+          const targetGroups = await collectPages(
+            (Marker, PageSize) => ctx.clients.elbv2.send(new DescribeTargetGroupsCommand({ LoadBalancerArn: lb.LoadBalancerArn, Marker, PageSize })),
+            page => page.TargetGroups,
+            page => page.NextMarker,
+            { pageSize: PAGE_SIZE.targetGroups }
+          );
+          targets = [];
+          for (const targetGroup of targetGroups) {
+            // DescribeTargetHealth is not paginated; every target of the group is returned
+            const health = await withThrottlingRetry(() =>
+              ctx.clients.elbv2.send(new DescribeTargetHealthCommand({ TargetGroupArn: targetGroup.TargetGroupArn })));
+            targets.push(...(health.TargetHealthDescriptions || []));
+          }
+        } catch (error) {
+          console.error(`Error reading the targets of ${name}:`, error);
+        }
+
+        const tags = lb.LoadBalancerArn
+          ? await readTags(name, async () => {
+            const response = await ctx.clients.elbv2.send(new DescribeLoadBalancerTagsCommand({ ResourceArns: [lb.LoadBalancerArn!] }));
+            const tagList = response.TagDescriptions?.[0]?.Tags || [];
+            return tagList.length > 0 ? Object.fromEntries(tagList.map(tag => [tag.Key || '', tag.Value || ''])) : undefined;
+          })
+          : null;
+        details.push({
+          ...lb,
+          tags,
+          registeredTargets: targets && targets.length,
+          healthyTargets: targets && targets.filter(isHealthyTarget).length,
+        });
+      }
+      return details;
+    },
+    tags: lb => lb.tags,
+    // Load balancers that failed to provision are not billed; LCU usage isn't inventoried
+    inventoryMonthlyCents: (record, prices) => {
+      const type = stringAttribute(record, 'type') as LoadBalancerType | undefined;
+      if (record.state === 'failed') return 0;
+      return type && LOAD_BALANCER_OPERATIONS[type]
+        ? prices.monthlyCents('AWSELB', 'LoadBalancerUsage', 1, LOAD_BALANCER_OPERATIONS[type])
+        : undefined;
+    },
+    inventory: lb => ({
+      resourceId: lb.LoadBalancerArn,
+      name: lb.LoadBalancerName,
+      state: lb.State?.Code,
+      attributes: {
+        type: lb.Type ?? null,
+        scheme: lb.Scheme ?? null,
+        vpcId: lb.VpcId ?? null,
+        dnsName: lb.DNSName ?? null,
+        registeredTargets: lb.registeredTargets,
+        healthyTargets: lb.healthyTargets,
+        createdTime: isoDate(lb.CreatedTime),
+      },
+    }),
+  });
+
+  registry.registerCollector<ClassicLoadBalancerDetails>({
+    kind: 'elb:classic-load-balancers',
+    service: 'elb',
+    description: 'Classic load balancers',
+    async collect(ctx) {
+      const loadBalancers = await collectPages(
+        (Marker, PageSize) => ctx.clients.elb.send(new DescribeClassicLoadBalancersCommand({ Marker, PageSize })),
+        page => page.LoadBalancerDescriptions,
+        page => page.NextMarker,
+        { pageSize: PAGE_SIZE.loadBalancers }
+      );
+
+      const details: ClassicLoadBalancerDetails[] = [];
+      for (const lb of loadBalancers) {
+        const name = lb.LoadBalancerName || 'classic load balancer';
+        let healthyInstances: number | null = null;
+        try {
+          const health = await withThrottlingRetry(() =>
+            ctx.clients.elb.send(new DescribeInstanceHealthCommand({ LoadBalancerName: lb.LoadBalancerName })));
+          healthyInstances = (health.InstanceStates || []).filter(instance => instance.State === 'InService').length;
+        } catch (error) {
+          console.error(`Error reading the instance health of ${name}:`, error);
+        }
+
+        const tags = lb.LoadBalancerName
+          ? await readTags(name, async () => {
+            const response = await ctx.clients.elb.send(new DescribeClassicLoadBalancerTagsCommand({ LoadBalancerNames: [lb.LoadBalancerName!] }));
+            const tagList = response.TagDescriptions?.[0]?.Tags || [];
+            return tagList.length > 0 ? Object.fromEntries(tagList.map(tag => [tag.Key || '', tag.Value || ''])) : undefined;
+          })
+          : null;
+        details.push({ ...lb, tags, healthyInstances });
+      }
+      return details;
+    },
+    tags: lb => lb.tags,
+    inventoryMonthlyCents: (_record, prices) =>
+      prices.monthlyCents('AWSELB', 'LoadBalancerUsage', 1, LOAD_BALANCER_OPERATIONS.classic),
+    inventory: lb => ({
+      resourceId: lb.LoadBalancerName,
+      name: lb.LoadBalancerName,
+      attributes: {
+        scheme: lb.Scheme ?? null,
+        vpcId: lb.VPCId ?? null,
+        dnsName: lb.DNSName ?? null,
+        registeredInstances: lb.Instances?.length ?? 0,
+        healthyInstances: lb.healthyInstances,
+        createdTime: isoDate(lb.CreatedTime),
+      },
+    }),
+  });
+}
+
+/**
+ * Move of a running instance to a newer instance type, with both types' monthly on-demand cost
+ */
+interface GenerationMigration {
+  toType: string;
+  fromMonthlyCents: number;
+  toMonthlyCents: number;
+  referencePrices: boolean; // Priced from us-east-1 reference prices, the catalog having none for the region
+  reviewNote?: string; // Set when the instance may not run on the new type as-is
+}
+
+function referenceInstanceMonthlyCents(instanceType: string): number | undefined {
+  const hourlyUsd = referenceInstanceHourlyUsd(instanceType);
+  return hourlyUsd === undefined ? undefined : Math.round(hourlyUsd * HOURS_PER_MONTH * 100);
+}
+
+/**
+ * Why an instance may not run on a successor type as-is, or undefined when nothing is known to stand in the way.
+ * All successors are Nitro types, which need ENA and HVM; Graviton also needs Linux and an arm64 AMI.
+ */
+async function generationMigrationIssue(instance: Instance, toType: string, ctx: ScanContext): Promise<string | undefined> {
+  if (instance.VirtualizationType === 'paravirtual') return `its AMI is paravirtual, and ${toType} runs HVM AMIs only`;
+  if (instance.EnaSupport === false) return `ENA isn't enabled on the instance, and ${toType} requires it`;
+  if (instance.Architecture === 'i386') return `its AMI is 32-bit, and ${toType} runs 64-bit AMIs only`;
+  if (toType !== instanceTypeSuccessors(instance.InstanceType || '').graviton) return undefined;
+
+  if ((instance.PlatformDetails || instance.Platform || '').toLowerCase().startsWith('windows')) return `Windows doesn't run on Graviton (${toType})`;
+  // Public distributions publish arm64 builds of their AMIs; the account's own AMIs have to be rebuilt
+  const images = await ctx.collect<Image>('ec2:images');
+  const image = images.find(candidate => candidate.ImageId === instance.ImageId);
+  if (image && image.Architecture !== 'arm64') {
+    return `AMI ${image.ImageId} is an ${image.Architecture} build, and ${toType} needs an arm64 one`;
+  }
+  return undefined;
+}
+
+/**
+ * Cheapest successor of a running instance's type, or null when none costs less. Types are priced from the
+ * catalog, or from reference prices when the catalog has no price for the instance's type; with catalog
+ * prices, successors it doesn't price (not offered in the region) are skipped. Successors the instance can
+ * run on as-is are preferred; when there are none, the cheapest is returned with a note on what stands in the way.
+ */
+async function generationMigration(instance: Instance, ctx: ScanContext): Promise<GenerationMigration | null> {
+  if (instance.State?.Name !== 'running' || !instance.InstanceType) return null;
+  // Both types come from one source, so a catalog price is never compared with a reference price
+  const referencePrices = ctx.prices.instanceMonthlyCents(instance.InstanceType) === undefined;
+  const monthlyCents = (type: string) =>
+    referencePrices ? referenceInstanceMonthlyCents(type) : ctx.prices.instanceMonthlyCents(type);
+  const fromMonthlyCents = monthlyCents(instance.InstanceType);
+  if (fromMonthlyCents === undefined) return null;
+
+  const { currentGeneration, graviton } = instanceTypeSuccessors(instance.InstanceType);
+  const candidates: GenerationMigration[] = [];
+  for (const toType of [currentGeneration, graviton]) {
+    const toMonthlyCents = toType ? monthlyCents(toType) : undefined;
+    if (!toType || toMonthlyCents === undefined || toMonthlyCents >= fromMonthlyCents) continue;
+    candidates.push({
+      toType,
+      fromMonthlyCents,
+      toMonthlyCents,
+      referencePrices,
+      reviewNote: await generationMigrationIssue(instance, toType, ctx),
+    });
+  }
+  candidates.sort((a, b) => Number(!!a.reviewNote) - Number(!!b.reviewNote) || a.toMonthlyCents - b.toMonthlyCents);
+  return candidates[0] ?? null;
+}
+
+/**
+ * Smallest reference-priced saving of moving an instance type to a cheaper successor, in cents (0 when none is cheaper).
+ * Without a scan context it isn't known which successor the instance can run on, so the smaller saving is assumed.
+ */
+function referenceMigrationSavingsCents(instanceType: string | undefined): number {
+  const fromMonthlyCents = instanceType ? referenceInstanceMonthlyCents(instanceType) : undefined;
+  if (!instanceType || fromMonthlyCents === undefined) return 0;
+
+  const { currentGeneration, graviton } = instanceTypeSuccessors(instanceType);
+  const savings = [currentGeneration, graviton]
+    .map(toType => toType ? referenceInstanceMonthlyCents(toType) : undefined)
+    .filter((toMonthlyCents): toMonthlyCents is number => toMonthlyCents !== undefined && toMonthlyCents < fromMonthlyCents)
+    .map(toMonthlyCents => fromMonthlyCents - toMonthlyCents);
+  return savings.length > 0 ? Math.min(...savings) : 0;
+}
+
+function registerEC2Controls(registry: ControlRegistry): void {
+  registry.registerControl<Instance>({
+    id: 'ec2_instance_stopped',
+    title: 'EC2 instance should not be stopped for more than 30 days',
+    description: 'Stopped instances still incur charges for their attached EBS volumes.',
+    service: 'ec2',
+    resource: 'ec2:instances',
+    resourceId: instance => instance.InstanceId,
+    relatedResourceIds: instance =>
+      (instance.BlockDeviceMappings || []).flatMap(mapping => mapping.Ebs?.VolumeId ? [mapping.Ebs.VolumeId] : []),
+    passes: instance => instance.State?.Name !== 'stopped',
+    reason: instance => `Instance ${instance.InstanceId} is stopped but still incurring charges for EBS volumes`,
+    savings: {
+      costExplorerService: 'Amazon Elastic Compute Cloud - Compute',
+      method: { kind: 'deletion' }, // Terminating the instance removes its cost
+      // A stopped instance is only billed for its EBS volumes
+      listPriceCents: async (instance, ctx) => {
+        const volumes = await ctx.collect<Volume>('ec2:volumes');
+        let total = 0;
+        for (const volume of volumes) {
+          if (!volume.Attachments?.some(attachment => attachment.InstanceId === instance.InstanceId)) continue;
+          const volumeCents = ebsVolumeMonthlyCents(volume, ctx.prices);
+          if (volumeCents === undefined) return undefined;
+          total += volumeCents;
+        }
+        return total;
+      },
+      fallbackCents: () => 500, // $5/month
+    },
+  });
+
+  registry.registerControl<Volume>({
+    id: 'ebs_volume_unattached',
+    title: 'EBS volumes should be attached to instances',
+    description: 'Unattached volumes are billed for provisioned storage without being used.',
+    service: 'ec2',
+    resource: 'ec2:volumes',
+    resourceId: volume => volume.VolumeId,
+    passes: volume => volume.State !== 'available',
+    reason: volume => `Volume ${volume.VolumeId} (${volume.Size}GB) is unattached and incurring costs`,
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' },
+      listPriceCents: (volume, ctx) => ebsVolumeMonthlyCents(volume, ctx.prices),
+      fallbackCents: volume => (volume.Size || 0) * 10, // $0.10/GB-month for gp3 volumes
+    },
+  });
+
+  registry.registerControl<Snapshot>({
+    id: 'ebs_snapshot_max_age',
+    title: 'EBS snapshots should not be older than the maximum snapshot age',
+    description: 'Old snapshots are rarely restored and accumulate storage charges.',
+    service: 'ec2',
+    resource: 'ec2:snapshots',
+    resourceId: snapshot => snapshot.SnapshotId,
+    parameters: [SNAPSHOT_MAX_AGE],
+    passes: (snapshot, ctx, params) => !isOlderThanDays(snapshot.StartTime, params.maxAgeDays, ctx),
+    reason: (snapshot, params) => `Snapshot ${snapshot.SnapshotId} is older than ${params.maxAgeDays} days`,
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' },
+      // Priced at the full volume size; snapshots are incremental, so this is an upper bound
+      listPriceCents: (snapshot, ctx) => ctx.prices.storageMonthlyCents(
+        snapshot.StorageTier === 'archive' ? 'snapshot-archive' : 'snapshot-standard',
+        snapshot.VolumeSize || 0
+      ),
+      fallbackCents: snapshot => (snapshot.VolumeSize || 0) * 5, // $0.05/GB-month for snapshots
+    },
+  });
+
+  registry.registerControl<Address>({
+    id: 'ec2_eip_unattached',
+    title: 'Elastic IPs should be attached to instances',
+    description: 'Unattached Elastic IPs are billed hourly.',
+    service: 'ec2',
+    resource: 'ec2:addresses',
+    resourceId: address => address.AllocationId,
+    passes: address => !!address.AssociationId,
+    reason: address => `Elastic IP ${address.PublicIp} is unattached and incurring charges`,
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' },
+      listPriceCents: (_address, ctx) => ctx.prices.monthlyCents('AmazonEC2', 'ElasticIP:IdleAddress'),
+      fallbackCents: () => 360, // $0.005/hour = $3.60/month
+    },
+  });
+
+  registry.registerControl<Instance>({
+    id: 'ec2_instance_idle',
+    title: 'EC2 instances should not be idle',
+    description: 'Running instances with almost no CPU or network activity over the lookback window can be stopped or terminated.',
+    service: 'ec2',
+    resource: 'ec2:instances',
+    resourceId: instance => instance.InstanceId,
+    parameters: [
+      LOOKBACK_DAYS,
+      { key: 'maxCpuPercent', label: 'Maximum average CPU', description: 'Instances averaging more CPU are not idle', unit: 'percent', default: 2, min: 0, max: 100 },
+      { key: 'maxNetworkMB', label: 'Maximum daily network traffic', description: 'Instances sending and receiving more per day are not idle', unit: 'MB', default: 5, min: 0, max: 100000 },
+    ],
+    passes: async (instance, ctx, params) => {
+      if (instance.State?.Name !== 'running' || !isOlderThanDays(instance.LaunchTime, params.lookbackDays, ctx)) return true;
+      const usage = await instanceUtilization(instance, ctx, params.lookbackDays);
+      return !usage || usage.cpuPercent > params.maxCpuPercent || usage.networkMBPerDay > params.maxNetworkMB;
+    },
+    reason: async (instance, params, ctx) => {
+      const usage = await instanceUtilization(instance, ctx, params.lookbackDays);
+      return `Instance ${instance.InstanceId} averaged ${usage?.cpuPercent.toFixed(1)}% CPU and ` +
+        `${usage?.networkMBPerDay.toFixed(1)} MB/day of network traffic over ${params.lookbackDays} days`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Elastic Compute Cloud - Compute',
+      method: { kind: 'deletion' }, // Stopping or terminating removes the compute cost
+      listPriceCents: (instance, ctx) => registry.resourceMonthlyCents('ec2:instances', instance, ctx.prices),
+      fallbackCents: () => 3000, // $30/month
+    },
+  });
+
+  registry.registerControl<Instance>({
+    id: 'ec2_instance_underutilized',
+    title: 'EC2 instances should be sized to their CPU use',
+    description: 'Instances with low average and peak CPU over the lookback window can move to a smaller size.',
+    service: 'ec2',
+    resource: 'ec2:instances',
+    resourceId: instance => instance.InstanceId,
+    parameters: [
+      LOOKBACK_DAYS,
+      { key: 'maxCpuPercent', label: 'Maximum average CPU', description: 'Instances averaging more CPU are not underutilized', unit: 'percent', default: 10, min: 0, max: 100 },
+      { key: 'maxPeakCpuPercent', label: 'Maximum peak CPU', description: 'Instances peaking above this are not underutilized', unit: 'percent', default: 40, min: 0, max: 100 },
+    ],
+    passes: async (instance, ctx, params) => {
+      if (instance.State?.Name !== 'running' || !isOlderThanDays(instance.LaunchTime, params.lookbackDays, ctx)) return true;
+      const usage = await instanceUtilization(instance, ctx, params.lookbackDays);
+      return !usage || usage.cpuPercent > params.maxCpuPercent || usage.peakCpuPercent > params.maxPeakCpuPercent;
+    },
+    reason: async (instance, params, ctx) => {
+      const usage = await instanceUtilization(instance, ctx, params.lookbackDays);
+      return `Instance ${instance.InstanceId} (${instance.InstanceType}) averaged ${usage?.cpuPercent.toFixed(1)}% CPU, ` +
+        `peaking at ${usage?.peakCpuPercent.toFixed(1)}%, over ${params.lookbackDays} days`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Elastic Compute Cloud - Compute',
+      // Each size down within a family halves the price
+      method: { kind: 'percentage', percentage: 50, rationale: 'Move to the next smaller instance size' },
+      listPriceCents: (instance, ctx) => registry.resourceMonthlyCents('ec2:instances', instance, ctx.prices),
+      fallbackCents: () => 1500, // $30/month instance * 50%
+    },
+  });
+
+  registry.registerControl<Instance>({
+    id: 'ec2_instance_generation_migration',
+    title: 'EC2 instances should use current generation or Graviton instance types',
+    description: 'Older families and their x86 successors cost more than current generation and Graviton (arm64) types of the same size. Moves the instance may not make as-is (Windows, custom x86 AMIs, paravirtual or non-ENA AMIs) are marked as needing review.',
+    service: 'ec2',
+    resource: 'ec2:instances',
+    resourceId: instance => instance.InstanceId,
+    passes: async (instance, ctx) => (await generationMigration(instance, ctx)) === null,
+    reason: async (instance, _params, ctx) => {
+      const migration = (await generationMigration(instance, ctx))!;
+      const hourly = (cents: number) => `$${(cents / 100 / HOURS_PER_MONTH).toFixed(4)}/hr`;
+      return `Instance ${instance.InstanceId} runs ${instance.InstanceType} at ${hourly(migration.fromMonthlyCents)}; ` +
+        `${migration.toType} costs ${hourly(migration.toMonthlyCents)}, ` +
+        `$${((migration.fromMonthlyCents - migration.toMonthlyCents) / 100).toFixed(2)} less over ${HOURS_PER_MONTH} running hours a month` +
+        (migration.referencePrices ? ' (us-east-1 reference prices; the price catalog has none for this region)' : '');
+    },
+    reviewNote: async (instance, _params, ctx) => (await generationMigration(instance, ctx))?.reviewNote,
+    savings: {
+      costExplorerService: 'Amazon Elastic Compute Cloud - Compute',
+      // Typical saving for the control's metadata; each finding is priced for its own move by resourceMethod
+      method: { kind: 'percentage', percentage: 15, rationale: 'Move to a current generation or Graviton type, 5-20% cheaper at the same size' },
+      resourceMethod: async (instance, ctx) => {
+        const migration = await generationMigration(instance, ctx);
+        return migration ? {
+          kind: 'price-delta',
+          rationale: `Move to ${migration.toType}`,
+          fromMonthlyCents: migration.fromMonthlyCents,
+          toMonthlyCents: migration.toMonthlyCents,
+        } : undefined;
+      },
+      listPriceCents: (instance, ctx) => instance.InstanceType ? ctx.prices.instanceMonthlyCents(instance.InstanceType) : undefined,
+      // Reached without a catalog price for the instance, which is when findings are priced from reference prices
+      fallbackCents: instance => referenceMigrationSavingsCents(instance.InstanceType),
+    },
+  });
+}
+
+/**
+ * Provisioned IOPS an io1/io2 volume could be reduced to and what it would cost, or null when its
+ * observed peak uses more than the utilization threshold (or there are no metrics to tell)
+ */
+async function iopsRightsizing(
+  volume: Volume,
+  ctx: ScanContext,
+  params: ControlParams
+): Promise<{ peakIops: number; recommendedIops: number; currentCents: number; recommendedCents: number } | null> {
+  if (!volume.Iops) return null;
+  const usage = await volumeIops(volume, ctx, params.lookbackDays);
+  if (!usage || usage.peakIops > volume.Iops * (params.maxUtilizationPercent / 100)) return null;
+
+  const recommended = recommendedIops(usage.peakIops, params.iopsHeadroomPercent);
+  if (recommended >= volume.Iops) return null;
+  return {
+    peakIops: usage.peakIops,
+    recommendedIops: recommended,
+    currentCents: provisionedIopsVolumeMonthlyCents(volume, volume.Iops, ctx.prices),
+    recommendedCents: provisionedIopsVolumeMonthlyCents(volume, recommended, ctx.prices),
+  };
+}
+
+function registerEBSControls(registry: ControlRegistry): void {
+  registry.registerControl<Volume>({
+    id: 'ebs_volume_using_gp2',
+    title: 'EBS volumes should use gp3 instead of gp2',
+    description: 'gp3 costs less per GB than gp2 and its performance is provisioned separately; the saving is priced for a gp3 volume matching the gp2 baseline.',
+    service: 'ec2',
+    resource: 'ec2:volumes',
+    resourceId: volume => volume.VolumeId,
+    passes: (volume, ctx) => {
+      if (volume.VolumeType !== 'gp2') return true;
+      const { gp2Cents, gp3Cents } = gp3MigrationMonthlyCents(volume, ctx.prices);
+      return gp3Cents >= gp2Cents;
+    },
+    reason: (volume, _params, ctx) => {
+      const { gp2Cents, gp3Cents } = gp3MigrationMonthlyCents(volume, ctx.prices);
+      return `Volume ${volume.VolumeId} (${volume.Size}GB) costs $${(gp2Cents / 100).toFixed(2)}/mo as gp2; ` +
+        `gp3 with the same performance would cost $${(gp3Cents / 100).toFixed(2)}/mo`;
+    },
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'storage-class-delta', fromClass: 'gp2', toClass: 'gp3' },
+      resourceMethod: (volume, ctx) => {
+        const { gp2Cents, gp3Cents } = gp3MigrationMonthlyCents(volume, ctx.prices);
+        return { kind: 'price-delta', rationale: 'Change the volume type to gp3', fromMonthlyCents: gp2Cents, toMonthlyCents: gp3Cents };
+      },
+      listPriceCents: (volume, ctx) => gp3MigrationMonthlyCents(volume, ctx.prices).gp2Cents,
+      fallbackCents: volume => (volume.Size || 0) * 2, // $0.02/GB-month difference
+    },
+  });
+
+  registry.registerControl<Volume>({
+    id: 'ebs_volume_iops_overprovisioned',
+    title: 'Provisioned IOPS volumes should use the IOPS they pay for',
+    description: 'io1 and io2 volumes are billed per provisioned IOPS; volumes whose observed peak stays far below it can be provisioned lower.',
+    service: 'ec2',
+    resource: 'ec2:volumes',
+    resourceId: volume => volume.VolumeId,
+    parameters: [
+      LOOKBACK_DAYS,
+      { key: 'maxUtilizationPercent', label: 'Maximum peak utilization', description: 'Volumes whose peak IOPS exceed this share of their provisioned IOPS are not reported', unit: 'percent', default: 30, min: 1, max: 100 },
+      { key: 'iopsHeadroomPercent', label: 'IOPS headroom', description: 'IOPS kept above the observed peak when recommending a provisioned level', unit: 'percent', default: 20, min: 0, max: 200 },
+    ],
+    passes: async (volume, ctx, params) => {
+      if ((volume.VolumeType !== 'io1' && volume.VolumeType !== 'io2') || volume.State !== 'in-use' ||
+        !isOlderThanDays(volume.CreateTime, params.lookbackDays, ctx)) return true;
+      return (await iopsRightsizing(volume, ctx, params)) === null;
+    },
+    reason: async (volume, params, ctx) => {
+      const rightsizing = (await iopsRightsizing(volume, ctx, params))!;
+      return `Volume ${volume.VolumeId} peaked at ${Math.round(rightsizing.peakIops)} of its ${volume.Iops} provisioned IOPS ` +
+        `over ${params.lookbackDays} days; ${rightsizing.recommendedIops} IOPS would cost ` +
+        `$${(rightsizing.recommendedCents / 100).toFixed(2)}/mo instead of $${(rightsizing.currentCents / 100).toFixed(2)}/mo`;
+    },
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'percentage', percentage: 50, rationale: 'Provision IOPS for the observed peak' },
+      resourceMethod: async (volume, ctx, params) => {
+        const rightsizing = await iopsRightsizing(volume, ctx, params);
+        return rightsizing ? {
+          kind: 'price-delta',
+          rationale: `Provision ${rightsizing.recommendedIops} IOPS`,
+          fromMonthlyCents: rightsizing.currentCents,
+          toMonthlyCents: rightsizing.recommendedCents,
+        } : undefined;
+      },
+      listPriceCents: (volume, ctx) => provisionedIopsVolumeMonthlyCents(volume, volume.Iops || 0, ctx.prices),
+      fallbackCents: volume => Math.round((volume.Iops || 0) * 6.5 * 0.5), // $0.065/IOPS-month * 50%
+    },
+  });
+
+  registry.registerControl<Snapshot>({
+    id: 'ebs_snapshot_orphaned',
+    title: 'EBS snapshots should have a source volume',
+    description: 'Snapshots whose volume was deleted and that no AMI uses are often left behind by cleanups.',
+    service: 'ec2',
+    resource: 'ec2:snapshots',
+    resourceId: snapshot => snapshot.SnapshotId,
+    passes: async (snapshot, ctx) => {
+      // Copied snapshots report vol-ffffffff, since their source volume is in another region or account
+      if (snapshot.State !== 'completed' || !snapshot.VolumeId || snapshot.VolumeId === 'vol-ffffffff') return true;
+      const volumes = await ctx.collect<Volume>('ec2:volumes');
+      if (volumes.some(volume => volume.VolumeId === snapshot.VolumeId)) return true;
+      // Snapshots behind an AMI are reported with the AMI when it is unused
+      const images = await ctx.collect<Image>('ec2:images');
+      return images.some(image => imageSnapshotIds(image).includes(snapshot.SnapshotId || ''));
+    },
+    reason: snapshot =>
+      `Snapshot ${snapshot.SnapshotId} (${snapshot.VolumeSize}GB) was taken from volume ${snapshot.VolumeId}, which no longer exists`,
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' },
+      // Priced at the full volume size; snapshots are incremental, so this is an upper bound
+      listPriceCents: (snapshot, ctx) => ctx.prices.storageMonthlyCents(
+        snapshot.StorageTier === 'archive' ? 'snapshot-archive' : 'snapshot-standard',
+        snapshot.VolumeSize || 0
+      ),
+      fallbackCents: snapshot => (snapshot.VolumeSize || 0) * 5, // $0.05/GB-month for snapshots
+    },
+  });
+
+  registry.registerControl<Image>({
+    id: 'ec2_ami_unused',
+    title: 'AMIs should be in use',
+    description: 'AMIs no instance runs and that have not been launched recently keep their snapshots, and their storage charges, alive.',
+    service: 'ec2',
+    resource: 'ec2:images',
+    resourceId: image => image.ImageId,
+    relatedResourceIds: image => imageSnapshotIds(image),
+    parameters: [
+      { key: 'minUnusedDays', label: 'Unused for', description: 'AMIs created or last launched more recently than this are in use', unit: 'days', default: 90, min: 1, max: 3650 },
+    ],
+    passes: async (image, ctx, params) => {
+      if (image.State !== 'available') return true;
+      const lastUsed = image.LastLaunchedTime || image.CreationDate;
+      if (!isOlderThanDays(lastUsed ? new Date(lastUsed) : undefined, params.minUnusedDays, ctx)) return true;
+      const instances = await ctx.collect<Instance>('ec2:instances');
+      return instances.some(instance => instance.ImageId === image.ImageId && instance.State?.Name !== 'terminated');
+    },
+    reason: (image, params) =>
+      `AMI ${image.ImageId} (${image.Name}) has not been launched in ${params.minUnusedDays} days and keeps ` +
+      `${imageSnapshotIds(image).length} snapshots (${imageSnapshotSizeGb(image)}GB)`,
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' }, // Deregister the AMI and delete its snapshots
+      listPriceCents: (image, ctx) => ctx.prices.storageMonthlyCents('snapshot-standard', imageSnapshotSizeGb(image)),
+      fallbackCents: image => imageSnapshotSizeGb(image) * 5, // $0.05/GB-month for snapshots
+    },
+  });
+}
+
+function registerRDSControls(registry: ControlRegistry): void {
+  registry.registerControl<DBInstance>({
+    id: 'rds_db_instance_stopped',
+    title: 'RDS instances should not be stopped for extended periods',
+    description: 'Stopped RDS instances still incur storage costs.',
+    service: 'rds',
+    resource: 'rds:db-instances',
+    resourceId: instance => instance.DBInstanceIdentifier,
+    passes: instance => instance.DBInstanceStatus !== 'stopped',
+    reason: instance => `RDS instance ${instance.DBInstanceIdentifier} is stopped`,
+    savings: {
+      costExplorerService: 'Amazon Relational Database Service',
+      method: { kind: 'deletion' },
+      // A stopped instance is only billed for its storage, which Multi-AZ doubles
+      listPriceCents: (instance, ctx) => {
+        const storage = ctx.prices.storageMonthlyCents(`rds-${instance.StorageType}`, instance.AllocatedStorage || 0);
+        return storage === undefined ? undefined : storage * (instance.MultiAZ ? 2 : 1);
+      },
+      fallbackCents: () => 2000, // $20/month
+    },
+  });
+
+  registry.registerControl<DBInstance>({
+    id: 'rds_db_instance_previous_generation',
+    title: 'RDS instances should use current generation instance types',
+    description: 'Current generation instance classes offer better price/performance.',
+    service: 'rds',
+    resource: 'rds:db-instances',
+    resourceId: instance => instance.DBInstanceIdentifier,
+    passes: instance => !(instance.DBInstanceClass?.includes('.t2.') || instance.DBInstanceClass?.includes('.m3.')),
+    reason: instance => `RDS instance ${instance.DBInstanceIdentifier} uses old generation instance type ${instance.DBInstanceClass}`,
+    savings: {
+      costExplorerService: 'Amazon Relational Database Service',
+      method: { kind: 'percentage', percentage: 35, rationale: 'Move to a current generation instance class' },
+      // MySQL list price; commercial engines with licences included cost more
+      listPriceCents: (instance, ctx) => {
+        const instanceCents = instance.DBInstanceClass ? ctx.prices.instanceMonthlyCents(instance.DBInstanceClass) : undefined;
+        return instanceCents === undefined ? undefined : instanceCents * (instance.MultiAZ ? 2 : 1);
+      },
+      fallbackCents: () => 1050, // $30/month instance * 35%
+    },
+  });
+
+  registry.registerControl<DBSnapshot>({
+    id: 'rds_db_snapshot_max_age',
+    title: 'RDS snapshots should not be older than the maximum snapshot age',
+    description: 'Old manual snapshots accumulate storage charges.',
+    service: 'rds',
+    resource: 'rds:db-snapshots',
+    resourceId: snapshot => snapshot.DBSnapshotIdentifier,
+    parameters: [SNAPSHOT_MAX_AGE],
+    passes: (snapshot, ctx, params) => !isOlderThanDays(snapshot.SnapshotCreateTime, params.maxAgeDays, ctx),
+    reason: (snapshot, params) => `RDS snapshot ${snapshot.DBSnapshotIdentifier} is older than ${params.maxAgeDays} days`,
+    savings: {
+      costExplorerService: 'Amazon Relational Database Service',
+      method: { kind: 'deletion' },
+      listPriceCents: (snapshot, ctx) => ctx.prices.storageMonthlyCents('rds-snapshot', snapshot.AllocatedStorage || 0),
+      fallbackCents: snapshot => (snapshot.AllocatedStorage || 0) * 10, // roughly $0.10/GB-month
+    },
+  });
+
+  registry.registerControl<DBInstance>({
+    id: 'rds_db_instance_idle',
+    title: 'RDS instances should have database connections',
+    description: 'Available instances without connections over the lookback window can be snapshotted and deleted.',
+    service: 'rds',
+    resource: 'rds:db-instances',
+    resourceId: instance => instance.DBInstanceIdentifier,
+    parameters: [
+      LOOKBACK_DAYS,
+      { key: 'maxConnections', label: 'Maximum connections', description: 'Instances with more connections at any point are not idle', unit: 'units', default: 0, min: 0, max: 1000 },
+    ],
+    passes: async (instance, ctx, params) => {
+      if (instance.DBInstanceStatus !== 'available' || !isOlderThanDays(instance.InstanceCreateTime, params.lookbackDays, ctx)) return true;
+      const peak = await peakMetric(ctx, params.lookbackDays, 'AWS/RDS', 'DatabaseConnections',
+        [{ DBInstanceIdentifier: instance.DBInstanceIdentifier || '' }]);
+      return peak === null || peak > params.maxConnections;
+    },
+    reason: async (instance, params, ctx) => {
+      const peak = await peakMetric(ctx, params.lookbackDays, 'AWS/RDS', 'DatabaseConnections',
+        [{ DBInstanceIdentifier: instance.DBInstanceIdentifier || '' }]);
+      return `RDS instance ${instance.DBInstanceIdentifier} had at most ${peak} connections over ${params.lookbackDays} days`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Relational Database Service',
+      method: { kind: 'deletion' },
+      listPriceCents: (instance, ctx) => registry.resourceMonthlyCents('rds:db-instances', instance, ctx.prices),
+      fallbackCents: () => 5000, // $50/month
+    },
+  });
+}
+
+/**
+ * Monthly storage cost in cents of a bucket from its storage metrics, or undefined without them.
+ * Buckets are priced with the catalog of the scan's default region, where global resources are collected.
+ */
+async function bucketMonthlyCents(bucket: string, region: string | undefined, ctx: ScanContext): Promise<number | undefined> {
+  const storage = await bucketStorage(bucket, region, ctx);
+  return storage ? bucketStorageMonthlyCents(storage, ctx.prices) : undefined;
+}
+
+/**
+ * Savings of a storage class change in a bucket, as a price delta on the bucket's whole storage cost
+ */
+interface BucketStorageMove {
+  gb: number; // Data that moves
+  bucketCents: number;
+  savingsCents: number;
+}
+
+/**
+ * Saving from moving a bucket's Standard data to Intelligent-Tiering, or null when it has too little or saves nothing
+ */
+async function intelligentTieringMove(bucket: S3BucketDetails, ctx: ScanContext, params: ControlParams): Promise<BucketStorageMove | null> {
+  const storage = await bucketStorage(bucket.name, bucket.region, ctx);
+  const gb = storage?.gbByClass.STANDARD ?? 0;
+  if (!storage || gb < params.minStandardGb) return null;
+
+  // Monitoring is charged per object; the object count isn't published per class, so Standard's share is assumed
+  const objects = storage.objects * (gb / storage.totalGb);
+  const standardCents = Math.round(gb * storageClassGbMonthUsd('STANDARD', ctx.prices) * 100);
+  const savingsCents = standardCents - intelligentTieringMonthlyCents(gb, objects, params.coldDataPercent, ctx.prices);
+  return savingsCents > 0 ? { gb, bucketCents: bucketStorageMonthlyCents(storage, ctx.prices), savingsCents } : null;
+}
+
+/**
+ * Saving from moving a bucket's infrequent access data to Glacier Instant Retrieval, or null when it has too little
+ */
+async function glacierTransitionMove(bucket: S3BucketDetails, ctx: ScanContext, params: ControlParams): Promise<BucketStorageMove | null> {
+  const storage = await bucketStorage(bucket.name, bucket.region, ctx);
+  if (!storage) return null;
+  const standardIaGb = storage.gbByClass.STANDARD_IA ?? 0;
+  const oneZoneIaGb = storage.gbByClass.ONEZONE_IA ?? 0;
+  const gb = standardIaGb + oneZoneIaGb;
+  if (gb < params.minInfrequentGb) return null;
+
+  const currentUsd = standardIaGb * storageClassGbMonthUsd('STANDARD_IA', ctx.prices) +
+    oneZoneIaGb * storageClassGbMonthUsd('ONEZONE_IA', ctx.prices);
+  const savingsCents = Math.round((currentUsd - gb * storageClassGbMonthUsd('GLACIER_IR', ctx.prices)) * 100);
+  return savingsCents > 0 ? { gb, bucketCents: bucketStorageMonthlyCents(storage, ctx.prices), savingsCents } : null;
+}
+
+/**
+ * Uploads started more than `minAgeDays` ago and the GB their parts hold.
+ * Uploads past the sizing cap are counted at the average size of the sized ones.
+ */
+function staleMultipartUploads(uploads: S3MultipartUploads, ctx: ScanContext, minAgeDays: number): { count: number; gb: number } {
+  const stale = uploads.uploads.filter(upload => isOlderThanDays(upload.initiated, minAgeDays, ctx));
+  const sized = uploads.uploads.filter(upload => upload.sizeBytes !== null);
+  const averageBytes = sized.length > 0 ? sized.reduce((sum, upload) => sum + upload.sizeBytes!, 0) / sized.length : 0;
+  const bytes = stale.reduce((sum, upload) => sum + (upload.sizeBytes ?? averageBytes), 0);
+  return { count: stale.length, gb: bytes / BYTES_PER_GB };
+}
+
+/**
+ * Monthly cost in cents of the parts of a bucket's stale multipart uploads, billed as Standard storage
+ */
+function staleMultipartUploadsMonthlyCents(uploads: S3MultipartUploads, ctx: ScanContext, minAgeDays: number): number {
+  return Math.round(staleMultipartUploads(uploads, ctx, minAgeDays).gb * storageClassGbMonthUsd('STANDARD', ctx.prices) * 100);
+}
+
+/**
+ * Share of a bucket's bytes held by noncurrent versions (0-1), and their estimated GB.
+ * Sampled buckets are extrapolated to the bucket size from the storage metrics.
+ */
+function noncurrentVersionShare(sample: S3VersionSample, storage: BucketStorage | null): { share: number; gb: number } {
+  const share = sample.bytes > 0 ? sample.noncurrentBytes / sample.bytes : 0;
+  const gb = sample.complete || !storage ? sample.noncurrentBytes / BYTES_PER_GB : storage.totalGb * share;
+  return { share, gb };
+}
+
+/**
+ * Price delta of removing `savingsCents` from a bucket's storage cost.
+ * Applied to the bucket's cost, so a Cost Explorer cost for the bucket scales the saving instead of replacing it.
+ */
+function bucketPriceDelta(rationale: string, bucketCents: number | undefined, savingsCents: number): SavingsMethod {
+  const fromMonthlyCents = Math.max(bucketCents ?? 0, savingsCents);
+  return { kind: 'price-delta', rationale, fromMonthlyCents, toMonthlyCents: fromMonthlyCents - savingsCents };
+}
+
+function registerS3Controls(registry: ControlRegistry): void {
+  registry.registerControl<S3BucketDetails>({
+    id: 's3_bucket_versioning_without_lifecycle',
+    title: 'S3 buckets with versioning should have lifecycle policies',
+    description: 'Versioned buckets without lifecycle management keep every noncurrent version forever.',
+    service: 's3',
+    resource: 's3:buckets',
+    resourceId: bucket => bucket.name,
+    resourceRegion: bucket => bucket.region,
+    passes: bucket => !(bucket.versioningStatus === 'Enabled' && !bucket.mfaDelete),
+    reason: bucket => `Bucket ${bucket.name} has versioning enabled without lifecycle management`,
+    savings: {
+      // S3 doesn't support resource-level cost queries, so buckets are priced from their storage metrics
+      costExplorerService: 'Amazon Simple Storage Service',
+      method: { kind: 'percentage', percentage: 30, rationale: 'Expire noncurrent versions' },
+      listPriceCents: (bucket, ctx) => bucketMonthlyCents(bucket.name, bucket.region, ctx),
+      fallbackCents: () => 300, // $10/month bucket * 30%
+    },
+  });
+
+  registry.registerControl<S3BucketDetails>({
+    id: 's3_bucket_without_lifecycle',
+    title: 'S3 buckets should have lifecycle policies to optimize costs',
+    description: 'Lifecycle policies move data to cheaper storage classes and expire stale objects.',
+    service: 's3',
+    resource: 's3:buckets',
+    resourceId: bucket => bucket.name,
+    resourceRegion: bucket => bucket.region,
+    passes: bucket => bucket.hasLifecycle !== false,
+    reason: bucket => `Bucket ${bucket.name} does not have lifecycle policies configured`,
+    savings: {
+      costExplorerService: 'Amazon Simple Storage Service',
+      method: { kind: 'percentage', percentage: 25, rationale: 'Transition and expire objects with lifecycle rules' },
+      listPriceCents: (bucket, ctx) => bucketMonthlyCents(bucket.name, bucket.region, ctx),
+      fallbackCents: () => 200, // $8/month bucket * 25%
+    },
+  });
+
+  registry.registerControl<S3BucketDetails>({
+    id: 's3_bucket_intelligent_tiering',
+    title: 'S3 buckets with large Standard storage should use Intelligent-Tiering',
+    description: 'Intelligent-Tiering moves objects not read for 30 days to a cheaper tier without retrieval fees. Savings assume a share of the Standard data goes cold, less the per-object monitoring fee.',
+    service: 's3',
+    resource: 's3:buckets',
+    resourceId: bucket => bucket.name,
+    resourceRegion: bucket => bucket.region,
+    parameters: [
+      { key: 'minStandardGb', label: 'Minimum Standard storage', description: 'Buckets with less Standard data are not reported', unit: 'GB', default: 100, min: 1, max: 10000000 },
+      { key: 'coldDataPercent', label: 'Cold data', description: 'Share of Standard data expected to go unread for 30 days', unit: 'percent', default: 40, min: 1, max: 100 },
+    ],
+    // Buckets whose lifecycle rules already transition objects manage their storage classes
+    passes: async (bucket, ctx, params) =>
+      bucket.transitionsObjects !== false || (await intelligentTieringMove(bucket, ctx, params)) === null,
+    reason: async (bucket, params, ctx) => {
+      const move = (await intelligentTieringMove(bucket, ctx, params))!;
+      return `Bucket ${bucket.name} keeps ${move.gb.toFixed(0)}GB in Standard; with ${params.coldDataPercent}% of it ` +
+        `in Intelligent-Tiering's Infrequent Access tier, it would cost $${(move.savingsCents / 100).toFixed(2)}/mo less`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Simple Storage Service',
+      // With the default 40% of Standard data going cold, to a tier 46% cheaper per GB: 40% * 46%
+      method: { kind: 'percentage', percentage: 18, rationale: 'Move Standard data to Intelligent-Tiering' },
+      resourceMethod: async (bucket, ctx, params) => {
+        const move = await intelligentTieringMove(bucket, ctx, params);
+        return move ? bucketPriceDelta('Move Standard data to Intelligent-Tiering', move.bucketCents, move.savingsCents) : undefined;
+      },
+      listPriceCents: (bucket, ctx) => bucketMonthlyCents(bucket.name, bucket.region, ctx),
+      // Only reached when the bucket can't be priced; saving of the smallest bucket reported, without the monitoring fee
+      fallbackCents: (_bucket, ctx, params) => Math.round(params.minStandardGb * (params.coldDataPercent / 100) *
+        (storageClassGbMonthUsd('STANDARD', ctx.prices) - storageClassGbMonthUsd('INTELLIGENT_TIERING_IA', ctx.prices)) * 100),
+    },
+  });
+
+  registry.registerControl<S3BucketDetails>({
+    id: 's3_bucket_glacier_transition',
+    title: 'S3 buckets with infrequent access data should transition it to Glacier Instant Retrieval',
+    description: 'Data already in Standard-IA or One Zone-IA is read rarely; Glacier Instant Retrieval keeps millisecond access at about a third of the storage price, with higher retrieval fees.',
+    service: 's3',
+    resource: 's3:buckets',
+    resourceId: bucket => bucket.name,
+    resourceRegion: bucket => bucket.region,
+    parameters: [
+      { key: 'minInfrequentGb', label: 'Minimum infrequent access storage', description: 'Buckets with less Standard-IA and One Zone-IA data are not reported', unit: 'GB', default: 100, min: 1, max: 10000000 },
+    ],
+    passes: async (bucket, ctx, params) => (await glacierTransitionMove(bucket, ctx, params)) === null,
+    reason: async (bucket, params, ctx) => {
+      const move = (await glacierTransitionMove(bucket, ctx, params))!;
+      return `Bucket ${bucket.name} keeps ${move.gb.toFixed(0)}GB in infrequent access classes; in Glacier Instant Retrieval ` +
+        `it would cost $${(move.savingsCents / 100).toFixed(2)}/mo less`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Simple Storage Service',
+      method: { kind: 'storage-class-delta', fromClass: 'STANDARD_IA', toClass: 'GLACIER_IR' },
+      resourceMethod: async (bucket, ctx, params) => {
+        const move = await glacierTransitionMove(bucket, ctx, params);
+        return move ? bucketPriceDelta('Transition infrequent access data to Glacier Instant Retrieval', move.bucketCents, move.savingsCents) : undefined;
+      },
+      listPriceCents: (bucket, ctx) => bucketMonthlyCents(bucket.name, bucket.region, ctx),
+      // Only reached when the bucket can't be priced; saving of the smallest bucket reported
+      fallbackCents: (_bucket, ctx, params) => Math.round(params.minInfrequentGb *
+        (storageClassGbMonthUsd('STANDARD_IA', ctx.prices) - storageClassGbMonthUsd('GLACIER_IR', ctx.prices)) * 100),
+    },
+  });
+
+  registry.registerControl<S3MultipartUploads>({
+    id: 's3_bucket_incomplete_multipart_uploads',
+    title: 'S3 buckets should not keep incomplete multipart uploads',
+    description: 'Parts of multipart uploads that were never completed or aborted are billed as storage but never show up as objects.',
+    service: 's3',
+    resource: 's3:multipart-uploads',
+    resourceId: uploads => uploads.bucket,
+    resourceRegion: uploads => uploads.region,
+    parameters: [
+      { key: 'minAgeDays', label: 'Minimum upload age', description: 'Uploads started more recently may still be in progress', unit: 'days', default: 7, min: 1, max: 365 },
+    ],
+    // A lifecycle rule aborting incomplete uploads cleans them up on its own
+    passes: (uploads, ctx, params) =>
+      uploads.abortsIncompleteUploads !== false || staleMultipartUploads(uploads, ctx, params.minAgeDays).count === 0,
+    reason: (uploads, params, ctx) => {
+      const { count, gb } = staleMultipartUploads(uploads, ctx, params.minAgeDays);
+      return `Bucket ${uploads.bucket} has ${count} multipart uploads started more than ${params.minAgeDays} days ago, ` +
+        `holding about ${gb.toFixed(1)}GB of parts, and no lifecycle rule aborts them`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Simple Storage Service',
+      method: { kind: 'deletion' }, // Abort the uploads
+      resourceMethod: async (uploads, ctx, params) => bucketPriceDelta(
+        'Abort incomplete multipart uploads',
+        await bucketMonthlyCents(uploads.bucket, uploads.region, ctx),
+        staleMultipartUploadsMonthlyCents(uploads, ctx, params.minAgeDays)
+      ),
+      listPriceCents: async (uploads, ctx, params) => {
+        const bucketCents = await bucketMonthlyCents(uploads.bucket, uploads.region, ctx);
+        // The bucket's size includes the parts, but its daily metrics can lag recent uploads
+        return bucketCents === undefined ? undefined : Math.max(bucketCents, staleMultipartUploadsMonthlyCents(uploads, ctx, params.minAgeDays));
+      },
+      // Buckets without storage metrics yet: only the stale uploads' parts, as their age excludes uploads still in progress
+      fallbackCents: (uploads, ctx, params) => staleMultipartUploadsMonthlyCents(uploads, ctx, params.minAgeDays),
+    },
+  });
+
+  registry.registerControl<S3VersionSample>({
+    id: 's3_bucket_noncurrent_versions',
+    title: 'Noncurrent object versions should not dominate S3 bucket storage',
+    description: 'Versioned buckets without a rule expiring noncurrent versions keep paying for every overwritten and deleted object.',
+    service: 's3',
+    resource: 's3:object-versions',
+    resourceId: sample => sample.bucket,
+    resourceRegion: sample => sample.region,
+    parameters: [
+      { key: 'maxNoncurrentPercent', label: 'Maximum noncurrent share', description: 'Buckets whose noncurrent versions hold a larger share of their bytes are reported', unit: 'percent', default: 25, min: 0, max: 100 },
+    ],
+    passes: async (sample, ctx, params) => {
+      if (sample.expiresNoncurrentVersions !== false) return true;
+      const { share } = noncurrentVersionShare(sample, await bucketStorage(sample.bucket, sample.region, ctx));
+      return share * 100 <= params.maxNoncurrentPercent;
+    },
+    reason: async (sample, _params, ctx) => {
+      const { share, gb } = noncurrentVersionShare(sample, await bucketStorage(sample.bucket, sample.region, ctx));
+      return `Noncurrent versions hold ${(share * 100).toFixed(0)}% of the bytes in bucket ${sample.bucket} ` +
+        `(about ${gb.toFixed(1)}GB, ${sample.noncurrentVersions} of ${sample.versions} ${sample.complete ? '' : 'sampled '}versions), ` +
+        `and no lifecycle rule expires them`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Simple Storage Service',
+      method: { kind: 'percentage', percentage: 30, rationale: 'Expire noncurrent versions' },
+      resourceMethod: async (sample, ctx) => {
+        const storage = await bucketStorage(sample.bucket, sample.region, ctx);
+        const { gb } = noncurrentVersionShare(sample, storage);
+        const bucketCents = storage ? bucketStorageMonthlyCents(storage, ctx.prices) : undefined;
+        // Noncurrent versions are priced at the bucket's average per-GB price, or Standard without metrics
+        const perGbCents = storage && storage.totalGb > 0 && bucketCents !== undefined
+          ? bucketCents / storage.totalGb
+          : storageClassGbMonthUsd('STANDARD', ctx.prices) * 100;
+        return bucketPriceDelta('Expire noncurrent versions', bucketCents, Math.round(gb * perGbCents));
+      },
+      listPriceCents: async (sample, ctx) =>
+        (await bucketMonthlyCents(sample.bucket, sample.region, ctx)) ?? Math.round(sample.noncurrentBytes / BYTES_PER_GB * 2.3),
+      fallbackCents: sample => Math.round(sample.noncurrentBytes / BYTES_PER_GB * 2.3), // $0.023/GB-month for Standard storage
+    },
+  });
+}
+
+function registerDynamoDBControls(registry: ControlRegistry): void {
+  registry.registerControl<TableDescription>({
+    id: 'dynamodb_table_provisioned_capacity',
+    title: 'DynamoDB tables should use on-demand billing for variable workloads',
+    description: 'Provisioned capacity above baseline is paid for whether or not it is used.',
+    service: 'dynamodb',
+    resource: 'dynamodb:tables',
+    resourceId: table => table.TableName,
+    parameters: [
+      {
+        key: 'maxReadCapacityUnits',
+        label: 'Maximum provisioned RCU',
+        description: 'Provisioned tables above this read capacity are reported',
+        unit: 'units',
+        default: 10,
+        min: 0,
+        max: 1000000,
+      },
+      {
+        key: 'maxWriteCapacityUnits',
+        label: 'Maximum provisioned WCU',
+        description: 'Provisioned tables above this write capacity are reported',
+        unit: 'units',
+        default: 10,
+        min: 0,
+        max: 1000000,
+      },
+    ],
+    passes: (table, _ctx, params) => {
+      if (table.BillingModeSummary?.BillingMode !== 'PROVISIONED') return true;
+      const readCapacity = table.ProvisionedThroughput?.ReadCapacityUnits || 0;
+      const writeCapacity = table.ProvisionedThroughput?.WriteCapacityUnits || 0;
+      return readCapacity <= params.maxReadCapacityUnits && writeCapacity <= params.maxWriteCapacityUnits;
+    },
+    reason: table =>
+      `Table ${table.TableName} uses provisioned capacity (${table.ProvisionedThroughput?.ReadCapacityUnits || 0} RCU, ${table.ProvisionedThroughput?.WriteCapacityUnits || 0} WCU)`,
+    savings: {
+      // DynamoDB doesn't support resource-level cost queries, so the fallback is usually used
+      costExplorerService: 'Amazon DynamoDB',
+      method: { kind: 'percentage', percentage: 30, rationale: 'Switch to on-demand capacity' },
+      fallbackCents: table => {
+        // $0.00065 per WCU-hour, $0.00013 per RCU-hour for provisioned capacity
+        const readCapacity = table.ProvisionedThroughput?.ReadCapacityUnits || 0;
+        const writeCapacity = table.ProvisionedThroughput?.WriteCapacityUnits || 0;
+        const monthlyCost = (writeCapacity * 0.00065 + readCapacity * 0.00013) * 730 * 100;
+        return Math.round(monthlyCost * 0.3);
+      },
+    },
+  });
+}
+
+function registerElastiCacheControls(registry: ControlRegistry): void {
+  registry.registerControl<CacheCluster>({
+    id: 'elasticache_cluster_previous_generation',
+    title: 'ElastiCache clusters should use current generation node types',
+    description: 'Current generation node types offer better price/performance.',
+    service: 'elasticache',
+    resource: 'elasticache:cache-clusters',
+    resourceId: cluster => cluster.CacheClusterId,
+    passes: cluster => !(cluster.CacheNodeType?.includes('.t2.') || cluster.CacheNodeType?.includes('.m3.')),
+    reason: cluster => `Cluster ${cluster.CacheClusterId} uses old generation node type ${cluster.CacheNodeType}`,
+    savings: {
+      costExplorerService: 'Amazon ElastiCache',
+      method: { kind: 'percentage', percentage: 35, rationale: 'Move to a current generation node type' },
+      listPriceCents: (cluster, ctx) =>
+        cluster.CacheNodeType ? ctx.prices.instanceMonthlyCents(cluster.CacheNodeType, cluster.NumCacheNodes || 1) : undefined,
+      fallbackCents: () => 1750, // $50/month cluster * 35%
+    },
+  });
+
+  registry.registerControl<CacheCluster>({
+    id: 'elasticache_cluster_idle',
+    title: 'ElastiCache clusters should have client connections',
+    description: 'Clusters without client connections over the lookback window can be deleted.',
+    service: 'elasticache',
+    resource: 'elasticache:cache-clusters',
+    resourceId: cluster => cluster.CacheClusterId,
+    parameters: [
+      LOOKBACK_DAYS,
+      // ElastiCache keeps a few connections of its own open to monitor each node
+      { key: 'maxConnections', label: 'Maximum connections', description: 'Clusters with a node above this many connections are not idle', unit: 'units', default: 4, min: 0, max: 1000 },
+    ],
+    passes: async (cluster, ctx, params) => {
+      if (cluster.CacheClusterStatus !== 'available' || !isOlderThanDays(cluster.CacheClusterCreateTime, params.lookbackDays, ctx)) return true;
+      const peak = await peakMetric(ctx, params.lookbackDays, 'AWS/ElastiCache', 'CurrConnections', cacheNodeDimensions(cluster));
+      return peak === null || peak > params.maxConnections;
+    },
+    reason: async (cluster, params, ctx) => {
+      const peak = await peakMetric(ctx, params.lookbackDays, 'AWS/ElastiCache', 'CurrConnections', cacheNodeDimensions(cluster));
+      return `ElastiCache cluster ${cluster.CacheClusterId} had at most ${peak} connections per node over ${params.lookbackDays} days`;
+    },
+    savings: {
+      costExplorerService: 'Amazon ElastiCache',
+      method: { kind: 'deletion' },
+      listPriceCents: (cluster, ctx) => registry.resourceMonthlyCents('elasticache:cache-clusters', cluster, ctx.prices),
+      fallbackCents: () => 2500, // $25/month
+    },
+  });
+}
+
+function registerRedshiftControls(registry: ControlRegistry): void {
+  registry.registerControl<Cluster>({
+    id: 'redshift_cluster_paused',
+    title: 'Redshift clusters should not be paused for extended periods',
+    description: 'Paused clusters save compute costs but still incur storage charges.',
+    service: 'redshift',
+    resource: 'redshift:clusters',
+    resourceId: cluster => cluster.ClusterIdentifier,
+    passes: cluster => cluster.ClusterStatus !== 'paused',
+    reason: cluster => `Cluster ${cluster.ClusterIdentifier} is paused`,
+    savings: {
+      costExplorerService: 'Amazon Redshift',
+      method: { kind: 'deletion' },
+      fallbackCents: () => 15000, // $150/month
+    },
+  });
+
+  registry.registerControl<Cluster>({
+    id: 'redshift_cluster_previous_generation',
+    title: 'Redshift clusters should use current generation node types',
+    description: 'Current generation node types offer better price/performance.',
+    service: 'redshift',
+    resource: 'redshift:clusters',
+    resourceId: cluster => cluster.ClusterIdentifier,
+    passes: cluster => !(cluster.NodeType?.includes('dc1.') || cluster.NodeType?.includes('ds1.')),
+    reason: cluster => `Cluster ${cluster.ClusterIdentifier} uses old generation node type ${cluster.NodeType}`,
+    savings: {
+      costExplorerService: 'Amazon Redshift',
+      method: { kind: 'percentage', percentage: 40, rationale: 'Move to a current generation node type' },
+      listPriceCents: (cluster, ctx) =>
+        cluster.NodeType ? ctx.prices.instanceMonthlyCents(cluster.NodeType, cluster.NumberOfNodes || 1) : undefined,
+      fallbackCents: () => 20000, // $500/month cluster * 40%
+    },
+  });
+
+  registry.registerControl<Cluster>({
+    id: 'redshift_cluster_idle',
+    title: 'Redshift clusters should run queries',
+    description: 'Available clusters that completed no queries over the lookback window can be paused or deleted.',
+    service: 'redshift',
+    resource: 'redshift:clusters',
+    resourceId: cluster => cluster.ClusterIdentifier,
+    parameters: [LOOKBACK_DAYS],
+    passes: async (cluster, ctx, params) => {
+      if (cluster.ClusterStatus !== 'available' || !isOlderThanDays(cluster.ClusterCreateTime, params.lookbackDays, ctx)) return true;
+      const queries = await redshiftQueryActivity(cluster, ctx, params.lookbackDays);
+      return queries === null || queries > 0;
+    },
+    reason: (cluster, params) => `Redshift cluster ${cluster.ClusterIdentifier} completed no queries in ${params.lookbackDays} days`,
+    savings: {
+      costExplorerService: 'Amazon Redshift',
+      method: { kind: 'deletion' }, // Pausing leaves only storage charges
+      listPriceCents: (cluster, ctx) => registry.resourceMonthlyCents('redshift:clusters', cluster, ctx.prices),
+      fallbackCents: () => 18000, // $180/month, one dc2.large node
+    },
+  });
+}
+
+function registerLambdaControls(registry: ControlRegistry): void {
+  registry.registerControl<FunctionConfiguration>({
+    id: 'lambda_function_memory_overprovisioned',
+    title: 'Lambda functions should not be over-provisioned',
+    description: 'Lambda is billed per GB-second, so memory above what invocations use (per Lambda Insights) is paid for on every invocation.',
+    service: 'lambda',
+    resource: 'lambda:functions',
+    resourceId: func => func.FunctionName,
+    parameters: [
+      LOOKBACK_DAYS,
+      {
+        key: 'memoryHeadroomPercent',
+        label: 'Memory headroom',
+        description: 'Memory kept above the peak used by any invocation when recommending a size',
+        unit: 'percent',
+        default: 20,
+        min: 0,
+        max: 200,
+      },
+    ],
+    passes: async (func, ctx, params) => (await memoryRightsizing(func, ctx, params)) === null,
+    reason: async (func, params, ctx) => {
+      const rightsizing = (await memoryRightsizing(func, ctx, params))!;
+      return `Function ${func.FunctionName} used at most ${Math.round(rightsizing.usage.maxMemoryUsedMb!)}MB of its ${func.MemorySize}MB ` +
+        `over ${params.lookbackDays} days; at ${rightsizing.recommendedMb}MB it would cost ` +
+        `$${(rightsizing.recommendedCents / 100).toFixed(2)}/mo instead of $${(rightsizing.currentCents / 100).toFixed(2)}/mo`;
+    },
+    savings: {
+      costExplorerService: 'AWS Lambda',
+      method: { kind: 'percentage', percentage: 25, rationale: 'Reduce memory to what the function uses' },
+      resourceMethod: async (func, ctx, params) => {
+        const rightsizing = await memoryRightsizing(func, ctx, params);
+        return rightsizing ? {
+          kind: 'price-delta',
+          rationale: `Reduce memory to ${rightsizing.recommendedMb}MB`,
+          fromMonthlyCents: rightsizing.currentCents,
+          toMonthlyCents: rightsizing.recommendedCents,
+        } : undefined;
+      },
+      listPriceCents: async (func, ctx, params) => (await memoryRightsizing(func, ctx, params))?.currentCents,
+      fallbackCents: () => 125, // $5/month function * 25%
+    },
+  });
+
+  registry.registerControl<FunctionConfiguration>({
+    id: 'lambda_function_graviton_migration',
+    title: 'Lambda functions should run on arm64',
+    description: 'Functions on arm64 (Graviton) pay about 20% less per GB-second than on x86_64 for the same memory.',
+    service: 'lambda',
+    resource: 'lambda:functions',
+    resourceId: func => func.FunctionName,
+    parameters: [LOOKBACK_DAYS],
+    passes: async (func, ctx, params) => {
+      if (functionArchitecture(func) === 'arm64' || (func.Runtime && X86_ONLY_RUNTIMES.includes(func.Runtime))) return true;
+      // Functions that aren't invoked cost nothing to move; they are reported as rarely invoked instead
+      return (await lambdaUsage(func, ctx, params.lookbackDays)).invocations === 0;
+    },
+    reason: async (func, params, ctx) => {
+      const usage = await lambdaUsage(func, ctx, params.lookbackDays);
+      const memoryMb = func.MemorySize || 128;
+      return `Function ${func.FunctionName} runs on x86_64; on arm64 it would cost ` +
+        `$${(lambdaMonthlyCents(usage, memoryMb, 'arm64', ctx.prices) / 100).toFixed(2)}/mo instead of ` +
+        `$${(lambdaMonthlyCents(usage, memoryMb, 'x86_64', ctx.prices) / 100).toFixed(2)}/mo`;
+    },
+    savings: {
+      costExplorerService: 'AWS Lambda',
+      method: { kind: 'percentage', percentage: 20, rationale: 'Run on arm64 (20% lower GB-second price)' },
+      resourceMethod: async (func, ctx, params) => {
+        const usage = await lambdaUsage(func, ctx, params.lookbackDays);
+        const memoryMb = func.MemorySize || 128;
+        return {
+          kind: 'price-delta',
+          rationale: 'Run on arm64',
+          fromMonthlyCents: lambdaMonthlyCents(usage, memoryMb, 'x86_64', ctx.prices),
+          toMonthlyCents: lambdaMonthlyCents(usage, memoryMb, 'arm64', ctx.prices),
+        };
+      },
+      listPriceCents: async (func, ctx, params) =>
+        lambdaMonthlyCents(await lambdaUsage(func, ctx, params.lookbackDays), func.MemorySize || 128, 'x86_64', ctx.prices),
+      fallbackCents: () => 100, // $5/month function * 20%
+    },
+  });
+
+  registry.registerControl<FunctionConfiguration>({
+    id: 'lambda_function_rarely_invoked',
+    title: 'Lambda functions should be invoked',
+    description: 'Functions invoked rarely or never over the lookback window are candidates for cleanup. They cost little to keep, so no savings are estimated.',
+    service: 'lambda',
+    resource: 'lambda:functions',
+    resourceId: func => func.FunctionName,
+    parameters: [
+      LOOKBACK_DAYS,
+      { key: 'maxInvocations', label: 'Maximum invocations', description: 'Functions invoked more often than this over the window are in use', unit: 'units', default: 0, min: 0, max: 100000 },
+    ],
+    passes: async (func, ctx, params) => {
+      // Functions deployed or updated within the window may not have had a chance to run yet
+      const lastModified = func.LastModified ? new Date(func.LastModified) : undefined;
+      if (!isOlderThanDays(lastModified, params.lookbackDays, ctx)) return true;
+      return (await lambdaUsage(func, ctx, params.lookbackDays)).invocations > params.maxInvocations;
+    },
+    reason: async (func, params, ctx) => {
+      const { invocations } = await lambdaUsage(func, ctx, params.lookbackDays);
+      return `Function ${func.FunctionName} was invoked ${invocations === 0 ? 'never' : `${invocations} times`} in ${params.lookbackDays} days`;
+    },
+    savings: null,
+  });
+
+  registry.registerControl<FunctionConfiguration>({
+    id: 'lambda_function_deprecated_runtime',
+    title: 'Lambda functions should use supported runtime versions',
+    description: 'Deprecated runtimes are a security and compatibility issue rather than a direct cost.',
+    service: 'lambda',
+    resource: 'lambda:functions',
+    resourceId: func => func.FunctionName,
+    passes: func =>
+      !(func.Runtime?.includes('nodejs12') || func.Runtime?.includes('python3.6') || func.Runtime?.includes('python3.7')),
+    reason: func => `Function ${func.FunctionName} uses deprecated runtime ${func.Runtime}`,
+    savings: null,
+  });
+}
+
+function registerLoadBalancerControls(registry: ControlRegistry): void {
+  registry.registerControl<LoadBalancerDetails>({
+    id: 'elb_load_balancer_no_targets',
+    title: 'Load balancers should have healthy targets',
+    description: 'Application, Network and Gateway load balancers with no registered or healthy targets serve no traffic but are billed by the hour.',
+    service: 'elb',
+    resource: 'elb:load-balancers',
+    resourceId: lb => lb.LoadBalancerArn,
+    passes: lb => lb.State?.Code !== 'active' || lb.healthyTargets === null || lb.healthyTargets > 0,
+    reason: lb => lb.registeredTargets === 0
+      ? `Load balancer ${lb.LoadBalancerName} has no registered targets`
+      : `None of the ${lb.registeredTargets} targets of load balancer ${lb.LoadBalancerName} is healthy`,
+    savings: {
+      costExplorerService: 'Amazon Elastic Load Balancing',
+      method: { kind: 'deletion' },
+      // Without healthy targets it serves no traffic, so only the hourly charge is saved
+      listPriceCents: (lb, ctx) => loadBalancerMonthlyCents(loadBalancerType(lb), 0, ctx.prices),
+      fallbackCents: () => 1643, // $0.0225/hour
+    },
+  });
+
+  registry.registerControl<LoadBalancerDetails>({
+    id: 'elb_load_balancer_idle',
+    title: 'Load balancers should receive traffic',
+    description: 'Load balancers with no requests (Application) or new flows (Network, Gateway) over the lookback window can be deleted.',
+    service: 'elb',
+    resource: 'elb:load-balancers',
+    resourceId: lb => lb.LoadBalancerArn,
+    parameters: [LOOKBACK_DAYS],
+    passes: async (lb, ctx, params) => {
+      if (lb.State?.Code !== 'active' || !isOlderThanDays(lb.CreatedTime, params.lookbackDays, ctx)) return true;
+      const activity = await loadBalancerActivity(loadBalancerType(lb), lb.LoadBalancerArn || '', ctx, params.lookbackDays);
+      return activity.requests > 0;
+    },
+    reason: (lb, params) => loadBalancerType(lb) === 'application'
+      ? `Load balancer ${lb.LoadBalancerName} received no requests in ${params.lookbackDays} days`
+      : `Load balancer ${lb.LoadBalancerName} had no new flows in ${params.lookbackDays} days`,
+    savings: {
+      costExplorerService: 'Amazon Elastic Load Balancing',
+      method: { kind: 'deletion' },
+      listPriceCents: async (lb, ctx, params) => {
+        const type = loadBalancerType(lb);
+        const activity = await loadBalancerActivity(type, lb.LoadBalancerArn || '', ctx, params.lookbackDays);
+        return loadBalancerMonthlyCents(type, activity.capacityUnitsPerMonth, ctx.prices);
+      },
+      fallbackCents: () => 1643, // $0.0225/hour
+    },
+  });
+
+  registry.registerControl<ClassicLoadBalancerDetails>({
+    id: 'elb_classic_load_balancer_no_instances',
+    title: 'Classic load balancers should have healthy instances',
+    description: 'Classic load balancers with no registered or in-service instances serve no traffic but are billed by the hour.',
+    service: 'elb',
+    resource: 'elb:classic-load-balancers',
+    resourceId: lb => lb.LoadBalancerName,
+    passes: lb => lb.healthyInstances === null || lb.healthyInstances > 0,
+    reason: lb => (lb.Instances?.length ?? 0) === 0
+      ? `Classic load balancer ${lb.LoadBalancerName} has no registered instances`
+      : `None of the ${lb.Instances!.length} instances of classic load balancer ${lb.LoadBalancerName} is in service`,
+    savings: {
+      costExplorerService: 'Amazon Elastic Load Balancing',
+      method: { kind: 'deletion' },
+      listPriceCents: (_lb, ctx) => loadBalancerMonthlyCents('classic', 0, ctx.prices),
+      fallbackCents: () => 1825, // $0.025/hour
+    },
+  });
+
+  registry.registerControl<ClassicLoadBalancerDetails>({
+    id: 'elb_classic_load_balancer_idle',
+    title: 'Classic load balancers should receive traffic',
+    description: 'Classic load balancers that received no requests and processed no bytes over the lookback window can be deleted.',
+    service: 'elb',
+    resource: 'elb:classic-load-balancers',
+    resourceId: lb => lb.LoadBalancerName,
+    parameters: [LOOKBACK_DAYS],
+    passes: async (lb, ctx, params) => {
+      if (!isOlderThanDays(lb.CreatedTime, params.lookbackDays, ctx)) return true;
+      // TCP listeners publish no RequestCount, only processed bytes
+      const activity = await loadBalancerActivity('classic', lb.LoadBalancerName || '', ctx, params.lookbackDays);
+      return activity.requests > 0 || activity.capacityUnitsPerMonth > 0;
+    },
+    reason: (lb, params) => `Classic load balancer ${lb.LoadBalancerName} had no traffic in ${params.lookbackDays} days`,
+    savings: {
+      costExplorerService: 'Amazon Elastic Load Balancing',
+      method: { kind: 'deletion' },
+      listPriceCents: (_lb, ctx) => loadBalancerMonthlyCents('classic', 0, ctx.prices),
+      fallbackCents: () => 1825, // $0.025/hour
+    },
+  });
+
+  registry.registerControl<ClassicLoadBalancerDetails>({
+    id: 'elb_classic_load_balancer_migration',
+    title: 'Classic load balancers should be migrated',
+    description: 'Classic load balancers are a previous generation; Application and Network load balancers cost less per hour and support current features.',
+    service: 'elb',
+    resource: 'elb:classic-load-balancers',
+    resourceId: lb => lb.LoadBalancerName,
+    parameters: [LOOKBACK_DAYS],
+    // Load balancers without instances are reported for deletion instead
+    passes: lb => (lb.Instances?.length ?? 0) === 0,
+    reason: async (lb, params, ctx) => {
+      const activity = await loadBalancerActivity('classic', lb.LoadBalancerName || '', ctx, params.lookbackDays);
+      const type = classicMigrationType(lb);
+      return `Classic load balancer ${lb.LoadBalancerName} would cost ` +
+        `$${(loadBalancerMonthlyCents(type, activity.capacityUnitsPerMonth, ctx.prices) / 100).toFixed(2)}/mo as ` +
+        `${type === 'network' ? 'a Network' : 'an Application'} load balancer instead of ` +
+        `$${(loadBalancerMonthlyCents('classic', activity.capacityUnitsPerMonth, ctx.prices) / 100).toFixed(2)}/mo`;
+    },
+    savings: {
+      costExplorerService: 'Amazon Elastic Load Balancing',
+      method: { kind: 'percentage', percentage: 10, rationale: 'Migrate to an Application or Network load balancer' },
+      // One LCU covers 1 GB processed per hour, so the GB a Classic load balancer processes approximate its LCU-hours
+      resourceMethod: async (lb, ctx, params) => {
+        const activity = await loadBalancerActivity('classic', lb.LoadBalancerName || '', ctx, params.lookbackDays);
+        const type = classicMigrationType(lb);
+        return {
+          kind: 'price-delta',
+          rationale: `Migrate to ${type === 'network' ? 'a Network' : 'an Application'} load balancer`,
+          fromMonthlyCents: loadBalancerMonthlyCents('classic', activity.capacityUnitsPerMonth, ctx.prices),
+          toMonthlyCents: loadBalancerMonthlyCents(type, activity.capacityUnitsPerMonth, ctx.prices),
+        };
+      },
+      listPriceCents: async (lb, ctx, params) => {
+        const activity = await loadBalancerActivity('classic', lb.LoadBalancerName || '', ctx, params.lookbackDays);
+        return loadBalancerMonthlyCents('classic', activity.capacityUnitsPerMonth, ctx.prices);
+      },
+      fallbackCents: () => 183, // $0.025/hour * 10%
+    },
+  });
+}
+
+function registerNetworkingControls(registry: ControlRegistry): void {
+  registry.registerControl<NatGatewayDetails>({
+    id: 'vpc_nat_gateway_low_traffic',
+    title: 'NAT gateways should carry meaningful traffic',
+    description: 'NAT gateways are billed by the hour whether or not they are used; lightly used ones can often be removed or shared.',
+    service: 'networking',
+    resource: 'ec2:nat-gateways',
+    resourceId: natGateway => natGateway.NatGatewayId,
+    parameters: [
+      LOOKBACK_DAYS,
+      { key: 'maxTrafficMB', label: 'Maximum daily traffic', description: 'NAT gateways processing more per day are in use', unit: 'MB', default: 100, min: 0, max: 1000000 },
+    ],
+    passes: async (natGateway, ctx, params) => {
+      if (natGateway.State !== 'available' || !isOlderThanDays(natGateway.CreateTime, params.lookbackDays, ctx)) return true;
+      const gbPerDay = await natGatewayGbPerDay(natGateway.NatGatewayId || '', ctx, params.lookbackDays);
+      return gbPerDay * 1024 > params.maxTrafficMB;
+    },
+    reason: async (natGateway, params, ctx) => {
+      const gbPerDay = await natGatewayGbPerDay(natGateway.NatGatewayId || '', ctx, params.lookbackDays);
+      return `NAT gateway ${natGateway.NatGatewayId} processed ${(gbPerDay * 1024).toFixed(1)}MB per day over ${params.lookbackDays} days`;
+    },
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' },
+      listPriceCents: async (natGateway, ctx, params) =>
+        natGatewayMonthlyCents(await natGatewayGbPerDay(natGateway.NatGatewayId || '', ctx, params.lookbackDays), ctx.prices),
+      fallbackCents: () => 3285, // $0.045/hour
+    },
+  });
+
+  registry.registerControl<NatGatewayDetails>({
+    id: 'vpc_nat_gateway_duplicate_az',
+    title: 'VPCs should have at most one NAT gateway per Availability Zone',
+    description: 'A second public NAT gateway in the same VPC and Availability Zone adds an hourly charge without adding resilience.',
+    service: 'networking',
+    resource: 'ec2:nat-gateways',
+    resourceId: natGateway => natGateway.NatGatewayId,
+    passes: async (natGateway, ctx) => {
+      if (natGateway.State !== 'available' || natGateway.ConnectivityType === 'private' || !natGateway.availabilityZone) return true;
+      // The oldest NAT gateway of each VPC and zone is kept; the others are reported
+      const first = (await ctx.collect('ec2:nat-gateways') as NatGatewayDetails[])
+        .filter(other => other.State === 'available' && other.ConnectivityType !== 'private' &&
+          other.VpcId === natGateway.VpcId && other.availabilityZone === natGateway.availabilityZone)
+        .sort((a, b) => (a.CreateTime?.getTime() ?? 0) - (b.CreateTime?.getTime() ?? 0) || (a.NatGatewayId || '').localeCompare(b.NatGatewayId || ''))[0];
+      return first.NatGatewayId === natGateway.NatGatewayId;
+    },
+    reason: natGateway =>
+      `NAT gateway ${natGateway.NatGatewayId} duplicates an older NAT gateway in ${natGateway.availabilityZone} of ${natGateway.VpcId}`,
+    savings: {
+      costExplorerService: 'EC2 - Other',
+      method: { kind: 'deletion' },
+      // Its traffic moves to the NAT gateway that is kept, so only the hourly charge is saved
+      listPriceCents: (_natGateway, ctx) => natGatewayMonthlyCents(0, ctx.prices),
+      fallbackCents: () => 3285, // $0.045/hour
+    },
+  });
+
+  registry.registerControl<VpcEndpoint>({
+    id: 'vpc_endpoint_interface_unused',
+    title: 'Interface VPC endpoints should process traffic',
+    description: 'Interface endpoints are billed per Availability Zone by the hour; endpoints that processed no data over the lookback window can be deleted.',
+    service: 'networking',
+    resource: 'ec2:vpc-endpoints',
+    resourceId: endpoint => endpoint.VpcEndpointId,
+    parameters: [LOOKBACK_DAYS],
+    passes: async (endpoint, ctx, params) => {
+      if (endpoint.VpcEndpointType !== 'Interface' || endpoint.State?.toLowerCase() !== 'available' ||
+        !isOlderThanDays(endpoint.CreationTimestamp, params.lookbackDays, ctx)) return true;
+      return (await endpointBytesProcessed(endpoint, ctx, params.lookbackDays)) > 0;
+    },
+    reason: (endpoint, params) =>
+      `Interface endpoint ${endpoint.VpcEndpointId} for ${endpoint.ServiceName} processed no data in ${params.lookbackDays} days`,
+    savings: {
+      costExplorerService: 'Amazon Virtual Private Cloud',
+      method: { kind: 'deletion' },
+      listPriceCents: (endpoint, ctx) => interfaceEndpointMonthlyCents(endpoint, ctx.prices),
+      fallbackCents: () => 1460, // $0.01/hour in two Availability Zones
+    },
+  });
+
+  registry.registerControl<NetworkInterface>({
+    id: 'vpc_network_interface_unattached',
+    title: 'Network interfaces should be attached',
+    description: 'Unattached network interfaces are clutter and hold on to IP addresses; those with a public IPv4 address are billed for it.',
+    service: 'networking',
+    resource: 'ec2:network-interfaces',
+    resourceId: eni => eni.NetworkInterfaceId,
+    // Interfaces managed by AWS services (Lambda, endpoints, load balancers) come and go with the service
+    passes: eni => eni.Status !== 'available' || !!eni.RequesterManaged,
+    reason: eni => eni.Association?.PublicIp
+      ? `Network interface ${eni.NetworkInterfaceId} is unattached and holds public IP ${eni.Association.PublicIp}`
+      : `Network interface ${eni.NetworkInterfaceId} is unattached`,
+    savings: {
+      costExplorerService: 'Amazon Virtual Private Cloud',
+      method: { kind: 'deletion' },
+      // The interface itself is free; only a public IPv4 address on it is billed
+      listPriceCents: (eni, ctx) => eni.Association?.PublicIp ? idlePublicIpv4MonthlyCents(ctx.prices) : 0,
+      fallbackCents: () => 0,
+    },
+  });
+
+  registry.registerControl<DataTransferUsage>({
+    id: 'data_transfer_usage_type_cost',
+    title: 'Data transfer should not be a major cost',
+    description: 'Data transfer usage types (internet egress, cross-AZ, inter-region, NAT gateway and endpoint processing) that cost more than the threshold over the last 30 days, from Cost Explorer.',
+    service: 'networking',
+    resource: 'ce:data-transfer-usage',
+    resourceId: usage => usage.usageType,
+    resourceRegion: usage => usage.region ?? undefined,
+    parameters: [
+      { key: 'minMonthlyCostCents', label: 'Minimum monthly cost', description: 'Usage types costing less over 30 days are not reported', unit: 'cents', default: 5000, min: 0, max: 100000000 },
+    ],
+    passes: (usage, _ctx, params) => usage.costCents < params.minMonthlyCostCents,
+    reason: usage => {
+      const category = {
+        'internet': 'data transfer out to the internet',
+        'cross-az': 'data transfer between Availability Zones',
+        'inter-region': 'data transfer between regions',
+        'nat-gateway': 'NAT gateway data processing',
+        'vpc-endpoint': 'VPC endpoint data processing',
+        'transit-gateway': 'Transit gateway data processing',
+      }[usage.category];
+      const quantity = `${Math.round(usage.quantity).toLocaleString('en-US')}${usage.unit ? ` ${usage.unit}` : ''}`;
+      return `${usage.usageType} (${category}) cost $${(usage.costCents / 100).toFixed(2)} for ${quantity} in the last 30 days`;
+    },
+    // A report of where data transfer spend goes; reducing it takes architecture changes, not a single fix
+    savings: null,
+    resourceCost: {
+      costExplorerService: 'EC2 - Other',
+      listPriceCents: usage => usage.costCents,
+    },
+  });
+}
+
+// Resource kinds the Tagging benchmark checks, with how their findings are named and priced
+const TAGGED_RESOURCES = [
+  { kind: 'ec2:instances', controlPrefix: 'ec2_instance', label: 'EC2 instances', noun: 'Instance', costExplorerService: 'Amazon Elastic Compute Cloud - Compute' },
+  { kind: 'ec2:volumes', controlPrefix: 'ebs_volume', label: 'EBS volumes', noun: 'Volume', costExplorerService: 'EC2 - Other' },
+  { kind: 'ec2:snapshots', controlPrefix: 'ebs_snapshot', label: 'EBS snapshots', noun: 'Snapshot', costExplorerService: 'EC2 - Other' },
+  { kind: 'ec2:images', controlPrefix: 'ec2_ami', label: 'AMIs', noun: 'AMI', costExplorerService: 'EC2 - Other' },
+  { kind: 'ec2:addresses', controlPrefix: 'ec2_eip', label: 'Elastic IP addresses', noun: 'Elastic IP', costExplorerService: 'EC2 - Other' },
+  { kind: 'rds:db-instances', controlPrefix: 'rds_db_instance', label: 'RDS DB instances', noun: 'DB instance', costExplorerService: 'Amazon Relational Database Service' },
+  { kind: 'rds:db-snapshots', controlPrefix: 'rds_db_snapshot', label: 'RDS DB snapshots', noun: 'DB snapshot', costExplorerService: 'Amazon Relational Database Service' },
+  { kind: 's3:buckets', controlPrefix: 's3_bucket', label: 'S3 buckets', noun: 'Bucket', costExplorerService: 'Amazon Simple Storage Service' },
+  { kind: 'dynamodb:tables', controlPrefix: 'dynamodb_table', label: 'DynamoDB tables', noun: 'Table', costExplorerService: 'Amazon DynamoDB' },
+  { kind: 'elasticache:cache-clusters', controlPrefix: 'elasticache_cluster', label: 'ElastiCache clusters', noun: 'Cluster', costExplorerService: 'Amazon ElastiCache' },
+  { kind: 'redshift:clusters', controlPrefix: 'redshift_cluster', label: 'Redshift clusters', noun: 'Cluster', costExplorerService: 'Amazon Redshift' },
+  { kind: 'lambda:functions', controlPrefix: 'lambda_function', label: 'Lambda functions', noun: 'Function', costExplorerService: 'AWS Lambda' },
+  { kind: 'elb:load-balancers', controlPrefix: 'elb_load_balancer', label: 'Load balancers', noun: 'Load balancer', costExplorerService: 'Amazon Elastic Load Balancing' },
+  { kind: 'elb:classic-load-balancers', controlPrefix: 'elb_classic_load_balancer', label: 'Classic load balancers', noun: 'Classic load balancer', costExplorerService: 'Amazon Elastic Load Balancing' },
+  { kind: 'ec2:nat-gateways', controlPrefix: 'vpc_nat_gateway', label: 'NAT gateways', noun: 'NAT gateway', costExplorerService: 'EC2 - Other' },
+  { kind: 'ec2:vpc-endpoints', controlPrefix: 'vpc_endpoint', label: 'VPC endpoints', noun: 'VPC endpoint', costExplorerService: 'Amazon Virtual Private Cloud' },
+];
+
+/**
+ * One required-tags control per resource kind. Resource IDs and regions come from the
+ * inventory normalizers, so findings line up with the other controls and the inventory.
+ * Findings carry the resource's monthly cost, since tagging it saves nothing by itself.
+ */
+function registerTaggingControls(registry: ControlRegistry): void {
+  for (const { kind, controlPrefix, label, noun, costExplorerService } of TAGGED_RESOURCES) {
+    const collector = registry.getCollector(kind);
+    const inventory = collector?.inventory;
+    if (!collector || !inventory) {
+      throw new Error(`Tagging control needs an inventory normalizer for ${kind}`);
+    }
+
+    registry.registerControl({
+      id: `${controlPrefix}_required_tags`,
+      title: `${label} should have the required tags`,
+      description: `${label} should carry every tag the tag policy requires, with an allowed value.`,
+      service: collector.service,
+      resource: kind,
+      resourceId: resource => inventory(resource).resourceId,
+      resourceRegion: resource => inventory(resource).region,
+      passes: (resource, ctx) => {
+        const tags = registry.resourceTags(kind, resource);
+        // Resources whose tags could not be read are not reported
+        return tags === null || ctx.tagPolicy.evaluate(tags).length === 0;
+      },
+      reason: (resource, _params, ctx) => {
+        const violations = ctx.tagPolicy.evaluate(registry.resourceTags(kind, resource) ?? undefined);
+        return `${noun} ${inventory(resource).resourceId}: ${ctx.tagPolicy.describe(violations)}`;
+      },
+      savings: null,
+      resourceCost: {
+        costExplorerService,
+        listPriceCents: (resource, ctx) => registry.resourceMonthlyCents(kind, resource, ctx.prices),
+      },
+    });
+  }
+}
+
+function registerBenchmarks(registry: ControlRegistry): void {
+  registry.registerBenchmark({
+    id: 'ec2',
+    name: 'EC2',
+    description: 'Stopped, idle, underutilized and older generation instances, unattached volumes and Elastic IPs, and old snapshots',
+    controlIds: [
+      'ec2_instance_stopped',
+      'ec2_instance_idle',
+      'ec2_instance_underutilized',
+      'ec2_instance_generation_migration',
+      'ebs_volume_unattached',
+      'ebs_snapshot_max_age',
+      'ec2_eip_unattached',
+    ],
+  });
+
+  registry.registerBenchmark({
+    id: 'ebs',
+    name: 'EBS',
+    description: 'Unattached, gp2 and over-provisioned volumes, old and orphaned snapshots, and unused AMIs',
+    controlIds: [
+      'ebs_volume_unattached',
+      'ebs_volume_using_gp2',
+      'ebs_volume_iops_overprovisioned',
+      'ebs_snapshot_max_age',
+      'ebs_snapshot_orphaned',
+      'ec2_ami_unused',
+    ],
+  });
+
+  registry.registerBenchmark({
+    id: 'rds',
+    name: 'RDS',
+    description: 'Stopped, idle and previous generation DB instances, and old snapshots',
+    controlIds: ['rds_db_instance_stopped', 'rds_db_instance_idle', 'rds_db_instance_previous_generation', 'rds_db_snapshot_max_age'],
+  });
+
+  registry.registerBenchmark({
+    id: 's3',
+    name: 'S3',
+    description: 'Buckets missing lifecycle management, storage class transitions, incomplete multipart uploads and noncurrent versions',
+    controlIds: [
+      's3_bucket_versioning_without_lifecycle',
+      's3_bucket_without_lifecycle',
+      's3_bucket_intelligent_tiering',
+      's3_bucket_glacier_transition',
+      's3_bucket_incomplete_multipart_uploads',
+      's3_bucket_noncurrent_versions',
+    ],
+    sdkOnly: true, // The Thrifty mod's S3 benchmark only checks lifecycle configuration
+  });
+
+  registry.registerBenchmark({
+    id: 'dynamodb',
+    name: 'DynamoDB',
+    description: 'Tables with high provisioned capacity',
+    controlIds: ['dynamodb_table_provisioned_capacity'],
+  });
+
+  registry.registerBenchmark({
+    id: 'elasticache',
+    name: 'ElastiCache',
+    description: 'Idle clusters and previous generation cache node types',
+    controlIds: ['elasticache_cluster_idle', 'elasticache_cluster_previous_generation'],
+  });
+
+  registry.registerBenchmark({
+    id: 'redshift',
+    name: 'Redshift',
+    description: 'Paused, idle and previous generation clusters',
+    controlIds: ['redshift_cluster_paused', 'redshift_cluster_idle', 'redshift_cluster_previous_generation'],
+  });
+
+  registry.registerBenchmark({
+    id: 'lambda',
+    name: 'Lambda',
+    description: 'Over-provisioned memory, x86_64 functions that could run on arm64, rarely invoked functions and deprecated runtimes',
+    controlIds: [
+      'lambda_function_memory_overprovisioned',
+      'lambda_function_graviton_migration',
+      'lambda_function_rarely_invoked',
+      'lambda_function_deprecated_runtime',
+    ],
+  });
+
+  registry.registerBenchmark({
+    id: 'elb',
+    name: 'Load Balancers',
+    description: 'Load balancers without healthy targets or traffic, and Classic load balancers to migrate',
+    controlIds: [
+      'elb_load_balancer_no_targets',
+      'elb_load_balancer_idle',
+      'elb_classic_load_balancer_no_instances',
+      'elb_classic_load_balancer_idle',
+      'elb_classic_load_balancer_migration',
+    ],
+    sdkOnly: true, // The Thrifty mod checks load balancers within its EC2 benchmark
+  });
+
+  registry.registerBenchmark({
+    id: 'networking',
+    name: 'Networking',
+    description: 'Lightly used and duplicate NAT gateways, unused interface endpoints, unattached network interfaces and costly data transfer',
+    controlIds: [
+      'vpc_nat_gateway_low_traffic',
+      'vpc_nat_gateway_duplicate_az',
+      'vpc_endpoint_interface_unused',
+      'vpc_network_interface_unattached',
+      'data_transfer_usage_type_cost',
+    ],
+    sdkOnly: true, // The Thrifty mod's network benchmark covers only some of these checks
+  });
+
+  registry.registerBenchmark({
+    id: 'tagging',
+    name: 'Tagging',
+    description: 'Resources missing the tags required by the tag policy, with what they cost',
+    controlIds: TAGGED_RESOURCES.map(({ controlPrefix }) => `${controlPrefix}_required_tags`),
+    sdkOnly: true, // The Thrifty mod has no tagging benchmark
+  });
+}
+
+/**
+ * Register the built-in collectors, controls, and benchmarks
+ */
+export function registerBuiltinControls(registry: ControlRegistry): void {
+  registerCollectors(registry);
+  registerEC2Controls(registry);
+  registerEBSControls(registry);
+  registerRDSControls(registry);
+  registerS3Controls(registry);
+  registerDynamoDBControls(registry);
+  registerElastiCacheControls(registry);
+  registerRedshiftControls(registry);
+  registerLambdaControls(registry);
+  registerLoadBalancerControls(registry);
+  registerNetworkingControls(registry);
+  registerTaggingControls(registry);
+  registerBenchmarks(registry);
+}
+
+registerBuiltinControls(controlRegistry);
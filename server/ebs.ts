@@ -0,0 +1,108 @@
+import type { Volume } from "@aws-sdk/client-ec2";
+import type { ScanContext } from "./control-registry";
+import type { RegionPrices } from "./price-catalog";
+
+const SECONDS_PER_MINUTE = 60;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// gp3 includes this much performance in its storage price; more is billed per IOPS and per MiB/s
+const GP3_BASELINE_IOPS = 3000;
+const GP3_BASELINE_THROUGHPUT_MIBPS = 125;
+const MIN_PROVISIONED_IOPS = 100;
+
+/**
+ * Reference prices (USD per month, us-east-1), used when the price catalog has none for the region
+ */
+const REFERENCE_PRICES = {
+  gp2PerGb: 0.10,
+  gp3PerGb: 0.08,
+  io1PerGb: 0.125,
+  io2PerGb: 0.125,
+  gp3PerIops: 0.005,
+  gp3PerMiBps: 0.04,
+  io1PerIops: 0.065,
+  io2PerIops: 0.065,
+};
+
+// Provisioned IOPS usage types; io2 is tiered and the catalog keeps its first tier
+const PROVISIONED_IOPS_USAGE_TYPES: Record<string, { usageType: string; reference: number }> = {
+  io1: { usageType: 'EBS:VolumeP-IOPS.piops', reference: REFERENCE_PRICES.io1PerIops },
+  io2: { usageType: 'EBS:VolumeP-IOPS.io2', reference: REFERENCE_PRICES.io2PerIops },
+};
+
+/**
+ * Baseline performance of a gp2 volume, which a gp3 volume replacing it has to match.
+ * gp2 gets 3 IOPS per GB (100 to 16,000) and up to 250 MiB/s above 170GB.
+ */
+export function gp2Performance(sizeGb: number): { iops: number; throughputMiBps: number } {
+  return {
+    iops: Math.min(16000, Math.max(100, sizeGb * 3)),
+    throughputMiBps: sizeGb > 170 ? 250 : GP3_BASELINE_THROUGHPUT_MIBPS,
+  };
+}
+
+function storageGbMonthUsd(prices: RegionPrices, volumeType: string, reference: number): number {
+  return prices.storageGbMonthUsd(volumeType) ?? reference;
+}
+
+/**
+ * Monthly cost in cents of a gp2 volume, and of the gp3 volume with the same size and baseline performance
+ */
+export function gp3MigrationMonthlyCents(volume: Volume, prices: RegionPrices): { gp2Cents: number; gp3Cents: number } {
+  const sizeGb = volume.Size || 0;
+  const { iops, throughputMiBps } = gp2Performance(sizeGb);
+  const extraIops = Math.max(0, iops - GP3_BASELINE_IOPS);
+  const extraThroughput = Math.max(0, throughputMiBps - GP3_BASELINE_THROUGHPUT_MIBPS);
+
+  const gp2Usd = sizeGb * storageGbMonthUsd(prices, 'gp2', REFERENCE_PRICES.gp2PerGb);
+  const gp3Usd = sizeGb * storageGbMonthUsd(prices, 'gp3', REFERENCE_PRICES.gp3PerGb) +
+    extraIops * (prices.getPrice('AmazonEC2', 'EBS:VolumeP-IOPS.gp3')?.pricePerUnit ?? REFERENCE_PRICES.gp3PerIops) +
+    // Throughput is priced at the published per-MiB/s-month rate
+    extraThroughput * REFERENCE_PRICES.gp3PerMiBps;
+  return { gp2Cents: Math.round(gp2Usd * 100), gp3Cents: Math.round(gp3Usd * 100) };
+}
+
+/**
+ * Monthly cost in cents of an io1/io2 volume with a given number of provisioned IOPS
+ */
+export function provisionedIopsVolumeMonthlyCents(volume: Volume, iops: number, prices: RegionPrices): number {
+  const volumeType = volume.VolumeType === 'io2' ? 'io2' : 'io1';
+  const iopsPrice = PROVISIONED_IOPS_USAGE_TYPES[volumeType];
+  const storageUsd = (volume.Size || 0) *
+    storageGbMonthUsd(prices, volumeType, volumeType === 'io2' ? REFERENCE_PRICES.io2PerGb : REFERENCE_PRICES.io1PerGb);
+  const iopsUsd = iops * (prices.getPrice('AmazonEC2', iopsPrice.usageType)?.pricePerUnit ?? iopsPrice.reference);
+  return Math.round((storageUsd + iopsUsd) * 100);
+}
+
+/**
+ * Average and peak IOPS a volume served over the last `days` days, or null without CloudWatch data.
+ * The peak adds the busiest minute of reads to the busiest minute of writes, so it may overstate it.
+ */
+export async function volumeIops(
+  volume: Volume,
+  ctx: ScanContext,
+  days: number
+): Promise<{ averageIops: number; peakIops: number } | null> {
+  const dimensions = { VolumeId: volume.VolumeId || '' };
+  const [reads, writes, peakReads, peakWrites] = await ctx.metrics.getDailyValues([
+    { namespace: 'AWS/EBS', metricName: 'VolumeReadOps', dimensions, statistic: 'Sum' },
+    { namespace: 'AWS/EBS', metricName: 'VolumeWriteOps', dimensions, statistic: 'Sum' },
+    // Provisioned IOPS volumes report operations per minute
+    { namespace: 'AWS/EBS', metricName: 'VolumeReadOps', dimensions, statistic: 'Maximum' },
+    { namespace: 'AWS/EBS', metricName: 'VolumeWriteOps', dimensions, statistic: 'Maximum' },
+  ], days, ctx.now);
+  if (reads.length === 0 && writes.length === 0) return null;
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return {
+    averageIops: (sum(reads) + sum(writes)) / (days * SECONDS_PER_DAY),
+    peakIops: (Math.max(0, ...peakReads) + Math.max(0, ...peakWrites)) / SECONDS_PER_MINUTE,
+  };
+}
+
+/**
+ * Provisioned IOPS that cover a volume's observed peak plus headroom
+ */
+export function recommendedIops(peakIops: number, headroomPercent: number): number {
+  return Math.max(MIN_PROVISIONED_IOPS, Math.ceil((peakIops * (1 + headroomPercent / 100)) / 100) * 100);
+}
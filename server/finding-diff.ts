@@ -0,0 +1,122 @@
+import type { BenchmarkResult, ControlResult, FindingDiff, FindingDiffEntry } from "@shared/schema";
+
+// Order findings so what changed comes first
+const STATUS_ORDER: Record<FindingDiffEntry['status'], number> = { new: 0, resolved: 1, persisting: 2 };
+
+interface Finding {
+  controlId: string;
+  controlName: string;
+  resourceId: string | null;
+  region: string | null;
+  reason: string | null;
+  estimatedSavings: number;
+}
+
+/**
+ * Key identifying the same finding across runs
+ */
+export function findingKey(controlId: string, resourceId: string | null | undefined): string {
+  return `${controlId}\u0000${resourceId ?? ''}`;
+}
+
+/**
+ * Index a run's failed control results by finding key, skipping those hidden by a suppression rule.
+ * Duplicate keys (e.g. a control reported twice for one resource) are merged and their savings summed.
+ */
+function indexFindings(results: ControlResult[]): Map<string, Finding> {
+  const findings = new Map<string, Finding>();
+
+  // Treat undefined/null as failed, matching the resources endpoint
+  for (const result of results.filter(r => r.passed !== true && !r.suppressedByRuleId)) {
+    const key = findingKey(result.controlId, result.resourceId);
+    const existing = findings.get(key);
+    if (existing) {
+      existing.estimatedSavings += result.estimatedSavings;
+      continue;
+    }
+    findings.set(key, {
+      controlId: result.controlId,
+      controlName: result.controlName,
+      resourceId: result.resourceId,
+      region: result.region,
+      reason: result.reason,
+      estimatedSavings: result.estimatedSavings,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Compare the findings of two runs of the same benchmark and account.
+ * Findings only in the target run are new, findings only in the base run are resolved,
+ * and findings in both are persisting (still open).
+ */
+export function diffBenchmarkRuns(
+  base: BenchmarkResult,
+  baseResults: ControlResult[],
+  target: BenchmarkResult,
+  targetResults: ControlResult[]
+): FindingDiff {
+  const baseFindings = indexFindings(baseResults);
+  const targetFindings = indexFindings(targetResults);
+  const findings: FindingDiffEntry[] = [];
+
+  targetFindings.forEach((finding, key) => {
+    const previous = baseFindings.get(key);
+    const baseSavings = previous?.estimatedSavings ?? 0;
+    findings.push({
+      status: previous ? 'persisting' : 'new',
+      controlId: finding.controlId,
+      controlName: finding.controlName,
+      resourceId: finding.resourceId,
+      region: finding.region,
+      reason: finding.reason,
+      baseSavings,
+      targetSavings: finding.estimatedSavings,
+      savingsDelta: finding.estimatedSavings - baseSavings,
+    });
+  });
+
+  baseFindings.forEach((finding, key) => {
+    if (targetFindings.has(key)) return;
+    findings.push({
+      status: 'resolved',
+      controlId: finding.controlId,
+      controlName: finding.controlName,
+      resourceId: finding.resourceId,
+      region: finding.region,
+      reason: finding.reason,
+      baseSavings: finding.estimatedSavings,
+      targetSavings: 0,
+      savingsDelta: -finding.estimatedSavings,
+    });
+  });
+
+  findings.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    Math.abs(b.savingsDelta) - Math.abs(a.savingsDelta) ||
+    a.controlId.localeCompare(b.controlId)
+  );
+
+  const baseSavings = findings.reduce((sum, f) => sum + f.baseSavings, 0);
+  const targetSavings = findings.reduce((sum, f) => sum + f.targetSavings, 0);
+
+  return {
+    benchmarkId: target.benchmarkId,
+    awsAccountId: target.awsAccountId,
+    baseResultId: base.id,
+    targetResultId: target.id,
+    baseExecutedAt: base.executedAt?.toISOString() ?? null,
+    targetExecutedAt: target.executedAt?.toISOString() ?? null,
+    summary: {
+      new: findings.filter(f => f.status === 'new').length,
+      resolved: findings.filter(f => f.status === 'resolved').length,
+      persisting: findings.filter(f => f.status === 'persisting').length,
+      baseSavings,
+      targetSavings,
+      savingsDelta: targetSavings - baseSavings,
+    },
+    findings,
+  };
+}
@@ -0,0 +1,61 @@
+import type { ControlResult, FindingState, FindingStateValue } from "@shared/schema";
+import { findingKey } from "./finding-diff";
+
+// States that take a finding out of savings totals and the default resource list
+const EXCLUDED_STATES = new Set<FindingStateValue>(['suppressed', 'snoozed', 'fixed']);
+
+type FindingRef = Pick<ControlResult, 'awsAccountId' | 'controlId' | 'resourceId' | 'executedAt'>;
+
+/**
+ * Lookup of finding states for a set of control results.
+ * Stored states are resolved against the finding they apply to: snoozes expire,
+ * and a finding marked fixed that shows up again in a later run is open again.
+ */
+export class FindingStateIndex {
+  private states = new Map<string, FindingState>();
+  private now: Date;
+
+  constructor(states: FindingState[], now: Date = new Date()) {
+    this.now = now;
+    for (const state of states) {
+      this.states.set(this.key(state.awsAccountId, state.controlId, state.resourceId), state);
+    }
+  }
+
+  get(finding: Pick<ControlResult, 'awsAccountId' | 'controlId' | 'resourceId'>): FindingState | undefined {
+    return this.states.get(this.key(finding.awsAccountId, finding.controlId, finding.resourceId));
+  }
+
+  /**
+   * The state that applies to a finding from a particular run
+   */
+  effectiveState(finding: FindingRef): FindingStateValue {
+    const state = this.get(finding);
+    if (!state) {
+      return 'open';
+    }
+
+    switch (state.state) {
+      case 'snoozed':
+        return state.snoozedUntil && state.snoozedUntil > this.now ? 'snoozed' : 'open';
+      case 'fixed': {
+        // Reported again by a run after it was marked fixed
+        const reportedAt = finding.executedAt?.getTime() ?? 0;
+        return state.updatedAt && reportedAt > state.updatedAt.getTime() ? 'open' : 'fixed';
+      }
+      default:
+        return state.state as FindingStateValue;
+    }
+  }
+
+  /**
+   * Whether a finding is left out of savings totals and the default resource list
+   */
+  isExcluded(finding: FindingRef): boolean {
+    return EXCLUDED_STATES.has(this.effectiveState(finding));
+  }
+
+  private key(awsAccountId: string, controlId: string, resourceId: string | null): string {
+    return `${awsAccountId}\u0000${findingKey(controlId, resourceId || null)}`;
+  }
+}
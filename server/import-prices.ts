@@ -0,0 +1,40 @@
+/**
+ * Import AWS Price List bulk offer files into the price catalog.
+ *
+ * Usage: npm run prices:import -- [--region=<region>] <file.json|file.csv> ...
+ *
+ * Download regional offer files for AmazonEC2, AmazonRDS, AmazonElastiCache, AmazonRedshift,
+ * AWSLambda, AmazonS3, AWSELB and AmazonVPC from the Price List bulk API, e.g.
+ * https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws/AmazonEC2/current/us-east-1/index.csv
+ * Re-importing a file replaces the prices it contains.
+ */
+import { storage } from "./storage";
+import { pool } from "./db";
+import { parsePriceListFile } from "./price-list";
+
+async function main(args: string[]): Promise<void> {
+  const regionArg = args.find(arg => arg.startsWith('--region='));
+  const region = regionArg?.slice('--region='.length);
+  const files = args.filter(arg => !arg.startsWith('--'));
+
+  if (files.length === 0) {
+    console.error('Usage: npm run prices:import -- [--region=<region>] <file.json|file.csv> ...');
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const file of files) {
+    console.log(`Parsing ${file}...`);
+    const { prices, skipped } = await parsePriceListFile(file, { region });
+    const saved = await storage.upsertCatalogPrices(prices);
+    const regions = new Set(prices.map(price => price.region));
+    console.log(`Imported ${saved} prices for ${regions.size} region(s) from ${file} (${skipped} products skipped)`);
+  }
+}
+
+main(process.argv.slice(2))
+  .catch(error => {
+    console.error('Price catalog import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
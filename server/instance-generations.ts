@@ -0,0 +1,166 @@
+/**
+ * Successors of an instance type: the current generation x86 type and the Graviton (arm64) type
+ * with the same size, or the next larger size the successor family offers
+ */
+export interface InstanceTypeSuccessors {
+  currentGeneration: string | null; // Null for families that are current generation already
+  graviton: string | null;
+}
+
+/**
+ * Successor families of older and x86 families. GPU, storage-dense and memory-extreme families
+ * are left out, since their successors differ in more than price/performance.
+ */
+const FAMILY_SUCCESSORS: Record<string, { currentGeneration?: string; graviton?: string }> = {
+  // Burstable
+  t1: { currentGeneration: 't3', graviton: 't4g' },
+  t2: { currentGeneration: 't3', graviton: 't4g' },
+  t3: { graviton: 't4g' },
+  t3a: { graviton: 't4g' },
+  // General purpose
+  m1: { currentGeneration: 'm6i', graviton: 'm7g' },
+  m3: { currentGeneration: 'm6i', graviton: 'm7g' },
+  m4: { currentGeneration: 'm6i', graviton: 'm7g' },
+  m5: { graviton: 'm7g' },
+  m5a: { graviton: 'm7g' },
+  m6i: { graviton: 'm7g' },
+  m6a: { graviton: 'm7g' },
+  // Compute optimized
+  c1: { currentGeneration: 'c6i', graviton: 'c7g' },
+  c3: { currentGeneration: 'c6i', graviton: 'c7g' },
+  c4: { currentGeneration: 'c6i', graviton: 'c7g' },
+  c5: { graviton: 'c7g' },
+  c5a: { graviton: 'c7g' },
+  c6i: { graviton: 'c7g' },
+  c6a: { graviton: 'c7g' },
+  // Memory optimized
+  m2: { currentGeneration: 'r6i', graviton: 'r7g' },
+  cr1: { currentGeneration: 'r6i', graviton: 'r7g' },
+  r3: { currentGeneration: 'r6i', graviton: 'r7g' },
+  r4: { currentGeneration: 'r6i', graviton: 'r7g' },
+  r5: { graviton: 'r7g' },
+  r5a: { graviton: 'r7g' },
+  r6i: { graviton: 'r7g' },
+  r6a: { graviton: 'r7g' },
+  // Storage optimized
+  i2: { currentGeneration: 'i4i', graviton: 'i4g' },
+  i3: { graviton: 'i4g' },
+  d2: { currentGeneration: 'd3' },
+};
+
+// Sizes from smallest to largest, used to step up to the next size a successor family offers
+const SIZE_ORDER = [
+  'nano', 'micro', 'small', 'medium', 'large', 'xlarge', '2xlarge', '3xlarge', '4xlarge', '6xlarge',
+  '8xlarge', '9xlarge', '10xlarge', '12xlarge', '16xlarge', '18xlarge', '24xlarge', '32xlarge',
+];
+
+const BURSTABLE_SIZES = ['nano', 'micro', 'small', 'medium', 'large', 'xlarge', '2xlarge'];
+const INTEL_SIZES = ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge', '24xlarge', '32xlarge'];
+const GRAVITON_SIZES = ['medium', 'large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge'];
+
+/**
+ * Sizes each successor family offers (metal sizes aren't recommended)
+ */
+const FAMILY_SIZES: Record<string, string[]> = {
+  t3: BURSTABLE_SIZES,
+  t4g: BURSTABLE_SIZES,
+  m6i: INTEL_SIZES,
+  c6i: INTEL_SIZES,
+  r6i: INTEL_SIZES,
+  m7g: GRAVITON_SIZES,
+  c7g: GRAVITON_SIZES,
+  r7g: GRAVITON_SIZES,
+  i4i: ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '16xlarge', '32xlarge'],
+  i4g: ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '16xlarge'],
+  d3: ['xlarge', '2xlarge', '4xlarge', '8xlarge'],
+};
+
+/**
+ * Type of `family` with the given size, or the next larger size it offers; null when it has none that large
+ */
+function successorType(family: string | undefined, size: string): string | null {
+  if (!family) return null;
+  const rank = SIZE_ORDER.indexOf(size);
+  if (rank === -1) return null;
+  const successorSize = FAMILY_SIZES[family].find(candidate => SIZE_ORDER.indexOf(candidate) >= rank);
+  return successorSize ? `${family}.${successorSize}` : null;
+}
+
+/**
+ * Current generation and Graviton successors of an instance type
+ * @example instanceTypeSuccessors('m4.xlarge') // { currentGeneration: 'm6i.xlarge', graviton: 'm7g.xlarge' }
+ * @example instanceTypeSuccessors('m3.medium') // { currentGeneration: 'm6i.large', graviton: 'm7g.medium' }
+ */
+export function instanceTypeSuccessors(instanceType: string): InstanceTypeSuccessors {
+  const [family = '', size = ''] = instanceType.split('.');
+  const successors = FAMILY_SUCCESSORS[family];
+  return {
+    currentGeneration: successorType(successors?.currentGeneration, size),
+    graviton: successorType(successors?.graviton, size),
+  };
+}
+
+/**
+ * Reference on-demand hourly prices (USD, us-east-1, Linux) of the large size of the families above and
+ * their successors, used to price migrations when the price catalog has none for the region.
+ * Families without a large size are scaled from a size they offer (t1.micro, m2.xlarge, cr1.8xlarge, ...).
+ */
+const REFERENCE_LARGE_HOURLY_PRICES: Record<string, number> = {
+  t1: 0.16,
+  t2: 0.0928,
+  t3: 0.0832,
+  t3a: 0.0752,
+  t4g: 0.0672,
+  m1: 0.175,
+  m3: 0.133,
+  m4: 0.10,
+  m5: 0.096,
+  m5a: 0.086,
+  m6i: 0.096,
+  m6a: 0.0864,
+  m7g: 0.0816,
+  c1: 0.26,
+  c3: 0.105,
+  c4: 0.10,
+  c5: 0.085,
+  c5a: 0.077,
+  c6i: 0.085,
+  c6a: 0.0765,
+  c7g: 0.0725,
+  m2: 0.1225,
+  cr1: 0.21875,
+  r3: 0.166,
+  r4: 0.133,
+  r5: 0.126,
+  r5a: 0.113,
+  r6i: 0.126,
+  r6a: 0.1134,
+  r7g: 0.1071,
+  i2: 0.4265,
+  i3: 0.156,
+  i4i: 0.172,
+  i4g: 0.1544,
+  d2: 0.345,
+  d3: 0.2495,
+};
+
+// Size relative to large for the sizes below it; xlarge sizes double per multiple (4xlarge = 8)
+const SUB_LARGE_SIZE_UNITS: Record<string, number> = { nano: 0.0625, micro: 0.125, small: 0.25, medium: 0.5, large: 1 };
+
+function sizeUnits(size: string): number | undefined {
+  if (size in SUB_LARGE_SIZE_UNITS) return SUB_LARGE_SIZE_UNITS[size];
+  const match = /^(\d*)xlarge$/.exec(size);
+  return match ? 2 * Number(match[1] || 1) : undefined;
+}
+
+/**
+ * Reference hourly price of an instance type, assuming prices scale with size within a family
+ * (as they do for on-demand Linux), or undefined for families and sizes without one
+ * @example referenceInstanceHourlyUsd('m5.2xlarge') // 0.384
+ */
+export function referenceInstanceHourlyUsd(instanceType: string): number | undefined {
+  const [family = '', size = ''] = instanceType.split('.');
+  const largeHourlyUsd = REFERENCE_LARGE_HOURLY_PRICES[family];
+  const units = sizeUnits(size);
+  return largeHourlyUsd !== undefined && units !== undefined ? largeHourlyUsd * units : undefined;
+}
@@ -0,0 +1,162 @@
+import type {
+  InventoryChange,
+  InventoryDiff,
+  InventoryFieldChange,
+  InventoryResource,
+  InventorySnapshot,
+} from "@shared/schema";
+import { controlRegistry } from "./control-registry";
+import "./controls";
+import type { RegionPrices } from "./price-catalog";
+import type { InventoryState } from "./storage";
+
+// Order changes so added and removed resources come first
+const CHANGE_ORDER: Record<InventoryChange['changeType'], number> = { created: 0, deleted: 1, modified: 2 };
+
+/**
+ * A benchmark scan that captured inventory, identified by its benchmark result
+ */
+export interface InventoryScan {
+  benchmarkResultId: string;
+  capturedAt: Date; // When its last region was captured
+}
+
+/**
+ * Group snapshots into the scans that captured them, newest first.
+ * Snapshots of deleted benchmark runs can't be referred to and are left out.
+ */
+export function groupInventoryScans(snapshots: InventorySnapshot[]): InventoryScan[] {
+  const scans = new Map<string, InventoryScan>();
+  for (const snapshot of snapshots) {
+    if (!snapshot.benchmarkResultId || !snapshot.capturedAt) continue;
+    const scan = scans.get(snapshot.benchmarkResultId);
+    if (!scan || scan.capturedAt < snapshot.capturedAt) {
+      scans.set(snapshot.benchmarkResultId, { benchmarkResultId: snapshot.benchmarkResultId, capturedAt: snapshot.capturedAt });
+    }
+  }
+  return Array.from(scans.values()).sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+}
+
+/**
+ * Key identifying the same resource across snapshots
+ */
+function resourceKey(resource: InventoryResource): string {
+  return `${resource.resourceType}\u0000${resource.region}\u0000${resource.resourceId}`;
+}
+
+/**
+ * Fields that differ between two captures of a resource, leaving out attributes
+ * that change on their own (e.g. DynamoDB item counts)
+ */
+function fieldChanges(before: InventoryResource, after: InventoryResource): InventoryFieldChange[] {
+  const changes: InventoryFieldChange[] = [];
+  const compare = (field: string, beforeValue: string | number | boolean | null | undefined, afterValue: typeof beforeValue) => {
+    if ((beforeValue ?? null) !== (afterValue ?? null)) {
+      changes.push({ field, before: beforeValue ?? null, after: afterValue ?? null });
+    }
+  };
+
+  compare('name', before.name, after.name);
+  compare('state', before.state, after.state);
+
+  const untracked = controlRegistry.getCollector(after.resourceType)?.untrackedAttributes || [];
+  const attributeKeys = new Set([...Object.keys(before.attributes), ...Object.keys(after.attributes)]);
+  attributeKeys.forEach(key => {
+    if (!untracked.includes(key)) compare(key, before.attributes[key], after.attributes[key]);
+  });
+
+  const tagKeys = new Set([...Object.keys(before.tags || {}), ...Object.keys(after.tags || {})]);
+  tagKeys.forEach(key => compare(`tag:${key}`, before.tags?.[key], after.tags?.[key]));
+
+  return changes;
+}
+
+/**
+ * Compare an account's inventory as of two scans.
+ * Only resource kinds the base already covered in a region are compared, so a kind first
+ * scanned after the base doesn't show up as every one of its resources being created.
+ * Cost impacts use the catalog prices of each resource's region.
+ */
+export function diffInventory(
+  base: { scan: InventoryScan; state: InventoryState },
+  target: { scan: InventoryScan; state: InventoryState },
+  awsAccountId: string,
+  prices: Map<string, RegionPrices>
+): InventoryDiff {
+  const coveredByBase = new Set(base.state.coverage.map(c => `${c.region}|${c.resourceType}`));
+  const comparedSnapshots = new Set(
+    target.state.coverage.filter(c => coveredByBase.has(`${c.region}|${c.resourceType}`)).map(c => c.snapshotId)
+  );
+
+  const baseResources = new Map(base.state.resources.map(resource => [resourceKey(resource), resource]));
+  const targetResources = new Map(
+    target.state.resources
+      .filter(resource => comparedSnapshots.has(resource.snapshotId))
+      .map(resource => [resourceKey(resource), resource])
+  );
+
+  const monthlyCost = (resource: InventoryResource): number | null => {
+    const regionPrices = prices.get(resource.region);
+    return (regionPrices && controlRegistry.inventoryMonthlyCents(resource, regionPrices)) ?? null;
+  };
+  const change = (
+    changeType: InventoryChange['changeType'],
+    resource: InventoryResource,
+    baseCost: number | null,
+    targetCost: number | null,
+    changes: InventoryFieldChange[] = []
+  ): InventoryChange => ({
+    changeType,
+    resourceType: resource.resourceType,
+    resourceId: resource.resourceId,
+    region: resource.region,
+    name: resource.name,
+    changes,
+    baseMonthlyCostCents: baseCost,
+    targetMonthlyCostCents: targetCost,
+    costImpactCents: changeType === 'created' ? targetCost
+      : changeType === 'deleted' ? (baseCost === null ? null : -baseCost)
+      : baseCost === null || targetCost === null ? null : targetCost - baseCost,
+  });
+
+  const changes: InventoryChange[] = [];
+  targetResources.forEach((resource, key) => {
+    const previous = baseResources.get(key);
+    if (!previous) {
+      changes.push(change('created', resource, null, monthlyCost(resource)));
+      return;
+    }
+    const modified = fieldChanges(previous, resource);
+    if (modified.length > 0) {
+      changes.push(change('modified', resource, monthlyCost(previous), monthlyCost(resource), modified));
+    }
+  });
+  baseResources.forEach((resource, key) => {
+    if (!targetResources.has(key)) {
+      changes.push(change('deleted', resource, monthlyCost(resource), null));
+    }
+  });
+
+  changes.sort((a, b) =>
+    CHANGE_ORDER[a.changeType] - CHANGE_ORDER[b.changeType] ||
+    Math.abs(b.costImpactCents ?? 0) - Math.abs(a.costImpactCents ?? 0) ||
+    a.resourceType.localeCompare(b.resourceType) ||
+    a.resourceId.localeCompare(b.resourceId)
+  );
+
+  return {
+    awsAccountId,
+    baseResultId: base.scan.benchmarkResultId,
+    targetResultId: target.scan.benchmarkResultId,
+    baseCapturedAt: base.scan.capturedAt.toISOString(),
+    targetCapturedAt: target.scan.capturedAt.toISOString(),
+    summary: {
+      created: changes.filter(c => c.changeType === 'created').length,
+      deleted: changes.filter(c => c.changeType === 'deleted').length,
+      modified: changes.filter(c => c.changeType === 'modified').length,
+      costImpactCents: changes.reduce((sum, c) => sum + (c.costImpactCents ?? 0), 0),
+      unpricedChanges: changes.filter(c => c.costImpactCents === null).length,
+    },
+    changes,
+  };
+}
@@ -0,0 +1,92 @@
+import type { FunctionConfiguration } from "@aws-sdk/client-lambda";
+import type { ScanContext } from "./control-registry";
+import type { RegionPrices } from "./price-catalog";
+
+export type LambdaArchitecture = 'x86_64' | 'arm64';
+
+const DAYS_PER_MONTH = 30;
+const MB_PER_GB = 1024;
+
+// Lambda memory can be set from 128MB to 10GB; recommendations are rounded up to a 64MB step
+const MIN_MEMORY_MB = 128;
+const MAX_MEMORY_MB = 10240;
+const MEMORY_STEP_MB = 64;
+
+/**
+ * Reference Lambda prices (USD, us-east-1), used when the price catalog has none for the region
+ */
+const REFERENCE_PRICES: Record<LambdaArchitecture, { gbSecond: number; request: number }> = {
+  x86_64: { gbSecond: 0.0000166667, request: 0.0000002 },
+  arm64: { gbSecond: 0.0000133334, request: 0.0000002 },
+};
+
+// Catalog usage types of each architecture (arm64 ones carry an "-ARM" suffix)
+const USAGE_TYPES: Record<LambdaArchitecture, { gbSecond: string; request: string }> = {
+  x86_64: { gbSecond: 'Lambda-GB-Second', request: 'Request' },
+  arm64: { gbSecond: 'Lambda-GB-Second-ARM', request: 'Request-ARM' },
+};
+
+/**
+ * How a function was invoked over a lookback window, from CloudWatch
+ */
+export interface LambdaUsage {
+  days: number; // Length of the lookback window
+  invocations: number;
+  durationMs: number; // Summed over all invocations
+  maxMemoryUsedMb: number | null; // Peak memory used by an invocation; null without Lambda Insights
+}
+
+export function functionArchitecture(func: FunctionConfiguration): LambdaArchitecture {
+  return func.Architectures?.includes('arm64') ? 'arm64' : 'x86_64';
+}
+
+/**
+ * Invocations, duration and peak memory of a function over the last `days` days.
+ * Lambda publishes no metrics for days without invocations, so a function never invoked has zero usage.
+ * Peak memory comes from Lambda Insights, which has to be enabled on the function.
+ */
+export async function lambdaUsage(func: FunctionConfiguration, ctx: ScanContext, days: number): Promise<LambdaUsage> {
+  const functionName = func.FunctionName || '';
+  const [invocations, duration, memoryUsed] = await ctx.metrics.getDailyValues([
+    { namespace: 'AWS/Lambda', metricName: 'Invocations', dimensions: { FunctionName: functionName }, statistic: 'Sum' },
+    { namespace: 'AWS/Lambda', metricName: 'Duration', dimensions: { FunctionName: functionName }, statistic: 'Sum' },
+    { namespace: 'LambdaInsights', metricName: 'used_memory_max', dimensions: { function_name: functionName }, statistic: 'Maximum' },
+  ], days, ctx.now);
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return {
+    days,
+    invocations: sum(invocations),
+    durationMs: sum(duration),
+    maxMemoryUsedMb: memoryUsed.length > 0 ? Math.max(...memoryUsed) : null,
+  };
+}
+
+/**
+ * Monthly cost in cents of a function's usage at a memory size and architecture,
+ * assuming invocations keep their current rate and duration
+ */
+export function lambdaMonthlyCents(
+  usage: LambdaUsage,
+  memoryMb: number,
+  architecture: LambdaArchitecture,
+  prices: RegionPrices
+): number {
+  const usageTypes = USAGE_TYPES[architecture];
+  const gbSecondUsd = prices.getPrice('AWSLambda', usageTypes.gbSecond)?.pricePerUnit ?? REFERENCE_PRICES[architecture].gbSecond;
+  const requestUsd = prices.getPrice('AWSLambda', usageTypes.request)?.pricePerUnit ?? REFERENCE_PRICES[architecture].request;
+
+  const gbSeconds = (usage.durationMs / 1000) * (memoryMb / MB_PER_GB);
+  const windowUsd = gbSeconds * gbSecondUsd + usage.invocations * requestUsd;
+  return Math.round((windowUsd / usage.days) * DAYS_PER_MONTH * 100);
+}
+
+/**
+ * Smallest memory size that covers the function's peak usage plus headroom, or null without Lambda Insights data.
+ * Memory also sets a function's CPU share, so the headroom guards against slower invocations.
+ */
+export function recommendedMemoryMb(usage: LambdaUsage, headroomPercent: number): number | null {
+  if (usage.maxMemoryUsedMb === null) return null;
+  const needed = usage.maxMemoryUsedMb * (1 + headroomPercent / 100);
+  return Math.min(MAX_MEMORY_MB, Math.max(MIN_MEMORY_MB, Math.ceil(needed / MEMORY_STEP_MB) * MEMORY_STEP_MB));
+}
@@ -0,0 +1,96 @@
+import type { ScanContext } from "./control-registry";
+import { HOURS_PER_MONTH, type RegionPrices } from "./price-catalog";
+import type { MetricQuery } from "./metrics-source";
+
+export type LoadBalancerType = 'application' | 'network' | 'gateway' | 'classic';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Price list operation of each load balancer type; they share the "LoadBalancerUsage" usage type
+ */
+export const LOAD_BALANCER_OPERATIONS: Record<LoadBalancerType, string> = {
+  application: 'LoadBalancing:Application',
+  network: 'LoadBalancing:Network',
+  gateway: 'LoadBalancing:Gateway',
+  classic: 'LoadBalancing',
+};
+
+/**
+ * Reference prices (USD, us-east-1), used when the price catalog has none for the region.
+ * Capacity units are LCU-hours, except for Classic load balancers, which are billed per GB processed.
+ */
+const REFERENCE_PRICES: Record<LoadBalancerType, { hourly: number; capacityUnit: number }> = {
+  application: { hourly: 0.0225, capacityUnit: 0.008 },
+  network: { hourly: 0.0225, capacityUnit: 0.006 },
+  gateway: { hourly: 0.0125, capacityUnit: 0.004 },
+  classic: { hourly: 0.025, capacityUnit: 0.008 },
+};
+
+/**
+ * CloudWatch namespace and the metric that counts a load balancer's traffic
+ */
+const TRAFFIC_METRICS: Record<LoadBalancerType, { namespace: string; metricName: string }> = {
+  application: { namespace: 'AWS/ApplicationELB', metricName: 'RequestCount' },
+  network: { namespace: 'AWS/NetworkELB', metricName: 'NewFlowCount' },
+  gateway: { namespace: 'AWS/GatewayELB', metricName: 'NewFlowCount' },
+  classic: { namespace: 'AWS/ELB', metricName: 'RequestCount' },
+};
+
+/**
+ * Traffic of a load balancer over a lookback window, from CloudWatch
+ */
+export interface LoadBalancerActivity {
+  days: number; // Length of the lookback window
+  requests: number; // Requests (Application, Classic) or new flows (Network, Gateway)
+  capacityUnitsPerMonth: number; // LCU-hours, or GB processed for Classic load balancers
+}
+
+/**
+ * CloudWatch dimension of a load balancer: the ARN suffix ("app/my-lb/123") for ALB/NLB/GWLB, the name for Classic
+ */
+export function loadBalancerDimensions(type: LoadBalancerType, nameOrArn: string): Record<string, string> {
+  if (type === 'classic') return { LoadBalancerName: nameOrArn };
+  return { LoadBalancer: nameOrArn.split(':loadbalancer/')[1] || nameOrArn };
+}
+
+/**
+ * Requests and capacity units of a load balancer over the last `days` days.
+ * Load balancers publish no traffic metrics for days without traffic, so an unused one has zero activity.
+ */
+export async function loadBalancerActivity(
+  type: LoadBalancerType,
+  nameOrArn: string,
+  ctx: ScanContext,
+  days: number
+): Promise<LoadBalancerActivity> {
+  const { namespace, metricName } = TRAFFIC_METRICS[type];
+  const dimensions = loadBalancerDimensions(type, nameOrArn);
+  const queries: MetricQuery[] = [
+    { namespace, metricName, dimensions, statistic: 'Sum' },
+    // Classic load balancers have no LCUs; they are billed for the bytes they process
+    type === 'classic'
+      ? { namespace, metricName: 'EstimatedProcessedBytes', dimensions, statistic: 'Sum' }
+      : { namespace, metricName: 'ConsumedLCUs', dimensions, statistic: 'Average' },
+  ];
+  const [requests, capacity] = await ctx.metrics.getDailyValues(queries, days, ctx.now);
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const capacityUnitsPerMonth = type === 'classic'
+    ? (sum(capacity) / BYTES_PER_GB / days) * DAYS_PER_MONTH
+    // Daily averages of LCUs in use; days without data used none
+    : (sum(capacity) / days) * HOURS_PER_MONTH;
+  return { days, requests: sum(requests), capacityUnitsPerMonth };
+}
+
+/**
+ * Monthly cost in cents of a load balancer: its hourly charge plus the capacity units it uses
+ */
+export function loadBalancerMonthlyCents(type: LoadBalancerType, capacityUnitsPerMonth: number, prices: RegionPrices): number {
+  const operation = LOAD_BALANCER_OPERATIONS[type];
+  const hourlyUsd = prices.getPrice('AWSELB', 'LoadBalancerUsage', operation)?.pricePerUnit ?? REFERENCE_PRICES[type].hourly;
+  const capacityUnitUsd = prices.getPrice('AWSELB', type === 'classic' ? 'DataProcessing-Bytes' : 'LCUUsage', operation)?.pricePerUnit
+    ?? REFERENCE_PRICES[type].capacityUnit;
+  return Math.round((hourlyUsd * HOURS_PER_MONTH + capacityUnitUsd * capacityUnitsPerMonth) * 100);
+}
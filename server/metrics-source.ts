@@ -0,0 +1,145 @@
+import { CloudWatchClient, GetMetricDataCommand } from "@aws-sdk/client-cloudwatch";
+import { collectPages } from "./aws-pagination";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+const MAX_QUERIES_PER_REQUEST = 500; // GetMetricData limit
+
+export type MetricStatistic = 'Average' | 'Sum' | 'Maximum' | 'Minimum';
+
+/**
+ * One CloudWatch metric of one resource, e.g. AWS/EC2 CPUUtilization of an instance
+ */
+export interface MetricQuery {
+  namespace: string; // e.g. "AWS/EC2"
+  metricName: string;
+  dimensions: Record<string, string>;
+  statistic: MetricStatistic; // Applied per day
+  region?: string; // Region the metric is published in, for global resources such as S3 buckets; defaults to the scan's region
+}
+
+/**
+ * Where controls read utilization metrics from.
+ * Scans use CloudWatch; FixtureMetricsSource serves recorded values instead.
+ */
+export interface MetricsSource {
+  /**
+   * Daily values of each query over the last `days` days, oldest first.
+   * Days without data are left out, so a resource with no metrics gets an empty list.
+   */
+  getDailyValues(queries: MetricQuery[], days: number, now: Date): Promise<number[][]>;
+}
+
+/**
+ * Stable key of a query, also used to look up fixtures
+ * @example metricKey({ namespace: 'AWS/EC2', metricName: 'CPUUtilization', dimensions: { InstanceId: 'i-1' }, statistic: 'Average' })
+ *   // "AWS/EC2/CPUUtilization/Average?InstanceId=i-1"
+ * @example metricKey({ namespace: 'AWS/S3', metricName: 'NumberOfObjects', dimensions: { ... }, statistic: 'Average', region: 'eu-west-1' })
+ *   // "AWS/S3/NumberOfObjects/Average?BucketName=b&StorageType=AllStorageTypes@eu-west-1"
+ */
+export function metricKey(query: MetricQuery): string {
+  const dimensions = Object.entries(query.dimensions)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  return `${query.namespace}/${query.metricName}/${query.statistic}?${dimensions}${query.region ? `@${query.region}` : ''}`;
+}
+
+/**
+ * Metrics from CloudWatch GetMetricData at a one-day period.
+ * Each query is fetched once per lookback window and shared by the controls that read it.
+ * Queries for another region go to a client for that region, created with the same credentials.
+ */
+export class CloudWatchMetricsSource implements MetricsSource {
+  private client: CloudWatchClient;
+  private regionalClients = new Map<string, CloudWatchClient>();
+  private cache = new Map<string, Promise<number[]>>();
+
+  constructor(client: CloudWatchClient) {
+    this.client = client;
+  }
+
+  getDailyValues(queries: MetricQuery[], days: number, now: Date): Promise<number[][]> {
+    const cacheKey = (query: MetricQuery) => `${days}:${metricKey(query)}`;
+    const missing = queries.filter(query => !this.cache.has(cacheKey(query)));
+
+    // GetMetricData reads one region, so missing queries are fetched per region
+    const byRegion = new Map<string | undefined, MetricQuery[]>();
+    for (const query of missing) {
+      byRegion.set(query.region, [...(byRegion.get(query.region) || []), query]);
+    }
+    byRegion.forEach((regionQueries, region) => {
+      const fetched = this.fetch(this.clientFor(region), regionQueries, days, now);
+      regionQueries.forEach((query, index) => this.cache.set(cacheKey(query), fetched.then(values => values[index])));
+    });
+    return Promise.all(queries.map(query => this.cache.get(cacheKey(query))!));
+  }
+
+  private clientFor(region: string | undefined): CloudWatchClient {
+    if (!region) return this.client;
+    let client = this.regionalClients.get(region);
+    if (!client) {
+      client = new CloudWatchClient({ region, credentials: this.client.config.credentials });
+      this.regionalClients.set(region, client);
+    }
+    return client;
+  }
+
+  private async fetch(client: CloudWatchClient, queries: MetricQuery[], days: number, now: Date): Promise<number[][]> {
+    // Periods of an hour or more must start on the hour
+    const endTime = new Date(Math.floor(now.getTime() / HOUR_MS) * HOUR_MS);
+    const startTime = new Date(endTime.getTime() - days * DAY_SECONDS * 1000);
+    const values = queries.map((): number[] => []);
+
+    for (let offset = 0; offset < queries.length; offset += MAX_QUERIES_PER_REQUEST) {
+      const batch = queries.slice(offset, offset + MAX_QUERIES_PER_REQUEST);
+      const results = await collectPages(
+        NextToken => client.send(new GetMetricDataCommand({
+          MetricDataQueries: batch.map((query, index) => ({
+            Id: `m${index}`,
+            MetricStat: {
+              Metric: {
+                Namespace: query.namespace,
+                MetricName: query.metricName,
+                Dimensions: Object.entries(query.dimensions).map(([Name, Value]) => ({ Name, Value })),
+              },
+              Period: DAY_SECONDS,
+              Stat: query.statistic,
+            },
+            ReturnData: true,
+          })),
+          StartTime: startTime,
+          EndTime: endTime,
+          ScanBy: 'TimestampAscending',
+          NextToken,
+        })),
+        page => page.MetricDataResults,
+        page => page.NextToken
+      );
+
+      // A query's values can be split across pages, in timestamp order
+      for (const result of results) {
+        const index = offset + Number(result.Id?.slice(1));
+        values[index]?.push(...(result.Values || []));
+      }
+    }
+
+    return values;
+  }
+}
+
+/**
+ * Metrics served from recorded daily values keyed by metricKey(), oldest first.
+ * Lets controls be exercised against fixtures without CloudWatch.
+ */
+export class FixtureMetricsSource implements MetricsSource {
+  private fixtures: Record<string, number[]>;
+
+  constructor(fixtures: Record<string, number[]>) {
+    this.fixtures = fixtures;
+  }
+
+  async getDailyValues(queries: MetricQuery[], days: number): Promise<number[][]> {
+    return queries.map(query => (this.fixtures[metricKey(query)] || []).slice(-days));
+  }
+}
@@ -0,0 +1,162 @@
+import { GetCostAndUsageCommand, type CostExplorerClient } from "@aws-sdk/client-cost-explorer";
+import type { VpcEndpoint } from "@aws-sdk/client-ec2";
+import type { ScanContext } from "./control-registry";
+import { HOURS_PER_MONTH, type RegionPrices } from "./price-catalog";
+import { collectPages } from "./aws-pagination";
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Reference prices (USD, us-east-1), used when the price catalog has none for the region
+ */
+const REFERENCE_PRICES = {
+  natGatewayHourly: 0.045,
+  natGatewayPerGb: 0.045,
+  endpointHourly: 0.01, // Per interface endpoint per Availability Zone
+  publicIpv4Hourly: 0.005,
+};
+
+/**
+ * Kinds of data transfer, told apart by their Cost Explorer usage type
+ */
+export type DataTransferCategory = 'internet' | 'cross-az' | 'inter-region' | 'nat-gateway' | 'vpc-endpoint' | 'transit-gateway';
+
+// Matched in order against usage types with the region prefix stripped, e.g. "DataTransfer-Regional-Bytes"
+const DATA_TRANSFER_USAGE_TYPES: Array<{ pattern: RegExp; category: DataTransferCategory }> = [
+  { pattern: /^DataTransfer-Regional-Bytes$/, category: 'cross-az' },
+  { pattern: /^DataTransfer-(Out|In)-Bytes$/, category: 'internet' },
+  { pattern: /^([A-Z]{2,4}\d?-)?AWS-(Out|In)-Bytes$/, category: 'inter-region' }, // e.g. "USE2-AWS-Out-Bytes"
+  { pattern: /^NatGateway-Bytes$/, category: 'nat-gateway' },
+  { pattern: /^VpcEndpoint-Bytes$/, category: 'vpc-endpoint' },
+  { pattern: /^TransitGateway-Bytes$/, category: 'transit-gateway' },
+];
+
+/**
+ * Data transfer charged under one usage type in one region over the last 30 days, from Cost Explorer
+ */
+export interface DataTransferUsage {
+  usageType: string; // As reported, e.g. "USE1-DataTransfer-Regional-Bytes"
+  region: string | null; // Null for usage Cost Explorer reports without a region
+  category: DataTransferCategory;
+  costCents: number;
+  quantity: number; // In `unit`, usually GB
+  unit: string | null;
+}
+
+/**
+ * Category of a data transfer usage type, or null for other usage
+ */
+export function dataTransferCategory(usageType: string): DataTransferCategory | null {
+  // Strip the region prefix, e.g. "USE1-" (us-east-1 usage types sometimes have none)
+  const unprefixed = usageType.replace(/^[A-Z]{2,4}\d?-(?=[A-Za-z])/, '');
+  return DATA_TRANSFER_USAGE_TYPES.find(({ pattern }) => pattern.test(unprefixed))?.category ?? null;
+}
+
+/**
+ * Data transfer costs of the account over the last 30 days, per usage type and region.
+ * Cost Explorer can't filter usage types by pattern, so all usage is grouped and other usage types are dropped.
+ */
+export async function getDataTransferUsage(client: CostExplorerClient, now: Date): Promise<DataTransferUsage[]> {
+  const end = new Date(now);
+  const start = new Date(now);
+  start.setDate(start.getDate() - DAYS_PER_MONTH);
+
+  const results = await collectPages(
+    NextPageToken => client.send(new GetCostAndUsageCommand({
+      TimePeriod: { Start: start.toISOString().split('T')[0], End: end.toISOString().split('T')[0] },
+      Granularity: 'MONTHLY',
+      Metrics: ['UnblendedCost', 'UsageQuantity'],
+      GroupBy: [
+        { Type: 'DIMENSION', Key: 'USAGE_TYPE' },
+        { Type: 'DIMENSION', Key: 'REGION' },
+      ],
+      NextPageToken,
+    })),
+    page => page.ResultsByTime,
+    page => page.NextPageToken
+  );
+
+  // The window spans two calendar months, so each usage type can appear in two results
+  const usage = new Map<string, DataTransferUsage>();
+  for (const group of results.flatMap(result => result.Groups || [])) {
+    const [usageType = '', region = ''] = group.Keys || [];
+    const category = dataTransferCategory(usageType);
+    if (!category) continue;
+
+    const key = `${usageType}|${region}`;
+    const entry = usage.get(key) || {
+      usageType,
+      region: region && region !== 'NoRegion' && region !== 'global' ? region : null,
+      category,
+      costCents: 0,
+      quantity: 0,
+      unit: group.Metrics?.UsageQuantity?.Unit ?? null,
+    };
+    entry.costCents += Math.round(parseFloat(group.Metrics?.UnblendedCost?.Amount || '0') * 100);
+    entry.quantity += parseFloat(group.Metrics?.UsageQuantity?.Amount || '0');
+    usage.set(key, entry);
+  }
+  return Array.from(usage.values());
+}
+
+/**
+ * GB a NAT gateway processed per day over the last `days` days, in both directions.
+ * NAT gateways publish no metrics for days without traffic, so an unused one processed nothing.
+ */
+export async function natGatewayGbPerDay(natGatewayId: string, ctx: ScanContext, days: number): Promise<number> {
+  const dimensions = { NatGatewayId: natGatewayId };
+  const series = await ctx.metrics.getDailyValues([
+    { namespace: 'AWS/NATGateway', metricName: 'BytesInFromSource', dimensions, statistic: 'Sum' },
+    { namespace: 'AWS/NATGateway', metricName: 'BytesInFromDestination', dimensions, statistic: 'Sum' },
+  ], days, ctx.now);
+  return series.flat().reduce((sum, bytes) => sum + bytes, 0) / BYTES_PER_GB / days;
+}
+
+/**
+ * Bytes an interface VPC endpoint processed over the last `days` days
+ */
+export async function endpointBytesProcessed(endpoint: VpcEndpoint, ctx: ScanContext, days: number): Promise<number> {
+  const [bytes] = await ctx.metrics.getDailyValues([{
+    namespace: 'AWS/PrivateLinkEndpoints',
+    metricName: 'BytesProcessed',
+    dimensions: {
+      'Endpoint Type': 'Interface',
+      'Service Name': endpoint.ServiceName || '',
+      'VPC Endpoint Id': endpoint.VpcEndpointId || '',
+      'VPC Id': endpoint.VpcId || '',
+    },
+    statistic: 'Sum',
+  }], days, ctx.now);
+  return bytes.reduce((sum, value) => sum + value, 0);
+}
+
+function priceUsd(prices: RegionPrices, serviceCode: string, usageType: string, reference: number): number {
+  return prices.getPrice(serviceCode, usageType)?.pricePerUnit ?? reference;
+}
+
+/**
+ * Monthly cost in cents of a NAT gateway: its hourly charge plus the GB it processes
+ */
+export function natGatewayMonthlyCents(gbPerDay: number, prices: RegionPrices): number {
+  const hourly = priceUsd(prices, 'AmazonEC2', 'NatGateway-Hours', REFERENCE_PRICES.natGatewayHourly);
+  const perGb = priceUsd(prices, 'AmazonEC2', 'NatGateway-Bytes', REFERENCE_PRICES.natGatewayPerGb);
+  return Math.round((hourly * HOURS_PER_MONTH + perGb * gbPerDay * DAYS_PER_MONTH) * 100);
+}
+
+/**
+ * Monthly cost in cents of an interface VPC endpoint, billed per Availability Zone (network interface) it has
+ */
+export function interfaceEndpointMonthlyCents(endpoint: VpcEndpoint, prices: RegionPrices): number {
+  const hourly = priceUsd(prices, 'AmazonVPC', 'VpcEndpoint-Hours', REFERENCE_PRICES.endpointHourly);
+  const zones = Math.max(1, endpoint.NetworkInterfaceIds?.length ?? 0);
+  return Math.round(hourly * HOURS_PER_MONTH * zones * 100);
+}
+
+/**
+ * Monthly cost in cents of a public IPv4 address that isn't attached to a running resource
+ */
+export function idlePublicIpv4MonthlyCents(prices: RegionPrices): number {
+  const hourly = priceUsd(prices, 'AmazonVPC', 'PublicIPv4:IdleAddress', REFERENCE_PRICES.publicIpv4Hourly);
+  return Math.round(hourly * HOURS_PER_MONTH * 100);
+}
@@ -0,0 +1,165 @@
+import type { CatalogPrice } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type PriceCatalogStore = Pick<IStorage, 'getCatalogPrices'>;
+
+export const HOURS_PER_MONTH = 730;
+
+// Regions are reloaded after this long, so a re-import is picked up without a restart
+const REGION_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Usage type of an on-demand instance (Linux EC2, MySQL RDS, Redis ElastiCache, Redshift compute node)
+ */
+function instanceUsage(instanceType: string): { serviceCode: string; usageType: string; operation: string } {
+  if (instanceType.startsWith('db.')) {
+    return { serviceCode: 'AmazonRDS', usageType: `InstanceUsage:${instanceType}`, operation: 'CreateDBInstance:0002' };
+  }
+  if (instanceType.startsWith('cache.')) {
+    return { serviceCode: 'AmazonElastiCache', usageType: `NodeUsage:${instanceType}`, operation: 'CreateCacheCluster:0002' };
+  }
+  if (/^(dc|ds|ra)\d/.test(instanceType)) {
+    return { serviceCode: 'AmazonRedshift', usageType: `Node:${instanceType}`, operation: 'RunComputeNode:0001' };
+  }
+  return { serviceCode: 'AmazonEC2', usageType: `BoxUsage:${instanceType}`, operation: 'RunInstances' };
+}
+
+/**
+ * Usage types of per-GB-month storage, keyed by the storage class names the savings models use
+ */
+const STORAGE_CLASS_USAGE: Record<string, { serviceCode: string; usageType: string }> = {
+  // EBS volume types
+  'standard': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage' },
+  'gp2': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage.gp2' },
+  'gp3': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage.gp3' },
+  'io1': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage.piops' },
+  'io2': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage.io2' },
+  'st1': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage.st1' },
+  'sc1': { serviceCode: 'AmazonEC2', usageType: 'EBS:VolumeUsage.sc1' },
+  // EBS snapshot tiers
+  'snapshot-standard': { serviceCode: 'AmazonEC2', usageType: 'EBS:SnapshotUsage' },
+  'snapshot-archive': { serviceCode: 'AmazonEC2', usageType: 'EBS:SnapshotArchiveStorage' },
+  // RDS storage (single-AZ) and manual snapshots beyond the free backup allowance
+  'rds-standard': { serviceCode: 'AmazonRDS', usageType: 'RDS:StorageUsage' },
+  'rds-gp2': { serviceCode: 'AmazonRDS', usageType: 'RDS:GP2-Storage' },
+  'rds-gp3': { serviceCode: 'AmazonRDS', usageType: 'RDS:GP3-Storage' },
+  'rds-io1': { serviceCode: 'AmazonRDS', usageType: 'RDS:PIOPS-Storage' },
+  'rds-snapshot': { serviceCode: 'AmazonRDS', usageType: 'RDS:ChargedBackupUsage' },
+  // S3 storage classes
+  'STANDARD': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-ByteHrs' },
+  'STANDARD_IA': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-SIA-ByteHrs' },
+  'ONEZONE_IA': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-ZIA-ByteHrs' },
+  'INTELLIGENT_TIERING': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-INT-FA-ByteHrs' }, // Frequent Access tier
+  'INTELLIGENT_TIERING_IA': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-INT-IA-ByteHrs' },
+  'INTELLIGENT_TIERING_AIA': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-INT-AIA-ByteHrs' },
+  'REDUCED_REDUNDANCY': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-RRS-ByteHrs' },
+  'GLACIER_IR': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-GIR-ByteHrs' },
+  'GLACIER': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-GlacierByteHrs' },
+  'DEEP_ARCHIVE': { serviceCode: 'AmazonS3', usageType: 'TimedStorage-GDA-ByteHrs' },
+};
+
+/**
+ * Catalog prices of one region, looked up by service and usage type.
+ * Lookups return undefined when the catalog has no price, so callers can fall back.
+ */
+export class RegionPrices {
+  readonly region: string;
+  private prices = new Map<string, CatalogPrice[]>();
+
+  constructor(region: string, prices: CatalogPrice[] = []) {
+    this.region = region;
+    for (const price of prices) {
+      const key = `${price.serviceCode}|${price.usageType}`;
+      const entries = this.prices.get(key) || [];
+      entries.push(price);
+      this.prices.set(key, entries);
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.prices.size === 0;
+  }
+
+  /**
+   * Catalog entry for a usage type, preferring the given operation when several products share the usage type
+   */
+  getPrice(serviceCode: string, usageType: string, operation?: string): CatalogPrice | undefined {
+    const entries = this.prices.get(`${serviceCode}|${usageType}`);
+    if (!entries) return undefined;
+    return (operation !== undefined && entries.find(entry => entry.operation === operation)) || entries[0];
+  }
+
+  /**
+   * Monthly cost in cents of `quantity` units of a usage type.
+   * Hourly prices are multiplied out to a month; other units (GB-Mo, ...) are taken as monthly already.
+   */
+  monthlyCents(serviceCode: string, usageType: string, quantity: number = 1, operation?: string): number | undefined {
+    const price = this.getPrice(serviceCode, usageType, operation);
+    if (!price) return undefined;
+    const hours = price.unit.startsWith('Hr') ? HOURS_PER_MONTH : 1;
+    return Math.round(price.pricePerUnit * hours * quantity * 100);
+  }
+
+  /**
+   * On-demand hourly price in USD of an instance type (e.g. "m5.large", "db.m5.large", "cache.m5.large", "dc2.large")
+   */
+  instanceHourlyUsd(instanceType: string): number | undefined {
+    const { serviceCode, usageType, operation } = instanceUsage(instanceType);
+    return this.getPrice(serviceCode, usageType, operation)?.pricePerUnit;
+  }
+
+  /**
+   * Monthly on-demand cost in cents of `count` instances of a type
+   */
+  instanceMonthlyCents(instanceType: string, count: number = 1): number | undefined {
+    const { serviceCode, usageType, operation } = instanceUsage(instanceType);
+    return this.monthlyCents(serviceCode, usageType, count, operation);
+  }
+
+  /**
+   * Price in USD per GB-month of a storage class (EBS volume type, snapshot tier, RDS or S3 storage class)
+   */
+  storageGbMonthUsd(storageClass: string): number | undefined {
+    const usage = STORAGE_CLASS_USAGE[storageClass];
+    return usage ? this.getPrice(usage.serviceCode, usage.usageType)?.pricePerUnit : undefined;
+  }
+
+  /**
+   * Monthly cost in cents of storing `sizeGb` in a storage class
+   */
+  storageMonthlyCents(storageClass: string, sizeGb: number): number | undefined {
+    const pricePerGb = this.storageGbMonthUsd(storageClass);
+    return pricePerGb === undefined ? undefined : Math.round(pricePerGb * sizeGb * 100);
+  }
+}
+
+/**
+ * Loads catalog prices per region for benchmark runs.
+ * Each region is read from the database once and cached for an hour.
+ */
+export class PriceCatalog {
+  private store: PriceCatalogStore;
+  private regions = new Map<string, { loadedAt: number; prices: Promise<RegionPrices> }>();
+
+  constructor(store: PriceCatalogStore) {
+    this.store = store;
+  }
+
+  getRegionPrices(region: string): Promise<RegionPrices> {
+    const cached = this.regions.get(region);
+    if (cached && Date.now() - cached.loadedAt < REGION_CACHE_TTL_MS) {
+      return cached.prices;
+    }
+
+    const prices = this.store.getCatalogPrices({ region })
+      .then(rows => new RegionPrices(region, rows))
+      .catch(error => {
+        console.error(`Error loading price catalog for ${region}:`, error);
+        // Don't cache the failure; the next run retries
+        this.regions.delete(region);
+        return new RegionPrices(region);
+      });
+    this.regions.set(region, { loadedAt: Date.now(), prices });
+    return prices;
+  }
+}
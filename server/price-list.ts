@@ -0,0 +1,260 @@
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { createInterface } from "readline";
+import type { InsertCatalogPrice } from "@shared/schema";
+
+/**
+ * Parsers for AWS Price List bulk offer files (JSON or CSV, as downloaded from
+ * https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws/<offerCode>/current/<region>/index.json|csv).
+ * Only on-demand prices of the services the price catalog covers are kept.
+ */
+
+// Offer codes the catalog covers; EBS and Elastic IP prices are part of AmazonEC2
+export const PRICE_CATALOG_SERVICES = [
+  'AmazonEC2',
+  'AmazonRDS',
+  'AmazonElastiCache',
+  'AmazonRedshift',
+  'AWSLambda',
+  'AmazonS3',
+  'AWSELB',
+  'AmazonVPC',
+];
+
+export interface PriceListParseOptions {
+  region?: string; // Used for products without a regionCode attribute (older files)
+}
+
+export interface PriceListParseResult {
+  prices: InsertCatalogPrice[];
+  skipped: number; // Products outside the catalog (other services, non-Linux instances, no region)
+}
+
+/**
+ * Product attributes, named as in the JSON files (CSV column names are mapped onto these)
+ */
+interface ProductAttributes {
+  servicecode?: string;
+  regionCode?: string;
+  usagetype?: string;
+  operation?: string;
+  productFamily?: string;
+  tenancy?: string;
+  capacitystatus?: string;
+  preInstalledSw?: string;
+}
+
+interface PriceDimension {
+  unit: string;
+  pricePerUnit: number;
+  beginRange: number;
+  description: string | null;
+  effectiveDate: Date | null;
+}
+
+/**
+ * Strip the region prefix from a usage type ("USE2-BoxUsage:m5.large" -> "BoxUsage:m5.large").
+ * us-east-1 usage types usually have no prefix, so prices are stored without one and keyed by region instead.
+ */
+export function normalizeUsageType(usageType: string): string {
+  return usageType.replace(/^[A-Z]{2,4}\d?-(?=[A-Za-z])/, '');
+}
+
+/**
+ * Whether a product belongs in the catalog.
+ * EC2 instances are only kept as shared-tenancy Linux without pre-installed software,
+ * which is what the controls price; the other OS and licence variants multiply the file size.
+ */
+function isCatalogProduct(attributes: ProductAttributes): boolean {
+  if (!attributes.servicecode || !PRICE_CATALOG_SERVICES.includes(attributes.servicecode)) return false;
+  if (!attributes.usagetype) return false;
+  if (attributes.servicecode === 'AmazonEC2' && attributes.productFamily === 'Compute Instance') {
+    return attributes.operation === 'RunInstances' &&
+      attributes.tenancy === 'Shared' &&
+      (attributes.preInstalledSw ?? 'NA') === 'NA' &&
+      (attributes.capacitystatus ?? 'Used') === 'Used';
+  }
+  return true;
+}
+
+/**
+ * Collects the first pricing tier of every product, keeping one price per service/region/usage type/operation
+ */
+class PriceCollector {
+  private prices = new Map<string, InsertCatalogPrice & { beginRange: number }>();
+  skipped = 0;
+
+  constructor(private options: PriceListParseOptions) {}
+
+  add(sku: string, attributes: ProductAttributes, dimension: PriceDimension): void {
+    const region = attributes.regionCode || this.options.region;
+    if (!isCatalogProduct(attributes) || !region || !Number.isFinite(dimension.pricePerUnit)) {
+      this.skipped++;
+      return;
+    }
+
+    const usageType = normalizeUsageType(attributes.usagetype!);
+    const operation = attributes.operation || '';
+    const key = [attributes.servicecode, region, usageType, operation].join('|');
+    const existing = this.prices.get(key);
+    if (existing && existing.beginRange <= dimension.beginRange) return;
+
+    this.prices.set(key, {
+      serviceCode: attributes.servicecode!,
+      region,
+      usageType,
+      operation,
+      unit: dimension.unit,
+      pricePerUnit: dimension.pricePerUnit,
+      sku,
+      description: dimension.description,
+      effectiveDate: dimension.effectiveDate,
+      beginRange: dimension.beginRange,
+    });
+  }
+
+  result(): PriceListParseResult {
+    const prices = Array.from(this.prices.values()).map(({ beginRange, ...price }) => price);
+    return { prices, skipped: this.skipped };
+  }
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a JSON offer file. The whole file is read into memory, so prefer
+ * regional files (or CSV) for AmazonEC2, whose all-region file is several GB.
+ */
+export async function parsePriceListJson(path: string, options: PriceListParseOptions = {}): Promise<PriceListParseResult> {
+  const offer = JSON.parse(await readFile(path, 'utf8'));
+  const collector = new PriceCollector(options);
+
+  for (const [sku, skuTerms] of Object.entries<any>(offer.terms?.OnDemand || {})) {
+    const product = offer.products?.[sku];
+    if (!product) continue;
+    const attributes: ProductAttributes = {
+      servicecode: offer.offerCode,
+      productFamily: product.productFamily,
+      ...product.attributes,
+    };
+
+    for (const term of Object.values<any>(skuTerms)) {
+      for (const dimension of Object.values<any>(term.priceDimensions || {})) {
+        collector.add(sku, attributes, {
+          unit: dimension.unit,
+          pricePerUnit: parseFloat(dimension.pricePerUnit?.USD),
+          beginRange: parseFloat(dimension.beginRange || '0'),
+          description: dimension.description || null,
+          effectiveDate: parseDate(term.effectiveDate),
+        });
+      }
+    }
+  }
+
+  return collector.result();
+}
+
+/**
+ * Split one CSV line into fields, handling quoted fields and doubled quotes
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// CSV column -> JSON attribute name
+const CSV_ATTRIBUTE_COLUMNS: Record<string, keyof ProductAttributes> = {
+  'serviceCode': 'servicecode',
+  'Region Code': 'regionCode',
+  'usageType': 'usagetype',
+  'operation': 'operation',
+  'Product Family': 'productFamily',
+  'Tenancy': 'tenancy',
+  'CapacityStatus': 'capacitystatus',
+  'Pre Installed S/W': 'preInstalledSw',
+};
+
+/**
+ * Parse a CSV offer file line by line, so large files don't have to fit in memory.
+ * The file starts with metadata lines (FormatVersion, Disclaimer, ...) before the header row.
+ */
+export async function parsePriceListCsv(path: string, options: PriceListParseOptions = {}): Promise<PriceListParseResult> {
+  const collector = new PriceCollector(options);
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+
+  let header: Map<string, number> | null = null;
+  let offerCode: string | undefined;
+
+  for await (const line of lines) {
+    if (!line) continue;
+    const fields = parseCsvLine(line);
+
+    if (!header) {
+      if (fields[0] === 'OfferCode') offerCode = fields[1];
+      if (fields[0] === 'SKU') header = new Map(fields.map((name, index) => [name, index]));
+      continue;
+    }
+
+    const column = (name: string) => {
+      const index = header!.get(name);
+      return index === undefined ? undefined : fields[index] || undefined;
+    };
+    if (column('TermType') !== 'OnDemand' || column('Currency') !== 'USD') continue;
+
+    const attributes: ProductAttributes = { servicecode: offerCode };
+    for (const [columnName, attribute] of Object.entries(CSV_ATTRIBUTE_COLUMNS)) {
+      const value = column(columnName);
+      if (value !== undefined) attributes[attribute] = value;
+    }
+
+    collector.add(column('SKU') || '', attributes, {
+      unit: column('Unit') || '',
+      pricePerUnit: parseFloat(column('PricePerUnit') || ''),
+      beginRange: parseFloat(column('StartingRange') || '0'),
+      description: column('PriceDescription') || null,
+      effectiveDate: parseDate(column('EffectiveDate')),
+    });
+  }
+
+  if (!header) {
+    throw new Error(`${path} is not a Price List CSV file (no SKU header row)`);
+  }
+  return collector.result();
+}
+
+/**
+ * Parse a JSON or CSV offer file, chosen by extension
+ */
+export function parsePriceListFile(path: string, options: PriceListParseOptions = {}): Promise<PriceListParseResult> {
+  return path.toLowerCase().endsWith('.csv')
+    ? parsePriceListCsv(path, options)
+    : parsePriceListJson(path, options);
+}
@@ -1,4 +1,13 @@
 import { AwsService, type AwsCredentials } from "./aws-service";
+import type { SavingsEstimate } from "@shared/schema";
+import {
+  describeSavingsMethod,
+  savingsEstimate,
+  savingsFraction,
+  savingsModelInputs,
+  type SavingsMethod,
+} from "./savings-models";
+import type { RegionPrices } from "./price-catalog";
 
 /**
  * Service to calculate AWS resource costs and potential savings
@@ -6,9 +15,15 @@ import { AwsService, type AwsCredentials } from "./aws-service";
  */
 export class PricingService {
   private awsService: AwsService;
+  private serviceCosts: Promise<{ serviceCode: string; amount: number }[]> | null = null;
+  private prices?: RegionPrices;
 
-  constructor(credentials: AwsCredentials) {
+  /**
+   * @param prices - Catalog prices of the account's region, used for instance-type and storage-class price deltas
+   */
+  constructor(credentials: AwsCredentials, prices?: RegionPrices) {
     this.awsService = new AwsService(credentials);
+    this.prices = prices;
   }
 
   /**
@@ -38,8 +53,8 @@ export class PricingService {
     serviceCode: string
   ): Promise<number | null> {
     try {
-      // Get service costs for last 30 days
-      const costs = await this.awsService.getAllServicesCosts(false); // Don't include credits
+      // Get service costs for the current month (fetched once per scan)
+      const costs = await this.getAllServicesCosts();
       
       // Find the service in the costs
       const serviceCost = costs.find((c: { serviceCode: string; amount: number }) => c.serviceCode === serviceCode);
@@ -57,22 +72,27 @@ export class PricingService {
   }
 
   /**
-   * Calculate savings with explicit service code (preferred method)
+   * Calculate monthly savings for a finding from its control's savings model
    * Uses actual Cost Explorer data when available
    * 
    * @param resourceCount - Optional: total number of resources in the service (for better cost distribution)
+   * @returns Savings in cents, with where the estimate came from
    */
-  async calculateSavingsForControlWithService(
-    controlName: string,
+  async calculateSavings(
+    method: SavingsMethod,
     resourceId: string,
     serviceCode: string,
     resourceCount?: number
-  ): Promise<number> {
-    const lowerControlName = controlName.toLowerCase();
+  ): Promise<{ estimatedSavings: number; savingsEstimate: SavingsEstimate }> {
+    const noData = { estimatedSavings: 0, savingsEstimate: savingsEstimate('no-data', savingsModelInputs(method, this.prices)) };
 
     try {
       // Try to get resource-level cost first
       let monthlyCost = await this.getResourceMonthlyCost(resourceId, serviceCode);
+      let estimate = savingsEstimate('resource-cost', {
+        ...savingsModelInputs(method, this.prices),
+        dailyCostCents: monthlyCost !== null ? monthlyCost / 30 : undefined,
+      });
 
       // For S3, DynamoDB, and other services that don't support resource-level queries,
       // fall back to service-level cost estimation
@@ -97,156 +117,60 @@ export class PricingService {
               : 0.03; // 3% conservative default
             
             monthlyCost = Math.round(serviceCost * distributionFactor);
+            estimate = savingsEstimate('service-share', {
+              ...savingsModelInputs(method, this.prices),
+              serviceMonthlyCostCents: serviceCost,
+              resourceCount: resourceCount && resourceCount > 0 ? resourceCount : undefined,
+            });
             console.log(`Using service-level cost estimation for ${resourceId}: $${(monthlyCost / 100).toFixed(2)}/month (${(distributionFactor * 100).toFixed(1)}% of $${(serviceCost / 100).toFixed(2)} total ${serviceCode} cost${resourceCount ? `, distributed across ${resourceCount} resources` : ''})`);
           } else {
             console.warn(`No cost data found for resource ${resourceId} in service ${serviceCode}`);
-            return 0;
+            return noData;
           }
         } else {
           console.warn(`No cost data found for resource ${resourceId} in service ${serviceCode}`);
-          return 0;
+          return noData;
         }
       }
 
-      // Determine savings percentage based on optimization type
-      let savingsPercentage = 1.0; // Default: 100% savings for stopped/unused resources
-
-      if (lowerControlName.includes('low utilization') || lowerControlName.includes('idle')) {
-        savingsPercentage = 0.6; // 60% savings for idle resources
-      } else if (lowerControlName.includes('upgrade') || lowerControlName.includes('graviton')) {
-        savingsPercentage = 0.3; // 30% savings for right-sizing/upgrades
-      } else if (lowerControlName.includes('lifecycle') || lowerControlName.includes('versioning')) {
-        savingsPercentage = 0.3; // 30% savings for storage optimizations
-      }
-
       // Calculate savings (in cents)
-      const savings = Math.round(monthlyCost * savingsPercentage);
-      console.log(`Savings for ${resourceId}: $${(savings / 100).toFixed(2)}/month (${(savingsPercentage * 100)}% of $${(monthlyCost / 100).toFixed(2)})`);
-      return savings;
+      const savings = Math.round(monthlyCost * savingsFraction(method, this.prices));
+      console.log(`Savings for ${resourceId}: $${(savings / 100).toFixed(2)}/month (${describeSavingsMethod(method, this.prices)} of $${(monthlyCost / 100).toFixed(2)})`);
+      return {
+        estimatedSavings: savings,
+        savingsEstimate: { ...estimate, inputs: { ...estimate.inputs, monthlyCostCents: monthlyCost } },
+      };
 
     } catch (error) {
       console.error(`Error calculating savings for ${resourceId}:`, error);
-      return 0;
+      return noData;
     }
   }
 
   /**
-   * Generic savings calculator based on control name and resource (legacy method)
-   * Uses actual Cost Explorer data when available
-   * @deprecated Use calculateSavingsForControlWithService instead
+   * Get all service costs from Cost Explorer
+   * Returns array of services with their costs in cents.
+   * The result is memoized so per-finding estimates and savings capping share one API call.
    */
-  async calculateSavingsForControl(
-    controlName: string,
-    resourceId: string,
-    resourceType: string
-  ): Promise<number> {
-    const lowerControlName = controlName.toLowerCase();
-    const upperResourceType = resourceType.toUpperCase();
-
-    try {
-      // Map to Cost Explorer service names using both resourceType (from ARN) and control name
-      let serviceCode = 'Amazon Elastic Compute Cloud - Compute'; // default (EC2 instances)
-      
-      // Check resourceType first (more reliable than control name parsing)
-      if (upperResourceType === 'RDS' || lowerControlName.includes('rds') || lowerControlName.includes('database')) {
-        serviceCode = 'Amazon Relational Database Service';
-      } 
-      // EBS volumes and snapshots use "EC2 - Other" service
-      else if (upperResourceType === 'EBS' || lowerControlName.includes('ebs') || lowerControlName.includes('volume') || lowerControlName.includes('snapshot')) {
-        serviceCode = 'EC2 - Other';
-      }
-      // Elastic IPs also use "EC2 - Other"
-      else if (lowerControlName.includes('elastic ip') || lowerControlName.includes('eip') || lowerControlName.includes('address')) {
-        serviceCode = 'EC2 - Other';
-      }
-      // Load balancers
-      else if (upperResourceType === 'ELB' || upperResourceType === 'ELASTICLOADBALANCING' || 
-               lowerControlName.includes('load balancer') || lowerControlName.includes('elb') || lowerControlName.includes('alb')) {
-        serviceCode = 'Amazon Elastic Load Balancing';
-      }
-      // ElastiCache - handle plural from ARN (ELASTICACHES)
-      else if (upperResourceType.includes('ELASTICACHE') || lowerControlName.includes('elasticache') || lowerControlName.includes('cache cluster')) {
-        serviceCode = 'Amazon ElastiCache';
-      }
-      // Redshift
-      else if (upperResourceType === 'REDSHIFT' || lowerControlName.includes('redshift')) {
-        serviceCode = 'Amazon Redshift';
-      }
-      // Lambda
-      else if (upperResourceType === 'LAMBDA' || lowerControlName.includes('lambda')) {
-        serviceCode = 'AWS Lambda';
-      }
-      // S3 and DynamoDB: GetCostAndUsageWithResources doesn't support resource-level queries well
-      // Return 0 for now (can add alternative estimation logic later)
-      else if (upperResourceType === 'S3' || upperResourceType === 'DYNAMODB' || 
-               lowerControlName.includes('s3') || lowerControlName.includes('dynamodb')) {
-        console.warn(`Cost Explorer resource-level data not available for ${resourceType}, returning $0`);
-        return 0;
-      }
-
-      // Get actual monthly cost from Cost Explorer
-      const monthlyCost = await this.getResourceMonthlyCost(resourceId, serviceCode);
-
-      // If Cost Explorer data not available, return 0 with warning
-      if (monthlyCost === null) {
-        console.warn(`Cost Explorer data not available for resource ${resourceId}`);
-        return 0;
-      }
-
-      // Calculate savings based on optimization type
-      let savingsPercentage = 0;
-
-      // Stopped/idle resources: save 100% by terminating
-      if (lowerControlName.includes('stopped') || lowerControlName.includes('idle')) {
-        savingsPercentage = 1.0;
-      }
-      // Unattached volumes/IPs: save 100% by deleting
-      else if (lowerControlName.includes('unattached') || lowerControlName.includes('elastic ip')) {
-        savingsPercentage = 1.0;
-      }
-      // Old snapshots: save 100% by deleting
-      else if (lowerControlName.includes('snapshot') && lowerControlName.includes('old')) {
-        savingsPercentage = 1.0;
-      }
-      // Underutilized/rightsizing: save 50-70%
-      else if (lowerControlName.includes('low utilization') || lowerControlName.includes('rightsize')) {
-        savingsPercentage = 0.6;
-      }
-      // Old generation instances: save ~30% by upgrading
-      else if (lowerControlName.includes('old') || lowerControlName.includes('generation')) {
-        savingsPercentage = 0.3;
-      }
-      // Lifecycle/versioning/on-demand: save ~30%
-      else if (lowerControlName.includes('lifecycle') || lowerControlName.includes('versioning') || 
-               lowerControlName.includes('on-demand') || lowerControlName.includes('provisioned')) {
-        savingsPercentage = 0.3;
-      }
-      // Default: 20% savings for generic optimizations
-      else {
-        savingsPercentage = 0.2;
-      }
-
-      return Math.floor(monthlyCost * savingsPercentage);
-    } catch (error) {
-      console.error(`Error calculating savings for ${resourceId}:`, error);
-      return 0;
+  getAllServicesCosts(): Promise<{ serviceCode: string; amount: number }[]> {
+    if (!this.serviceCosts) {
+      this.serviceCosts = this.awsService.getAllServicesCosts(false) // Don't include credits
+        .then(costs => costs.map((cost: any) => ({
+          serviceCode: cost.serviceCode,
+          amount: cost.amount,
+        })))
+        .catch(error => {
+          console.error('Error fetching all service costs:', error);
+          return [];
+        });
     }
+    return this.serviceCosts;
   }
 
   /**
-   * Get all service costs from Cost Explorer
-   * Returns array of services with their costs in cents
+   * Number of Cost Explorer API calls made while calculating savings
    */
-  async getAllServicesCosts(): Promise<{ serviceCode: string; amount: number }[]> {
-    try {
-      const costs = await this.awsService.getAllServicesCosts(false); // Don't include credits
-      return costs.map((cost: any) => ({
-        serviceCode: cost.serviceCode,
-        amount: cost.amount,
-      }));
-    } catch (error) {
-      console.error('Error fetching all service costs:', error);
-      return [];
-    }
+  getCostExplorerCallCount(): number {
+    return this.awsService.getCostExplorerCallCount();
   }
 }
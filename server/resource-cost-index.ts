@@ -0,0 +1,113 @@
+import {
+  CostExplorerClient,
+  GetCostAndUsageWithResourcesCommand,
+  type GetCostAndUsageWithResourcesCommandOutput,
+} from "@aws-sdk/client-cost-explorer";
+import { collectPages } from "./aws-pagination";
+
+// GetCostAndUsageWithResources only covers the last 14 days
+const MAX_LOOKBACK_DAYS = 14;
+
+/**
+ * Per-scan index of resource-level daily costs.
+ * Instead of one GetCostAndUsageWithResources call per finding, costs are
+ * fetched once per Cost Explorer service, grouped by RESOURCE_ID, and then
+ * looked up locally for every resource in that service.
+ */
+export class ResourceCostIndex {
+  private costExplorerClient: CostExplorerClient;
+  private now: Date;
+  private services = new Map<string, Promise<Map<string, number>>>();
+
+  constructor(costExplorerClient: CostExplorerClient, now: Date = new Date()) {
+    this.costExplorerClient = costExplorerClient;
+    this.now = now;
+  }
+
+  /**
+   * Get the average daily cost of a resource over the last N days
+   * @param resourceId - AWS resource ID (e.g., i-1234567890abcdef0, vol-abc123)
+   * @param serviceCode - Cost Explorer SERVICE dimension value
+   * @param days - Number of days to average over (max 14, default 7)
+   * @returns Daily cost in cents, or null if Cost Explorer has no data for the resource
+   */
+  async getDailyCost(resourceId: string, serviceCode: string, days: number = 7): Promise<number | null> {
+    const costs = await this.getServiceCosts(serviceCode, days);
+    return costs.get(resourceId) ?? null;
+  }
+
+  /**
+   * Get daily costs for every resource of a service, fetching them on first use
+   */
+  getServiceCosts(serviceCode: string, days: number = 7): Promise<Map<string, number>> {
+    const lookbackDays = Math.min(days, MAX_LOOKBACK_DAYS);
+    const key = `${serviceCode}|${lookbackDays}`;
+
+    let pending = this.services.get(key);
+    if (!pending) {
+      pending = this.fetchServiceCosts(serviceCode, lookbackDays).catch(error => {
+        console.error(`Error fetching resource costs for ${serviceCode}:`, error);
+        // Cache the empty result so a failing service isn't retried for every finding
+        return new Map<string, number>();
+      });
+      this.services.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async fetchServiceCosts(serviceCode: string, days: number): Promise<Map<string, number>> {
+    const endDate = new Date(this.now);
+    const startDate = new Date(this.now);
+    startDate.setDate(startDate.getDate() - days);
+
+    const results = await collectPages(
+      (NextPageToken) => this.costExplorerClient.send(
+        new GetCostAndUsageWithResourcesCommand({
+          TimePeriod: {
+            Start: startDate.toISOString().split('T')[0],
+            End: endDate.toISOString().split('T')[0],
+          },
+          Granularity: 'DAILY',
+          Filter: {
+            Dimensions: {
+              Key: 'SERVICE',
+              Values: [serviceCode],
+            },
+          },
+          GroupBy: [
+            {
+              Type: 'DIMENSION',
+              Key: 'RESOURCE_ID',
+            },
+          ],
+          Metrics: ['UnblendedCost'],
+          NextPageToken,
+        })
+      ),
+      (page: GetCostAndUsageWithResourcesCommandOutput) => page.ResultsByTime,
+      page => page.NextPageToken
+    );
+
+    // Sum costs per resource across days, counting only days with data
+    const totals = new Map<string, { total: number; daysWithData: number }>();
+    for (const result of results) {
+      for (const group of result.Groups || []) {
+        const resourceId = group.Keys?.[0];
+        const amount = parseFloat(group.Metrics?.UnblendedCost?.Amount || '0');
+        if (!resourceId || amount <= 0) continue;
+
+        const entry = totals.get(resourceId) || { total: 0, daysWithData: 0 };
+        entry.total += amount;
+        entry.daysWithData++;
+        totals.set(resourceId, entry);
+      }
+    }
+
+    // Average daily cost in cents
+    const dailyCosts = new Map<string, number>();
+    totals.forEach(({ total, daysWithData }, resourceId) => {
+      dailyCosts.set(resourceId, Math.round((total / daysWithData) * 100));
+    });
+    return dailyCosts;
+  }
+}
@@ -4,6 +4,18 @@ import { storage } from "./storage";
 import { setupAuth, isAuthenticated, hashPassword, verifyPassword } from "./customAuth";
 import { 
   insertAwsAccountSchema, 
+  updateAwsAccountRegionsSchema,
+  runBenchmarkSchema,
+  insertBenchmarkScheduleSchema,
+  updateBenchmarkScheduleSchema,
+  updateFindingStateSchema,
+  insertSuppressionRuleSchema,
+  insertTagPolicySchema,
+  updateControlSettingsSchema,
+  priceCatalogQuerySchema,
+  inventoryQuerySchema,
+  inventoryChangesQuerySchema,
+  type BenchmarkJobEvent,
   costSummarySchema, 
   signupSchema,
   loginSchema,
@@ -14,111 +26,13 @@ import {
 } from "@shared/schema";
 import { z } from "zod";
 import { AwsService } from "./aws-service";
-import { steampipeService } from "./steampipe-service";
-import { PricingService } from "./pricing-service";
-
-/**
- * Parse AWS ARN to extract resource ID for Cost Explorer queries
- * Cost Explorer expects just the resource ID (not the full ARN or namespace prefix)
- * 
- * Examples:
- * Slash-delimited (EC2, ELB, etc.):
- *   - arn:aws:ec2:region:account:instance/i-123 → i-123
- *   - arn:aws:ec2:region:account:snapshot/snap-123 → snap-123
- *   - arn:aws:elasticloadbalancing:region:account:loadbalancer/app/my-lb/123 → app/my-lb/123
- * 
- * Colon-delimited (RDS, Lambda, etc.):
- *   - arn:aws:rds:region:account:db:mydb → mydb
- *   - arn:aws:lambda:region:account:function:myfunc → myfunc
- *   - arn:aws:rds:region:account:snapshot:rds:mydb-snap → rds:mydb-snap
- */
-function parseResourceIdFromArn(arn: string): string {
-  // If not an ARN, return as-is (might already be a resource ID)
-  if (!arn.startsWith('arn:')) {
-    return arn;
-  }
-
-  // Parse ARN: arn:aws:service:region:account:resource
-  const parts = arn.split(':');
-  if (parts.length < 6) {
-    return arn; // Invalid ARN, return as-is
-  }
-
-  // The resource part is everything after the 5th colon
-  const resourcePart = parts.slice(5).join(':');
-
-  // For slash-delimited resources (EC2, EBS, ELB, DynamoDB, etc.)
-  // Format: resource-type/resource-id or resource-type/segment1/segment2/...
-  // Examples:
-  //   - instance/i-123 → i-123
-  //   - snapshot/snap-123 → snap-123  
-  //   - loadbalancer/app/my-lb/123 → app/my-lb/123 (multi-segment)
-  if (resourcePart.includes('/')) {
-    const firstSlashIndex = resourcePart.indexOf('/');
-    // Return everything after the first slash (preserves multi-segment IDs)
-    return resourcePart.substring(firstSlashIndex + 1);
-  }
-  
-  // For colon-delimited resources (RDS, Lambda, etc.)
-  // Format: resource-type:resource-id
-  // Examples:
-  //   - db:mydb → mydb
-  //   - function:myfunc → myfunc
-  //   - snapshot:rds:mydb-snapshot → rds:mydb-snapshot (multi-colon, keep rest)
-  if (resourcePart.includes(':')) {
-    const firstColonIndex = resourcePart.indexOf(':');
-    // Return everything after the first colon (preserves multi-colon IDs)
-    return resourcePart.substring(firstColonIndex + 1);
-  }
-  
-  // For resources without delimiters, return as-is
-  return resourcePart;
-}
-
-/**
- * Determine Cost Explorer service name from ARN
- * Maps AWS resource ARNs to official Cost Explorer SERVICE dimension values
- */
-function getCostExplorerServiceFromArn(arn: string): string | null {
-  if (!arn.startsWith('arn:')) {
-    return null; // Not an ARN, can't determine service
-  }
-
-  // Parse ARN: arn:aws:service:region:account:resource-type/resource-id
-  const parts = arn.split(':');
-  if (parts.length < 6) {
-    return null;
-  }
-
-  const service = parts[2]; // e.g., "ec2", "rds", "s3"
-  const resourcePart = parts.slice(5).join(':'); // Everything after account ID
-
-  // For EC2 service, determine if it's compute or other based on resource type
-  if (service === 'ec2') {
-    if (resourcePart.startsWith('instance/')) {
-      return 'Amazon Elastic Compute Cloud - Compute';
-    } else if (resourcePart.startsWith('volume/') || resourcePart.startsWith('snapshot/')) {
-      return 'EC2 - Other'; // EBS volumes and snapshots
-    } else if (resourcePart.startsWith('elastic-ip/') || resourcePart.startsWith('address/')) {
-      return 'EC2 - Other'; // Elastic IPs
-    } else {
-      return 'Amazon Elastic Compute Cloud - Compute'; // Default to compute
-    }
-  }
-
-  // Service name mappings
-  const serviceMap: Record<string, string | null> = {
-    'rds': 'Amazon Relational Database Service',
-    'elasticache': 'Amazon ElastiCache',
-    'redshift': 'Amazon Redshift',
-    'lambda': 'AWS Lambda',
-    'elasticloadbalancing': 'Amazon Elastic Load Balancing',
-    's3': null, // Not supported for resource-level queries
-    'dynamodb': null, // Not supported for resource-level queries
-  };
-
-  return serviceMap[service] || null;
-}
+import { controlRegistry } from "./control-registry";
+import { benchmarkJobs, isFinished } from "./benchmark-jobs";
+import { BenchmarkScheduler, computeNextRun } from "./benchmark-scheduler";
+import { diffBenchmarkRuns } from "./finding-diff";
+import { diffInventory, groupInventoryScans } from "./inventory-diff";
+import { priceCatalog } from "./benchmark-runner";
+import { FindingStateIndex } from "./finding-states";
 
 // Simple in-memory cache for cost data (to avoid excessive Cost Explorer API calls)
 interface CostCache {
@@ -311,6 +225,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/aws-accounts/:id/regions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const regions = updateAwsAccountRegionsSchema.parse(req.body);
+      const account = await storage.updateAwsAccountRegions(req.params.id, userId, regions);
+
+      if (!account) {
+        res.status(404).json({ message: "AWS account not found or access denied" });
+        return;
+      }
+
+      res.json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return;
+      }
+      console.error("Error updating AWS account regions:", error);
+      res.status(500).json({ message: "Failed to update AWS account regions" });
+    }
+  });
+
   // Dashboard stats route
   app.get("/api/dashboard/stats", isAuthenticated, async (req: any, res) => {
     try {
@@ -323,7 +259,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           highRiskResources: 0,
           failedControls: 0,
           passedControls: 0,
+          suppressedSavings: 0,
           savingsByService: [],
+          savingsByRegion: [],
           controlsByBenchmark: [],
         });
         return;
@@ -333,11 +271,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let totalSavings = 0;
       let totalFailedControls = 0;
       let totalPassedControls = 0;
+      let suppressedSavings = 0;
       const savingsByService: Record<string, number> = {};
+      const savingsByRegion: Record<string, number> = {};
+      const findingStates = new FindingStateIndex(
+        await storage.getFindingStates(accounts.map(account => account.id))
+      );
 
       for (const account of accounts) {
         const benchmarks = await storage.getBenchmarkResults(account.id);
+        const benchmarkNames = new Map<string, string>();
         for (const benchmark of benchmarks) {
+          benchmarkNames.set(benchmark.id, benchmark.benchmarkName);
           totalSavings += benchmark.estimatedSavings;
           totalFailedControls += benchmark.controlsFailed;
           totalPassedControls += benchmark.controlsPassed;
@@ -345,11 +290,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
           savingsByService[benchmark.benchmarkName] = 
             (savingsByService[benchmark.benchmarkName] || 0) + benchmark.estimatedSavings;
         }
+
+        const controls = await storage.getControlResults(account.id);
+        for (const control of controls) {
+          // Findings hidden by a suppression rule were already left out of their run's totals
+          if (control.passed || control.suppressedByRuleId) continue;
+
+          // Suppressed, snoozed and fixed findings don't count towards savings
+          if (findingStates.isExcluded(control)) {
+            const benchmarkName = control.benchmarkResultId && benchmarkNames.get(control.benchmarkResultId);
+            totalSavings -= control.estimatedSavings;
+            suppressedSavings += control.estimatedSavings;
+            totalFailedControls--;
+            if (benchmarkName) {
+              savingsByService[benchmarkName] -= control.estimatedSavings;
+            }
+            continue;
+          }
+
+          // Rows saved before multi-region scanning have no region; they came from the default region
+          const region = control.region || account.region;
+          savingsByRegion[region] = (savingsByRegion[region] || 0) + control.estimatedSavings;
+        }
       }
 
+      // Run totals may have been capped below the sum of their findings
+      totalSavings = Math.max(0, totalSavings);
+      totalFailedControls = Math.max(0, totalFailedControls);
+
       const savingsByServiceArray = Object.entries(savingsByService).map(([service, savings]) => ({
         service,
-        savings,
+        savings: Math.max(0, savings),
       }));
 
       res.json({
@@ -357,7 +328,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         highRiskResources: totalFailedControls,
         failedControls: totalFailedControls,
         passedControls: totalPassedControls,
+        suppressedSavings,
         savingsByService: savingsByServiceArray,
+        savingsByRegion: Object.entries(savingsByRegion)
+          .map(([region, savings]) => ({ region, savings }))
+          .sort((a, b) => b.savings - a.savings),
         controlsByBenchmark: [],
       });
     } catch (error) {
@@ -367,6 +342,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Benchmarks routes
+  app.get("/api/benchmarks", isAuthenticated, async (_req, res) => {
+    res.json(controlRegistry.listBenchmarks());
+  });
+
+  // Lists every registered control with its metadata
+  app.get("/api/controls", isAuthenticated, async (_req, res) => {
+    res.json(controlRegistry.listControlMetadata());
+  });
+
+  // Price catalog lookup by service, region and usage type (usage types without the region prefix)
+  app.get("/api/prices", isAuthenticated, async (req: any, res) => {
+    try {
+      const query = priceCatalogQuerySchema.parse(req.query);
+      const prices = await storage.getCatalogPrices(query, 500);
+      res.json(prices);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching catalog prices:", error);
+      res.status(500).json({ message: "Failed to fetch catalog prices" });
+    }
+  });
+
+  // Resource inventory captured by benchmark scans, browsable without calling AWS
+  app.get("/api/inventory", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const query = inventoryQuerySchema.parse(req.query);
+
+      const accounts = await storage.getAwsAccounts(userId);
+      if (!accounts.some(account => account.id === query.awsAccountId)) {
+        res.status(404).json({ message: "AWS account not found or access denied" });
+        return;
+      }
+
+      const resources = await storage.getLatestInventory(query);
+      res.json(resources);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching inventory:", error);
+      res.status(500).json({ message: "Failed to fetch inventory" });
+    }
+  });
+
+  app.get("/api/inventory/snapshots", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { awsAccountId } = inventoryQuerySchema.pick({ awsAccountId: true }).parse(req.query);
+
+      const accounts = await storage.getAwsAccounts(userId);
+      if (!accounts.some(account => account.id === awsAccountId)) {
+        res.status(404).json({ message: "AWS account not found or access denied" });
+        return;
+      }
+
+      const snapshots = await storage.getInventorySnapshots(awsAccountId);
+      res.json(snapshots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching inventory snapshots:", error);
+      res.status(500).json({ message: "Failed to fetch inventory snapshots" });
+    }
+  });
+
+  // Resources created, deleted or modified between two scans of an account, with their monthly cost impact.
+  // `target` defaults to the latest scan and `base` to the scan before it (both are benchmark result IDs).
+  app.get("/api/inventory/changes", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const query = inventoryChangesQuerySchema.parse(req.query);
+
+      const accounts = await storage.getAwsAccounts(userId);
+      if (!accounts.some(account => account.id === query.awsAccountId)) {
+        res.status(404).json({ message: "AWS account not found or access denied" });
+        return;
+      }
+
+      const scans = groupInventoryScans(await storage.getInventorySnapshots(query.awsAccountId));
+      const target = query.target ? scans.find(scan => scan.benchmarkResultId === query.target) : scans[0];
+      if (!target) {
+        res.status(404).json({ message: "No inventory captured for this scan" });
+        return;
+      }
+      const base = query.base
+        ? scans.find(scan => scan.benchmarkResultId === query.base)
+        : scans.find(scan => scan.capturedAt < target.capturedAt);
+      if (!base) {
+        res.status(404).json({ message: "No earlier scan with inventory to compare with" });
+        return;
+      }
+      if (base.capturedAt >= target.capturedAt) {
+        res.status(400).json({ message: "The base scan must be earlier than the target scan" });
+        return;
+      }
+
+      const [baseState, targetState] = await Promise.all([
+        storage.getInventoryState(query.awsAccountId, base.capturedAt),
+        storage.getInventoryState(query.awsAccountId, target.capturedAt),
+      ]);
+
+      const regions = new Set([...baseState.resources, ...targetState.resources].map(resource => resource.region));
+      const prices = new Map(await Promise.all(
+        Array.from(regions).map(async region => [region, await priceCatalog.getRegionPrices(region)] as const)
+      ));
+
+      res.json(diffInventory(
+        { scan: base, state: baseState },
+        { scan: target, state: targetState },
+        query.awsAccountId,
+        prices
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error diffing inventory:", error);
+      res.status(500).json({ message: "Failed to compare inventory" });
+    }
+  });
+
   app.get("/api/benchmarks/results", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -385,17 +485,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a benchmark run; the scan runs as a background job
   app.post("/api/benchmarks/run", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { benchmarkId, useSteampipe } = req.body;
+      const { benchmarkId, useSteampipe } = runBenchmarkSchema.parse(req.body);
       
-      // Validate benchmarkId
-      const validBenchmarks = ['ec2', 'rds', 's3', 'dynamodb', 'elasticache', 'redshift', 'lambda'];
-      if (!benchmarkId || !validBenchmarks.includes(benchmarkId)) {
+      // Validate benchmarkId against the control registry
+      if (!controlRegistry.hasBenchmark(benchmarkId)) {
         res.status(400).json({ 
           message: "Invalid benchmark ID", 
-          validBenchmarks 
+          validBenchmarks: controlRegistry.listBenchmarks().map(b => b.id),
         });
         return;
       }
@@ -413,375 +513,231 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(400).json({ message: "AWS credentials are missing or invalid" });
         return;
       }
-      
-      // Use Steampipe if requested (for accurate savings calculation)
-      if (useSteampipe) {
-        try {
-          const steampipeResult = await steampipeService.runBenchmark(
-            `aws_thrifty.benchmark.${benchmarkId}`,
-            account.accessKeyId,
-            account.secretAccessKey,
-            account.region
-          );
-
-          // Create pricing service to calculate savings
-          const pricingService = new PricingService({
-            accessKeyId: account.accessKeyId,
-            secretAccessKey: account.secretAccessKey,
-            region: account.region,
-          });
-
-          // Count resources by service for better cost distribution
-          const resourceCountByService: Record<string, number> = {};
-          for (const control of steampipeResult.controls) {
-            if (control.status !== 'ok') {
-              const serviceCode = getCostExplorerServiceFromArn(control.resource);
-              if (serviceCode) {
-                resourceCountByService[serviceCode] = (resourceCountByService[serviceCode] || 0) + 1;
-              }
-            }
-          }
 
-          // Calculate savings for each control
-          let checksWithSavings = await Promise.all(
-            steampipeResult.controls.map(async (control) => {
-              let estimatedSavings = 0;
-
-              if (control.status !== 'ok') {
-                try {
-                  // Extract resource ID from ARN
-                  const resourceId = parseResourceIdFromArn(control.resource);
-                  
-                  // Determine Cost Explorer service name from ARN
-                  const serviceCode = getCostExplorerServiceFromArn(control.resource);
-                  
-                  // Skip if service not supported for resource-level queries
-                  if (!serviceCode) {
-                    console.warn(`Cost Explorer resource-level data not available for ${control.resource}`);
-                    estimatedSavings = 0;
-                  } else {
-                    // Pass resource count for this service to enable accurate cost distribution
-                    const resourceCount = resourceCountByService[serviceCode];
-                    estimatedSavings = await pricingService.calculateSavingsForControlWithService(
-                      control.name,
-                      resourceId,
-                      serviceCode,
-                      resourceCount
-                    );
-                  }
-                } catch (error) {
-                  console.error(`Error calculating savings for ${control.name}:`, error);
-                }
-              }
-
-              return {
-                id: control.name,
-                name: control.name,
-                passed: control.status === 'ok',
-                resourceId: control.resource,
-                estimatedSavings,
-                reason: control.reason,
-                serviceCode: getCostExplorerServiceFromArn(control.resource), // Add service code for capping
-              };
-            })
-          );
-
-          // CAP SAVINGS: Ensure total savings per service never exceed actual service costs
-          try {
-            // Get all service costs from Cost Explorer
-            const allServiceCosts = await pricingService.getAllServicesCosts();
-            
-            // Create a map of service costs by service code (in cents)
-            const serviceCostMap: Record<string, number> = {};
-            for (const service of allServiceCosts) {
-              serviceCostMap[service.serviceCode] = service.amount;
-            }
-            
-            console.log('Service cost map:', Object.entries(serviceCostMap).map(([k, v]) => `${k}: $${(v / 100).toFixed(2)}`).join(', '));
-            
-            // Comprehensive service mapping: handles ARN services, resource names, and benchmark context
-            // Maps to Cost Explorer SERVICE dimension values (as they appear in getAllServicesCosts)
-            const serviceMapping: Record<string, string> = {
-              // S3 - handles both ARN and bucket name formats
-              's3': 'Amazon Simple Storage Service',
-              'amazons3': 'Amazon Simple Storage Service',
-              'amazon simple storage service': 'Amazon Simple Storage Service',
-              
-              // DynamoDB - handles both ARN and table name formats
-              'dynamodb': 'Amazon DynamoDB',
-              'amazondynamodb': 'Amazon DynamoDB',
-              'amazon dynamodb': 'Amazon DynamoDB',
-              
-              // EC2 - multiple service types
-              'ec2': 'Amazon Elastic Compute Cloud - Compute',
-              'amazonec2': 'Amazon Elastic Compute Cloud - Compute',
-              'amazon elastic compute cloud': 'Amazon Elastic Compute Cloud - Compute',
-              'amazon elastic compute cloud - compute': 'Amazon Elastic Compute Cloud - Compute',
-              'ec2 - other': 'EC2 - Other', // EBS, EIPs, etc.
-              
-              // RDS
-              'rds': 'Amazon Relational Database Service',
-              'amazonrds': 'Amazon Relational Database Service',
-              'amazon relational database service': 'Amazon Relational Database Service',
-              
-              // ElastiCache
-              'elasticache': 'Amazon ElastiCache',
-              'amazonelasticache': 'Amazon ElastiCache',
-              'amazon elasticache': 'Amazon ElastiCache',
-              
-              // Redshift
-              'redshift': 'Amazon Redshift',
-              'amazonredshift': 'Amazon Redshift',
-              'amazon redshift': 'Amazon Redshift',
-              
-              // Lambda
-              'lambda': 'AWS Lambda',
-              'awslambda': 'AWS Lambda',
-              'amazon lambda': 'AWS Lambda',
-              'aws lambda': 'AWS Lambda',
-              
-              // ELB
-              'elb': 'Elastic Load Balancing',
-              'elasticloadbalancing': 'Elastic Load Balancing',
-              'elastic load balancing': 'Elastic Load Balancing',
-            };
-            
-            // Normalize service code to handle Cost Explorer variations
-            const normalizeServiceCode = (code: string): string => {
-              const lowercased = code.toLowerCase().trim();
-              return serviceMapping[lowercased] || code;
-            };
-            
-            // Create normalized lookup map (all values in CENTS)
-            const normalizedCostMap: Record<string, number> = {};
-            for (const [serviceCode, amountInCents] of Object.entries(serviceCostMap)) {
-              const normalized = normalizeServiceCode(serviceCode);
-              normalizedCostMap[normalized] = (normalizedCostMap[normalized] || 0) + amountInCents;
-            }
-            
-            // Helper to extract service from benchmark ID and resource ID
-            const getServiceFromBenchmarkContext = (benchmarkId: string, resourceId: string): string | null => {
-              // Benchmark ID gives us the service family (e.g., "s3", "ec2", "rds")
-              const serviceLookup: Record<string, string> = {
-                's3': 'Amazon Simple Storage Service',
-                'ec2': 'Amazon Elastic Compute Cloud - Compute',
-                'rds': 'Amazon Relational Database Service',
-                'dynamodb': 'Amazon DynamoDB',
-                'elasticache': 'Amazon ElastiCache',
-                'redshift': 'Amazon Redshift',
-                'lambda': 'AWS Lambda',
-              };
-              
-              return serviceLookup[benchmarkId] || null;
-            };
-            
-            // Group ALL checks by service (ensuring ALL savings are accounted for and capped)
-            const savingsByService: Record<string, { total: number; checks: any[] }> = {};
-            for (const check of checksWithSavings) {
-              // Skip passed checks (no savings)
-              if (check.passed || check.estimatedSavings === 0) {
-                continue;
-              }
-              
-              // Ensure estimatedSavings is in CENTS (should already be, but verify)
-              check.estimatedSavings = Math.round(check.estimatedSavings);
-              
-              // Determine service code using multiple fallback strategies
-              let serviceCode: string | null = check.serviceCode;
-              
-              // Fallback 1: Extract from ARN if serviceCode is null
-              if (!serviceCode && check.resourceId && check.resourceId.startsWith('arn:')) {
-                const arnParts = check.resourceId.split(':');
-                if (arnParts.length >= 3) {
-                  const arnService = arnParts[2].toLowerCase();
-                  serviceCode = normalizeServiceCode(arnService);
-                }
-              }
-              
-              // Fallback 2: Use benchmark context (handles non-ARN identifiers like bucket names, table names)
-              if (!serviceCode) {
-                serviceCode = getServiceFromBenchmarkContext(benchmarkId, check.resourceId);
-              }
-              
-              // Fallback 3: Last resort - set to "Unknown Service" and zero it out
-              if (!serviceCode) {
-                serviceCode = 'Unknown Service';
-                console.warn(`⚠️ Could not determine service for ${check.resourceId} in benchmark ${benchmarkId}, will zero savings`);
-              }
-              
-              // Add check to savings map
-              if (!savingsByService[serviceCode]) {
-                savingsByService[serviceCode] = { total: 0, checks: [] };
-              }
-              savingsByService[serviceCode].total += check.estimatedSavings;
-              savingsByService[serviceCode].checks.push(check);
-            }
-            
-            // Cap savings for each service
-            for (const [serviceCode, data] of Object.entries(savingsByService)) {
-              // Try exact match first, then normalized match
-              let actualCost = serviceCostMap[serviceCode];
-              
-              // If no exact match, try normalized lookup
-              if (actualCost === undefined) {
-                const normalized = normalizeServiceCode(serviceCode);
-                actualCost = normalizedCostMap[normalized];
-              }
-              
-              // If still no match, service is not in Cost Explorer
-              if (actualCost === undefined) {
-                console.warn(`⚠️ Service ${serviceCode} not found in Cost Explorer. Setting all savings to $0.00 to enforce cap.`);
-                for (const check of data.checks) {
-                  const originalSavings = check.estimatedSavings;
-                  check.estimatedSavings = 0;
-                  console.log(`  ✓ ${check.name}: $${(originalSavings / 100).toFixed(2)} → $0.00 (no cost data)`);
-                }
-                continue;
-              }
-              
-              console.log(`Service ${serviceCode}: savings=$${(data.total / 100).toFixed(2)}, actualCost=$${(actualCost / 100).toFixed(2)}`);
-              
-              // If actual cost is zero or near-zero, cap all savings to zero
-              if (actualCost <= 0) {
-                console.warn(`⚠️ Service ${serviceCode} has $0.00 cost. Setting all savings to $0.00 to enforce cap.`);
-                for (const check of data.checks) {
-                  const originalSavings = check.estimatedSavings;
-                  check.estimatedSavings = 0;
-                  console.log(`  ✓ ${check.name}: $${(originalSavings / 100).toFixed(2)} → $0.00 (zero cost)`);
-                }
-                continue;
-              }
-              
-              // If total savings exceed actual cost, scale down proportionally with rounding remainder redistribution
-              if (data.total > actualCost) {
-                const scalingFactor = actualCost / data.total;
-                console.log(`⚠️ Capping ${serviceCode} savings: $${(data.total / 100).toFixed(2)} → $${(actualCost / 100).toFixed(2)} (${(scalingFactor * 100).toFixed(1)}% of original)`);
-                
-                // Scale each check's savings
-                for (const check of data.checks) {
-                  const originalSavings = check.estimatedSavings;
-                  check.estimatedSavings = Math.floor(check.estimatedSavings * scalingFactor);
-                  console.log(`  - ${check.name}: $${(originalSavings / 100).toFixed(2)} → $${(check.estimatedSavings / 100).toFixed(2)}`);
-                }
-                
-                // Recompute total after rounding to check for remainder
-                const cappedTotal = data.checks.reduce((sum: number, check: any) => sum + check.estimatedSavings, 0);
-                const remainder = actualCost - cappedTotal;
-                
-                if (remainder > 0) {
-                  // Redistribute remainder to the check with largest savings to maintain exact cap
-                  const largestCheck = data.checks.reduce((max: any, check: any) => 
-                    check.estimatedSavings > max.estimatedSavings ? check : max, 
-                    data.checks[0]
-                  );
-                  largestCheck.estimatedSavings += remainder;
-                  console.log(`  ✓ Redistributed remainder of $${(remainder / 100).toFixed(2)} to ${largestCheck.name}`);
-                }
-                
-                // Final verification: ensure total savings equals actual cost
-                const finalTotal = data.checks.reduce((sum: number, check: any) => sum + check.estimatedSavings, 0);
-                console.log(`  ✓ Final total: $${(finalTotal / 100).toFixed(2)} (exactly matches actual cost: $${(actualCost / 100).toFixed(2)})`);
-              } else {
-                console.log(`✓ Service ${serviceCode} savings within limits (no cap needed)`);
-              }
-            }
-          } catch (error) {
-            console.error('Error capping savings to service costs:', error);
-            // Continue without capping if there's an error
-          }
+      const job = benchmarkJobs.enqueue(userId, account, benchmarkId, useSteampipe);
+      res.status(202).json({ jobId: job.id, job });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return;
+      }
+      console.error("Error starting benchmark:", error);
+      res.status(500).json({ message: "Failed to start benchmark" });
+    }
+  });
 
-          const controlsPassed = steampipeResult.summary.status.ok;
-          const controlsFailed = 
-            steampipeResult.summary.status.alarm + 
-            steampipeResult.summary.status.error;
-
-          // Calculate total savings (after capping)
-          const totalSavings = checksWithSavings.reduce(
-            (sum, check) => sum + check.estimatedSavings,
-            0
-          );
-
-          // Save the benchmark result
-          await storage.saveBenchmarkResult({
-            awsAccountId: account.id,
-            benchmarkId: benchmarkId,
-            benchmarkName: steampipeResult.title,
-            controlsPassed,
-            controlsFailed,
-            estimatedSavings: totalSavings,
-            resultJson: { 
-              steampipe: true,
-              checks: checksWithSavings,
-              rawResult: steampipeResult 
-            },
-          }, checksWithSavings);
-
-          res.json({ 
-            success: true, 
-            result: {
-              benchmarkId,
-              benchmarkName: steampipeResult.title,
-              checks: checksWithSavings,
-              controlsPassed,
-              controlsFailed,
-              estimatedSavings: totalSavings,
-            }
-          });
+  // List the user's recent benchmark jobs (newest first)
+  app.get("/api/benchmarks/jobs", isAuthenticated, async (req: any, res) => {
+    res.json(benchmarkJobs.listJobs(req.user.id));
+  });
+
+  // Get the status and progress of a benchmark job
+  app.get("/api/benchmarks/jobs/:id", isAuthenticated, async (req: any, res) => {
+    const job = benchmarkJobs.getJob(req.params.id, req.user.id);
+    if (!job) {
+      res.status(404).json({ message: "Benchmark job not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  // Stream a benchmark job's progress as Server-Sent Events.
+  // Sends the current job first, then job/control/finding events until the job finishes.
+  app.get("/api/benchmarks/jobs/:id/events", isAuthenticated, (req: any, res) => {
+    const userId = req.user.id;
+    const job = benchmarkJobs.getJob(req.params.id, userId);
+    if (!job) {
+      res.status(404).json({ message: "Benchmark job not found" });
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no", // Disable proxy buffering so events arrive immediately
+    });
+
+    const send = (event: BenchmarkJobEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    send({ type: "job", job });
+    if (isFinished(job)) {
+      res.end();
+      return;
+    }
+
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+    let unsubscribe: (() => void) | undefined;
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+
+    unsubscribe = benchmarkJobs.subscribe(job.id, userId, (event) => {
+      send(event);
+      if (event.type === "job" && isFinished(event.job)) {
+        close();
+      }
+    });
+    req.on("close", close);
+  });
+
+  // Cancel a queued or running benchmark job
+  app.post("/api/benchmarks/jobs/:id/cancel", isAuthenticated, async (req: any, res) => {
+    const job = benchmarkJobs.cancel(req.params.id, req.user.id);
+    if (!job) {
+      res.status(404).json({ message: "Benchmark job not found" });
+      return;
+    }
+    if (job.status === 'succeeded' || job.status === 'failed') {
+      res.status(409).json({ message: "Benchmark job has already finished", job });
+      return;
+    }
+    res.json(job);
+  });
+
+  // Diff two runs of the same benchmark and account: new, resolved and persisting findings.
+  // `base` defaults to the run immediately before `target`.
+  app.get("/api/benchmarks/diff", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const targetId = req.query.target as string | undefined;
+      const baseId = req.query.base as string | undefined;
+
+      if (!targetId) {
+        res.status(400).json({ message: "target benchmark result ID is required" });
+        return;
+      }
+
+      const accounts = await storage.getAwsAccounts(userId);
+      const target = await storage.getBenchmarkResult(targetId);
+      if (!target || !accounts.some(account => account.id === target.awsAccountId)) {
+        res.status(404).json({ message: "Benchmark result not found" });
+        return;
+      }
+
+      let base;
+      if (baseId) {
+        base = await storage.getBenchmarkResult(baseId);
+        if (!base || base.awsAccountId !== target.awsAccountId || base.benchmarkId !== target.benchmarkId) {
+          res.status(400).json({ message: "Runs must be of the same benchmark and AWS account" });
+          return;
+        }
+      } else {
+        // Results are ordered newest first
+        const runs = await storage.getBenchmarkResults(target.awsAccountId);
+        base = runs.find(run =>
+          run.benchmarkId === target.benchmarkId &&
+          run.id !== target.id &&
+          (run.executedAt?.getTime() ?? 0) < (target.executedAt?.getTime() ?? 0)
+        );
+        if (!base) {
+          res.status(404).json({ message: "No earlier run of this benchmark to compare with" });
           return;
-        } catch (steampipeError: any) {
-          console.error('Steampipe benchmark failed, falling back to AWS SDK:', steampipeError);
-          // Fall through to use AWS SDK if Steampipe fails
         }
       }
-      
-      // Use real AWS scanning with decrypted credentials
-      const awsService = new AwsService({
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        region: account.region,
-      });
 
-      // Run the actual benchmark against real AWS resources
-      const result = await awsService.runBenchmark(benchmarkId);
-      
-      // Save the benchmark result to database (including individual resource checks)
-      await storage.saveBenchmarkResult({
-        awsAccountId: account.id,
-        benchmarkId: result.benchmarkId,
-        benchmarkName: result.benchmarkName,
-        controlsPassed: result.controlsPassed,
-        controlsFailed: result.controlsFailed,
-        estimatedSavings: result.estimatedSavings,
-        resultJson: { checks: result.checks },
-      }, result.checks);
-
-      res.json({ success: true, result });
-    } catch (error: any) {
-      console.error("Error running benchmark:", error);
-      
-      // Provide more specific error messages for AWS credential issues
-      if (error.name === 'CredentialsError' || error.name === 'InvalidClientTokenId') {
-        res.status(401).json({ 
-          message: "AWS credentials are invalid or expired. Please update your credentials." 
-        });
+      const [baseResults, targetResults] = await Promise.all([
+        storage.getControlResultsByBenchmark(base.id),
+        storage.getControlResultsByBenchmark(target.id),
+      ]);
+
+      res.json(diffBenchmarkRuns(base, baseResults, target, targetResults));
+    } catch (error) {
+      console.error("Error diffing benchmark runs:", error);
+      res.status(500).json({ message: "Failed to compare benchmark runs" });
+    }
+  });
+
+  // Benchmark schedules (recurring runs per AWS account)
+  app.get("/api/benchmark-schedules", isAuthenticated, async (req: any, res) => {
+    try {
+      const schedules = await storage.getBenchmarkSchedules(req.user.id);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error fetching benchmark schedules:", error);
+      res.status(500).json({ message: "Failed to fetch benchmark schedules" });
+    }
+  });
+
+  app.post("/api/benchmark-schedules", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const schedule = insertBenchmarkScheduleSchema.parse(req.body);
+
+      const accounts = await storage.getAwsAccounts(userId);
+      if (!accounts.some(account => account.id === schedule.awsAccountId)) {
+        res.status(404).json({ message: "AWS account not found or access denied" });
         return;
       }
-      
-      if (error.name === 'UnauthorizedException' || error.name === 'AccessDeniedException') {
-        res.status(403).json({ 
-          message: "AWS credentials do not have sufficient permissions to run this benchmark." 
+
+      const unknownBenchmarks = (schedule.benchmarkIds || []).filter(id => !controlRegistry.hasBenchmark(id));
+      if (unknownBenchmarks.length > 0) {
+        res.status(400).json({ 
+          message: `Invalid benchmark ID: ${unknownBenchmarks.join(', ')}`, 
+          validBenchmarks: controlRegistry.listBenchmarks().map(b => b.id),
         });
         return;
       }
+
+      const created = await storage.createBenchmarkSchedule({
+        ...schedule,
+        nextRunAt: computeNextRun(schedule, new Date()),
+      });
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return;
+      }
+      console.error("Error creating benchmark schedule:", error);
+      res.status(500).json({ message: "Failed to create benchmark schedule" });
+    }
+  });
+
+  // Pause or resume a schedule
+  app.patch("/api/benchmark-schedules/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { paused } = updateBenchmarkScheduleSchema.parse(req.body);
+
+      const existing = (await storage.getBenchmarkSchedules(userId)).find(s => s.id === req.params.id);
+      if (!existing) {
+        res.status(404).json({ message: "Benchmark schedule not found or access denied" });
+        return;
+      }
+
+      // Resuming starts from the next slot after now instead of catching up on the paused period
+      const nextRunAt = paused ? null : computeNextRun(existing, new Date());
+      const updated = await storage.updateBenchmarkSchedulePaused(existing.id, userId, paused, nextRunAt);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return;
+      }
+      console.error("Error updating benchmark schedule:", error);
+      res.status(500).json({ message: "Failed to update benchmark schedule" });
+    }
+  });
+
+  app.delete("/api/benchmark-schedules/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteBenchmarkSchedule(req.params.id, req.user.id);
       
-      if (error.message?.includes('Unknown benchmark')) {
-        res.status(400).json({ message: error.message });
+      if (!deleted) {
+        res.status(404).json({ message: "Benchmark schedule not found or access denied" });
         return;
       }
       
-      res.status(500).json({ 
-        message: "Failed to run benchmark. Please check your AWS credentials and try again." 
-      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting benchmark schedule:", error);
+      res.status(500).json({ message: "Failed to delete benchmark schedule" });
     }
   });
 
@@ -799,10 +755,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: control.id,
           resourceId: control.resourceId || 'N/A',
           resourceType: control.resourceType || 'Unknown',
+          region: control.region,
           controlName: control.controlName,
           passed: control.passed,
           reason: control.reason || `Resource optimization opportunity: ${control.controlName}`,
+          reviewNote: control.reviewNote,
           estimatedSavings: control.estimatedSavings,
+          savingsSource: control.savingsSource,
+          savingsConfidence: control.savingsConfidence,
+          savingsInputs: control.savingsInputs,
+          resourceMonthlyCost: control.resourceMonthlyCost,
           executedAt: control.executedAt,
         }));
       
@@ -1157,23 +1119,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/resources", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
+      const includeSuppressed = req.query.includeSuppressed === 'true';
       const accounts = await storage.getAwsAccounts(userId);
+      const findingStates = new FindingStateIndex(
+        await storage.getFindingStates(accounts.map(account => account.id))
+      );
       
       let allResources: any[] = [];
       for (const account of accounts) {
         const controls = await storage.getControlResults(account.id);
         const resources = controls
           .filter(control => !control.passed) // Only show failed checks (optimization opportunities)
+          .filter(control => includeSuppressed || (!control.suppressedByRuleId && !findingStates.isExcluded(control)))
           .map(control => ({
             id: control.id,
+            awsAccountId: control.awsAccountId,
+            controlId: control.controlId,
             resourceId: control.resourceId || 'N/A',
             resourceType: control.resourceType || 'Unknown',
             controlName: control.controlName,
             service: control.resourceType || 'Unknown',
-            region: account.region,
+            region: control.region || account.region,
             status: control.passed ? 'passed' : 'failed',
             reason: control.reason || `Resource optimization opportunity: ${control.controlName}`,
+            reviewNote: control.reviewNote,
             savingsPotential: control.estimatedSavings,
+            findingState: findingStates.effectiveState(control),
+            suppressedByRuleId: control.suppressedByRuleId,
+            stateReason: findingStates.get(control)?.reason ?? null,
+            snoozedUntil: findingStates.get(control)?.snoozedUntil ?? null,
             awsConsoleUrl: control.resourceId 
               ? `https://console.aws.amazon.com`
               : undefined,
@@ -1188,6 +1162,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Control settings routes - org-wide defaults (awsAccountId null) and per-account threshold overrides
+  app.get("/api/control-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const settings = await storage.getControlSettings(userId);
+      res.json({
+        defaults: settings.find(row => row.awsAccountId === null)?.thresholds || {},
+        accounts: Object.fromEntries(
+          settings
+            .filter(row => row.awsAccountId !== null)
+            .map(row => [row.awsAccountId, row.thresholds])
+        ),
+      });
+    } catch (error) {
+      console.error("Error fetching control settings:", error);
+      res.status(500).json({ message: "Failed to fetch control settings" });
+    }
+  });
+
+  // Replaces the overrides for one scope; parameters left out fall back to the next scope's value
+  app.put("/api/control-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const settings = updateControlSettingsSchema.parse(req.body);
+
+      const errors = controlRegistry.validateThresholds(settings.thresholds);
+      if (errors.length > 0) {
+        res.status(400).json({ message: "Invalid thresholds", errors });
+        return;
+      }
+
+      if (settings.awsAccountId) {
+        const accounts = await storage.getAwsAccounts(userId);
+        if (!accounts.some(account => account.id === settings.awsAccountId)) {
+          res.status(404).json({ message: "AWS account not found or access denied" });
+          return;
+        }
+      }
+
+      const saved = await storage.saveControlSettings(userId, settings);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        console.error("Error saving control settings:", error);
+        res.status(500).json({ message: "Failed to save control settings" });
+      }
+    }
+  });
+
+  // Suppression rule routes
+  app.get("/api/suppression-rules", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const rules = await storage.getSuppressionRules(userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching suppression rules:", error);
+      res.status(500).json({ message: "Failed to fetch suppression rules" });
+    }
+  });
+
+  // Rules apply to results saved after they are created; existing runs are left as they were
+  app.post("/api/suppression-rules", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const rule = insertSuppressionRuleSchema.parse(req.body);
+
+      if (rule.awsAccountId) {
+        const accounts = await storage.getAwsAccounts(userId);
+        if (!accounts.some(account => account.id === rule.awsAccountId)) {
+          res.status(404).json({ message: "AWS account not found or access denied" });
+          return;
+        }
+      }
+
+      const saved = await storage.createSuppressionRule(userId, rule);
+      res.json({ ...saved, hiddenFindings: 0 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        console.error("Error creating suppression rule:", error);
+        res.status(500).json({ message: "Failed to create suppression rule" });
+      }
+    }
+  });
+
+  app.delete("/api/suppression-rules/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const deleted = await storage.deleteSuppressionRule(req.params.id, userId);
+      if (!deleted) {
+        res.status(404).json({ message: "Suppression rule not found or access denied" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting suppression rule:", error);
+      res.status(500).json({ message: "Failed to delete suppression rule" });
+    }
+  });
+
+  // Tag policy routes
+  app.get("/api/tag-policies", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const policies = await storage.getTagPolicies(userId);
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching tag policies:", error);
+      res.status(500).json({ message: "Failed to fetch tag policies" });
+    }
+  });
+
+  // Required tags are checked by the next Tagging benchmark run
+  app.post("/api/tag-policies", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const policy = insertTagPolicySchema.parse(req.body);
+
+      if (policy.awsAccountId) {
+        const accounts = await storage.getAwsAccounts(userId);
+        if (!accounts.some(account => account.id === policy.awsAccountId)) {
+          res.status(404).json({ message: "AWS account not found or access denied" });
+          return;
+        }
+      }
+
+      const saved = await storage.saveTagPolicy(userId, policy);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        console.error("Error saving tag policy:", error);
+        res.status(500).json({ message: "Failed to save tag policy" });
+      }
+    }
+  });
+
+  app.delete("/api/tag-policies/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const deleted = await storage.deleteTagPolicy(req.params.id, userId);
+      if (!deleted) {
+        res.status(404).json({ message: "Tag policy not found or access denied" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tag policy:", error);
+      res.status(500).json({ message: "Failed to delete tag policy" });
+    }
+  });
+
+  // Finding lifecycle routes
+  app.get("/api/findings/states", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const accounts = await storage.getAwsAccounts(userId);
+      const states = await storage.getFindingStates(accounts.map(account => account.id));
+      res.json(states);
+    } catch (error) {
+      console.error("Error fetching finding states:", error);
+      res.status(500).json({ message: "Failed to fetch finding states" });
+    }
+  });
+
+  // Sets the state of one finding; it carries over to later runs reporting the same control and resource
+  app.put("/api/findings/state", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const update = updateFindingStateSchema.parse(req.body);
+
+      const accounts = await storage.getAwsAccounts(userId);
+      if (!accounts.some(account => account.id === update.awsAccountId)) {
+        res.status(404).json({ message: "AWS account not found or access denied" });
+        return;
+      }
+
+      const state = await storage.setFindingState(update, userId);
+      res.json(state);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid input", errors: error.errors });
+      } else {
+        console.error("Error updating finding state:", error);
+        res.status(500).json({ message: "Failed to update finding state" });
+      }
+    }
+  });
+
   // SQL Query routes
   app.get("/api/queries/history", isAuthenticated, async (req: any, res) => {
     try {
@@ -1236,6 +1404,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Run benchmark schedules through the job queue, so scheduled runs save results like manual ones
+  const scheduler = new BenchmarkScheduler(storage, (schedule, account, benchmarkId) =>
+    benchmarkJobs.enqueue(account.userId, account, benchmarkId, schedule.useSteampipe).id
+  );
+  benchmarkJobs.onJobFinished(job => scheduler.jobFinished(job));
+  scheduler.start();
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,141 @@
+import type { ScanContext } from "./control-registry";
+import type { RegionPrices } from "./price-catalog";
+import type { MetricQuery } from "./metrics-source";
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// S3 publishes storage metrics once a day, sometimes late; the latest value of a few days is used
+const STORAGE_METRIC_DAYS = 3;
+
+export type S3StorageClass =
+  | 'STANDARD'
+  | 'STANDARD_IA'
+  | 'ONEZONE_IA'
+  | 'REDUCED_REDUNDANCY'
+  | 'INTELLIGENT_TIERING' // Frequent Access tier
+  | 'INTELLIGENT_TIERING_IA'
+  | 'INTELLIGENT_TIERING_AIA'
+  | 'GLACIER_IR'
+  | 'GLACIER'
+  | 'DEEP_ARCHIVE';
+
+/**
+ * Reference storage prices (USD per GB-month, us-east-1), used when the price catalog has none for the region
+ */
+const REFERENCE_PRICES: Record<S3StorageClass, number> = {
+  STANDARD: 0.023,
+  STANDARD_IA: 0.0125,
+  ONEZONE_IA: 0.01,
+  REDUCED_REDUNDANCY: 0.024,
+  INTELLIGENT_TIERING: 0.023,
+  INTELLIGENT_TIERING_IA: 0.0125,
+  INTELLIGENT_TIERING_AIA: 0.004,
+  GLACIER_IR: 0.004,
+  GLACIER: 0.0036,
+  DEEP_ARCHIVE: 0.00099,
+};
+
+// Intelligent-Tiering monitoring and automation fee, per 1,000 objects a month
+const REFERENCE_MONITORING_PER_1000_OBJECTS = 0.0025;
+
+/**
+ * BucketSizeBytes storage types and the storage class they are billed as.
+ * Size overheads (small objects billed at a minimum size, archive index data) are billed with their class;
+ * the S3 overhead of archived objects is billed as Standard.
+ */
+const STORAGE_TYPES: Record<string, S3StorageClass> = {
+  StandardStorage: 'STANDARD',
+  StandardIAStorage: 'STANDARD_IA',
+  StandardIASizeOverhead: 'STANDARD_IA',
+  OneZoneIAStorage: 'ONEZONE_IA',
+  OneZoneIASizeOverhead: 'ONEZONE_IA',
+  ReducedRedundancyStorage: 'REDUCED_REDUNDANCY',
+  IntelligentTieringFAStorage: 'INTELLIGENT_TIERING',
+  IntelligentTieringIAStorage: 'INTELLIGENT_TIERING_IA',
+  IntelligentTieringAIAStorage: 'INTELLIGENT_TIERING_AIA',
+  GlacierInstantRetrievalStorage: 'GLACIER_IR',
+  GlacierInstantRetrievalSizeOverhead: 'GLACIER_IR',
+  GlacierStorage: 'GLACIER',
+  GlacierObjectOverhead: 'GLACIER',
+  GlacierS3ObjectOverhead: 'STANDARD',
+  DeepArchiveStorage: 'DEEP_ARCHIVE',
+  DeepArchiveObjectOverhead: 'DEEP_ARCHIVE',
+  DeepArchiveS3ObjectOverhead: 'STANDARD',
+};
+
+/**
+ * Size of a bucket per storage class, from the daily CloudWatch storage metrics.
+ * Sizes include noncurrent versions and the parts of incomplete multipart uploads.
+ */
+export interface BucketStorage {
+  gbByClass: Partial<Record<S3StorageClass, number>>;
+  totalGb: number;
+  objects: number; // Current and noncurrent versions in all storage classes
+}
+
+/**
+ * Storage of a bucket by class, or null when S3 published no storage metrics for it (empty or new buckets)
+ */
+export async function bucketStorage(bucketName: string, region: string | undefined, ctx: ScanContext): Promise<BucketStorage | null> {
+  const storageTypes = Object.keys(STORAGE_TYPES);
+  const queries: MetricQuery[] = [
+    ...storageTypes.map((StorageType): MetricQuery => ({
+      namespace: 'AWS/S3',
+      metricName: 'BucketSizeBytes',
+      dimensions: { BucketName: bucketName, StorageType },
+      statistic: 'Average',
+      region,
+    })),
+    {
+      namespace: 'AWS/S3',
+      metricName: 'NumberOfObjects',
+      dimensions: { BucketName: bucketName, StorageType: 'AllStorageTypes' },
+      statistic: 'Average',
+      region,
+    },
+  ];
+  const series = await ctx.metrics.getDailyValues(queries, STORAGE_METRIC_DAYS, ctx.now);
+  if (series.every(values => values.length === 0)) return null;
+
+  const latest = (values: number[]) => values[values.length - 1] ?? 0;
+  const gbByClass: Partial<Record<S3StorageClass, number>> = {};
+  storageTypes.forEach((storageType, index) => {
+    const storageClass = STORAGE_TYPES[storageType];
+    const gb = latest(series[index]) / BYTES_PER_GB;
+    if (gb > 0) gbByClass[storageClass] = (gbByClass[storageClass] ?? 0) + gb;
+  });
+  return {
+    gbByClass,
+    totalGb: Object.values(gbByClass).reduce((sum, gb) => sum + gb, 0),
+    objects: latest(series[storageTypes.length]),
+  };
+}
+
+/**
+ * Price in USD per GB-month of an S3 storage class
+ */
+export function storageClassGbMonthUsd(storageClass: S3StorageClass, prices: RegionPrices): number {
+  return prices.storageGbMonthUsd(storageClass) ?? REFERENCE_PRICES[storageClass];
+}
+
+/**
+ * Monthly storage cost in cents of a bucket (requests and data transfer aren't included)
+ */
+export function bucketStorageMonthlyCents(storage: BucketStorage, prices: RegionPrices): number {
+  const usd = Object.entries(storage.gbByClass)
+    .reduce((sum, [storageClass, gb]) => sum + gb * storageClassGbMonthUsd(storageClass as S3StorageClass, prices), 0);
+  return Math.round(usd * 100);
+}
+
+/**
+ * Monthly cost in cents of `gb` of Standard data in Intelligent-Tiering, assuming `coldPercent` of it
+ * goes unread for 30 days and moves to the Infrequent Access tier. Monitoring is charged per object.
+ */
+export function intelligentTieringMonthlyCents(gb: number, objects: number, coldPercent: number, prices: RegionPrices): number {
+  const cold = coldPercent / 100;
+  const monitoringUsd = prices.getPrice('AmazonS3', 'Monitoring-Automation-INT')?.pricePerUnit ?? REFERENCE_MONITORING_PER_1000_OBJECTS / 1000;
+  const usd = gb * (1 - cold) * storageClassGbMonthUsd('INTELLIGENT_TIERING', prices) +
+    gb * cold * storageClassGbMonthUsd('INTELLIGENT_TIERING_IA', prices) +
+    objects * monitoringUsd;
+  return Math.round(usd * 100);
+}
@@ -0,0 +1,223 @@
+import type { SavingsConfidence, SavingsEstimate, SavingsInputs, SavingsSource } from "@shared/schema";
+import type { RegionPrices } from "./price-catalog";
+
+/**
+ * Declarative savings models.
+ * Every control that estimates savings says explicitly how a fix saves money,
+ * instead of savings being guessed from words in the control's title.
+ */
+
+/**
+ * How fixing a finding reduces the resource's monthly cost
+ */
+export type SavingsMethod =
+  // The resource is deleted or terminated, saving its whole cost
+  | { kind: 'deletion' }
+  // A fixed share of the cost is saved (e.g. by scheduling or rightsizing)
+  | { kind: 'percentage'; percentage: number; rationale: string }
+  // The resource moves to a cheaper instance type; savings are the price difference
+  | { kind: 'instance-type-delta'; fromType: string; toType: string }
+  // Data moves to a cheaper storage class; savings are the per-GB price difference
+  | { kind: 'storage-class-delta'; fromClass: string; toClass: string }
+  // The resource moves to a cheaper configuration priced for it (e.g. a smaller memory size); savings are the price difference
+  | { kind: 'price-delta'; rationale: string; fromMonthlyCents: number; toMonthlyCents: number };
+
+/**
+ * Reference on-demand hourly prices (USD, us-east-1, Linux / MySQL) for the
+ * instance types the models compare. Only the ratio between two types is used,
+ * and only when the price catalog has no prices for the region being scanned.
+ */
+const REFERENCE_INSTANCE_HOURLY_PRICES: Record<string, number> = {
+  'm4.large': 0.10,
+  'm5.large': 0.096,
+  'm6g.large': 0.077,
+  'db.m4.large': 0.175,
+  'db.m5.large': 0.171,
+  'db.m6g.large': 0.152,
+  'cache.m4.large': 0.156,
+  'cache.m6g.large': 0.149,
+};
+
+/**
+ * Reference storage prices (USD per GB-month, us-east-1)
+ */
+const REFERENCE_STORAGE_CLASS_PRICES: Record<string, number> = {
+  // EBS volume types
+  'gp2': 0.10,
+  'gp3': 0.08,
+  'io1': 0.125,
+  'io2': 0.125,
+  'st1': 0.045,
+  'sc1': 0.015,
+  // EBS snapshot tiers
+  'snapshot-standard': 0.05,
+  'snapshot-archive': 0.0125,
+  // S3 storage classes
+  'STANDARD': 0.023,
+  'STANDARD_IA': 0.0125,
+  'GLACIER_IR': 0.004,
+};
+
+function priceRatioReduction(
+  referencePrices: Record<string, number>,
+  from: string,
+  to: string,
+  catalogPrice?: (name: string) => number | undefined
+): number {
+  // Catalog list prices are used only when both sides are present, so a ratio never mixes sources
+  const catalogFrom = catalogPrice?.(from);
+  const catalogTo = catalogPrice?.(to);
+  if (catalogFrom !== undefined && catalogTo !== undefined && catalogFrom > 0) {
+    return Math.max(0, 1 - catalogTo / catalogFrom);
+  }
+
+  const fromPrice = referencePrices[from];
+  const toPrice = referencePrices[to];
+  if (fromPrice === undefined || toPrice === undefined) {
+    throw new Error(`No reference price for ${fromPrice === undefined ? from : to}`);
+  }
+  return Math.max(0, 1 - toPrice / fromPrice);
+}
+
+/**
+ * Share of a resource's monthly cost (0-1) that fixing the finding saves
+ * @param prices - Catalog prices of the resource's region; price deltas fall back to the reference prices without them
+ */
+export function savingsFraction(method: SavingsMethod, prices?: RegionPrices): number {
+  switch (method.kind) {
+    case 'deletion':
+      return 1;
+    case 'percentage':
+      return method.percentage / 100;
+    case 'instance-type-delta':
+      return priceRatioReduction(REFERENCE_INSTANCE_HOURLY_PRICES, method.fromType, method.toType,
+        prices && (type => prices.instanceHourlyUsd(type)));
+    case 'storage-class-delta':
+      return priceRatioReduction(REFERENCE_STORAGE_CLASS_PRICES, method.fromClass, method.toClass,
+        prices && (storageClass => prices.storageGbMonthUsd(storageClass)));
+    case 'price-delta':
+      return method.fromMonthlyCents > 0 ? Math.max(0, 1 - method.toMonthlyCents / method.fromMonthlyCents) : 0;
+  }
+}
+
+/**
+ * Short human-readable description, e.g. "gp2 → gp3 storage (20%)"
+ */
+export function describeSavingsMethod(method: SavingsMethod, prices?: RegionPrices): string {
+  const percent = `${Math.round(savingsFraction(method, prices) * 100)}%`;
+  switch (method.kind) {
+    case 'deletion':
+      return 'Delete resource (100%)';
+    case 'percentage':
+      return `${method.rationale} (${percent})`;
+    case 'instance-type-delta':
+      return `${method.fromType} → ${method.toType} (${percent})`;
+    case 'storage-class-delta':
+      return `${method.fromClass} → ${method.toClass} storage (${percent})`;
+    case 'price-delta':
+      return `${method.rationale} (${percent})`;
+  }
+}
+
+// Confidence of an estimate by where its cost came from
+const SOURCE_CONFIDENCE: Record<SavingsSource, SavingsConfidence> = {
+  'resource-cost': 'high',
+  'list-price': 'medium',
+  'service-share': 'low',
+  'fallback': 'low',
+  'no-data': 'low',
+  'unmapped': 'low',
+};
+
+/**
+ * Provenance of a savings estimate, with the confidence its source warrants
+ */
+export function savingsEstimate(source: SavingsSource, inputs: SavingsInputs = {}): SavingsEstimate {
+  return { source, confidence: SOURCE_CONFIDENCE[source], inputs };
+}
+
+/**
+ * Inputs describing the savings model applied to a cost
+ */
+export function savingsModelInputs(method: SavingsMethod, prices?: RegionPrices): SavingsInputs {
+  return {
+    savingsModel: describeSavingsMethod(method, prices),
+    savingsPercentage: Math.round(savingsFraction(method, prices) * 1000) / 10,
+  };
+}
+
+/**
+ * Savings models for the aws_thrifty mod's controls, keyed by control name without the mod prefix.
+ * Controls missing here get no savings estimate and are reported as unmapped.
+ */
+export const THRIFTY_SAVINGS_METHODS: Record<string, SavingsMethod> = {
+  // EC2
+  ec2_instance_older_generation: { kind: 'instance-type-delta', fromType: 'm4.large', toType: 'm5.large' },
+  ec2_instance_with_graviton: { kind: 'instance-type-delta', fromType: 'm5.large', toType: 'm6g.large' },
+  ec2_instance_large: { kind: 'percentage', percentage: 50, rationale: 'Downsize one instance size' },
+  ec2_instance_long_running: { kind: 'percentage', percentage: 30, rationale: 'Cover with a reserved instance or savings plan' },
+  ec2_application_lb_unused: { kind: 'deletion' },
+  ec2_classic_lb_unused: { kind: 'deletion' },
+  ec2_gateway_lb_unused: { kind: 'deletion' },
+  ec2_network_lb_unused: { kind: 'deletion' },
+
+  // EBS
+  ebs_snapshot_max_age: { kind: 'deletion' },
+  ebs_volume_unattached: { kind: 'deletion' },
+  ebs_volume_on_stopped_instances: { kind: 'deletion' },
+  ebs_volume_low_usage: { kind: 'deletion' },
+  ebs_volume_using_gp2: { kind: 'storage-class-delta', fromClass: 'gp2', toClass: 'gp3' },
+  ebs_volume_using_io1: { kind: 'storage-class-delta', fromClass: 'io1', toClass: 'gp3' },
+  ebs_volume_high_iops: { kind: 'storage-class-delta', fromClass: 'io1', toClass: 'gp3' },
+  ebs_volume_low_iops: { kind: 'storage-class-delta', fromClass: 'io1', toClass: 'gp3' },
+  ebs_volume_large: { kind: 'storage-class-delta', fromClass: 'gp2', toClass: 'st1' },
+
+  // RDS
+  rds_db_instance_age_90: { kind: 'percentage', percentage: 30, rationale: 'Cover with a reserved instance' },
+  rds_db_instance_class_prev_gen: { kind: 'instance-type-delta', fromType: 'db.m4.large', toType: 'db.m5.large' },
+  rds_db_instance_with_graviton: { kind: 'instance-type-delta', fromType: 'db.m5.large', toType: 'db.m6g.large' },
+  rds_db_low_connections: { kind: 'deletion' },
+  rds_db_instance_low_connections: { kind: 'deletion' },
+  rds_db_low_utilization: { kind: 'percentage', percentage: 50, rationale: 'Downsize one instance size' },
+
+  // S3
+  s3_bucket_without_lifecycle: { kind: 'storage-class-delta', fromClass: 'STANDARD', toClass: 'STANDARD_IA' },
+
+  // DynamoDB
+  dynamodb_table_stale_data: { kind: 'deletion' },
+
+  // ElastiCache
+  elasticache_cluster_running_max_age: { kind: 'percentage', percentage: 30, rationale: 'Cover with a reserved node' },
+
+  // Redshift
+  redshift_cluster_max_age: { kind: 'percentage', percentage: 30, rationale: 'Cover with a reserved node' },
+  redshift_cluster_schedule_pause_resume_enabled: { kind: 'percentage', percentage: 50, rationale: 'Pause outside working hours' },
+  redshift_cluster_low_utilization: { kind: 'percentage', percentage: 50, rationale: 'Remove half the nodes' },
+
+  // Lambda
+  lambda_function_with_graviton: { kind: 'percentage', percentage: 20, rationale: 'Run on arm64 (20% lower GB-second price)' },
+
+  // CloudWatch
+  cw_log_group_retention: { kind: 'percentage', percentage: 50, rationale: 'Expire logs after a retention period' },
+  cw_log_stream_unused: { kind: 'deletion' },
+
+  // Networking
+  vpc_nat_gateway_unused: { kind: 'deletion' },
+  vpc_eip_unattached: { kind: 'deletion' },
+  route53_health_check_unused: { kind: 'deletion' },
+
+  // EMR
+  emr_cluster_is_idle_30_minutes: { kind: 'deletion' },
+
+  // CloudTrail (a second trail of management events is billed; the first is free)
+  cloudtrail_trail_global_multiple: { kind: 'deletion' },
+  cloudtrail_trail_regional_multiple: { kind: 'deletion' },
+};
+
+/**
+ * Look up the savings model of an aws_thrifty control (e.g. "aws_thrifty.control.ebs_volume_unattached")
+ */
+export function getThriftySavingsMethod(controlName: string): SavingsMethod | undefined {
+  const shortName = controlName.split('.').pop() || controlName;
+  return THRIFTY_SAVINGS_METHODS[shortName];
+}
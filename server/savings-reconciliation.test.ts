@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SavingsConfidence } from "@shared/schema";
+import { reconcileSavings, type ReconcilableCheck } from "./savings-reconciliation";
+
+const EC2 = 'Amazon Elastic Compute Cloud - Compute';
+const EBS = 'EC2 - Other';
+
+function finding(
+  id: string,
+  resourceId: string,
+  estimatedSavings: number,
+  overrides: Partial<ReconcilableCheck> & { confidence?: SavingsConfidence } = {}
+): ReconcilableCheck {
+  const { confidence = 'high', ...check } = overrides;
+  return {
+    id,
+    name: id,
+    passed: false,
+    resourceId,
+    estimatedSavings,
+    savingsEstimate: { source: 'resource-cost', confidence, inputs: { monthlyCostCents: estimatedSavings } },
+    serviceCode: EC2,
+    ...check,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("reconcileSavings de-duplication", () => {
+  it("keeps a finding that removes a resource over the resource's other findings", () => {
+    const stop = finding('ec2_instance_idle', 'i-1', 1000, { removesResource: true });
+    const resize = finding('ec2_instance_underutilized', 'i-1', 400);
+    const migrate = finding('ec2_instance_generation_migration', 'i-1', 150);
+
+    const report = reconcileSavings([resize, stop, migrate], null, 'ec2');
+
+    expect([stop.estimatedSavings, resize.estimatedSavings, migrate.estimatedSavings]).toEqual([1000, 0, 0]);
+    expect(report.duplicateFindings).toBe(2);
+    expect(report.duplicateSavingsCents).toBe(550);
+    expect(resize.savingsEstimate?.inputs).toMatchObject({
+      duplicateOf: 'ec2_instance_idle:i-1',
+      uncappedSavingsCents: 400,
+    });
+  });
+
+  it("keeps only the largest of several findings that remove the same resource", () => {
+    const idle = finding('rds_db_instance_idle', 'orders', 900, { removesResource: true });
+    const unused = finding('rds_db_instance_low_connections', 'orders', 700, { removesResource: true });
+
+    const report = reconcileSavings([unused, idle], null, 'rds');
+
+    expect([idle.estimatedSavings, unused.estimatedSavings]).toEqual([900, 0]);
+    expect(report.duplicateSavingsCents).toBe(700);
+  });
+
+  it("drops a removal finding that saves less than the resource's other findings together", () => {
+    const stop = finding('ec2_instance_idle', 'i-1', 500, { removesResource: true });
+    const resize = finding('ec2_instance_underutilized', 'i-1', 400);
+    const migrate = finding('ec2_instance_generation_migration', 'i-1', 150);
+
+    reconcileSavings([stop, resize, migrate], null, 'ec2');
+
+    expect([stop.estimatedSavings, resize.estimatedSavings, migrate.estimatedSavings]).toEqual([0, 400, 150]);
+    expect(stop.savingsEstimate?.inputs.duplicateOf).toBe('ec2_instance_underutilized:i-1');
+  });
+
+  it("keeps the savings of findings on different parts of one resource's cost", () => {
+    const S3 = 'Amazon Simple Storage Service';
+    const tiering = finding('s3_bucket_intelligent_tiering', 'logs', 1800, { serviceCode: S3 });
+    const versions = finding('s3_bucket_noncurrent_versions', 'logs', 600, { serviceCode: S3 });
+    const uploads = finding('s3_bucket_incomplete_multipart_uploads', 'logs', 200, { serviceCode: S3 });
+
+    const report = reconcileSavings([tiering, versions, uploads], null, 's3');
+
+    expect([tiering.estimatedSavings, versions.estimatedSavings, uploads.estimatedSavings]).toEqual([1800, 600, 200]);
+    expect(report.duplicateFindings).toBe(0);
+  });
+
+  it("treats resources with the same ID in different regions as different resources", () => {
+    const east = finding('ec2_instance_idle', 'web', 1000, { region: 'us-east-1', removesResource: true });
+    const west = finding('ec2_instance_underutilized', 'web', 400, { region: 'eu-west-1' });
+    const eastResize = finding('ec2_instance_underutilized', 'web', 300, { region: 'us-east-1' });
+
+    const report = reconcileSavings([east, west, eastResize], null, 'ec2');
+
+    expect([east.estimatedSavings, west.estimatedSavings, eastResize.estimatedSavings]).toEqual([1000, 400, 0]);
+    expect(report.duplicateFindings).toBe(1);
+  });
+
+  it("only covers related resources in the parent's region", () => {
+    const instance = finding('ec2_instance_idle', 'i-1', 1000, { region: 'us-east-1', relatedResourceIds: ['vol-1'] });
+    const volume = finding('ebs_volume_gp2', 'vol-1', 200, { region: 'us-east-1', serviceCode: EBS });
+    const otherRegionVolume = finding('ebs_volume_gp2', 'vol-1', 300, { region: 'eu-west-1', serviceCode: EBS });
+
+    reconcileSavings([instance, volume, otherRegionVolume], null, 'ec2');
+
+    expect([instance.estimatedSavings, volume.estimatedSavings, otherRegionVolume.estimatedSavings]).toEqual([1000, 0, 300]);
+  });
+
+  it("keeps a parent finding over the related findings it covers", () => {
+    const instance = finding('ec2_instance_idle', 'i-1', 1000, { relatedResourceIds: ['vol-1', 'vol-2'] });
+    const volume = finding('ebs_volume_gp2', 'vol-1', 200, { serviceCode: EBS });
+    const rootVolume = finding('ebs_volume_gp2', 'vol-2', 300, { serviceCode: EBS });
+    const unrelated = finding('ebs_volume_gp2', 'vol-3', 250, { serviceCode: EBS });
+
+    const report = reconcileSavings([instance, volume, rootVolume, unrelated], null, 'ec2');
+
+    expect(instance.estimatedSavings).toBe(1000);
+    expect(volume.estimatedSavings).toBe(0);
+    expect(rootVolume.estimatedSavings).toBe(0);
+    expect(unrelated.estimatedSavings).toBe(250);
+    expect(volume.savingsEstimate?.inputs.duplicateOf).toBe('ec2_instance_idle:i-1');
+    expect(report.duplicateFindings).toBe(2);
+    expect(report.duplicateSavingsCents).toBe(500);
+  });
+
+  it("keeps the related findings when together they save more than the parent", () => {
+    const instance = finding('ec2_instance_generation_migration', 'i-1', 100, { relatedResourceIds: ['vol-1'] });
+    const volume = finding('ebs_volume_unused', 'vol-1', 300, { serviceCode: EBS });
+
+    reconcileSavings([instance, volume], null, 'ec2');
+
+    expect(instance.estimatedSavings).toBe(0);
+    expect(volume.estimatedSavings).toBe(300);
+    expect(instance.savingsEstimate?.inputs.duplicateOf).toBe('ebs_volume_unused:vol-1');
+  });
+
+  it("ignores passed findings and rounds fractional savings", () => {
+    const passed = finding('ec2_instance_idle', 'i-1', 1000, { passed: true });
+    const failed = finding('ec2_instance_underutilized', 'i-1', 99.6);
+
+    const report = reconcileSavings([passed, failed], null, 'ec2');
+
+    expect(passed.estimatedSavings).toBe(1000);
+    expect(failed.estimatedSavings).toBe(100);
+    expect(report.duplicateFindings).toBe(0);
+  });
+});
+
+describe("reconcileSavings capping", () => {
+  it("skips capping without service costs", () => {
+    const check = finding('ec2_instance_idle', 'i-1', 5000);
+
+    const report = reconcileSavings([check], [], 'ec2');
+
+    expect(report.capApplied).toBe(false);
+    expect(report.services).toEqual([]);
+    expect(check.estimatedSavings).toBe(5000);
+  });
+
+  it("leaves savings within the service's cost unchanged", () => {
+    const check = finding('ec2_instance_idle', 'i-1', 400);
+
+    const report = reconcileSavings([check], [{ serviceCode: EC2, amount: 1000 }], 'ec2');
+
+    expect(check.estimatedSavings).toBe(400);
+    expect(check.savingsEstimate?.confidence).toBe('high');
+    expect(report.services).toEqual([{
+      serviceCode: EC2,
+      actualCostCents: 1000,
+      estimatedSavingsCents: 400,
+      cappedSavingsCents: 400,
+      capFactor: 1,
+      findings: 1,
+      status: 'within-cost',
+    }]);
+  });
+
+  it("scales savings down to the service's cost and gives the rounding remainder to the largest finding", () => {
+    const checks = [
+      finding('ec2_instance_idle', 'i-1', 333),
+      finding('ec2_instance_idle', 'i-2', 333),
+      finding('ec2_instance_idle', 'i-3', 334),
+    ];
+
+    const report = reconcileSavings(checks, [{ serviceCode: EC2, amount: 500 }], 'ec2');
+
+    // 0.5 of each rounds down to 166 + 166 + 167 = 499; the missing cent goes to i-3
+    expect(checks.map(check => check.estimatedSavings)).toEqual([166, 166, 168]);
+    expect(checks.reduce((sum, check) => sum + check.estimatedSavings, 0)).toBe(500);
+    expect(report.services[0]).toMatchObject({
+      estimatedSavingsCents: 1000,
+      cappedSavingsCents: 500,
+      capFactor: 0.5,
+      status: 'capped',
+    });
+  });
+
+  it("records the cap factor and uncapped savings and lowers confidence one level", () => {
+    const high = finding('ec2_instance_idle', 'i-1', 2000, { confidence: 'high' });
+    const medium = finding('ec2_instance_idle', 'i-2', 600, { confidence: 'medium' });
+    const low = finding('ec2_instance_idle', 'i-3', 400, { confidence: 'low' });
+
+    reconcileSavings([high, medium, low], [{ serviceCode: EC2, amount: 1000 }], 'ec2');
+
+    expect(high.savingsEstimate).toMatchObject({ confidence: 'medium', inputs: { capFactor: 0.333, uncappedSavingsCents: 2000 } });
+    expect(medium.savingsEstimate).toMatchObject({ confidence: 'low', inputs: { capFactor: 0.333, uncappedSavingsCents: 600 } });
+    expect(low.savingsEstimate).toMatchObject({ confidence: 'low', inputs: { capFactor: 0.333, uncappedSavingsCents: 400 } });
+    // Other inputs are kept
+    expect(high.savingsEstimate?.inputs.monthlyCostCents).toBe(2000);
+  });
+
+  it("zeroes savings of a service Cost Explorer has no cost for", () => {
+    const check = finding('ec2_instance_idle', 'i-1', 700);
+
+    const report = reconcileSavings([check], [{ serviceCode: 'Amazon Relational Database Service', amount: 1000 }], 'ec2');
+
+    expect(check.estimatedSavings).toBe(0);
+    expect(check.savingsEstimate).toMatchObject({ confidence: 'medium', inputs: { capFactor: 0, uncappedSavingsCents: 700 } });
+    expect(report.services).toEqual([expect.objectContaining({
+      serviceCode: EC2,
+      actualCostCents: null,
+      cappedSavingsCents: 0,
+      capFactor: 0,
+      status: 'no-cost-data',
+    })]);
+  });
+
+  it("zeroes savings of a service that cost nothing", () => {
+    const check = finding('ec2_instance_idle', 'i-1', 700);
+
+    const report = reconcileSavings([check], [{ serviceCode: EC2, amount: 0 }], 'ec2');
+
+    expect(check.estimatedSavings).toBe(0);
+    expect(report.services[0]).toMatchObject({ actualCostCents: 0, cappedSavingsCents: 0, status: 'zero-cost' });
+  });
+
+  it("matches services through ARNs, benchmark IDs and Cost Explorer naming variations", () => {
+    const fromArn = finding('rds_db_instance_idle', 'arn:aws:rds:us-east-1:123456789012:db:orders', 300, { serviceCode: null });
+    const fromBenchmark = finding('rds_db_instance_idle', 'orders-replica', 200, { serviceCode: null });
+
+    const report = reconcileSavings([fromArn, fromBenchmark], [
+      { serviceCode: 'AmazonRDS', amount: 100 },
+      { serviceCode: 'amazon relational database service', amount: 50 },
+    ], 'rds');
+
+    expect([fromArn.estimatedSavings, fromBenchmark.estimatedSavings]).toEqual([90, 60]);
+    expect(report.services).toEqual([expect.objectContaining({
+      serviceCode: 'Amazon Relational Database Service',
+      actualCostCents: 150,
+      estimatedSavingsCents: 500,
+      findings: 2,
+      status: 'capped',
+    })]);
+  });
+
+  it("caps only what de-duplication left", () => {
+    const stop = finding('ec2_instance_idle', 'i-1', 800, { removesResource: true });
+    const resize = finding('ec2_instance_underutilized', 'i-1', 500);
+
+    const report = reconcileSavings([stop, resize], [{ serviceCode: EC2, amount: 1000 }], 'ec2');
+
+    expect(stop.estimatedSavings).toBe(800);
+    expect(resize.estimatedSavings).toBe(0);
+    expect(report.services[0]).toMatchObject({ estimatedSavingsCents: 800, findings: 1, status: 'within-cost' });
+  });
+});
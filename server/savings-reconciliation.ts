@@ -0,0 +1,311 @@
+import type {
+  SavingsEstimate,
+  SavingsReconciliation,
+  ServiceSavingsCap,
+} from "@shared/schema";
+
+/**
+ * Savings reconciliation.
+ * Per-finding estimates are made independently, so the same spend can be claimed
+ * twice (two controls on one resource, or an instance and the volumes it owns)
+ * and their total can exceed what AWS actually bills. Both benchmark paths run
+ * their findings through reconcileSavings before the run is saved.
+ */
+
+/**
+ * A finding as both the AWS SDK and Steampipe paths report it
+ */
+export interface ReconcilableCheck {
+  id: string; // Control ID
+  name: string;
+  passed: boolean;
+  resourceId?: string;
+  region?: string; // Resource IDs are only unique within a region
+  estimatedSavings: number; // in cents
+  savingsEstimate?: SavingsEstimate;
+  serviceCode?: string | null; // Cost Explorer SERVICE the savings come out of
+  removesResource?: boolean; // Fixing the finding deletes or stops the resource, saving its whole cost
+  relatedResourceIds?: string[]; // Other resources in the same region whose cost fixing this finding also removes
+}
+
+/**
+ * Month-to-date cost of a Cost Explorer service, in cents
+ */
+export interface ServiceCost {
+  serviceCode: string;
+  amount: number;
+}
+
+// Maps ARN services, resource names and benchmark IDs to Cost Explorer SERVICE dimension values
+const SERVICE_ALIASES: Record<string, string> = {
+  // S3 - handles both ARN and bucket name formats
+  's3': 'Amazon Simple Storage Service',
+  'amazons3': 'Amazon Simple Storage Service',
+  'amazon simple storage service': 'Amazon Simple Storage Service',
+
+  // DynamoDB - handles both ARN and table name formats
+  'dynamodb': 'Amazon DynamoDB',
+  'amazondynamodb': 'Amazon DynamoDB',
+  'amazon dynamodb': 'Amazon DynamoDB',
+
+  // EC2 - multiple service types
+  'ec2': 'Amazon Elastic Compute Cloud - Compute',
+  'amazonec2': 'Amazon Elastic Compute Cloud - Compute',
+  'amazon elastic compute cloud': 'Amazon Elastic Compute Cloud - Compute',
+  'amazon elastic compute cloud - compute': 'Amazon Elastic Compute Cloud - Compute',
+  'ec2 - other': 'EC2 - Other', // EBS, EIPs, etc.
+
+  // RDS
+  'rds': 'Amazon Relational Database Service',
+  'amazonrds': 'Amazon Relational Database Service',
+  'amazon relational database service': 'Amazon Relational Database Service',
+
+  // ElastiCache
+  'elasticache': 'Amazon ElastiCache',
+  'amazonelasticache': 'Amazon ElastiCache',
+  'amazon elasticache': 'Amazon ElastiCache',
+
+  // Redshift
+  'redshift': 'Amazon Redshift',
+  'amazonredshift': 'Amazon Redshift',
+  'amazon redshift': 'Amazon Redshift',
+
+  // Lambda
+  'lambda': 'AWS Lambda',
+  'awslambda': 'AWS Lambda',
+  'amazon lambda': 'AWS Lambda',
+  'aws lambda': 'AWS Lambda',
+
+  // ELB
+  'elb': 'Elastic Load Balancing',
+  'elasticloadbalancing': 'Elastic Load Balancing',
+  'elastic load balancing': 'Elastic Load Balancing',
+};
+
+const UNKNOWN_SERVICE = 'Unknown Service';
+
+/**
+ * Normalize a service name to its Cost Explorer SERVICE value, handling Cost Explorer variations
+ */
+export function normalizeServiceCode(code: string): string {
+  return SERVICE_ALIASES[code.toLowerCase().trim()] || code;
+}
+
+/**
+ * Cost Explorer service a finding's savings come out of.
+ * Falls back to the ARN's service, then to the benchmark (for non-ARN IDs such as bucket or table names).
+ */
+function resolveServiceCode(check: ReconcilableCheck, benchmarkId: string): string {
+  if (check.serviceCode) return check.serviceCode;
+
+  if (check.resourceId?.startsWith('arn:')) {
+    const arnService = check.resourceId.split(':')[2];
+    if (arnService) return normalizeServiceCode(arnService);
+  }
+
+  const benchmarkService = SERVICE_ALIASES[benchmarkId.toLowerCase()];
+  if (benchmarkService) return benchmarkService;
+
+  console.warn(`Could not determine service for ${check.resourceId} in benchmark ${benchmarkId}, will zero savings`);
+  return UNKNOWN_SERVICE;
+}
+
+const findingKey = (check: ReconcilableCheck) => `${check.id}:${check.resourceId ?? ''}`;
+
+const resourceKey = (region: string | undefined, resourceId: string) => `${region ?? ''}/${resourceId}`;
+
+const totalSavings = (checks: ReconcilableCheck[]) => checks.reduce((sum, check) => sum + check.estimatedSavings, 0);
+
+/**
+ * Zero a finding whose spend another finding already claims
+ */
+function markDuplicate(check: ReconcilableCheck, keptBy: ReconcilableCheck): number {
+  const removed = check.estimatedSavings;
+  check.estimatedSavings = 0;
+  if (check.savingsEstimate) {
+    check.savingsEstimate = {
+      ...check.savingsEstimate,
+      inputs: { ...check.savingsEstimate.inputs, duplicateOf: findingKey(keptBy), uncappedSavingsCents: removed },
+    };
+  }
+  return removed;
+}
+
+/**
+ * Record that an estimate was scaled down to fit the service's actual cost.
+ * A capped estimate overshot real spend, so its confidence drops one level.
+ */
+function capEstimate(check: ReconcilableCheck, capFactor: number, uncappedSavingsCents: number): void {
+  if (!check.savingsEstimate) return;
+  check.savingsEstimate = {
+    ...check.savingsEstimate,
+    confidence: check.savingsEstimate.confidence === 'high' ? 'medium' : 'low',
+    inputs: { ...check.savingsEstimate.inputs, capFactor, uncappedSavingsCents },
+  };
+}
+
+/**
+ * Remove double counting between findings.
+ * Findings only overlap when they claim the same spend: a finding that deletes or stops a resource
+ * claims all of its cost, so it is kept over the resource's other findings when it saves at least as
+ * much as they do together (and dropped otherwise). Other findings on one resource save on different
+ * parts of its cost (e.g. different storage in one bucket) and keep their savings. A finding that also
+ * removes related resources (an instance and its attached volumes) is likewise kept over the findings
+ * on those resources when it saves at least as much.
+ */
+function deduplicate(findings: ReconcilableCheck[]): { duplicates: number; removedSavings: number } {
+  let duplicates = 0;
+  let removedSavings = 0;
+  const drop = (check: ReconcilableCheck, keptBy: ReconcilableCheck) => {
+    removedSavings += markDuplicate(check, keptBy);
+    duplicates++;
+  };
+
+  // Largest first, so the removal finding kept for a resource is its largest one
+  const bySavings = [...findings].sort((a, b) => b.estimatedSavings - a.estimatedSavings);
+
+  const byResource = new Map<string, ReconcilableCheck[]>();
+  for (const check of bySavings) {
+    if (!check.resourceId) continue;
+    const key = resourceKey(check.region, check.resourceId);
+    byResource.set(key, [...(byResource.get(key) || []), check]);
+  }
+
+  byResource.forEach(resourceFindings => {
+    const [removal, ...otherRemovals] = resourceFindings.filter(check => check.removesResource);
+    if (!removal) return;
+
+    // Removing a resource twice saves nothing more
+    otherRemovals.forEach(check => drop(check, removal));
+
+    const partial = resourceFindings.filter(check => !check.removesResource);
+    if (partial.length === 0) return;
+    if (removal.estimatedSavings >= totalSavings(partial)) {
+      partial.forEach(check => drop(check, removal));
+    } else {
+      drop(removal, partial[0]);
+    }
+  });
+
+  // Findings still claiming savings on a resource
+  const kept = (key: string) => (byResource.get(key) || []).filter(check => check.estimatedSavings > 0);
+
+  for (const parent of bySavings) {
+    if (parent.estimatedSavings === 0 || !parent.relatedResourceIds?.length) continue;
+
+    const children = parent.relatedResourceIds
+      .flatMap(resourceId => kept(resourceKey(parent.region, resourceId)))
+      .filter(child => child !== parent);
+    if (children.length === 0) continue;
+
+    if (parent.estimatedSavings >= totalSavings(children)) {
+      children.forEach(child => drop(child, parent));
+    } else {
+      drop(parent, children[0]);
+    }
+  }
+
+  return { duplicates, removedSavings };
+}
+
+/**
+ * Scale a service's findings down so their savings add up to exactly the service's cost.
+ * The rounding remainder goes to the largest finding.
+ */
+function capToCost(findings: ReconcilableCheck[], total: number, actualCost: number): number {
+  const capFactor = actualCost / total;
+  for (const check of findings) {
+    const uncapped = check.estimatedSavings;
+    check.estimatedSavings = Math.floor(uncapped * capFactor);
+    capEstimate(check, Math.round(capFactor * 1000) / 1000, uncapped);
+  }
+
+  const cappedTotal = findings.reduce((sum, check) => sum + check.estimatedSavings, 0);
+  const remainder = actualCost - cappedTotal;
+  if (remainder > 0) {
+    const largest = findings.reduce((max, check) => check.estimatedSavings > max.estimatedSavings ? check : max, findings[0]);
+    largest.estimatedSavings += remainder;
+  }
+  return capFactor;
+}
+
+/**
+ * De-duplicate overlapping findings, then cap total savings per service at the service's actual cost.
+ * Findings are updated in place (estimatedSavings and savingsEstimate).
+ * @param serviceCosts - Month-to-date cost per Cost Explorer service; capping is skipped when null or empty
+ * @returns Report of what was removed and capped, stored with the run
+ */
+export function reconcileSavings(
+  checks: ReconcilableCheck[],
+  serviceCosts: ServiceCost[] | null,
+  benchmarkId: string
+): SavingsReconciliation {
+  const findings = checks.filter(check => !check.passed && check.estimatedSavings > 0);
+  for (const check of findings) {
+    check.estimatedSavings = Math.round(check.estimatedSavings);
+  }
+
+  const { duplicates, removedSavings } = deduplicate(findings);
+  const report: SavingsReconciliation = {
+    duplicateFindings: duplicates,
+    duplicateSavingsCents: removedSavings,
+    capApplied: !!serviceCosts && serviceCosts.length > 0,
+    services: [],
+  };
+  if (!report.capApplied) {
+    console.warn('Service costs unavailable; savings were not capped');
+    return report;
+  }
+
+  // Cost per normalized service, so Cost Explorer naming variations still match
+  const costByService = new Map<string, number>();
+  for (const { serviceCode, amount } of serviceCosts!) {
+    const normalized = normalizeServiceCode(serviceCode);
+    costByService.set(normalized, (costByService.get(normalized) || 0) + amount);
+  }
+
+  const findingsByService = new Map<string, ReconcilableCheck[]>();
+  for (const check of findings) {
+    if (check.estimatedSavings === 0) continue;
+    const serviceCode = normalizeServiceCode(resolveServiceCode(check, benchmarkId));
+    const serviceFindings = findingsByService.get(serviceCode) || [];
+    serviceFindings.push(check);
+    findingsByService.set(serviceCode, serviceFindings);
+  }
+
+  findingsByService.forEach((serviceFindings, serviceCode) => {
+    const total = serviceFindings.reduce((sum, check) => sum + check.estimatedSavings, 0);
+    const actualCost = costByService.get(serviceCode);
+    const cap: ServiceSavingsCap = {
+      serviceCode,
+      actualCostCents: actualCost ?? null,
+      estimatedSavingsCents: total,
+      cappedSavingsCents: total,
+      capFactor: 1,
+      findings: serviceFindings.length,
+      status: 'within-cost',
+    };
+
+    if (actualCost === undefined || actualCost <= 0) {
+      // No spend for the service means there is nothing to save
+      console.warn(`Service ${serviceCode} has no Cost Explorer cost; setting its savings to $0.00`);
+      for (const check of serviceFindings) {
+        const uncapped = check.estimatedSavings;
+        check.estimatedSavings = 0;
+        capEstimate(check, 0, uncapped);
+      }
+      cap.cappedSavingsCents = 0;
+      cap.capFactor = 0;
+      cap.status = actualCost === undefined ? 'no-cost-data' : 'zero-cost';
+    } else if (total > actualCost) {
+      console.log(`Capping ${serviceCode} savings: $${(total / 100).toFixed(2)} → $${(actualCost / 100).toFixed(2)}`);
+      cap.capFactor = Math.round(capToCost(serviceFindings, total, actualCost) * 1000) / 1000;
+      cap.cappedSavingsCents = actualCost;
+      cap.status = 'capped';
+    }
+
+    report.services.push(cap);
+  });
+
+  return report;
+}
@@ -0,0 +1,152 @@
+import { EventEmitter } from "events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { spawn } from "child_process";
+import { steampipeService, type SteampipeBenchmarkResult, type SteampipeControl } from "./steampipe-service";
+
+vi.mock("child_process", () => ({ spawn: vi.fn() }));
+
+/**
+ * Fake Powerpipe process whose output is written by the test
+ */
+class FakeProcess extends EventEmitter {
+  stdout = Object.assign(new EventEmitter(), { setEncoding: vi.fn() });
+  stderr = Object.assign(new EventEmitter(), { setEncoding: vi.fn() });
+  kill = vi.fn();
+
+  write(chunk: string) {
+    this.stdout.emit('data', chunk);
+  }
+
+  exit(code = 0) {
+    this.emit('close', code, null);
+  }
+}
+
+/**
+ * Make `benchmark show` describe a benchmark with the given controls and return the `benchmark run` process
+ */
+function fakePowerpipe(controlNames: string[]): FakeProcess {
+  const run = new FakeProcess();
+  vi.mocked(spawn).mockImplementation(((_bin: string, args: string[]) => {
+    if (args[1] !== 'show') return run;
+    const show = new FakeProcess();
+    setImmediate(() => {
+      show.write(JSON.stringify({ title: 'EBS Checks', description: 'EBS savings', children: controlNames }));
+      show.exit();
+    });
+    return show;
+  }) as any);
+  return run;
+}
+
+function control(resource: string, status: SteampipeControl['status'] = 'alarm'): SteampipeControl {
+  return { controlId: 'ebs_volume_unattached', name: 'Unattached volumes', status, reason: '', resource };
+}
+
+function benchmarkResult(controls: SteampipeControl[]): SteampipeBenchmarkResult {
+  return {
+    name: 'aws_thrifty.benchmark.ebs',
+    title: 'EBS Checks',
+    description: '',
+    summary: { status: { ok: 0, alarm: controls.length, error: 0, skip: 0, info: 0 } },
+    controls,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(spawn).mockReset();
+});
+
+describe("SteampipeService.runBenchmark", () => {
+  const header = 'group_id,title,description,control_id,control_title,control_description,reason,resource,status,severity,account_id,region\n';
+
+  it("reports each control as its CSV rows stream in, before Powerpipe exits", async () => {
+    const run = fakePowerpipe(['aws_thrifty.control.ebs_volume_unattached', 'aws_thrifty.control.ebs_volume_gp2']);
+    const onControl = vi.fn();
+    const onProgress = vi.fn();
+
+    const result = steampipeService.runBenchmark('aws_thrifty.benchmark.ebs', 'key', 'secret', 'eu-west-1', { onControl, onProgress });
+    await vi.waitFor(() => expect(spawn).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(spawn).mock.calls[1][1]).toEqual(['benchmark', 'run', 'aws_thrifty.benchmark.ebs', '--output', 'csv', '--progress=false']);
+
+    // Rows split mid-line and a quoted reason containing a comma, a quote and a newline
+    run.write(header + 'aws_thrifty.benchmark.ebs,EBS Checks,,aws_thrifty.control.ebs_volume_unattached,Unattached volumes,,"vol-1 is ');
+    run.write('unattached, ""idle""\nsince May",arn:aws:ec2:eu-west-1:123456789012:volume/vol-1,alarm,low,123456789012,eu-west-1\n');
+    run.write('aws_thrifty.benchmark.ebs,EBS Checks,,aws_thrifty.control.ebs_volume_unattached,Unattached volumes,,vol-2 is attached,arn:aws:ec2:eu-west-1:123456789012:volume/vol-2,ok,low,123456789012,eu-west-1\n');
+    expect(onControl).not.toHaveBeenCalled();
+
+    run.write('aws_thrifty.benchmark.ebs,EBS Checks,,aws_thrifty.control.ebs_volume_gp2,gp2 volumes,,vol-1 is gp2,arn:aws:ec2:eu-west-1:123456789012:volume/vol-1,alarm,low,123456789012,eu-west-1\n');
+    expect(onControl).toHaveBeenCalledTimes(1);
+    expect(onControl.mock.calls[0][0]).toMatchObject({
+      name: 'Unattached volumes',
+      results: [
+        { controlId: 'ebs_volume_unattached', status: 'alarm', reason: 'vol-1 is unattached, "idle"\nsince May', region: 'eu-west-1' },
+        { controlId: 'ebs_volume_unattached', status: 'ok' },
+      ],
+    });
+    expect(onProgress).toHaveBeenLastCalledWith({ completed: 1, total: 2 });
+
+    run.exit(1); // Powerpipe exits non-zero when controls alarm
+
+    const { title, summary, controls } = await result;
+    expect(onControl).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith({ completed: 2, total: 2 });
+    expect(title).toBe('EBS Checks');
+    expect(summary.status).toEqual({ ok: 1, alarm: 2, error: 0, skip: 0, info: 0 });
+    expect(controls[0].dimensions).toEqual({ account_id: '123456789012', region: 'eu-west-1' });
+  });
+
+  it("fails when Powerpipe exits with an error and no output", async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const run = fakePowerpipe([]);
+
+    const result = steampipeService.runBenchmark('aws_thrifty.benchmark.ebs', 'key', 'secret', 'eu-west-1');
+    await vi.waitFor(() => expect(spawn).toHaveBeenCalledTimes(2));
+    run.exit(2);
+
+    await expect(result).rejects.toThrow('Failed to run benchmark aws_thrifty.benchmark.ebs: Powerpipe exited with code 2');
+  });
+});
+
+describe("SteampipeService.runBenchmarkInRegions", () => {
+  it("runs the benchmark in each region and keeps global resources from the first region only", async () => {
+    const bucket = 'arn:aws:s3:::logs';
+    const runs: Record<string, SteampipeBenchmarkResult> = {
+      'us-east-1': benchmarkResult([control('arn:aws:ec2:us-east-1:123456789012:volume/vol-1'), control(bucket)]),
+      'eu-west-1': benchmarkResult([control('arn:aws:ec2:eu-west-1:123456789012:volume/vol-2'), control(bucket, 'ok')]),
+    };
+    const run = vi.spyOn(steampipeService, 'runBenchmark').mockImplementation(async (_name, _key, _secret, region) => runs[region!]);
+
+    const result = await steampipeService.runBenchmarkInRegions('aws_thrifty.benchmark.ebs', 'key', 'secret', ['us-east-1', 'eu-west-1']);
+
+    expect(run.mock.calls.map(([, , , region]) => region)).toEqual(['us-east-1', 'eu-west-1']);
+    expect(result.controls.map(({ resource, region }) => [resource, region])).toEqual([
+      ['arn:aws:ec2:us-east-1:123456789012:volume/vol-1', 'us-east-1'],
+      [bucket, 'us-east-1'],
+      ['arn:aws:ec2:eu-west-1:123456789012:volume/vol-2', 'eu-west-1'],
+    ]);
+    expect(result.summary.status).toEqual({ ok: 0, alarm: 3, error: 0, skip: 0, info: 0 });
+  });
+
+  it("reports progress and controls across all regions", async () => {
+    vi.spyOn(steampipeService, 'runBenchmark').mockImplementation(async (_name, _key, _secret, region, options) => {
+      options?.onProgress?.({ completed: 1, total: 2 });
+      options?.onControl?.({ name: 'Unattached volumes', results: [control('arn:aws:s3:::logs')] });
+      return benchmarkResult([]);
+    });
+    const onProgress = vi.fn();
+    const onControl = vi.fn();
+
+    await steampipeService.runBenchmarkInRegions('aws_thrifty.benchmark.ebs', 'key', 'secret', ['us-east-1', 'eu-west-1'], { onProgress, onControl });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { completed: 1, total: 4, region: 'us-east-1' },
+      { completed: 3, total: 4, region: 'eu-west-1' },
+    ]);
+    expect(onControl.mock.calls.map(([{ region, results }]) => [region, results.length])).toEqual([
+      ['us-east-1', 1],
+      ['eu-west-1', 0],
+    ]);
+  });
+});
@@ -1,18 +1,17 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
 import path from 'path';
 
-const execAsync = promisify(exec);
-
 const STEAMPIPE_BIN = path.join(process.cwd(), '.local/bin/steampipe');
 const POWERPIPE_BIN = path.join(process.cwd(), '.local/bin/powerpipe');
 const POWERPIPE_WORKSPACE = path.join(process.env.HOME || '/home/runner', 'steampipe-workspace');
 
 export interface SteampipeControl {
+  controlId: string; // Control name without the mod prefix, e.g. "ebs_volume_unattached"
   name: string;
   status: 'ok' | 'alarm' | 'error' | 'skip' | 'info';
   reason: string;
   resource: string;
+  region?: string; // Region the result is in (its region dimension, else the region the benchmark ran in)
   dimensions?: Record<string, string>;
 }
 
@@ -32,6 +31,95 @@ export interface SteampipeBenchmarkResult {
   controls: SteampipeControl[];
 }
 
+/**
+ * Results of one control, reported as soon as Powerpipe writes them
+ */
+export interface SteampipeControlProgress {
+  name: string;
+  region?: string;
+  results: SteampipeControl[];
+}
+
+export interface SteampipeRunOptions {
+  signal?: AbortSignal; // Aborting kills the Powerpipe process
+  onControl?: (control: SteampipeControlProgress) => void;
+  onProgress?: (progress: { completed: number; total: number; region?: string }) => void;
+}
+
+const BENCHMARK_TIMEOUT_MS = 300000; // 5 minute timeout
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024; // 10MB of CSV output
+
+// Columns Powerpipe writes for every result; the columns after them are the result's dimensions
+const CSV_RESULT_COLUMNS = new Set([
+  'group_id', 'title', 'description', 'control_id', 'control_title', 'control_description',
+  'reason', 'resource', 'status', 'severity',
+]);
+
+/**
+ * Whether an ARN names a global resource, e.g. arn:aws:s3:::bucket
+ */
+function isGlobalResource(arn: string): boolean {
+  const parts = arn.split(':');
+  return arn.startsWith('arn:') && parts.length >= 6 && !parts[3];
+}
+
+/**
+ * Incremental CSV parser. Each row is emitted as soon as its closing newline arrives;
+ * quoted fields may contain commas, escaped quotes and newlines, and may span chunks.
+ */
+function createCsvParser(onRow: (fields: string[]) => void) {
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // A quote inside a quoted field: either its end or the first of an escaped pair
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      onRow(row);
+    }
+    field = '';
+    row = [];
+  };
+
+  return {
+    write(chunk: string): void {
+      for (const char of chunk) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        }
+
+        if (inQuotes) {
+          if (char === '"') {
+            quotePending = true;
+          } else {
+            field += char;
+          }
+        } else if (char === '"') {
+          inQuotes = true;
+        } else if (char === ',') {
+          row.push(field);
+          field = '';
+        } else if (char === '\n') {
+          endRow();
+        } else if (char !== '\r') {
+          field += char;
+        }
+      }
+    },
+    end(): void {
+      if (field || row.length > 0) {
+        endRow();
+      }
+    },
+  };
+}
+
 export class SteampipeService {
   private static instance: SteampipeService;
   
@@ -44,11 +132,17 @@ export class SteampipeService {
     return SteampipeService.instance;
   }
 
+  /**
+   * Run a Powerpipe benchmark.
+   * Results are written as CSV, one row per resource, and parsed as the rows arrive, so each control
+   * is reported as soon as Powerpipe moves on to the next one rather than after the process exits.
+   */
   async runBenchmark(
     benchmarkName: string,
     awsAccessKeyId: string,
     awsSecretAccessKey: string,
-    awsRegion: string = 'us-east-1'
+    awsRegion: string = 'us-east-1',
+    options: SteampipeRunOptions = {}
   ): Promise<SteampipeBenchmarkResult> {
     try {
       const env = {
@@ -59,77 +153,222 @@ export class SteampipeService {
         STEAMPIPE_INSTALL_DIR: path.dirname(STEAMPIPE_BIN),
       };
 
-      const command = `cd ${POWERPIPE_WORKSPACE} && ${POWERPIPE_BIN} benchmark run ${benchmarkName} --output json`;
-      
-      const { stdout, stderr } = await execAsync(command, {
-        env,
-        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-        timeout: 300000, // 5 minute timeout
+      const benchmark = await this.describeBenchmark(benchmarkName, env, options.signal);
+      const controls: SteampipeControl[] = [];
+      let current: { controlId: string; progress: SteampipeControlProgress } | undefined;
+      let completed = 0;
+
+      const finishControl = () => {
+        if (!current) return;
+        completed++;
+        options.onControl?.(current.progress);
+        options.onProgress?.({ completed, total: Math.max(benchmark.totalControls, completed) });
+        current = undefined;
+      };
+
+      // Rows are grouped by control, so a control is complete once a row of the next one arrives
+      let header: string[] | undefined;
+      const parser = createCsvParser(fields => {
+        if (!header) {
+          header = fields;
+          return;
+        }
+        const row: Record<string, string> = {};
+        header.forEach((column, index) => { row[column] = fields[index] ?? ''; });
+
+        const control = this.toSteampipeControl(row);
+        if (current?.controlId !== row.control_id) {
+          finishControl();
+          current = { controlId: row.control_id, progress: { name: control.name, results: [] } };
+        }
+        current!.progress.results.push(control);
+        controls.push(control);
       });
 
-      if (stderr && !stderr.includes('Warning')) {
-        console.error('Steampipe stderr:', stderr);
+      options.onProgress?.({ completed: 0, total: benchmark.totalControls });
+      await this.spawnPowerpipe(
+        ['benchmark', 'run', benchmarkName, '--output', 'csv', '--progress=false'],
+        env,
+        options.signal,
+        chunk => parser.write(chunk)
+      );
+      parser.end();
+      finishControl();
+
+      const status = { ok: 0, alarm: 0, error: 0, skip: 0, info: 0 };
+      for (const control of controls) {
+        status[control.status] = (status[control.status] || 0) + 1;
       }
 
-      return this.parseBenchmarkOutput(stdout);
+      return {
+        name: benchmarkName,
+        title: benchmark.title,
+        description: benchmark.description,
+        summary: { status },
+        controls,
+      };
     } catch (error: any) {
       console.error('Error running Steampipe benchmark:', error);
       throw new Error(`Failed to run benchmark ${benchmarkName}: ${error.message}`);
     }
   }
 
-  private parseBenchmarkOutput(jsonOutput: string): SteampipeBenchmarkResult {
-    try {
-      const lines = jsonOutput.trim().split('\n');
-      const lastLine = lines[lines.length - 1];
-      const result = JSON.parse(lastLine);
+  /**
+   * Run a Powerpipe benchmark once per region, one region after another.
+   * The aws plugin queries the region in AWS_REGION, so each run covers one region. Global resources
+   * (ARNs without a region, such as S3 buckets) are listed by every run and kept only from the first region.
+   */
+  async runBenchmarkInRegions(
+    benchmarkName: string,
+    awsAccessKeyId: string,
+    awsSecretAccessKey: string,
+    regions: string[],
+    options: SteampipeRunOptions = {}
+  ): Promise<SteampipeBenchmarkResult> {
+    const [homeRegion] = regions;
+    const keep = (control: SteampipeControl, region: string) => region === homeRegion || !isGlobalResource(control.resource);
+    let merged: SteampipeBenchmarkResult | undefined;
+
+    for (let index = 0; index < regions.length; index++) {
+      const region = regions[index];
+      const result = await this.runBenchmark(benchmarkName, awsAccessKeyId, awsSecretAccessKey, region, {
+        signal: options.signal,
+        onControl: options.onControl && (control => options.onControl!({
+          ...control,
+          region,
+          results: control.results.filter(result => keep(result, region)).map(result => ({ ...result, region: result.region || region })),
+        })),
+        onProgress: ({ completed, total }) => options.onProgress?.({
+          completed: index * total + completed,
+          total: regions.length * total,
+          region,
+        }),
+      });
+
+      const controls = result.controls.filter(control => keep(control, region)).map(control => ({ ...control, region: control.region || region }));
+      merged = merged ? { ...merged, controls: [...merged.controls, ...controls] } : { ...result, controls };
+    }
+
+    if (!merged) {
+      throw new Error(`No regions to run benchmark ${benchmarkName} in`);
+    }
+
+    // Powerpipe's summary counts each region's run; recount from the merged results without duplicates
+    const status = { ok: 0, alarm: 0, error: 0, skip: 0, info: 0 };
+    for (const control of merged.controls) {
+      status[control.status] = (status[control.status] || 0) + 1;
+    }
+    return { ...merged, summary: { status } };
+  }
+
+  /**
+   * Look up a benchmark's title and how many controls it runs, counting those of nested benchmarks.
+   * The count is what progress is reported against; without it progress has no total.
+   */
+  private async describeBenchmark(
+    benchmarkName: string,
+    env: NodeJS.ProcessEnv,
+    signal?: AbortSignal
+  ): Promise<{ title: string; description: string; totalControls: number }> {
+    const show = async (name: string) => {
+      let output = '';
+      await this.spawnPowerpipe(['benchmark', 'show', name, '--output', 'json'], env, signal, chunk => { output += chunk; });
+      return JSON.parse(output);
+    };
+
+    const countControls = async (benchmark: any): Promise<number> => {
+      let count = 0;
+      for (const child of benchmark.children || []) {
+        const childName: string = typeof child === 'string' ? child : child.name;
+        count += childName.includes('.benchmark.') ? await countControls(await show(childName)) : 1;
+      }
+      return count;
+    };
 
+    try {
+      const benchmark = await show(benchmarkName);
       return {
-        name: result.name || result.benchmark?.name || 'unknown',
-        title: result.title || result.benchmark?.title || 'Unknown Benchmark',
-        description: result.description || result.benchmark?.description || '',
-        summary: {
-          status: {
-            ok: result.summary?.status?.ok || 0,
-            alarm: result.summary?.status?.alarm || 0,
-            error: result.summary?.status?.error || 0,
-            skip: result.summary?.status?.skip || 0,
-            info: result.summary?.status?.info || 0,
-          },
-        },
-        controls: this.extractControls(result),
+        title: benchmark.title || benchmarkName,
+        description: benchmark.description || '',
+        totalControls: await countControls(benchmark),
       };
-    } catch (error: any) {
-      console.error('Error parsing benchmark output:', error);
-      throw new Error(`Failed to parse benchmark output: ${error.message}`);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(`Could not describe benchmark ${benchmarkName}; progress will have no total:`, error);
+      return { title: benchmarkName, description: '', totalControls: 0 };
     }
   }
 
-  private extractControls(result: any): SteampipeControl[] {
-    const controls: SteampipeControl[] = [];
-
-    const processNode = (node: any) => {
-      if (node.control_results) {
-        for (const control of node.control_results) {
-          controls.push({
-            name: control.control?.title || control.title || 'Unknown Control',
-            status: control.status || 'skip',
-            reason: control.reason || '',
-            resource: control.resource || '',
-            dimensions: control.dimensions || {},
-          });
+  /**
+   * Run Powerpipe, passing stdout to onStdout as it arrives
+   */
+  private spawnPowerpipe(
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    signal: AbortSignal | undefined,
+    onStdout: (chunk: string) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(POWERPIPE_BIN, args, {
+        cwd: POWERPIPE_WORKSPACE,
+        env,
+        signal,
+        timeout: BENCHMARK_TIMEOUT_MS,
+      });
+
+      let outputBytes = 0;
+      let stderr = '';
+
+      child.stdout.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => {
+        outputBytes += chunk.length;
+        if (outputBytes > MAX_OUTPUT_BYTES) {
+          child.kill();
+          reject(new Error('Benchmark output exceeded 10MB'));
+          return;
         }
-      }
+        onStdout(chunk);
+      });
+
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        stderr += chunk;
+      });
 
-      if (node.children) {
-        for (const child of node.children) {
-          processNode(child);
+      child.on('error', reject);
+      child.on('close', (code, exitSignal) => {
+        if (stderr && !stderr.includes('Warning')) {
+          console.error('Steampipe stderr:', stderr);
         }
+
+        // Powerpipe exits non-zero when controls alarm, so only a run with no output is a failure
+        if (exitSignal || (code !== 0 && outputBytes === 0)) {
+          reject(new Error(exitSignal ? `Powerpipe was terminated (${exitSignal})` : `Powerpipe exited with code ${code}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  private toSteampipeControl(row: Record<string, string>): SteampipeControl {
+    const dimensions: Record<string, string> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (!CSV_RESULT_COLUMNS.has(column) && value) {
+        dimensions[column] = value;
       }
-    };
+    }
 
-    processNode(result);
-    return controls;
+    const name = row.control_id || '';
+    return {
+      controlId: name.split('.').pop() || name,
+      name: row.control_title || 'Unknown Control',
+      status: (row.status || 'skip') as SteampipeControl['status'],
+      reason: row.reason || '',
+      resource: row.resource || '',
+      region: dimensions.region || undefined,
+      dimensions,
+    };
   }
 
   async runEC2Benchmark(accessKeyId: string, secretAccessKey: string, region: string) {
@@ -198,78 +437,6 @@ export class SteampipeService {
 
     return results;
   }
-
-  async calculateSavingsFromControls(
-    controls: SteampipeControl[],
-    pricingService: any
-  ): Promise<number> {
-    let totalSavings = 0;
-
-    for (const control of controls) {
-      if (control.status === 'ok') {
-        continue; // No savings for passing controls
-      }
-
-      try {
-        // Extract resource ID from the control resource field
-        // Format is typically "arn:aws:service:region:account:resource/id"
-        const resourceId = this.extractResourceId(control.resource);
-        const resourceType = this.extractResourceType(control.resource);
-
-        // Calculate savings based on control type
-        const savings = await pricingService.calculateSavingsForControl(
-          control.name,
-          resourceId,
-          resourceType
-        );
-
-        totalSavings += savings;
-      } catch (error) {
-        console.error(`Error calculating savings for control ${control.name}:`, error);
-        // Continue with other controls
-      }
-    }
-
-    return totalSavings;
-  }
-
-  private extractResourceId(resourceArn: string): string {
-    if (!resourceArn) return '';
-    
-    // Try to extract ID from ARN format
-    const arnParts = resourceArn.split('/');
-    if (arnParts.length > 1) {
-      return arnParts[arnParts.length - 1];
-    }
-    
-    // If not an ARN, return the whole string
-    return resourceArn;
-  }
-
-  private extractResourceType(resourceArn: string): string {
-    if (!resourceArn) return 'Unknown';
-    
-    // Extract service from ARN: arn:aws:SERVICE:region:account:resource
-    const arnParts = resourceArn.split(':');
-    if (arnParts.length >= 3 && arnParts[0] === 'arn') {
-      const service = arnParts[2];
-      
-      // Map AWS service names to our resource types
-      const serviceMap: Record<string, string> = {
-        'ec2': 'EC2',
-        'rds': 'RDS',
-        's3': 'S3',
-        'dynamodb': 'DynamoDB',
-        'elasticache': 'ElastiCache',
-        'redshift': 'Redshift',
-        'lambda': 'Lambda',
-      };
-      
-      return serviceMap[service] || service.toUpperCase();
-    }
-    
-    return 'Unknown';
-  }
 }
 
 export const steampipeService = SteampipeService.getInstance();
@@ -3,18 +3,47 @@ import {
   awsAccounts,
   benchmarkResults,
   controlResults,
+  benchmarkSchedules,
+  findingStates,
+  suppressionRules,
+  controlSettings,
+  tagPolicies,
+  priceCatalog,
+  inventorySnapshots,
+  inventoryResources,
   queryHistory,
   type User,
   type UpsertUser,
   type AwsAccount,
   type InsertAwsAccount,
+  type UpdateAwsAccountRegions,
   type BenchmarkResult,
   type ControlResult,
+  type BenchmarkSchedule,
+  type InsertBenchmarkSchedule,
+  type FindingState,
+  type UpdateFindingState,
+  type SuppressionRule,
+  type InsertSuppressionRule,
+  type SuppressionRuleWithCount,
+  type ControlSettings,
+  type UpdateControlSettings,
+  type TagPolicyRule,
+  type InsertTagPolicy,
+  type CatalogPrice,
+  type InsertCatalogPrice,
+  type PriceCatalogQuery,
+  type InventorySnapshot,
+  type InventoryResource,
+  type InventoryQuery,
   type QueryHistory,
+  type SavingsEstimate,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, lte, gt, or, isNull, inArray, sql } from "drizzle-orm";
 import { randomBytes, createCipheriv, createDecipheriv } from "crypto";
+import { SuppressionMatcher } from "./suppression-rules";
+import type { RegionInventory } from "./control-registry";
 
 // Encryption for AWS credentials
 const ALGORITHM = "aes-256-cbc";
@@ -50,8 +79,27 @@ export interface ResourceCheck {
   name: string;
   passed: boolean;
   resourceId?: string;
+  region?: string | null;
   estimatedSavings: number;
+  savingsEstimate?: SavingsEstimate;
   reason?: string;
+  reviewNote?: string; // Why the recommended fix needs checking before it's applied
+  tags?: Record<string, string>;
+  resourceMonthlyCost?: number; // in cents, for findings without savings
+}
+
+// Snapshot an inventory's resources of one kind in one region come from
+export interface InventoryCoverage {
+  region: string; // Region of the snapshot
+  resourceType: string;
+  snapshotId: string;
+  capturedAt: Date | null;
+}
+
+// Inventory of an account as of a point in time
+export interface InventoryState {
+  coverage: InventoryCoverage[];
+  resources: InventoryResource[];
 }
 
 export interface IStorage {
@@ -66,6 +114,7 @@ export interface IStorage {
   getAwsAccount(id: string): Promise<AwsAccount | undefined>;
   createAwsAccount(account: InsertAwsAccount): Promise<AwsAccount>;
   deleteAwsAccount(id: string, userId: string): Promise<boolean>;
+  updateAwsAccountRegions(id: string, userId: string, regions: UpdateAwsAccountRegions): Promise<AwsAccountDisplay | undefined>;
   
   // AWS Account operations (for API responses - secrets masked)
   getAwsAccountsForDisplay(userId: string): Promise<AwsAccountDisplay[]>;
@@ -77,12 +126,58 @@ export interface IStorage {
     checks: ResourceCheck[]
   ): Promise<BenchmarkResult>;
   getBenchmarkResults(awsAccountId: string): Promise<BenchmarkResult[]>;
+  getBenchmarkResult(id: string): Promise<BenchmarkResult | undefined>;
 
   // Control operations
   saveControlResult(result: Omit<ControlResult, "id" | "executedAt">): Promise<ControlResult>;
   getControlResults(awsAccountId: string): Promise<ControlResult[]>;
   getControlResultsByBenchmark(benchmarkResultId: string): Promise<ControlResult[]>;
 
+  // Control settings operations
+  getControlSettings(userId: string): Promise<ControlSettings[]>;
+  saveControlSettings(userId: string, settings: UpdateControlSettings): Promise<ControlSettings>;
+
+  // Suppression rule operations
+  getSuppressionRules(userId: string): Promise<SuppressionRuleWithCount[]>;
+  createSuppressionRule(userId: string, rule: InsertSuppressionRule): Promise<SuppressionRule>;
+  deleteSuppressionRule(id: string, userId: string): Promise<boolean>;
+  getActiveSuppressionRules(awsAccountId: string, now: Date): Promise<SuppressionRule[]>;
+
+  // Tag policy operations
+  getTagPolicies(userId: string): Promise<TagPolicyRule[]>;
+  saveTagPolicy(userId: string, policy: InsertTagPolicy): Promise<TagPolicyRule>;
+  deleteTagPolicy(id: string, userId: string): Promise<boolean>;
+
+  // Finding state operations
+  getFindingStates(awsAccountIds: string[]): Promise<FindingState[]>;
+  setFindingState(update: UpdateFindingState, userId: string): Promise<FindingState>;
+
+  // Benchmark schedule operations
+  getBenchmarkSchedules(userId: string): Promise<BenchmarkSchedule[]>;
+  createBenchmarkSchedule(schedule: InsertBenchmarkSchedule & { nextRunAt: Date }): Promise<BenchmarkSchedule>;
+  updateBenchmarkSchedulePaused(id: string, userId: string, paused: boolean, nextRunAt: Date | null): Promise<BenchmarkSchedule | undefined>;
+  deleteBenchmarkSchedule(id: string, userId: string): Promise<boolean>;
+  getDueBenchmarkSchedules(now: Date): Promise<BenchmarkSchedule[]>;
+  recordBenchmarkScheduleRun(
+    id: string,
+    run: Pick<BenchmarkSchedule, 'lastRunAt' | 'nextRunAt' | 'lastRunStatus' | 'lastRunError'>
+  ): Promise<void>;
+  recordBenchmarkScheduleOutcome(
+    id: string,
+    lastRunAt: Date,
+    outcome: Pick<BenchmarkSchedule, 'lastRunStatus' | 'lastRunError'>
+  ): Promise<void>;
+
+  // Price catalog operations
+  getCatalogPrices(query: PriceCatalogQuery, limit?: number): Promise<CatalogPrice[]>;
+  upsertCatalogPrices(prices: InsertCatalogPrice[]): Promise<number>;
+
+  // Inventory operations
+  saveInventorySnapshots(awsAccountId: string, benchmarkResultId: string | null, inventory: RegionInventory[]): Promise<InventorySnapshot[]>;
+  getInventorySnapshots(awsAccountId: string): Promise<InventorySnapshot[]>;
+  getInventoryState(awsAccountId: string, asOf?: Date, resourceType?: string): Promise<InventoryState>;
+  getLatestInventory(query: InventoryQuery): Promise<InventoryResource[]>;
+
   // Query history operations
   saveQuery(userId: string, awsAccountId: string | null, query: string, resultJson: any): Promise<QueryHistory>;
   getQueryHistory(userId: string): Promise<QueryHistory[]>;
@@ -181,6 +276,34 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async updateAwsAccountRegions(
+    id: string,
+    userId: string,
+    regions: UpdateAwsAccountRegions
+  ): Promise<AwsAccountDisplay | undefined> {
+    const [account] = await db
+      .update(awsAccounts)
+      .set({
+        scanRegions: regions.scanRegions,
+        scanAllRegions: regions.scanAllRegions,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(awsAccounts.id, id),
+          eq(awsAccounts.userId, userId)
+        )
+      )
+      .returning();
+
+    if (!account) return undefined;
+
+    return {
+      ...account,
+      secretAccessKey: "***ENCRYPTED***",
+    };
+  }
+
   // AWS Account operations for display (secrets masked)
   async getAwsAccountsForDisplay(userId: string): Promise<AwsAccountDisplay[]> {
     const accounts = await db
@@ -216,23 +339,48 @@ export class DatabaseStorage implements IStorage {
     result: Omit<BenchmarkResult, "id" | "executedAt">,
     checks: ResourceCheck[]
   ): Promise<BenchmarkResult> {
+    // Failed checks matching a suppression rule are kept but left out of the run's totals
+    const matcher = new SuppressionMatcher(
+      await this.getActiveSuppressionRules(result.awsAccountId, new Date()),
+      result.awsAccountId
+    );
+    const suppressedBy = checks.map(check =>
+      check.passed ? undefined : matcher.match({ controlId: check.id, resourceId: check.resourceId, tags: check.tags })?.id
+    );
+    const suppressed = checks.filter((_check, index) => suppressedBy[index]);
+
     const [saved] = await db
       .insert(benchmarkResults)
-      .values(result)
+      .values({
+        ...result,
+        controlsFailed: Math.max(0, result.controlsFailed - suppressed.length),
+        estimatedSavings: Math.max(
+          0,
+          result.estimatedSavings - suppressed.reduce((sum, check) => sum + check.estimatedSavings, 0)
+        ),
+      })
       .returning();
     
     // Save individual resource checks as control results
     if (checks.length > 0) {
-      const controlResultsToInsert = checks.map(check => ({
+      const controlResultsToInsert = checks.map((check, index) => ({
         benchmarkResultId: saved.id,
         awsAccountId: result.awsAccountId,
         controlId: check.id,
         controlName: check.name,
         resourceId: check.resourceId || null,
         resourceType: result.benchmarkId.toUpperCase(),
+        region: check.region || null,
         passed: check.passed,
         reason: check.reason,
+        reviewNote: check.reviewNote ?? null,
         estimatedSavings: check.estimatedSavings,
+        savingsSource: check.savingsEstimate?.source ?? null,
+        savingsConfidence: check.savingsEstimate?.confidence ?? null,
+        savingsInputs: check.savingsEstimate?.inputs ?? null,
+        tags: check.tags || null,
+        resourceMonthlyCost: check.resourceMonthlyCost ?? null,
+        suppressedByRuleId: suppressedBy[index] || null,
       }));
       
       await db.insert(controlResults).values(controlResultsToInsert);
@@ -249,6 +397,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(benchmarkResults.executedAt));
   }
 
+  async getBenchmarkResult(id: string): Promise<BenchmarkResult | undefined> {
+    const [result] = await db
+      .select()
+      .from(benchmarkResults)
+      .where(eq(benchmarkResults.id, id));
+    return result;
+  }
+
   // Control operations
   async saveControlResult(result: Omit<ControlResult, "id" | "executedAt">): Promise<ControlResult> {
     const [saved] = await db
@@ -274,6 +430,370 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(controlResults.executedAt));
   }
 
+  // Control settings operations
+  async getControlSettings(userId: string): Promise<ControlSettings[]> {
+    return await db
+      .select()
+      .from(controlSettings)
+      .where(eq(controlSettings.userId, userId));
+  }
+
+  async saveControlSettings(userId: string, settings: UpdateControlSettings): Promise<ControlSettings> {
+    const [saved] = await db
+      .insert(controlSettings)
+      .values({ userId, awsAccountId: settings.awsAccountId, thresholds: settings.thresholds })
+      .onConflictDoUpdate({
+        target: [controlSettings.userId, controlSettings.awsAccountId],
+        set: { thresholds: settings.thresholds, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Suppression rule operations
+  async getSuppressionRules(userId: string): Promise<SuppressionRuleWithCount[]> {
+    const rows = await db
+      .select({
+        rule: suppressionRules,
+        hiddenFindings: sql<number>`count(distinct ${controlResults.awsAccountId} || '/' || ${controlResults.controlId} || '/' || coalesce(${controlResults.resourceId}, ''))`.mapWith(Number),
+      })
+      .from(suppressionRules)
+      .leftJoin(controlResults, eq(controlResults.suppressedByRuleId, suppressionRules.id))
+      .where(eq(suppressionRules.userId, userId))
+      .groupBy(suppressionRules.id)
+      .orderBy(desc(suppressionRules.createdAt));
+    return rows.map(({ rule, hiddenFindings }) => ({ ...rule, hiddenFindings }));
+  }
+
+  async createSuppressionRule(userId: string, rule: InsertSuppressionRule): Promise<SuppressionRule> {
+    const [saved] = await db
+      .insert(suppressionRules)
+      .values({ ...rule, userId })
+      .returning();
+    return saved;
+  }
+
+  async deleteSuppressionRule(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(suppressionRules)
+      .where(and(eq(suppressionRules.id, id), eq(suppressionRules.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getActiveSuppressionRules(awsAccountId: string, now: Date): Promise<SuppressionRule[]> {
+    const rows = await db
+      .select({ rule: suppressionRules })
+      .from(suppressionRules)
+      .innerJoin(awsAccounts, eq(awsAccounts.userId, suppressionRules.userId))
+      .where(
+        and(
+          eq(awsAccounts.id, awsAccountId),
+          or(isNull(suppressionRules.awsAccountId), eq(suppressionRules.awsAccountId, awsAccountId)),
+          gt(suppressionRules.expiresAt, now)
+        )
+      )
+      .orderBy(suppressionRules.createdAt);
+    return rows.map(({ rule }) => rule);
+  }
+
+  // Tag policy operations
+  async getTagPolicies(userId: string): Promise<TagPolicyRule[]> {
+    return await db
+      .select()
+      .from(tagPolicies)
+      .where(eq(tagPolicies.userId, userId))
+      .orderBy(tagPolicies.tagKey);
+  }
+
+  async saveTagPolicy(userId: string, policy: InsertTagPolicy): Promise<TagPolicyRule> {
+    const [saved] = await db
+      .insert(tagPolicies)
+      .values({ ...policy, userId })
+      .onConflictDoUpdate({
+        target: [tagPolicies.userId, tagPolicies.awsAccountId, tagPolicies.tagKey],
+        set: { allowedValues: policy.allowedValues, valuePattern: policy.valuePattern },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteTagPolicy(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(tagPolicies)
+      .where(and(eq(tagPolicies.id, id), eq(tagPolicies.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Finding state operations
+  async getFindingStates(awsAccountIds: string[]): Promise<FindingState[]> {
+    if (awsAccountIds.length === 0) return [];
+    return await db
+      .select()
+      .from(findingStates)
+      .where(inArray(findingStates.awsAccountId, awsAccountIds));
+  }
+
+  async setFindingState(update: UpdateFindingState, userId: string): Promise<FindingState> {
+    const values = {
+      state: update.state,
+      reason: update.reason || null,
+      snoozedUntil: update.state === 'snoozed' ? update.snoozedUntil ?? null : null,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+
+    const [saved] = await db
+      .insert(findingStates)
+      .values({
+        awsAccountId: update.awsAccountId,
+        controlId: update.controlId,
+        resourceId: update.resourceId || '',
+        ...values,
+      })
+      .onConflictDoUpdate({
+        target: [findingStates.awsAccountId, findingStates.controlId, findingStates.resourceId],
+        set: values,
+      })
+      .returning();
+    return saved;
+  }
+
+  // Benchmark schedule operations
+  async getBenchmarkSchedules(userId: string): Promise<BenchmarkSchedule[]> {
+    return await db
+      .select()
+      .from(benchmarkSchedules)
+      .where(inArray(benchmarkSchedules.awsAccountId, this.userAccountIds(userId)))
+      .orderBy(desc(benchmarkSchedules.createdAt));
+  }
+
+  async createBenchmarkSchedule(schedule: InsertBenchmarkSchedule & { nextRunAt: Date }): Promise<BenchmarkSchedule> {
+    const [saved] = await db
+      .insert(benchmarkSchedules)
+      .values(schedule)
+      .returning();
+    return saved;
+  }
+
+  async updateBenchmarkSchedulePaused(
+    id: string,
+    userId: string,
+    paused: boolean,
+    nextRunAt: Date | null // Recomputed when a schedule resumes so it doesn't fire for the paused period
+  ): Promise<BenchmarkSchedule | undefined> {
+    const [updated] = await db
+      .update(benchmarkSchedules)
+      .set({
+        paused,
+        ...(nextRunAt ? { nextRunAt } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(benchmarkSchedules.id, id),
+          inArray(benchmarkSchedules.awsAccountId, this.userAccountIds(userId))
+        )
+      )
+      .returning();
+    return updated;
+  }
+
+  async deleteBenchmarkSchedule(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(benchmarkSchedules)
+      .where(
+        and(
+          eq(benchmarkSchedules.id, id),
+          inArray(benchmarkSchedules.awsAccountId, this.userAccountIds(userId))
+        )
+      )
+      .returning();
+    return result.length > 0;
+  }
+
+  async getDueBenchmarkSchedules(now: Date): Promise<BenchmarkSchedule[]> {
+    return await db
+      .select()
+      .from(benchmarkSchedules)
+      .where(
+        and(
+          eq(benchmarkSchedules.paused, false),
+          lte(benchmarkSchedules.nextRunAt, now)
+        )
+      );
+  }
+
+  async recordBenchmarkScheduleRun(
+    id: string,
+    run: Pick<BenchmarkSchedule, 'lastRunAt' | 'nextRunAt' | 'lastRunStatus' | 'lastRunError'>
+  ): Promise<void> {
+    await db
+      .update(benchmarkSchedules)
+      .set({ ...run, updatedAt: new Date() })
+      .where(eq(benchmarkSchedules.id, id));
+  }
+
+  async recordBenchmarkScheduleOutcome(
+    id: string,
+    lastRunAt: Date,
+    outcome: Pick<BenchmarkSchedule, 'lastRunStatus' | 'lastRunError'>
+  ): Promise<void> {
+    // Only the run that is still the schedule's last run may set its outcome
+    await db
+      .update(benchmarkSchedules)
+      .set({ ...outcome, updatedAt: new Date() })
+      .where(
+        and(
+          eq(benchmarkSchedules.id, id),
+          eq(benchmarkSchedules.lastRunAt, lastRunAt)
+        )
+      );
+  }
+
+  // Subquery selecting the IDs of a user's AWS accounts, for tables owned through an account
+  private userAccountIds(userId: string) {
+    return db
+      .select({ id: awsAccounts.id })
+      .from(awsAccounts)
+      .where(eq(awsAccounts.userId, userId));
+  }
+
+  // Price catalog operations
+  async getCatalogPrices(query: PriceCatalogQuery, limit?: number): Promise<CatalogPrice[]> {
+    const conditions = [];
+    if (query.serviceCode) conditions.push(eq(priceCatalog.serviceCode, query.serviceCode));
+    if (query.region) conditions.push(eq(priceCatalog.region, query.region));
+    if (query.usageType) conditions.push(eq(priceCatalog.usageType, query.usageType));
+
+    const select = db
+      .select()
+      .from(priceCatalog)
+      .where(and(...conditions))
+      .orderBy(priceCatalog.serviceCode, priceCatalog.usageType, priceCatalog.operation);
+    return limit ? await select.limit(limit) : await select;
+  }
+
+  async upsertCatalogPrices(prices: InsertCatalogPrice[]): Promise<number> {
+    // Insert in batches to stay under Postgres' bind parameter limit
+    const BATCH_SIZE = 1000;
+    let saved = 0;
+    for (let i = 0; i < prices.length; i += BATCH_SIZE) {
+      const batch = prices.slice(i, i + BATCH_SIZE);
+      await db
+        .insert(priceCatalog)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: [priceCatalog.serviceCode, priceCatalog.region, priceCatalog.usageType, priceCatalog.operation],
+          set: {
+            unit: sql`excluded.unit`,
+            pricePerUnit: sql`excluded.price_per_unit`,
+            sku: sql`excluded.sku`,
+            description: sql`excluded.description`,
+            effectiveDate: sql`excluded.effective_date`,
+            importedAt: new Date(),
+          },
+        });
+      saved += batch.length;
+    }
+    return saved;
+  }
+
+  // Inventory operations
+  async saveInventorySnapshots(
+    awsAccountId: string,
+    benchmarkResultId: string | null,
+    inventory: RegionInventory[]
+  ): Promise<InventorySnapshot[]> {
+    // Insert in batches to stay under Postgres' bind parameter limit
+    const BATCH_SIZE = 1000;
+    const snapshots: InventorySnapshot[] = [];
+    // Set here rather than by the database so it round-trips exactly through Date (used for as-of lookups)
+    const capturedAt = new Date();
+
+    for (const regionInventory of inventory) {
+      if (regionInventory.resourceKinds.length === 0) continue;
+
+      const [snapshot] = await db
+        .insert(inventorySnapshots)
+        .values({
+          awsAccountId,
+          benchmarkResultId,
+          region: regionInventory.region,
+          resourceKinds: regionInventory.resourceKinds,
+          resourceCount: regionInventory.resources.length,
+          capturedAt,
+        })
+        .returning();
+
+      for (let i = 0; i < regionInventory.resources.length; i += BATCH_SIZE) {
+        await db.insert(inventoryResources).values(
+          regionInventory.resources.slice(i, i + BATCH_SIZE).map(resource => ({
+            ...resource,
+            snapshotId: snapshot.id,
+            awsAccountId,
+          }))
+        );
+      }
+      snapshots.push(snapshot);
+    }
+
+    return snapshots;
+  }
+
+  async getInventorySnapshots(awsAccountId: string): Promise<InventorySnapshot[]> {
+    return await db
+      .select()
+      .from(inventorySnapshots)
+      .where(eq(inventorySnapshots.awsAccountId, awsAccountId))
+      .orderBy(desc(inventorySnapshots.capturedAt))
+      .limit(100);
+  }
+
+  /**
+   * Inventory of an account as of a point in time: each resource kind in each region comes from
+   * the most recent snapshot that captured it, since scans only collect what their controls need
+   */
+  async getInventoryState(awsAccountId: string, asOf?: Date, resourceType?: string): Promise<InventoryState> {
+    const snapshots = await db
+      .select()
+      .from(inventorySnapshots)
+      .where(and(
+        eq(inventorySnapshots.awsAccountId, awsAccountId),
+        asOf ? lte(inventorySnapshots.capturedAt, asOf) : undefined
+      ))
+      .orderBy(desc(inventorySnapshots.capturedAt));
+
+    // Newest first, so the first snapshot seen for a region and kind is the current one
+    const coverage = new Map<string, InventoryCoverage>();
+    for (const snapshot of snapshots) {
+      for (const kind of snapshot.resourceKinds) {
+        if (resourceType && kind !== resourceType) continue;
+        const key = `${snapshot.region}|${kind}`;
+        if (!coverage.has(key)) {
+          coverage.set(key, { region: snapshot.region, resourceType: kind, snapshotId: snapshot.id, capturedAt: snapshot.capturedAt });
+        }
+      }
+    }
+    if (coverage.size === 0) return { coverage: [], resources: [] };
+
+    const sources = Array.from(coverage.values()).map(({ snapshotId, resourceType }) =>
+      and(eq(inventoryResources.snapshotId, snapshotId), eq(inventoryResources.resourceType, resourceType))
+    );
+    const resources = await db
+      .select()
+      .from(inventoryResources)
+      .where(or(...sources))
+      .orderBy(inventoryResources.resourceType, inventoryResources.region, inventoryResources.resourceId);
+    return { coverage: Array.from(coverage.values()), resources };
+  }
+
+  async getLatestInventory(query: InventoryQuery): Promise<InventoryResource[]> {
+    const { resources } = await this.getInventoryState(query.awsAccountId, undefined, query.resourceType);
+    return query.region ? resources.filter(resource => resource.region === query.region) : resources;
+  }
+
   // Query history operations
   async saveQuery(userId: string, awsAccountId: string | null, query: string, resultJson: any): Promise<QueryHistory> {
     const [saved] = await db
@@ -0,0 +1,65 @@
+import type { SuppressionRule } from "@shared/schema";
+
+/**
+ * The parts of a finding suppression rules are matched against
+ */
+export interface SuppressibleFinding {
+  controlId: string;
+  resourceId?: string | null;
+  tags?: Record<string, string> | null;
+}
+
+/**
+ * Convert a glob ("backup-*", "ebs_?_snapshot") into an anchored, case-insensitive regex
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Suppression rules that apply to one AWS account at a point in time.
+ * A finding is suppressed by the first rule whose every set criterion matches;
+ * unset criteria match anything.
+ */
+export class SuppressionMatcher {
+  private rules: Array<{
+    rule: SuppressionRule;
+    control: RegExp | null;
+    resource: RegExp | null;
+  }>;
+
+  constructor(rules: SuppressionRule[], awsAccountId: string, now: Date = new Date()) {
+    this.rules = rules
+      .filter(rule => rule.expiresAt > now)
+      .filter(rule => !rule.awsAccountId || rule.awsAccountId === awsAccountId)
+      .map(rule => ({
+        rule,
+        control: rule.controlPattern ? globToRegExp(rule.controlPattern) : null,
+        resource: rule.resourcePattern ? globToRegExp(rule.resourcePattern) : null,
+      }));
+  }
+
+  /**
+   * The rule suppressing a finding, if any
+   */
+  match(finding: SuppressibleFinding): SuppressionRule | undefined {
+    return this.rules.find(({ rule, control, resource }) => {
+      if (control && !control.test(finding.controlId)) return false;
+      if (resource && !(finding.resourceId && resource.test(finding.resourceId))) return false;
+      if (rule.tagKey) {
+        const value = finding.tags?.[rule.tagKey];
+        if (value === undefined) return false;
+        if (rule.tagValue !== null && value.toLowerCase() !== rule.tagValue.toLowerCase()) return false;
+      }
+      return true;
+    })?.rule;
+  }
+}
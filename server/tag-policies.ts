@@ -0,0 +1,96 @@
+import type { AwsAccount, TagPolicyRule } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type TagPolicyStore = Pick<IStorage, 'getTagPolicies'>;
+
+/**
+ * A tag every resource must carry, optionally restricted to a list of values or a pattern
+ */
+export interface RequiredTag {
+  tagKey: string;
+  allowedValues: string[] | null;
+  valuePattern: string | null;
+}
+
+/**
+ * Why a resource's tags don't satisfy a required tag
+ */
+export interface TagViolation {
+  tagKey: string;
+  value?: string; // The offending value; absent when the tag is missing
+}
+
+/**
+ * The required tags that apply to one AWS account
+ */
+export class TagPolicy {
+  readonly requiredTags: RequiredTag[];
+  private patterns = new Map<string, RegExp>();
+
+  constructor(requiredTags: RequiredTag[] = []) {
+    this.requiredTags = requiredTags;
+    for (const tag of requiredTags) {
+      if (tag.valuePattern) {
+        // The whole value has to match, not just part of it
+        this.patterns.set(tag.tagKey, new RegExp(`^(?:${tag.valuePattern})$`));
+      }
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.requiredTags.length === 0;
+  }
+
+  /**
+   * Required tags a resource is missing or has a disallowed value for
+   */
+  evaluate(tags: Record<string, string> | undefined): TagViolation[] {
+    const violations: TagViolation[] = [];
+    for (const { tagKey, allowedValues } of this.requiredTags) {
+      const value = tags?.[tagKey]?.trim();
+      if (!value) {
+        violations.push({ tagKey });
+      } else if (allowedValues && !allowedValues.includes(value)) {
+        violations.push({ tagKey, value });
+      } else if (this.patterns.get(tagKey)?.test(value) === false) {
+        violations.push({ tagKey, value });
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * One-line description of a resource's violations, e.g. "missing tags owner, env; cost-center "x" is not allowed"
+   */
+  describe(violations: TagViolation[]): string {
+    const missing = violations.filter(v => v.value === undefined).map(v => v.tagKey);
+    const invalid = violations.filter(v => v.value !== undefined).map(v => `${v.tagKey} "${v.value}" is not allowed`);
+    return [
+      missing.length > 0 ? `missing ${missing.length === 1 ? 'tag' : 'tags'} ${missing.join(', ')}` : null,
+      ...invalid,
+    ].filter(Boolean).join('; ');
+  }
+}
+
+/**
+ * Tag policy of an account: the owner's org-wide required tags, with the account's own rules replacing them per tag key
+ */
+export async function loadAccountTagPolicy(
+  account: Pick<AwsAccount, 'id' | 'userId'>,
+  store: TagPolicyStore
+): Promise<TagPolicy> {
+  const rules = await store.getTagPolicies(account.userId);
+  const byKey = new Map<string, TagPolicyRule>();
+  for (const rule of rules.filter(rule => rule.awsAccountId === null)) {
+    byKey.set(rule.tagKey, rule);
+  }
+  for (const rule of rules.filter(rule => rule.awsAccountId === account.id)) {
+    byKey.set(rule.tagKey, rule);
+  }
+
+  return new TagPolicy(Array.from(byKey.values()).map(rule => ({
+    tagKey: rule.tagKey,
+    allowedValues: rule.allowedValues,
+    valuePattern: rule.valuePattern,
+  })));
+}
@@ -8,6 +8,9 @@ import {
   text,
   integer,
   boolean,
+  uniqueIndex,
+  unique,
+  doublePrecision,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -66,6 +69,8 @@ export const awsAccounts = pgTable("aws_accounts", {
   accessKeyId: varchar("access_key_id", { length: 255 }).notNull(),
   secretAccessKey: text("secret_access_key").notNull(), // encrypted
   region: varchar("region", { length: 50 }).notNull().default('us-east-1'),
+  scanRegions: text("scan_regions").array(), // Regions benchmarks fan out to; null scans only the default region
+  scanAllRegions: boolean("scan_all_regions").notNull().default(false), // Scan every region enabled for the account
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -77,7 +82,13 @@ export const insertAwsAccountSchema = createInsertSchema(awsAccounts).omit({
   updatedAt: true,
 });
 
+export const updateAwsAccountRegionsSchema = z.object({
+  scanRegions: z.array(z.string().min(1)).nullable(),
+  scanAllRegions: z.boolean(),
+});
+
 export type InsertAwsAccount = z.infer<typeof insertAwsAccountSchema>;
+export type UpdateAwsAccountRegions = z.infer<typeof updateAwsAccountRegionsSchema>;
 export type AwsAccount = typeof awsAccounts.$inferSelect;
 
 // Benchmark results table
@@ -104,14 +115,446 @@ export const controlResults = pgTable("control_results", {
   controlName: text("control_name").notNull(),
   resourceId: varchar("resource_id", { length: 255 }), // AWS resource ID (instance-id, bucket name, etc.)
   resourceType: varchar("resource_type", { length: 100 }), // EC2, S3, RDS, etc.
+  region: varchar("region", { length: 50 }), // AWS region the resource was found in
   passed: boolean("passed").notNull().default(false),
   reason: text("reason"), // Why this check failed/passed
+  reviewNote: text("review_note"), // Set when the recommended fix may not apply as-is (e.g. an incompatible AMI), so it needs review
   estimatedSavings: integer("estimated_savings").notNull().default(0), // in cents
+  savingsSource: varchar("savings_source", { length: 20 }).$type<SavingsSource>(), // How estimatedSavings was derived; null for passed checks
+  savingsConfidence: varchar("savings_confidence", { length: 10 }).$type<SavingsConfidence>(),
+  savingsInputs: jsonb("savings_inputs").$type<SavingsInputs>(), // Costs, percentage and cap factor behind the estimate
+  tags: jsonb("tags").$type<Record<string, string>>(), // Resource tags, when the collector returns them
+  resourceMonthlyCost: integer("resource_monthly_cost"), // in cents; list price of the resource for findings that save nothing directly (tag violations)
+  suppressedByRuleId: varchar("suppressed_by_rule_id").references(() => suppressionRules.id, { onDelete: "set null" }), // Rule that hid this finding when it was saved
   executedAt: timestamp("executed_at").defaultNow(),
 });
 
 export type ControlResult = typeof controlResults.$inferSelect;
 
+// Savings provenance - where a finding's estimatedSavings came from and how far to trust it
+export const savingsSourceSchema = z.enum([
+  'resource-cost', // The resource's own Cost Explorer cost
+  'list-price', // The resource's on-demand list price from the price catalog
+  'service-share', // The service's Cost Explorer cost split across its failing resources
+  'fallback', // The control's built-in estimate
+  'no-data', // No cost data; no savings estimated
+  'unmapped', // The control has no savings model
+]);
+
+export const savingsConfidenceSchema = z.enum(['high', 'medium', 'low']);
+
+export const savingsInputsSchema = z.object({
+  savingsModel: z.string().optional(), // e.g. "gp2 → gp3 storage (20%)"
+  savingsPercentage: z.number().optional(), // Share of the monthly cost the savings model saves (0-100)
+  monthlyCostCents: z.number().optional(), // Cost the percentage was applied to
+  dailyCostCents: z.number().optional(), // resource-cost: average daily Cost Explorer cost
+  serviceMonthlyCostCents: z.number().optional(), // service-share: the service's monthly cost
+  resourceCount: z.number().optional(), // service-share: resources the cost was split across (absent for the 3% default)
+  capFactor: z.number().optional(), // Set when savings were scaled down to the service's actual cost (0-1)
+  duplicateOf: z.string().optional(), // "controlId:resourceId" of the finding already claiming this spend
+  uncappedSavingsCents: z.number().optional(), // Savings before capping or de-duplication
+});
+
+export const savingsEstimateSchema = z.object({
+  source: savingsSourceSchema,
+  confidence: savingsConfidenceSchema,
+  inputs: savingsInputsSchema,
+});
+
+export type SavingsSource = z.infer<typeof savingsSourceSchema>;
+export type SavingsConfidence = z.infer<typeof savingsConfidenceSchema>;
+export type SavingsInputs = z.infer<typeof savingsInputsSchema>;
+export type SavingsEstimate = z.infer<typeof savingsEstimateSchema>;
+
+// Savings reconciliation - overlap de-duplication and per-service capping, stored in a run's resultJson.savingsReconciliation
+export const serviceSavingsCapStatusSchema = z.enum([
+  'within-cost', // Savings fit within the service's month-to-date cost
+  'capped', // Savings were scaled down to the service's cost
+  'no-cost-data', // Cost Explorer has no cost for the service, so its savings were zeroed
+  'zero-cost', // The service cost nothing, so its savings were zeroed
+]);
+
+export const serviceSavingsCapSchema = z.object({
+  serviceCode: z.string(),
+  actualCostCents: z.number().nullable(), // Month-to-date Cost Explorer cost
+  estimatedSavingsCents: z.number(), // After de-duplication, before capping
+  cappedSavingsCents: z.number(),
+  capFactor: z.number(),
+  findings: z.number(),
+  status: serviceSavingsCapStatusSchema,
+});
+
+export const savingsReconciliationSchema = z.object({
+  duplicateFindings: z.number(), // Findings zeroed because another finding already claims their spend
+  duplicateSavingsCents: z.number(),
+  capApplied: z.boolean(), // false when service costs were unavailable
+  services: z.array(serviceSavingsCapSchema),
+});
+
+export type ServiceSavingsCapStatus = z.infer<typeof serviceSavingsCapStatusSchema>;
+export type ServiceSavingsCap = z.infer<typeof serviceSavingsCapSchema>;
+export type SavingsReconciliation = z.infer<typeof savingsReconciliationSchema>;
+
+// Finding states table - triage state of a finding, kept across runs by matching controlId + resourceId
+export const findingStates = pgTable(
+  "finding_states",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    awsAccountId: varchar("aws_account_id").notNull().references(() => awsAccounts.id, { onDelete: "cascade" }),
+    controlId: varchar("control_id", { length: 255 }).notNull(),
+    resourceId: varchar("resource_id", { length: 255 }).notNull().default(''), // '' for findings without a resource
+    state: varchar("state", { length: 20 }).notNull(), // open, acknowledged, suppressed, snoozed or fixed
+    reason: text("reason"), // Required when suppressing
+    snoozedUntil: timestamp("snoozed_until"), // Snoozed findings reopen after this time
+    updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_finding_states_finding").on(table.awsAccountId, table.controlId, table.resourceId),
+  ],
+);
+
+export const findingStateValueSchema = z.enum(['open', 'acknowledged', 'suppressed', 'snoozed', 'fixed']);
+
+export const updateFindingStateSchema = z.object({
+  awsAccountId: z.string().min(1),
+  controlId: z.string().min(1),
+  resourceId: z.string().nullable(),
+  state: findingStateValueSchema,
+  reason: z.string().trim().max(1000).nullable().optional(),
+  snoozedUntil: z.coerce.date().nullable().optional(),
+}).refine(update => update.state !== 'suppressed' || !!update.reason, {
+  message: "A reason is required to suppress a finding",
+  path: ['reason'],
+}).refine(update => update.state !== 'snoozed' || (!!update.snoozedUntil && update.snoozedUntil > new Date()), {
+  message: "Snoozed findings need a future snooze-until date",
+  path: ['snoozedUntil'],
+});
+
+export type FindingStateValue = z.infer<typeof findingStateValueSchema>;
+export type UpdateFindingState = z.infer<typeof updateFindingStateSchema>;
+export type FindingState = typeof findingStates.$inferSelect;
+
+// Control settings - overrides of control parameter defaults (age limits, capacity cutoffs, minimum savings).
+// A row with a null awsAccountId holds the user's org-wide defaults; account rows override those.
+export const controlSettings = pgTable(
+  "control_settings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    awsAccountId: varchar("aws_account_id").references(() => awsAccounts.id, { onDelete: "cascade" }),
+    thresholds: jsonb("thresholds").$type<Record<string, Record<string, number>>>().notNull().default({}), // controlId -> parameter key -> value
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_control_settings_scope").on(table.userId, table.awsAccountId).nullsNotDistinct(),
+  ],
+);
+
+export const controlThresholdsSchema = z.record(z.string(), z.record(z.string(), z.number().finite()));
+
+export const updateControlSettingsSchema = z.object({
+  awsAccountId: z.string().min(1).nullable(), // null for org-wide defaults
+  thresholds: controlThresholdsSchema,
+});
+
+export type ControlThresholdOverrides = z.infer<typeof controlThresholdsSchema>;
+export type UpdateControlSettings = z.infer<typeof updateControlSettingsSchema>;
+export type ControlSettings = typeof controlSettings.$inferSelect;
+
+// Suppression rules - hide every finding matching a control, resource pattern and/or tag until the rule expires
+export const suppressionRules = pgTable("suppression_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  awsAccountId: varchar("aws_account_id").references(() => awsAccounts.id, { onDelete: "cascade" }), // null applies to every account of the user
+  controlPattern: varchar("control_pattern", { length: 255 }), // Glob matched against control IDs, e.g. "*snapshot*"
+  resourcePattern: varchar("resource_pattern", { length: 255 }), // Glob matched against resource IDs, e.g. "backup-*"
+  tagKey: varchar("tag_key", { length: 128 }),
+  tagValue: varchar("tag_value", { length: 256 }), // null matches any value of tagKey
+  reason: text("reason").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Rules can't be open-ended: they expire within a year
+export const MAX_SUPPRESSION_RULE_DAYS = 365;
+
+export const insertSuppressionRuleSchema = z.object({
+  awsAccountId: z.string().min(1).nullable(),
+  controlPattern: z.string().trim().min(1).max(255).nullable(),
+  resourcePattern: z.string().trim().min(1).max(255).nullable(),
+  tagKey: z.string().trim().min(1).max(128).nullable(),
+  tagValue: z.string().max(256).nullable(),
+  reason: z.string().trim().min(1, "A reason is required").max(1000),
+  expiresAt: z.coerce.date(),
+}).refine(rule => !!(rule.awsAccountId || rule.controlPattern || rule.resourcePattern || rule.tagKey), {
+  message: "A rule needs at least an account, control, resource pattern or tag",
+}).refine(rule => rule.tagValue === null || !!rule.tagKey, {
+  message: "A tag value needs a tag key",
+  path: ['tagValue'],
+}).refine(rule => rule.expiresAt > new Date(), {
+  message: "Expiry date must be in the future",
+  path: ['expiresAt'],
+}).refine(rule => rule.expiresAt.getTime() <= Date.now() + MAX_SUPPRESSION_RULE_DAYS * 24 * 60 * 60 * 1000, {
+  message: `Rules can't last longer than ${MAX_SUPPRESSION_RULE_DAYS} days`,
+  path: ['expiresAt'],
+});
+
+export type InsertSuppressionRule = z.infer<typeof insertSuppressionRuleSchema>;
+export type SuppressionRule = typeof suppressionRules.$inferSelect;
+export type SuppressionRuleWithCount = SuppressionRule & {
+  hiddenFindings: number; // Distinct findings (account + control + resource) the rule has hidden
+};
+
+// Tag policies - tags every resource must carry, checked by the Tagging benchmark
+export const tagPolicies = pgTable(
+  "tag_policies",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    awsAccountId: varchar("aws_account_id").references(() => awsAccounts.id, { onDelete: "cascade" }), // null applies to every account of the user
+    tagKey: varchar("tag_key", { length: 128 }).notNull(), // Case-sensitive, as AWS tag keys are
+    allowedValues: text("allowed_values").array(), // null allows any non-empty value
+    valuePattern: varchar("value_pattern", { length: 256 }), // Regex the whole value must match
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_tag_policies_tag").on(table.userId, table.awsAccountId, table.tagKey).nullsNotDistinct(),
+  ],
+);
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Saving a tag already required in the same scope replaces its rule
+export const insertTagPolicySchema = z.object({
+  awsAccountId: z.string().min(1).nullable(),
+  tagKey: z.string().trim().min(1, "A tag key is required").max(128),
+  allowedValues: z.array(z.string().trim().min(1).max(256)).min(1).nullable(),
+  valuePattern: z.string().min(1).max(256).refine(isValidRegex, "Not a valid regular expression").nullable(),
+});
+
+export type InsertTagPolicy = z.infer<typeof insertTagPolicySchema>;
+export type TagPolicyRule = typeof tagPolicies.$inferSelect;
+
+// Run-to-run finding diff (failed control results matched by controlId + resourceId)
+export const findingDiffStatusSchema = z.enum(['new', 'resolved', 'persisting']);
+
+export const findingDiffEntrySchema = z.object({
+  status: findingDiffStatusSchema,
+  controlId: z.string(),
+  controlName: z.string(),
+  resourceId: z.string().nullable(),
+  region: z.string().nullable(),
+  reason: z.string().nullable(),
+  baseSavings: z.number(), // in cents; 0 for new findings
+  targetSavings: z.number(), // in cents; 0 for resolved findings
+  savingsDelta: z.number(), // targetSavings - baseSavings
+});
+
+export const findingDiffSchema = z.object({
+  benchmarkId: z.string(),
+  awsAccountId: z.string(),
+  baseResultId: z.string(),
+  targetResultId: z.string(),
+  baseExecutedAt: z.string().nullable(),
+  targetExecutedAt: z.string().nullable(),
+  summary: z.object({
+    new: z.number(),
+    resolved: z.number(),
+    persisting: z.number(),
+    baseSavings: z.number(), // in cents
+    targetSavings: z.number(), // in cents
+    savingsDelta: z.number(), // in cents
+  }),
+  findings: z.array(findingDiffEntrySchema),
+});
+
+export type FindingDiffStatus = z.infer<typeof findingDiffStatusSchema>;
+export type FindingDiffEntry = z.infer<typeof findingDiffEntrySchema>;
+export type FindingDiff = z.infer<typeof findingDiffSchema>;
+
+// Benchmark schedules table - recurring benchmark runs per AWS account (times are UTC)
+export const benchmarkSchedules = pgTable("benchmark_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  awsAccountId: varchar("aws_account_id").notNull().references(() => awsAccounts.id, { onDelete: "cascade" }),
+  benchmarkIds: text("benchmark_ids").array(), // null runs every registered benchmark
+  frequency: varchar("frequency", { length: 20 }).notNull(), // hourly, daily or weekly
+  minuteUtc: integer("minute_utc").notNull().default(0),
+  hourUtc: integer("hour_utc").notNull().default(0), // Ignored for hourly schedules
+  dayOfWeekUtc: integer("day_of_week_utc"), // 0 = Sunday; weekly schedules only
+  useSteampipe: boolean("use_steampipe").notNull().default(false),
+  paused: boolean("paused").notNull().default(false),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: varchar("last_run_status", { length: 20 }), // started, then completed, failed or cancelled once its jobs finish
+  lastRunError: text("last_run_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const scheduleFrequencySchema = z.enum(['hourly', 'daily', 'weekly']);
+
+export const insertBenchmarkScheduleSchema = z.object({
+  awsAccountId: z.string().min(1),
+  benchmarkIds: z.array(z.string().min(1)).min(1).nullable(), // null runs every benchmark
+  frequency: scheduleFrequencySchema,
+  minuteUtc: z.number().int().min(0).max(59).default(0),
+  hourUtc: z.number().int().min(0).max(23).default(0),
+  dayOfWeekUtc: z.number().int().min(0).max(6).nullable().default(null),
+  useSteampipe: z.boolean().default(false),
+}).refine(schedule => schedule.frequency !== 'weekly' || schedule.dayOfWeekUtc !== null, {
+  message: "Weekly schedules need a day of the week",
+  path: ['dayOfWeekUtc'],
+});
+
+export const updateBenchmarkScheduleSchema = z.object({
+  paused: z.boolean(),
+});
+
+export type ScheduleFrequency = z.infer<typeof scheduleFrequencySchema>;
+export type InsertBenchmarkSchedule = z.infer<typeof insertBenchmarkScheduleSchema>;
+export type UpdateBenchmarkSchedule = z.infer<typeof updateBenchmarkScheduleSchema>;
+export type BenchmarkSchedule = typeof benchmarkSchedules.$inferSelect;
+
+// Price catalog - on-demand list prices imported from AWS Price List bulk files, used when Cost Explorer has no data
+export const priceCatalog = pgTable(
+  "price_catalog",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    serviceCode: varchar("service_code", { length: 64 }).notNull(), // Price List offer code, e.g. "AmazonEC2"
+    region: varchar("region", { length: 32 }).notNull(), // e.g. "us-east-1"
+    usageType: varchar("usage_type", { length: 255 }).notNull(), // Without the region prefix, e.g. "BoxUsage:m5.large"
+    operation: varchar("operation", { length: 255 }).notNull().default(''), // e.g. "RunInstances"; '' when the product has none
+    unit: varchar("unit", { length: 32 }).notNull(), // e.g. "Hrs", "GB-Mo", "GB-Second"
+    pricePerUnit: doublePrecision("price_per_unit").notNull(), // USD, first pricing tier
+    sku: varchar("sku", { length: 64 }).notNull(),
+    description: text("description"),
+    effectiveDate: timestamp("effective_date"),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_price_catalog_price").on(table.serviceCode, table.region, table.usageType, table.operation),
+  ],
+);
+
+export const priceCatalogQuerySchema = z.object({
+  serviceCode: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+  usageType: z.string().min(1).optional(),
+});
+
+export type PriceCatalogQuery = z.infer<typeof priceCatalogQuerySchema>;
+export type CatalogPrice = typeof priceCatalog.$inferSelect;
+export type InsertCatalogPrice = Omit<CatalogPrice, 'id' | 'importedAt'>;
+
+// Resource inventory captured by benchmark scans, one snapshot per account, region and scan
+export const inventorySnapshots = pgTable(
+  "inventory_snapshots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    awsAccountId: varchar("aws_account_id").notNull().references(() => awsAccounts.id, { onDelete: "cascade" }),
+    benchmarkResultId: varchar("benchmark_result_id").references(() => benchmarkResults.id, { onDelete: "set null" }),
+    region: varchar("region", { length: 32 }).notNull(), // Region scanned (global resources are in the account's default region)
+    resourceKinds: jsonb("resource_kinds").$type<string[]>().notNull(), // Collector kinds captured, e.g. ["ec2:volumes"]
+    resourceCount: integer("resource_count").notNull().default(0),
+    capturedAt: timestamp("captured_at").defaultNow(),
+  },
+  (table) => [index("IDX_inventory_snapshot_account").on(table.awsAccountId, table.capturedAt)],
+);
+
+export type InventoryAttributes = Record<string, string | number | boolean | null>;
+
+export const inventoryResources = pgTable(
+  "inventory_resources",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    snapshotId: varchar("snapshot_id").notNull().references(() => inventorySnapshots.id, { onDelete: "cascade" }),
+    awsAccountId: varchar("aws_account_id").notNull().references(() => awsAccounts.id, { onDelete: "cascade" }),
+    region: varchar("region", { length: 32 }).notNull(), // Region of the resource itself
+    resourceType: varchar("resource_type", { length: 64 }).notNull(), // Collector kind, e.g. "ec2:instances"
+    resourceId: varchar("resource_id", { length: 512 }).notNull(), // Same ID findings use
+    name: varchar("name", { length: 255 }),
+    state: varchar("state", { length: 64 }),
+    attributes: jsonb("attributes").$type<InventoryAttributes>().notNull(), // Key attributes, e.g. instanceType, sizeGb
+    tags: jsonb("tags").$type<Record<string, string>>(), // null when the describe call returns no tags
+  },
+  (table) => [
+    index("IDX_inventory_resource_snapshot").on(table.snapshotId, table.resourceType),
+    index("IDX_inventory_resource_account").on(table.awsAccountId, table.resourceId),
+  ],
+);
+
+export type InventorySnapshot = typeof inventorySnapshots.$inferSelect;
+export type InventoryResource = typeof inventoryResources.$inferSelect;
+export type InventoryResourceInput = Omit<InventoryResource, 'id' | 'snapshotId' | 'awsAccountId'>;
+
+export const inventoryQuerySchema = z.object({
+  awsAccountId: z.string().min(1),
+  resourceType: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+});
+
+export type InventoryQuery = z.infer<typeof inventoryQuerySchema>;
+
+export const inventoryChangesQuerySchema = z.object({
+  awsAccountId: z.string().min(1),
+  target: z.string().min(1).optional(), // Benchmark result ID of the later scan; defaults to the latest scan
+  base: z.string().min(1).optional(), // Benchmark result ID of the earlier scan; defaults to the scan before target
+});
+
+// Inventory changes - resources created, deleted or modified between two scans
+export const inventoryChangeTypeSchema = z.enum(['created', 'deleted', 'modified']);
+
+const inventoryValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const inventoryFieldChangeSchema = z.object({
+  field: z.string(), // Attribute name, "name", "state" or "tag:<key>"
+  before: inventoryValueSchema,
+  after: inventoryValueSchema,
+});
+
+export const inventoryChangeSchema = z.object({
+  changeType: inventoryChangeTypeSchema,
+  resourceType: z.string(), // Collector kind, e.g. "ec2:instances"
+  resourceId: z.string(),
+  region: z.string(),
+  name: z.string().nullable(),
+  changes: z.array(inventoryFieldChangeSchema), // Empty for created and deleted resources
+  baseMonthlyCostCents: z.number().nullable(), // null when the resource didn't exist or can't be priced
+  targetMonthlyCostCents: z.number().nullable(),
+  costImpactCents: z.number().nullable(), // Change in monthly cost; null when either side can't be priced
+});
+
+export const inventoryDiffSchema = z.object({
+  awsAccountId: z.string(),
+  baseResultId: z.string(),
+  targetResultId: z.string(),
+  baseCapturedAt: z.string().nullable(),
+  targetCapturedAt: z.string().nullable(),
+  summary: z.object({
+    created: z.number(),
+    deleted: z.number(),
+    modified: z.number(),
+    costImpactCents: z.number(), // Sum over the changes that could be priced
+    unpricedChanges: z.number(),
+  }),
+  changes: z.array(inventoryChangeSchema),
+});
+
+export type InventoryChangesQuery = z.infer<typeof inventoryChangesQuerySchema>;
+export type InventoryChangeType = z.infer<typeof inventoryChangeTypeSchema>;
+export type InventoryFieldChange = z.infer<typeof inventoryFieldChangeSchema>;
+export type InventoryChange = z.infer<typeof inventoryChangeSchema>;
+export type InventoryDiff = z.infer<typeof inventoryDiffSchema>;
+
 // Query history table
 export const queryHistory = pgTable("query_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -259,3 +702,79 @@ export const costForecastSchema = z.object({
 export type ForecastPeriod = z.infer<typeof forecastPeriodSchema>;
 export type CostForecast = z.infer<typeof costForecastSchema>;
 export type ForecastTimePeriod = z.infer<typeof costForecastSchema>['timePeriod'];
+
+// Benchmark job types (benchmarks run asynchronously; the API reports job state)
+export const runBenchmarkSchema = z.object({
+  benchmarkId: z.string().min(1),
+  useSteampipe: z.boolean().optional().default(false),
+});
+
+export const benchmarkJobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']);
+
+export const controlErrorSchema = z.object({
+  controlId: z.string(),
+  region: z.string().optional(),
+  message: z.string(),
+});
+
+export const benchmarkJobProgressSchema = z.object({
+  completedControls: z.number(),
+  totalControls: z.number(), // 0 until the run knows how many controls it will evaluate
+  findings: z.number(), // Failed resource checks found so far
+  resourcesScanned: z.number(),
+  estimatedSavings: z.number(), // Running total in cents (before savings are capped to service costs)
+  currentControl: z.string().nullable(),
+  currentRegion: z.string().nullable(),
+  message: z.string().nullable(), // Human-readable phase, e.g. "Calculating savings"
+});
+
+export const benchmarkJobSchema = z.object({
+  id: z.string(),
+  awsAccountId: z.string(),
+  benchmarkId: z.string(),
+  useSteampipe: z.boolean(),
+  status: benchmarkJobStatusSchema,
+  progress: benchmarkJobProgressSchema,
+  controlErrors: z.array(controlErrorSchema),
+  unmappedControls: z.array(z.string()), // Failed controls with no savings model, so no savings estimate
+  error: z.string().nullable(),
+  benchmarkResultId: z.string().nullable(), // Set once the run is saved
+  estimatedSavings: z.number().nullable(), // in cents
+  createdAt: z.string(),
+  startedAt: z.string().nullable(),
+  finishedAt: z.string().nullable(),
+});
+
+// Events streamed from /api/benchmarks/jobs/:id/events
+export const benchmarkControlEventSchema = z.object({
+  type: z.literal('control'),
+  controlId: z.string(),
+  region: z.string().nullable(),
+  resourcesScanned: z.number(), // Resources the control evaluated
+  findings: z.number(), // Resources that failed the control
+  error: z.string().nullable(),
+});
+
+export const benchmarkFindingEventSchema = z.object({
+  type: z.literal('finding'),
+  controlId: z.string(),
+  resourceId: z.string().nullable(),
+  region: z.string().nullable(),
+  estimatedSavings: z.number(), // in cents
+  reason: z.string().nullable(),
+});
+
+export const benchmarkJobEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('job'), job: benchmarkJobSchema }),
+  benchmarkControlEventSchema,
+  benchmarkFindingEventSchema,
+]);
+
+export type RunBenchmarkInput = z.infer<typeof runBenchmarkSchema>;
+export type BenchmarkJobStatus = z.infer<typeof benchmarkJobStatusSchema>;
+export type ControlError = z.infer<typeof controlErrorSchema>;
+export type BenchmarkJobProgress = z.infer<typeof benchmarkJobProgressSchema>;
+export type BenchmarkJob = z.infer<typeof benchmarkJobSchema>;
+export type BenchmarkControlEvent = z.infer<typeof benchmarkControlEventSchema>;
+export type BenchmarkFindingEvent = z.infer<typeof benchmarkFindingEventSchema>;
+export type BenchmarkJobEvent = z.infer<typeof benchmarkJobEventSchema>;